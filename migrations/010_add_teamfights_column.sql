@@ -0,0 +1,5 @@
+-- Migration: Add teamfights column to analyses table
+-- Run with: npx wrangler d1 execute nexra-db --file=migrations/010_add_teamfights_column.sql
+
+-- Teamfights detected from the match timeline (JSON array)
+ALTER TABLE analyses ADD COLUMN teamfights TEXT;
@@ -0,0 +1,12 @@
+-- Migration: Add benchmarks table for tunable benchmark overrides
+-- Run with: npx wrangler d1 execute nexra-db --file=migrations/011_add_benchmarks_table.sql
+
+-- Overrides merged over the code defaults; '*' in role, tier or patch matches everything
+CREATE TABLE IF NOT EXISTS benchmarks (
+    role TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    patch TEXT NOT NULL,
+    benchmark_values TEXT NOT NULL, -- JSON, partial benchmark values
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (role, tier, patch)
+);
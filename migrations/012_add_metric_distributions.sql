@@ -0,0 +1,32 @@
+-- Migration: Add per-game metric samples and their aggregated distributions
+-- Run with: npx wrangler d1 execute nexra-db --file=migrations/012_add_metric_distributions.sql
+
+-- One sample per player and match, written when an analysis completes (re-analyses replace it)
+CREATE TABLE IF NOT EXISTS analysis_metrics (
+    match_id TEXT NOT NULL,
+    puuid TEXT NOT NULL,
+    analysis_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    tier TEXT, -- Benchmark bracket, NULL when the player's rank is unknown
+    cs_per_min REAL NOT NULL,
+    vision_score REAL NOT NULL,
+    kda REAL NOT NULL,
+    dpm REAL NOT NULL,
+    deaths_per_min REAL NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (match_id, puuid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_metrics_created_at ON analysis_metrics(created_at);
+
+-- Quantiles rebuilt by the daily aggregation; tier '*' pools every bracket of the role
+CREATE TABLE IF NOT EXISTS metric_distributions (
+    role TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    sample_size INTEGER NOT NULL,
+    mean REAL NOT NULL,
+    quantiles TEXT NOT NULL, -- JSON array, value at each percentile 0..100
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (role, tier, metric)
+);
@@ -0,0 +1,27 @@
+-- Migration: Add LLM token usage and cost accounting
+-- Run with: npx wrangler d1 execute nexra-db --file=migrations/013_add_llm_usage.sql
+
+-- One row per model call; user and tier are captured when the call is made
+CREATE TABLE IF NOT EXISTS llm_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    analysis_id TEXT NOT NULL,
+    user_id TEXT,
+    subscription_tier TEXT NOT NULL DEFAULT 'free',
+    call_site TEXT NOT NULL, -- coaching, clip-vision
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL, -- Includes image and cached tokens
+    output_tokens INTEGER NOT NULL,
+    image_tokens INTEGER NOT NULL DEFAULT 0, -- Estimated share of input_tokens spent on images
+    cost_usd REAL NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id ON llm_usage(user_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_analysis_id ON llm_usage(analysis_id);
+
+-- Totals of every call made for the analysis
+ALTER TABLE analyses ADD COLUMN llm_input_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE analyses ADD COLUMN llm_output_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE analyses ADD COLUMN llm_image_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE analyses ADD COLUMN llm_cost_usd REAL NOT NULL DEFAULT 0;
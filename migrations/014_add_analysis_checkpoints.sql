@@ -0,0 +1,24 @@
+-- Migration: Add analysis checkpoints and stage history
+-- Run with: npx wrangler d1 execute nexra-db --file=migrations/014_add_analysis_checkpoints.sql
+
+-- Output of each completed stage, so a retried job resumes instead of paying for the calls again
+-- Cleared once the analysis is saved
+CREATE TABLE IF NOT EXISTS analysis_checkpoints (
+    analysis_id TEXT NOT NULL,
+    stage TEXT NOT NULL, -- match-data, clip-vision:<clip index>, coaching
+    payload TEXT NOT NULL, -- JSON
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (analysis_id, stage)
+);
+
+-- Every stage transition of every attempt, kept for debugging
+CREATE TABLE IF NOT EXISTS analysis_stage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    analysis_id TEXT NOT NULL,
+    stage TEXT NOT NULL,
+    status TEXT NOT NULL, -- started, completed, resumed, failed
+    message TEXT, -- Error of failed stages
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_stage_events_analysis_id ON analysis_stage_events(analysis_id);
@@ -7,7 +7,9 @@ import recordingsRoutes from './routes/recordings';
 import visionRoutes from './routes/vision';
 import usersRoutes from './routes/users';
 import authRoutes from './routes/auth';
+import adminRoutes from './routes/admin';
 import { processAnalysisJob } from './services/analyzer';
+import { aggregateMetricDistributions } from './services/metric-distributions';
 import { securityHeaders } from './middleware/auth';
 
 const app = new Hono<{ Bindings: Env }>();
@@ -53,6 +55,7 @@ app.route('/recordings', recordingsRoutes);
 app.route('/vision', visionRoutes);
 app.route('/users', usersRoutes);
 app.route('/auth', authRoutes);
+app.route('/admin', adminRoutes);
 
 // 404 handler
 app.notFound((c) => {
@@ -81,4 +84,9 @@ export default {
       }
     }
   },
+
+  // Cron trigger: rebuild the comparedToRank distributions from completed analyses
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(aggregateMetricDistributions(env));
+  },
 };
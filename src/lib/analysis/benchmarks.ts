@@ -0,0 +1,248 @@
+// Benchmarks - Expected values by role, rank bracket and patch, shared by detectors, scores and prompts
+// Code defaults are the baseline; overrides stored in D1 (see services/benchmark-store) are merged on top
+
+export const BENCHMARK_ROLES = ['TOP', 'JUNGLE', 'MID', 'ADC', 'SUPPORT', 'UNKNOWN'] as const;
+export type BenchmarkRole = typeof BENCHMARK_ROLES[number];
+
+// Rank brackets the tables are tuned for (Riot tiers are grouped into them)
+export const BENCHMARK_TIERS = ['BRONZE_SILVER', 'GOLD_PLATINUM', 'DIAMOND_PLUS'] as const;
+export type BenchmarkTier = typeof BENCHMARK_TIERS[number];
+
+export type GamePhase = 'early' | 'mid' | 'late';
+
+// For "lower is better" metrics (deaths), good < average < poor
+export interface BenchmarkRange {
+  poor: number;
+  average: number;
+  good: number;
+}
+
+export type PhaseBenchmarks = Record<GamePhase, BenchmarkRange>;
+
+// Per-game metrics with a typical value for the role and bracket
+export type BenchmarkMetric = 'csPerMin' | 'visionScore' | 'wardsPerMin' | 'deaths' | 'kda' | 'dpm' | 'killParticipation';
+
+export interface Benchmarks {
+  // Typical player of the role and bracket (prompt tables, comparedToRank)
+  csPerMin: BenchmarkRange;
+  visionScore: BenchmarkRange;
+  wardsPerMin: BenchmarkRange;
+  deaths: BenchmarkRange;
+  kda: BenchmarkRange;
+  dpm: BenchmarkRange;
+  killParticipation: BenchmarkRange; // percent
+  // Detector thresholds by game phase
+  csPerMinByPhase: PhaseBenchmarks;
+  wardsPer5MinByPhase: PhaseBenchmarks;
+  // Bonus/penalty thresholds of calculateScores
+  scoring: {
+    csPerMin: BenchmarkRange;
+    wardsPerMin: BenchmarkRange;
+    deathsPerMin: BenchmarkRange;
+  };
+}
+
+export type BenchmarkValues = {
+  [K in keyof Benchmarks]?: Benchmarks[K] extends BenchmarkRange
+    ? Partial<BenchmarkRange>
+    : { [P in keyof Benchmarks[K]]?: Partial<BenchmarkRange> };
+};
+
+/**
+ * Stored override. '*' matches every role, bracket or patch; patches are "major.minor" (e.g. "14.20").
+ */
+export interface BenchmarkOverride {
+  role: BenchmarkRole | '*';
+  tier: BenchmarkTier | '*';
+  patch: string;
+  values: BenchmarkValues;
+  updatedAt?: string;
+}
+
+// Bracket used when the player's rank is unknown
+export const DEFAULT_TIER: BenchmarkTier = 'GOLD_PLATINUM';
+
+const TIER_BRACKETS: Record<string, BenchmarkTier> = {
+  IRON: 'BRONZE_SILVER',
+  BRONZE: 'BRONZE_SILVER',
+  SILVER: 'BRONZE_SILVER',
+  GOLD: 'GOLD_PLATINUM',
+  PLATINUM: 'GOLD_PLATINUM',
+  EMERALD: 'GOLD_PLATINUM',
+  DIAMOND: 'DIAMOND_PLUS',
+  MASTER: 'DIAMOND_PLUS',
+  GRANDMASTER: 'DIAMOND_PLUS',
+  CHALLENGER: 'DIAMOND_PLUS',
+};
+
+function range(poor: number, average: number, good: number): BenchmarkRange {
+  return { poor, average, good };
+}
+
+// Detector and score thresholds are the same for every role and bracket until tuned
+const CS_PER_MIN_BY_PHASE: PhaseBenchmarks = {
+  early: range(5, 6, 7),     // 0-14 min
+  mid: range(5.5, 6.5, 7.5), // 14-25 min
+  late: range(6, 7, 8),      // 25+ min
+};
+
+const SUPPORT_WARDS_PER_5_MIN: PhaseBenchmarks = {
+  early: range(1, 3, 5),
+  mid: range(2, 5, 8),
+  late: range(3, 6, 10),
+};
+
+// Laners are expected to place 60% of a support's wards
+const LANER_WARDS_PER_5_MIN: PhaseBenchmarks = {
+  early: range(0.6, 1.8, 3),
+  mid: range(1.2, 3, 4.8),
+  late: range(1.8, 3.6, 6),
+};
+
+export const DEFAULT_SCORING_BENCHMARKS: Benchmarks['scoring'] = {
+  csPerMin: range(5, 7, 8),
+  wardsPerMin: range(0.3, 0.7, 1.0),
+  deathsPerMin: range(0.4, 0.3, 0.2),
+};
+
+const DEATHS: Record<BenchmarkTier, BenchmarkRange> = {
+  BRONZE_SILVER: range(7, 6, 5),
+  GOLD_PLATINUM: range(5, 4, 3),
+  DIAMOND_PLUS: range(4, 3, 2),
+};
+
+const KDA: Record<BenchmarkTier, BenchmarkRange> = {
+  BRONZE_SILVER: range(1.5, 2.2, 3.5),
+  GOLD_PLATINUM: range(1.5, 2.5, 4),
+  DIAMOND_PLUS: range(2, 3, 4.5),
+};
+
+const ROLE_METRICS: Record<BenchmarkRole, Record<BenchmarkTier, Pick<Benchmarks, Exclude<BenchmarkMetric, 'deaths' | 'kda'>>>> = {
+  TOP: {
+    BRONZE_SILVER: { csPerMin: range(5.5, 6, 6.5), visionScore: range(15, 18, 20), wardsPerMin: range(0.3, 0.4, 0.5), dpm: range(400, 450, 500), killParticipation: range(35, 40, 45) },
+    GOLD_PLATINUM: { csPerMin: range(6.5, 7.3, 8), visionScore: range(20, 30, 40), wardsPerMin: range(0.4, 0.5, 0.6), dpm: range(500, 550, 600), killParticipation: range(40, 45, 55) },
+    DIAMOND_PLUS: { csPerMin: range(7.5, 8, 9), visionScore: range(35, 40, 50), wardsPerMin: range(0.5, 0.6, 0.7), dpm: range(550, 600, 700), killParticipation: range(45, 50, 60) },
+  },
+  JUNGLE: {
+    BRONZE_SILVER: { csPerMin: range(4.5, 4.8, 5), visionScore: range(25, 30, 35), wardsPerMin: range(0.4, 0.5, 0.6), dpm: range(300, 350, 400), killParticipation: range(40, 45, 50) },
+    GOLD_PLATINUM: { csPerMin: range(5, 5.8, 6), visionScore: range(30, 45, 50), wardsPerMin: range(0.5, 0.6, 0.8), dpm: range(350, 400, 500), killParticipation: range(55, 60, 65) },
+    DIAMOND_PLUS: { csPerMin: range(6, 6.5, 7), visionScore: range(45, 55, 65), wardsPerMin: range(0.6, 0.8, 1.0), dpm: range(400, 450, 550), killParticipation: range(65, 70, 80) },
+  },
+  MID: {
+    BRONZE_SILVER: { csPerMin: range(6, 6.5, 7), visionScore: range(20, 22, 25), wardsPerMin: range(0.3, 0.4, 0.5), dpm: range(450, 500, 550), killParticipation: range(40, 45, 50) },
+    GOLD_PLATINUM: { csPerMin: range(7, 8, 8.5), visionScore: range(25, 35, 40), wardsPerMin: range(0.4, 0.5, 0.6), dpm: range(500, 625, 700), killParticipation: range(45, 55, 60) },
+    DIAMOND_PLUS: { csPerMin: range(8, 9, 10), visionScore: range(35, 45, 55), wardsPerMin: range(0.5, 0.6, 0.7), dpm: range(650, 750, 850), killParticipation: range(55, 60, 70) },
+  },
+  ADC: {
+    BRONZE_SILVER: { csPerMin: range(6.5, 7, 7.5), visionScore: range(15, 18, 20), wardsPerMin: range(0.3, 0.4, 0.5), dpm: range(500, 550, 600), killParticipation: range(40, 45, 50) },
+    GOLD_PLATINUM: { csPerMin: range(7.5, 8.5, 9), visionScore: range(20, 25, 30), wardsPerMin: range(0.4, 0.5, 0.6), dpm: range(550, 725, 750), killParticipation: range(45, 55, 60) },
+    DIAMOND_PLUS: { csPerMin: range(8.5, 9.5, 10.5), visionScore: range(25, 30, 40), wardsPerMin: range(0.5, 0.6, 0.7), dpm: range(750, 850, 950), killParticipation: range(55, 60, 70) },
+  },
+  SUPPORT: {
+    BRONZE_SILVER: { csPerMin: range(1, 1.5, 2), visionScore: range(35, 40, 45), wardsPerMin: range(0.8, 0.9, 1.0), dpm: range(200, 250, 300), killParticipation: range(50, 55, 60) },
+    GOLD_PLATINUM: { csPerMin: range(1, 1.5, 2), visionScore: range(40, 57, 60), wardsPerMin: range(1.0, 1.35, 1.5), dpm: range(250, 300, 400), killParticipation: range(65, 70, 75) },
+    DIAMOND_PLUS: { csPerMin: range(1, 1.5, 2), visionScore: range(65, 75, 85), wardsPerMin: range(1.5, 1.8, 2.1), dpm: range(300, 350, 450), killParticipation: range(75, 80, 90) },
+  },
+  UNKNOWN: {
+    BRONZE_SILVER: { csPerMin: range(5, 6, 7), visionScore: range(15, 20, 25), wardsPerMin: range(0.3, 0.4, 0.6), dpm: range(400, 450, 500), killParticipation: range(40, 45, 50) },
+    GOLD_PLATINUM: { csPerMin: range(6, 7, 8), visionScore: range(20, 25, 35), wardsPerMin: range(0.4, 0.5, 0.7), dpm: range(450, 500, 600), killParticipation: range(45, 50, 60) },
+    DIAMOND_PLUS: { csPerMin: range(7, 8, 9), visionScore: range(30, 35, 45), wardsPerMin: range(0.5, 0.6, 0.8), dpm: range(550, 600, 700), killParticipation: range(55, 60, 70) },
+  },
+};
+
+export function getDefaultBenchmarks(role: BenchmarkRole, tier: BenchmarkTier): Benchmarks {
+  return {
+    ...ROLE_METRICS[role][tier],
+    deaths: DEATHS[tier],
+    kda: KDA[tier],
+    csPerMinByPhase: CS_PER_MIN_BY_PHASE,
+    wardsPer5MinByPhase: role === 'SUPPORT' ? SUPPORT_WARDS_PER_5_MIN : LANER_WARDS_PER_5_MIN,
+    scoring: DEFAULT_SCORING_BENCHMARKS,
+  };
+}
+
+// "IRON".."CHALLENGER" (any case) to a bracket; unranked or unknown players use the default bracket
+export function toBenchmarkTier(riotTier?: string): BenchmarkTier {
+  return TIER_BRACKETS[riotTier?.toUpperCase() || ''] || DEFAULT_TIER;
+}
+
+// "14.20.628.1234" -> "14.20"
+export function toPatch(gameVersion?: string): string | undefined {
+  const match = gameVersion?.match(/^(\d+)\.(\d+)/);
+  return match ? `${match[1]}.${match[2]}` : undefined;
+}
+
+function matches(override: BenchmarkOverride, role: BenchmarkRole, tier: BenchmarkTier, patch?: string): boolean {
+  return (override.role === '*' || override.role === role) &&
+    (override.tier === '*' || override.tier === tier) &&
+    (override.patch === '*' || override.patch === patch);
+}
+
+// Patch-specific overrides beat bracket-specific ones, which beat role-specific ones
+function specificity(override: BenchmarkOverride): number {
+  return (override.role !== '*' ? 1 : 0) + (override.tier !== '*' ? 2 : 0) + (override.patch !== '*' ? 4 : 0);
+}
+
+function mergeValues<T extends object>(base: T, values: object): T {
+  const merged = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(values)) {
+    if (!(key in merged) || value === undefined) continue;
+    const current = merged[key];
+    merged[key] = typeof value === 'object' && value !== null && typeof current === 'object' && current !== null
+      ? mergeValues(current, value)
+      : value;
+  }
+  return merged as T;
+}
+
+/**
+ * Benchmarks for a player: code defaults, then every matching override from least to most specific.
+ */
+export function resolveBenchmarks(
+  overrides: BenchmarkOverride[],
+  role: BenchmarkRole,
+  tier: BenchmarkTier = DEFAULT_TIER,
+  patch?: string
+): Benchmarks {
+  return overrides
+    .filter(override => matches(override, role, tier, patch))
+    .sort((a, b) => specificity(a) - specificity(b))
+    .reduce((benchmarks, override) => mergeValues(benchmarks, override.values), getDefaultBenchmarks(role, tier));
+}
+
+const POSITION_ROLES: Record<string, BenchmarkRole> = {
+  MIDDLE: 'MID',
+  BOTTOM: 'ADC',
+  UTILITY: 'SUPPORT',
+};
+
+// Known roles and Riot positions pass through, anything else (e.g. an empty teamPosition) is UNKNOWN
+export function toBenchmarkRole(role?: string): BenchmarkRole {
+  return POSITION_ROLES[role || ''] || BENCHMARK_ROLES.find(r => r === role) || 'UNKNOWN';
+}
+
+// Same role and patch in every bracket (prompt tables compare them side by side)
+export function resolveBenchmarksByTier(
+  overrides: BenchmarkOverride[],
+  role: BenchmarkRole,
+  patch?: string
+): Record<BenchmarkTier, Benchmarks> {
+  return {
+    BRONZE_SILVER: resolveBenchmarks(overrides, role, 'BRONZE_SILVER', patch),
+    GOLD_PLATINUM: resolveBenchmarks(overrides, role, 'GOLD_PLATINUM', patch),
+    DIAMOND_PLUS: resolveBenchmarks(overrides, role, 'DIAMOND_PLUS', patch),
+  };
+}
+
+/**
+ * Where a value sits against a range: below poor, at or above good, or in between.
+ * Deaths are "lower is better": more than poor is poor, good or fewer is good.
+ */
+export function rateValue(range: BenchmarkRange, value: number, lowerIsBetter = false): 'poor' | 'average' | 'good' {
+  if (lowerIsBetter) {
+    if (value > range.poor) return 'poor';
+    return value <= range.good ? 'good' : 'average';
+  }
+  if (value < range.poor) return 'poor';
+  return value >= range.good ? 'good' : 'average';
+}
@@ -0,0 +1,140 @@
+// ARAM Analyzer - Damage share, death frequency and poke taken on the Howling Abyss
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+  AramBenchmarks,
+  AramSummary,
+} from '../types';
+import { msg } from '../i18n';
+
+// Poke is only judged over enough quiet minutes to be meaningful
+const MIN_POKE_MINUTES = 3;
+
+export interface AramResult extends DetectorResult {
+  aram: AramSummary | null;
+}
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+export function analyzeAram(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string,
+  benchmarks: AramBenchmarks
+): AramResult {
+  const errors: DetectorError[] = [];
+  const stats: AramSummary = {
+    damageShare: 0,
+    deathsPer10: 0,
+    pokeTakenPerMin: 0,
+    teamPokeTakenPerMin: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant || frames.length < 2) {
+    return { errors, stats: { ...stats }, aram: null };
+  }
+
+  const playerKey = playerParticipant.participantId.toString();
+  const allies = participants.filter(p => p.teamId === playerParticipant.teamId);
+  const lastFrame = frames[frames.length - 1];
+  const gameEnd = lastFrame.timestamp;
+  const endPhase = getGamePhase(gameEnd);
+
+  // 1. Damage share (from the last frame's cumulative damage)
+  const teamDamage = allies.reduce((sum, p) =>
+    sum + (lastFrame.participantFrames[p.participantId.toString()]?.damageStats?.totalDamageDoneToChampions || 0), 0);
+  const playerDamage = lastFrame.participantFrames[playerKey]?.damageStats?.totalDamageDoneToChampions || 0;
+
+  if (teamDamage > 0) {
+    const share = playerDamage / teamDamage;
+    stats.damageShare = Math.round(share * 1000) / 10;
+
+    if (share < benchmarks.minDamageShare) {
+      errors.push({
+        type: 'teamfight',
+        severity: share < benchmarks.minDamageShare * 0.66 ? 'high' : 'medium',
+        timestamp: Math.floor(gameEnd / 1000),
+        message: msg('aram.damageShare', {
+          share: stats.damageShare,
+          target: Math.round(benchmarks.minDamageShare * 100),
+        }),
+        context: {
+          gamePhase: endPhase,
+        },
+      });
+    }
+  }
+
+  // 2. Death frequency
+  const minutes = gameEnd / 60000;
+  stats.deathsPer10 = minutes > 0 ? Math.round((playerParticipant.deaths / minutes) * 100) / 10 : 0;
+
+  if (stats.deathsPer10 > benchmarks.maxDeathsPer10) {
+    errors.push({
+      type: 'positioning',
+      severity: stats.deathsPer10 > benchmarks.maxDeathsPer10 * 1.4 ? 'high' : 'medium',
+      timestamp: Math.floor(gameEnd / 1000),
+      message: msg('aram.deaths', {
+        deaths: playerParticipant.deaths,
+        per10: stats.deathsPer10,
+        max: benchmarks.maxDeathsPer10,
+      }),
+      context: {
+        gamePhase: endPhase,
+      },
+    });
+  }
+
+  // 3. Poke taken: damage received during minutes without any kill (no fight)
+  const pokeByParticipant = new Map<string, number>();
+  let pokeMinutes = 0;
+
+  for (let i = 1; i < frames.length; i++) {
+    const from = frames[i - 1].timestamp;
+    const to = frames[i].timestamp;
+    const fight = frames[i].events.some(e => e.type === 'CHAMPION_KILL' && e.timestamp > from && e.timestamp <= to);
+    if (fight) continue;
+
+    pokeMinutes++;
+    for (const ally of allies) {
+      const key = ally.participantId.toString();
+      const taken = (frames[i].participantFrames[key]?.damageStats?.totalDamageTaken || 0) -
+        (frames[i - 1].participantFrames[key]?.damageStats?.totalDamageTaken || 0);
+      pokeByParticipant.set(key, (pokeByParticipant.get(key) || 0) + Math.max(0, taken));
+    }
+  }
+
+  if (pokeMinutes >= MIN_POKE_MINUTES) {
+    const teamPoke = [...pokeByParticipant.values()].reduce((sum, v) => sum + v, 0);
+    stats.pokeTakenPerMin = Math.round((pokeByParticipant.get(playerKey) || 0) / pokeMinutes);
+    stats.teamPokeTakenPerMin = Math.round(teamPoke / allies.length / pokeMinutes);
+
+    const ratio = stats.teamPokeTakenPerMin > 0 ? stats.pokeTakenPerMin / stats.teamPokeTakenPerMin : 0;
+    if (ratio > benchmarks.maxPokeRatio) {
+      errors.push({
+        type: 'positioning',
+        severity: ratio > benchmarks.maxPokeRatio * 1.5 ? 'high' : 'medium',
+        timestamp: Math.floor(gameEnd / 1000),
+        message: msg('aram.poke', {
+          taken: stats.pokeTakenPerMin,
+          team: stats.teamPokeTakenPerMin,
+          ratio: ratio.toFixed(1),
+        }),
+        context: {
+          gamePhase: endPhase,
+        },
+      });
+    }
+  }
+
+  return { errors, stats: { ...stats }, aram: stats };
+}
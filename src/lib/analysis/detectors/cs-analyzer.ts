@@ -3,16 +3,11 @@
 import {
   TimelineFrame,
   MatchParticipant,
-  DetectedError,
+  DetectorError,
   DetectorResult,
 } from '../types';
-
-// Expected CS per minute by game phase
-const CS_BENCHMARKS = {
-  early: { good: 7, average: 6, poor: 5 },   // 0-14 min
-  mid: { good: 7.5, average: 6.5, poor: 5.5 }, // 14-25 min
-  late: { good: 8, average: 7, poor: 6 },    // 25+ min
-};
+import { msg } from '../i18n';
+import { PhaseBenchmarks } from '../benchmarks';
 
 function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   const minutes = timestampMs / 60000;
@@ -24,9 +19,10 @@ function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
 export function analyzeCS(
   frames: TimelineFrame[],
   participants: MatchParticipant[],
-  playerPuuid: string
+  playerPuuid: string,
+  csPerMinByPhase: PhaseBenchmarks // Expected CS per minute by game phase
 ): DetectorResult {
-  const errors: DetectedError[] = [];
+  const errors: DetectorError[] = [];
   const stats = {
     avgCSPerMin: 0,
     maxCSDiff: 0,
@@ -71,7 +67,7 @@ export function analyzeCS(
     csCheckpoints++;
 
     const gamePhase = getGamePhase(checkpoint * 60000);
-    const benchmark = CS_BENCHMARKS[gamePhase];
+    const benchmark = csPerMinByPhase[gamePhase];
     const expectedCS = checkpoint * benchmark.average;
     const goodCS = checkpoint * benchmark.good;
 
@@ -99,14 +95,15 @@ export function analyzeCS(
             type: 'cs-missing',
             severity,
             timestamp: checkpoint * 60,
-            title: `Retard de CS a ${checkpoint} min`,
-            description: `Tu as ${playerCS} CS contre ${opponentCS} pour ton adversaire (${csDiff} CS, soit ~${goldLost} gold de retard).`,
-            suggestion: isJungler
-              ? 'Optimise tes clears de jungle. Ne rate pas de camps et time bien tes respawns.'
-              : 'Focus sur le last hit. Si la lane est difficile, utilise tes sorts pour securiser les CS sous tour.',
-            coachingNote: csDiff < -30
-              ? `${Math.abs(csDiff)} CS de retard est significatif. Ton adversaire a presque un item d'avance juste en CS.`
-              : 'Meme 15 CS de retard represente ~300 gold. Ca s\'accumule vite sur la duree de la partie.',
+            message: msg('cs.behind', {
+              minute: checkpoint,
+              cs: playerCS,
+              opponentCs: opponentCS,
+              diff: csDiff,
+              gold: goldLost,
+              advice: msg(isJungler ? 'cs.behind.jungler' : 'cs.behind.laner'),
+              note: csDiff < -30 ? msg('cs.behind.noteLarge', { missing: Math.abs(csDiff) }) : msg('cs.behind.note'),
+            }),
             context: {
               csState: {
                 player: playerCS,
@@ -129,12 +126,15 @@ export function analyzeCS(
           type: 'cs-missing',
           severity: 'medium',
           timestamp: checkpoint * 60,
-          title: `CS en dessous de la moyenne a ${checkpoint} min`,
-          description: `Tu as ${playerCS} CS (${csPerMin.toFixed(1)} CS/min). L'objectif est ${benchmark.average} CS/min minimum.`,
-          suggestion: isJungler
-            ? 'Assure-toi de clear tous tes camps efficacement et de ne pas perdre de temps entre les ganks.'
-            : 'Entraine-toi au last hit en practice tool. Chaque minion compte.',
-          coachingNote: `A ${checkpoint} min, tu devrais viser ${Math.round(expectedCS)} CS. Tu en as rate ${Math.round(expectedCS - playerCS)}.`,
+          message: msg('cs.belowAverage', {
+            minute: checkpoint,
+            cs: playerCS,
+            perMin: csPerMin.toFixed(1),
+            target: benchmark.average,
+            expected: Math.round(expectedCS),
+            missed: Math.round(expectedCS - playerCS),
+            advice: msg(isJungler ? 'cs.belowAverage.jungler' : 'cs.belowAverage.laner'),
+          }),
           context: {
             csState: {
               player: playerCS,
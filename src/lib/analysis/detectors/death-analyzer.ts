@@ -3,73 +3,12 @@
 import {
   TimelineFrame,
   MatchParticipant,
-  DetectedError,
+  DetectorError,
   DetectorResult,
-  MapZone,
+  Message,
 } from '../types';
-
-// Map coordinates to zones (Summoner's Rift)
-function getMapZone(x: number, y: number, playerTeamId: number): { zone: MapZone; safety: 'safe' | 'neutral' | 'danger' } {
-  const isBlueTeam = playerTeamId === 100;
-
-  // River zones
-  if ((x > 4000 && x < 11000 && y > 4000 && y < 11000) &&
-      Math.abs(x - (15000 - y)) < 3000) {
-    if (x < 6000 && y < 6000) {
-      return { zone: 'dragon_pit', safety: 'danger' };
-    }
-    if (x > 9000 && y > 9000) {
-      return { zone: 'baron_pit', safety: 'danger' };
-    }
-    if (y < 7500) {
-      return { zone: 'river_bot', safety: 'neutral' };
-    }
-    return { zone: 'river_top', safety: 'neutral' };
-  }
-
-  // Blue side jungle
-  if (x < 7000 && y < 7000 && !(x < 3000 && y < 3000)) {
-    return {
-      zone: 'blue_jungle',
-      safety: isBlueTeam ? 'safe' : 'danger',
-    };
-  }
-
-  // Red side jungle
-  if (x > 8000 && y > 8000 && !(x > 12000 && y > 12000)) {
-    return {
-      zone: 'red_jungle',
-      safety: isBlueTeam ? 'danger' : 'safe',
-    };
-  }
-
-  // Lanes
-  if (Math.abs(x - y) < 2000) {
-    return { zone: 'mid_lane', safety: 'neutral' };
-  }
-  if (y > x + 2000) {
-    return { zone: 'top_lane', safety: 'neutral' };
-  }
-  if (x > y + 2000) {
-    return { zone: 'bot_lane', safety: 'neutral' };
-  }
-
-  // Bases
-  if (x < 3000 && y < 3000) {
-    return {
-      zone: 'blue_base',
-      safety: isBlueTeam ? 'safe' : 'danger',
-    };
-  }
-  if (x > 12000 && y > 12000) {
-    return {
-      zone: 'red_base',
-      safety: isBlueTeam ? 'danger' : 'safe',
-    };
-  }
-
-  return { zone: 'mid_lane', safety: 'neutral' };
-}
+import { msg } from '../i18n';
+import { MapGeometry, SUMMONERS_RIFT, calculateDistance, getMapZone, getTurretStates, isUnderEnemyTurret } from '../map';
 
 function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   const minutes = timestampMs / 60000;
@@ -78,33 +17,6 @@ function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   return 'late';
 }
 
-function calculateDistance(p1: { x: number; y: number }, p2: { x: number; y: number }): number {
-  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
-}
-
-function isUnderEnemyTower(position: { x: number; y: number }, playerTeamId: number): boolean {
-  const blueTowers = [
-    { x: 1512, y: 1336 },
-    { x: 1169, y: 4287 },
-    { x: 4318, y: 1029 },
-    { x: 981, y: 10441 },
-    { x: 6919, y: 1483 },
-  ];
-
-  const redTowers = [
-    { x: 13604, y: 13350 },
-    { x: 13866, y: 10648 },
-    { x: 10504, y: 13604 },
-    { x: 8955, y: 13607 },
-    { x: 14340, y: 8012 },
-  ];
-
-  const enemyTowers = playerTeamId === 100 ? redTowers : blueTowers;
-  const towerRange = 850;
-
-  return enemyTowers.some(tower => calculateDistance(position, tower) < towerRange);
-}
-
 function findNearestAlly(
   position: { x: number; y: number },
   playerParticipantId: number,
@@ -136,9 +48,10 @@ function findNearestAlly(
 export function analyzeDeaths(
   frames: TimelineFrame[],
   participants: MatchParticipant[],
-  playerPuuid: string
+  playerPuuid: string,
+  map: MapGeometry = SUMMONERS_RIFT
 ): DetectorResult {
-  const errors: DetectedError[] = [];
+  const errors: DetectorError[] = [];
   const stats = {
     totalDeaths: 0,
     soloDeaths: 0,
@@ -159,6 +72,7 @@ export function analyzeDeaths(
   const opponent = participants.find(
     p => p.teamId !== playerTeamId && p.teamPosition === playerPosition
   );
+  const turrets = getTurretStates(frames, map);
 
   for (const frame of frames) {
     for (const event of frame.events) {
@@ -170,7 +84,7 @@ export function analyzeDeaths(
       const timestamp = event.timestamp;
       const gamePhase = getGamePhase(timestamp);
       const position = event.position || { x: 7500, y: 7500 };
-      const { safety } = getMapZone(position.x, position.y, playerTeamId);
+      const { safety } = getMapZone(position, playerTeamId, map);
 
       const currentFrameIndex = Math.floor(timestamp / 60000);
       const currentFrame = frames[currentFrameIndex] || frame;
@@ -194,7 +108,7 @@ export function analyzeDeaths(
         levelDifferential = playerFrame.level - killerFrame.level;
       }
 
-      const wasUnderTower = isUnderEnemyTower(position, playerTeamId);
+      const wasUnderTower = isUnderEnemyTurret(position, playerTeamId, turrets, timestamp);
       const nearestAlly = findNearestAlly(
         position,
         playerParticipantId,
@@ -207,10 +121,7 @@ export function analyzeDeaths(
       const wasGanked = assistCount >= 1;
 
       let severity: 'critical' | 'high' | 'medium' | 'low' = 'medium';
-      let title = '';
-      let description = '';
-      let suggestion = '';
-      let coachingNote = '';
+      let message: Message;
       let errorType = 'positioning';
 
       const minuteTimestamp = Math.floor(timestamp / 60000);
@@ -221,72 +132,61 @@ export function analyzeDeaths(
         stats.towerdiveDeaths++;
         severity = 'critical';
         errorType = 'positioning';
-        title = 'Mort sous tour ennemie';
-        description = `Tu es mort sous la tour ennemie a ${timeStr}. ${
-          wasGanked
-            ? `Tu as ete pris en sandwich par ${assistCount + 1} ennemis.`
-            : `${killer?.championName || 'L\'ennemi'} t'a tue sous sa tour.`
-        }`;
-        suggestion = 'Ne dive pas sans minions pour tanker la tour, et assure-toi d\'avoir assez de degats pour finir rapidement.';
-        coachingNote = wasGanked
-          ? 'Les dives coordonnes de l\'ennemi etaient probablement telegraphes. Regarde ta minimap avant d\'aller sous tour.'
-          : 'Avant de dive, verifie que tu as: 1) Des minions, 2) Assez de HP, 3) Tes cooldowns prets.';
+        message = msg('death.tower', {
+          time: timeStr,
+          detail: wasGanked
+            ? msg('death.tower.ganked', { count: assistCount + 1 })
+            : killer ? msg('death.tower.killedBy', { killer: killer.championName }) : msg('death.tower.killed'),
+          note: msg(wasGanked ? 'death.tower.noteGanked' : 'death.tower.noteSolo'),
+        });
       } else if (nearestAlly && nearestAlly.distance > 2500) {
         stats.isolatedDeaths++;
         severity = safety === 'danger' ? 'critical' : 'high';
         errorType = 'positioning';
-        title = 'Mort en position isolee';
-        description = `Tu es mort a ${timeStr} alors que tu etais isole. Ton allie le plus proche (${nearestAlly.champion}) etait a ${nearestAlly.distance} unites.`;
-        suggestion = 'Reste proche de ton equipe, surtout quand tu n\'as pas de vision de l\'ennemi.';
-        coachingNote = safety === 'danger'
-          ? `Tu etais en territoire ennemi. C'est tres risque sans ton equipe.`
-          : 'Meme en zone neutre, l\'isolation te rend vulnerable aux picks.';
+        message = msg('death.isolated', {
+          time: timeStr,
+          ally: nearestAlly.champion,
+          distance: nearestAlly.distance,
+          note: msg(safety === 'danger' ? 'death.isolated.noteDanger' : 'death.isolated.noteNeutral'),
+        });
       } else if (wasGanked && assistCount >= 2) {
         stats.gangDeaths++;
         severity = 'high';
         errorType = 'map-awareness';
-        title = 'Mort par gank multiple';
-        description = `Tu as ete tue par ${assistCount + 1} ennemis a ${timeStr}. ${
-          safety === 'danger'
-            ? 'Tu etais en territoire dangereux.'
-            : 'L\'ennemi a bien coordonne son gank.'
-        }`;
-        suggestion = 'Place plus de wards pour voir les rotations ennemies. Joue plus safe quand tu ne vois pas plusieurs ennemis sur la map.';
-        coachingNote = 'Avant de push ou de trade, compte les ennemis visibles sur la map. Si tu n\'en vois pas 3+, presume qu\'ils viennent vers toi.';
+        message = msg('death.gank', {
+          time: timeStr,
+          count: assistCount + 1,
+          detail: msg(safety === 'danger' ? 'death.gank.danger' : 'death.gank.coordinated'),
+        });
       } else if (goldDifferential < -1000) {
         severity = 'high';
         errorType = 'trading';
-        title = 'Mort avec desavantage gold';
-        description = `Tu es mort a ${timeStr} contre ${killer?.championName || 'ton adversaire'} alors que tu avais ${Math.abs(goldDifferential)} gold de retard.`;
-        suggestion = 'Evite les trades all-in quand tu es en retard. Farm safe et attends ton jungler ou un item powerspike.';
-        coachingNote = `Avec ${Math.abs(goldDifferential)} gold de retard, ton adversaire a probablement 1 item de plus que toi. Respecte ce powerspike.`;
+        message = msg('death.goldDeficit', {
+          time: timeStr,
+          killer: killer?.championName || msg('common.yourOpponent'),
+          gold: Math.abs(goldDifferential),
+        });
       } else if (levelDifferential < -1) {
         severity = 'medium';
         errorType = 'trading';
-        title = 'Mort avec desavantage de niveau';
-        description = `Tu es mort a ${timeStr} avec ${Math.abs(levelDifferential)} niveau(x) de retard sur ton adversaire.`;
-        suggestion = 'Le niveau donne acces a plus de points de competence et de stats. N\'engage pas contre quelqu\'un de niveau superieur.';
-        coachingNote = 'Chaque niveau donne environ 600 gold de stats. Attends d\'egaliser avant de fight.';
+        message = msg('death.levelDeficit', { time: timeStr, levels: Math.abs(levelDifferential) });
       } else {
         stats.soloDeaths++;
         severity = gamePhase === 'late' ? 'high' : 'medium';
         errorType = 'positioning';
-        title = 'Mort evitable';
-        description = `Tu es mort a ${timeStr} contre ${killer?.championName || 'l\'ennemi'}${wasGanked ? ' avec aide' : ''}.`;
-        suggestion = 'Analyse ce qui t\'a amene a cette position. Aurais-tu pu eviter ce fight?';
-        coachingNote = gamePhase === 'late'
-          ? 'En late game, une mort peut couter la partie. Sois extra prudent avec ton positionnement.'
-          : 'Chaque mort donne de l\'avantage a l\'ennemi. Minimise tes morts pour garder le controle.';
+        message = msg('death.avoidable', {
+          time: timeStr,
+          killer: killer?.championName || msg('common.theEnemy'),
+          help: wasGanked ? msg('death.avoidable.withHelp') : '',
+          note: msg(gamePhase === 'late' ? 'death.avoidable.noteLate' : 'death.avoidable.note'),
+        });
       }
 
       errors.push({
         type: errorType,
         severity,
         timestamp: Math.floor(timestamp / 1000),
-        title,
-        description,
-        suggestion,
-        coachingNote,
+        message,
         context: {
           goldState: {
             player: playerFrame?.totalGold || 0,
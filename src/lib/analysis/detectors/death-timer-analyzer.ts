@@ -0,0 +1,144 @@
+// Death Timer Analyzer - Relates deaths to respawn timers and the objectives lost while dead
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+} from '../types';
+import { msg } from '../i18n';
+
+// Base respawn wait (seconds) by champion level 1-18
+const BASE_RESPAWN_SECONDS = [6, 6, 8, 8, 10, 12, 16, 21, 26, 32.5, 35, 37.5, 40, 42.5, 45, 47.5, 50, 52.5];
+
+// An objective taken this long after a death is considered lost because of it
+const OBJECTIVE_WINDOW_MS = 90000;
+
+const OBJECTIVE_TYPES = ['DRAGON', 'ELDER_DRAGON', 'BARON_NASHOR', 'RIFTHERALD'];
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Respawn time (ms) from champion level and game time.
+ * Base wait by level, increased by the time impact factor after 15 minutes (capped at +50%).
+ */
+export function getRespawnTime(level: number, timestampMs: number): number {
+  const base = BASE_RESPAWN_SECONDS[Math.min(18, Math.max(1, level)) - 1];
+  const minutes = timestampMs / 60000;
+
+  let timeFactor = 0;
+  if (minutes >= 45) {
+    timeFactor = 0.2175 + Math.ceil(2 * (minutes - 45)) * 0.0145;
+  } else if (minutes >= 30) {
+    timeFactor = 0.1275 + Math.ceil(2 * (minutes - 30)) * 0.003;
+  } else if (minutes >= 15) {
+    timeFactor = Math.ceil(2 * (minutes - 15)) * 0.00425;
+  }
+
+  return Math.round(base * (1 + Math.min(0.5, timeFactor)) * 1000);
+}
+
+// Player level at a given time (from the last frame before it)
+export function getLevelAt(frames: TimelineFrame[], participantId: number, timestampMs: number): number {
+  const frame = frames[Math.min(frames.length - 1, Math.floor(timestampMs / 60000))];
+  return frame?.participantFrames[participantId.toString()]?.level || 1;
+}
+
+export function analyzeDeathTimers(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): DetectorResult {
+  const errors: DetectorError[] = [];
+  const stats = {
+    totalTimeDead: 0,
+    longestDeathTimer: 0,
+    deathsBeforeObjective: 0,
+    objectivesLostWhileDead: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant) {
+    return { errors, stats };
+  }
+
+  const playerId = playerParticipant.participantId;
+  const playerTeamId = playerParticipant.teamId;
+  const events = frames.flatMap(f => f.events);
+
+  const enemyObjectives = events.filter(e =>
+    e.type === 'ELITE_MONSTER_KILL' &&
+    e.killerTeamId !== playerTeamId &&
+    OBJECTIVE_TYPES.includes(e.monsterType || '')
+  );
+
+  for (const death of events.filter(e => e.type === 'CHAMPION_KILL' && e.victimId === playerId)) {
+    const level = getLevelAt(frames, playerId, death.timestamp);
+    const respawnTime = getRespawnTime(level, death.timestamp);
+    const respawnAt = death.timestamp + respawnTime;
+
+    stats.totalTimeDead += Math.round(respawnTime / 1000);
+    stats.longestDeathTimer = Math.max(stats.longestDeathTimer, Math.round(respawnTime / 1000));
+
+    // Objectives the enemy took while the player was still dead
+    const lost = enemyObjectives.filter(o =>
+      o.timestamp > death.timestamp &&
+      o.timestamp <= death.timestamp + OBJECTIVE_WINDOW_MS &&
+      o.timestamp < respawnAt
+    );
+    if (lost.length === 0) continue;
+
+    stats.deathsBeforeObjective++;
+    stats.objectivesLostWhileDead += lost.length;
+
+    const objective = lost[0];
+    const isMajor = lost.some(o => o.monsterType === 'BARON_NASHOR' || o.monsterType === 'ELDER_DRAGON');
+    const killer = participants.find(p => p.participantId === death.killerId);
+    const deadSeconds = Math.round(respawnTime / 1000);
+    const secondsBefore = Math.round((objective.timestamp - death.timestamp) / 1000);
+
+    errors.push({
+      type: 'death-timing',
+      severity: isMajor ? 'critical' : objective.monsterType === 'DRAGON' ? 'high' : 'medium',
+      timestamp: Math.floor(death.timestamp / 1000),
+      message: msg('deathTimer.beforeObjective', {
+        objective: lost.map(o => msg(`objectiveName.${o.monsterType}`)),
+        time: formatTime(death.timestamp),
+        killer: killer ? msg('deathTimer.killedBy', { killer: killer.championName }) : '',
+        respawn: deadSeconds,
+        level,
+        delay: secondsBefore,
+      }),
+      context: {
+        levelState: {
+          player: level,
+          opponent: 0,
+        },
+        objectiveState: {
+          objective: lost.map(o => o.monsterType).join(' + '),
+          takenAt: Math.floor(objective.timestamp / 1000),
+          timeDead: deadSeconds,
+          secondsBeforeObjective: secondsBefore,
+        },
+        mapState: {
+          zone: 'danger',
+          playerPosition: death.position,
+        },
+        gamePhase: getGamePhase(death.timestamp),
+      },
+    });
+  }
+
+  return { errors, stats };
+}
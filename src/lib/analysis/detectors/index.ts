@@ -4,3 +4,13 @@ export { analyzeDeaths } from './death-analyzer';
 export { analyzeCS } from './cs-analyzer';
 export { analyzeVision } from './vision-analyzer';
 export { analyzeObjectives } from './objective-analyzer';
+export { analyzeWaves } from './wave-analyzer';
+export { analyzeRecalls } from './recall-analyzer';
+export { analyzeItemization } from './itemization-analyzer';
+export { analyzeSkillOrder, RECOMMENDED_SKILL_ORDERS } from './skill-order-analyzer';
+export { analyzeTeamfights } from './teamfight-analyzer';
+export { analyzeJungle } from './jungle-analyzer';
+export { analyzeRoams } from './roam-analyzer';
+export { analyzeLanePhase } from './lane-phase-analyzer';
+export { analyzeDeathTimers, getRespawnTime } from './death-timer-analyzer';
+export { analyzeAram } from './aram-analyzer';
@@ -0,0 +1,275 @@
+// Itemization Analyzer - Rebuilds inventories from item events to track power spikes and control wards
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+  ItemizationSummary,
+  Message,
+} from '../types';
+import { msg } from '../i18n';
+
+const CONTROL_WARD_ID = 2055;
+
+// Completed (legendary) items - update when items change between seasons
+const LEGENDARY_ITEM_IDS = new Set([
+  // Marksman / crit / on-hit
+  3031, 3032, 3033, 3036, 3046, 3072, 3085, 3087, 3091, 3094, 3095, 3124, 3153, 3302, 3508,
+  6672, 6673, 6675, 6676,
+  // Fighter / bruiser
+  3053, 3071, 3073, 3074, 3078, 3161, 3181, 3748, 6333, 6610, 6631, 6692, 6698,
+  // Assassin / lethality
+  3142, 3179, 3814, 6694, 6695, 6696, 6697, 6699, 6701,
+  // Mage
+  2503, 3003, 3040, 3089, 3100, 3102, 3115, 3116, 3118, 3135, 3137, 3152, 3157, 3165,
+  4628, 4629, 4645, 4646, 6653, 6655, 6657,
+  // Manamune / Muramana
+  3004, 3042,
+  // Enchanter / support
+  2065, 3011, 3050, 3107, 3109, 3190, 3222, 3504, 4005, 6616, 6617, 6620, 6621,
+  // Tank
+  2504, 3001, 3002, 3065, 3068, 3075, 3083, 3084, 3110, 3119, 3121, 3143, 3742,
+  4401, 6662, 6664, 6665,
+  // Defensive hybrids
+  3026, 3139, 3156,
+]);
+
+// Expected first/second legendary completion (minutes) - supports build slower
+const CORE_ITEM_BENCHMARKS = {
+  default: { first: 14, second: 24 },
+  support: { first: 18, second: 30 },
+};
+
+// A control ward should be bought at least every N minutes after laning phase
+const CONTROL_WARD_GAP_MINUTES = 8;
+
+export interface ItemizationResult extends DetectorResult {
+  itemization: ItemizationSummary | null;
+}
+
+export interface ItemTimeline {
+  completions: Array<{ itemId: number; timestamp: number }>; // legendary completions (ms)
+  controlWardPurchases: number[]; // timestamps (ms)
+  inventory: number[]; // final inventory
+}
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function removeOne(items: number[], itemId: number): void {
+  const index = items.lastIndexOf(itemId);
+  if (index >= 0) items.splice(index, 1);
+}
+
+// Rebuild a participant's inventory over time from ITEM_* events
+export function buildItemTimeline(frames: TimelineFrame[], participantId: number): ItemTimeline {
+  const timeline: ItemTimeline = { completions: [], controlWardPurchases: [], inventory: [] };
+
+  for (const frame of frames) {
+    for (const event of frame.events) {
+      if (event.participantId !== participantId) continue;
+
+      switch (event.type) {
+        case 'ITEM_PURCHASED':
+          if (!event.itemId) break;
+          timeline.inventory.push(event.itemId);
+          if (event.itemId === CONTROL_WARD_ID) {
+            timeline.controlWardPurchases.push(event.timestamp);
+          }
+          if (LEGENDARY_ITEM_IDS.has(event.itemId) && !timeline.completions.some(c => c.itemId === event.itemId)) {
+            timeline.completions.push({ itemId: event.itemId, timestamp: event.timestamp });
+          }
+          break;
+
+        case 'ITEM_SOLD':
+        case 'ITEM_DESTROYED':
+          if (event.itemId) removeOne(timeline.inventory, event.itemId);
+          break;
+
+        case 'ITEM_UNDO': {
+          // beforeId = item given back, afterId = item restored (0 when undoing a purchase)
+          if (event.beforeId) {
+            removeOne(timeline.inventory, event.beforeId);
+            if (event.beforeId === CONTROL_WARD_ID) timeline.controlWardPurchases.pop();
+            const completion = timeline.completions.findIndex(c => c.itemId === event.beforeId);
+            if (completion >= 0 && !timeline.inventory.includes(event.beforeId)) {
+              timeline.completions.splice(completion, 1);
+            }
+          }
+          if (event.afterId) timeline.inventory.push(event.afterId);
+          break;
+        }
+      }
+    }
+  }
+
+  return timeline;
+}
+
+export function analyzeItemization(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): ItemizationResult {
+  const errors: DetectorError[] = [];
+  const stats: { [key: string]: number } = {
+    legendaryItems: 0,
+    controlWardsBought: 0,
+    longestControlWardGap: 0,
+    opponentLegendaryItems: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant || frames.length === 0) {
+    return { errors, stats, itemization: null };
+  }
+
+  const playerTeamId = playerParticipant.teamId;
+  const isSupport = playerParticipant.teamPosition === 'UTILITY';
+  const opponent = participants.find(
+    p => p.teamId !== playerTeamId && p.teamPosition === playerParticipant.teamPosition
+  );
+
+  const playerItems = buildItemTimeline(frames, playerParticipant.participantId);
+  const opponentItems = opponent ? buildItemTimeline(frames, opponent.participantId) : null;
+  const gameEndMs = frames[frames.length - 1].timestamp;
+
+  // Item timings (seconds), stored with the analysis through the itemization summary below
+  stats.legendaryItems = playerItems.completions.length;
+  playerItems.completions.forEach((completion, index) => {
+    stats[`legendary${index + 1}At`] = Math.floor(completion.timestamp / 1000);
+    stats[`legendary${index + 1}Id`] = completion.itemId;
+  });
+  if (opponentItems) {
+    stats.opponentLegendaryItems = opponentItems.completions.length;
+    opponentItems.completions.forEach((completion, index) => {
+      stats[`opponentLegendary${index + 1}At`] = Math.floor(completion.timestamp / 1000);
+    });
+  }
+
+  // 1. Power spikes: legendary completions vs lane opponent
+  if (opponentItems) {
+    const spikes = Math.min(2, opponentItems.completions.length);
+    for (let i = 0; i < spikes; i++) {
+      const opponentSpike = opponentItems.completions[i].timestamp;
+      const playerSpike = playerItems.completions[i]?.timestamp ?? gameEndMs;
+      const delay = playerSpike - opponentSpike;
+      if (delay < 2 * 60000) continue;
+
+      const delayMinutes = Math.round(delay / 60000);
+      const item = msg(i === 0 ? 'itemization.firstSpike' : 'itemization.secondSpike');
+
+      errors.push({
+        type: 'power-spike',
+        severity: delayMinutes >= 4 ? 'high' : 'medium',
+        timestamp: Math.floor(opponentSpike / 1000),
+        message: msg('itemization.powerSpike', {
+          item,
+          opponent: opponent!.championName,
+          minutes: delayMinutes,
+          detail: playerItems.completions[i]
+            ? msg('itemization.powerSpike.later', {
+              item,
+              opponent: opponent!.championName,
+              opponentTime: formatTime(opponentSpike),
+              time: formatTime(playerSpike),
+              minutes: delayMinutes,
+            })
+            : msg('itemization.powerSpike.never', { item, opponent: opponent!.championName, opponentTime: formatTime(opponentSpike) }),
+        }),
+        context: {
+          gamePhase: getGamePhase(opponentSpike),
+        },
+      });
+    }
+  }
+
+  // 2. Late core items compared to benchmarks
+  const benchmark = isSupport ? CORE_ITEM_BENCHMARKS.support : CORE_ITEM_BENCHMARKS.default;
+  const checks: Array<{ index: number; minute: number; label: Message }> = [
+    { index: 0, minute: benchmark.first, label: msg('itemization.firstItem') },
+    { index: 1, minute: benchmark.second, label: msg('itemization.secondItem') },
+  ];
+
+  for (const check of checks) {
+    const limitMs = check.minute * 60000;
+    if (gameEndMs < limitMs) continue;
+
+    const completion = playerItems.completions[check.index];
+    if (completion && completion.timestamp <= limitMs) continue;
+
+    const timestampMs = completion ? completion.timestamp : limitMs;
+    errors.push({
+      type: 'itemization',
+      severity: completion && completion.timestamp - limitMs < 3 * 60000 ? 'low' : 'medium',
+      timestamp: Math.floor(timestampMs / 1000),
+      message: msg('itemization.lateCore', {
+        item: check.label,
+        detail: completion
+          ? msg('itemization.lateCore.completed', { item: check.label, time: formatTime(completion.timestamp), minute: check.minute })
+          : msg('itemization.lateCore.missing', { item: check.label, minute: check.minute }),
+      }),
+      context: {
+        gamePhase: getGamePhase(timestampMs),
+      },
+    });
+  }
+
+  // 3. Control ward purchase gaps (after laning phase)
+  stats.controlWardsBought = playerItems.controlWardPurchases.length;
+  const gapStart = 10 * 60000;
+  const purchases = [gapStart, ...playerItems.controlWardPurchases.filter(t => t > gapStart), gameEndMs];
+  let longestGap = { start: 0, end: 0 };
+
+  for (let i = 1; i < purchases.length; i++) {
+    if (purchases[i] - purchases[i - 1] > longestGap.end - longestGap.start) {
+      longestGap = { start: purchases[i - 1], end: purchases[i] };
+    }
+  }
+  stats.longestControlWardGap = Math.round((longestGap.end - longestGap.start) / 60000);
+
+  if (stats.longestControlWardGap >= CONTROL_WARD_GAP_MINUTES) {
+    errors.push({
+      type: 'itemization',
+      severity: isSupport ? 'medium' : 'low',
+      timestamp: Math.floor(longestGap.start / 1000),
+      message: msg('itemization.controlWards', {
+        start: formatTime(longestGap.start),
+        end: formatTime(longestGap.end),
+        minutes: stats.longestControlWardGap,
+        bought: stats.controlWardsBought,
+      }),
+      context: {
+        visionState: {
+          playerWardsActive: 0,
+          areaWarded: false,
+        },
+        gamePhase: getGamePhase(longestGap.start),
+      },
+    });
+  }
+
+  const toTimings = (timeline: ItemTimeline) => timeline.completions.map(completion => ({
+    itemId: completion.itemId,
+    completedAt: Math.floor(completion.timestamp / 1000),
+  }));
+  const itemization: ItemizationSummary = {
+    legendaryItems: toTimings(playerItems),
+    opponentLegendaryItems: opponentItems ? toTimings(opponentItems) : undefined,
+    controlWardsBought: stats.controlWardsBought,
+    longestControlWardGap: stats.longestControlWardGap,
+  };
+
+  return { errors, stats, itemization };
+}
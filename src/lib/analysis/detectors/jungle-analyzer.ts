@@ -0,0 +1,335 @@
+// Jungle Analyzer - Rebuilds jungle pathing, ganks, counter-jungling and objective presence for JUNGLE players
+
+import {
+  TimelineFrame,
+  TimelineEvent,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+  JungleSummary,
+  JungleArea,
+  GankAttempt,
+} from '../types';
+import { msg } from '../i18n';
+import { Position, Lane, MapRegion, DRAGON_PIT, BARON_PIT, calculateDistance, getLane, getMapRegion } from '../map';
+
+// Ganks and pathing are judged during the early game only
+const EARLY_GAME_END_MS = 14 * 60000;
+
+// Kills/lane visits closer than this in the same lane are the same gank
+const GANK_MERGE_WINDOW_MS = 45000;
+
+// Within this distance of the pit at spawn = present for the objective
+const OBJECTIVE_PRESENCE_RADIUS = 3500;
+
+// Spawn timers (ms)
+const FIRST_DRAGON_SPAWN = 5 * 60000;
+const DRAGON_RESPAWN = 5 * 60000;
+const HERALD_SPAWN = 14 * 60000;
+const FIRST_BARON_SPAWN = 20 * 60000;
+const BARON_RESPAWN = 6 * 60000;
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+const AREA_BY_REGION: Record<MapRegion, JungleArea> = {
+  blue_base: 'base',
+  red_base: 'base',
+  top_lane: 'top-lane',
+  mid_lane: 'mid-lane',
+  bot_lane: 'bot-lane',
+  dragon_pit: 'river',
+  baron_pit: 'river',
+  river_top: 'river',
+  river_bot: 'river',
+  blue_top_jungle: 'blue-top-jungle',
+  blue_bot_jungle: 'blue-bot-jungle',
+  red_top_jungle: 'red-top-jungle',
+  red_bot_jungle: 'red-bot-jungle',
+};
+
+// Rough area of the map from the jungler's point of view
+function getJungleArea(position: Position): JungleArea {
+  return AREA_BY_REGION[getMapRegion(position)];
+}
+
+function isEnemyJungle(area: JungleArea, teamId: number): boolean {
+  const enemySide = teamId === 100 ? 'red' : 'blue';
+  return area.startsWith(`${enemySide}-`) && area.endsWith('-jungle');
+}
+
+function getObjectiveSpawns(frames: TimelineFrame[], playerTeamId: number) {
+  const spawns: Array<{ objective: 'DRAGON' | 'RIFTHERALD' | 'BARON_NASHOR'; spawnTime: number; takenByEnemy: boolean; pit: Position }> = [];
+  let nextDragon = FIRST_DRAGON_SPAWN;
+  let nextBaron = FIRST_BARON_SPAWN;
+  let heraldSeen = false;
+
+  for (const frame of frames) {
+    for (const event of frame.events) {
+      if (event.type !== 'ELITE_MONSTER_KILL') continue;
+      const takenByEnemy = event.killerTeamId !== playerTeamId;
+
+      if (event.monsterType === 'DRAGON' || event.monsterType === 'ELDER_DRAGON') {
+        spawns.push({ objective: 'DRAGON', spawnTime: nextDragon, takenByEnemy, pit: DRAGON_PIT });
+        nextDragon = event.timestamp + DRAGON_RESPAWN;
+      } else if (event.monsterType === 'BARON_NASHOR') {
+        spawns.push({ objective: 'BARON_NASHOR', spawnTime: nextBaron, takenByEnemy, pit: BARON_PIT });
+        nextBaron = event.timestamp + BARON_RESPAWN;
+      } else if (event.monsterType === 'RIFTHERALD' && !heraldSeen) {
+        heraldSeen = true;
+        spawns.push({ objective: 'RIFTHERALD', spawnTime: HERALD_SPAWN, takenByEnemy, pit: BARON_PIT });
+      }
+    }
+  }
+
+  return spawns;
+}
+
+export interface JungleResult extends DetectorResult {
+  jungle: JungleSummary | null;
+}
+
+export function analyzeJungle(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): JungleResult {
+  const errors: DetectorError[] = [];
+  const stats = {
+    gankAttempts: 0,
+    successfulGanks: 0,
+    gankDeaths: 0,
+    counterJungleMinutes: 0,
+    objectiveSpawns: 0,
+    objectiveSpawnsPresent: 0,
+    idleJungleMinutes: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant || playerParticipant.teamPosition !== 'JUNGLE') {
+    return { errors, stats, jungle: null };
+  }
+
+  const playerId = playerParticipant.participantId;
+  const playerKey = playerId.toString();
+  const playerTeamId = playerParticipant.teamId;
+  const teamOf = (participantId: number) => participants.find(p => p.participantId === participantId)?.teamId;
+
+  const kills = frames
+    .flatMap(f => f.events)
+    .filter(e => e.type === 'CHAMPION_KILL' && e.victimId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const playerDeaths = kills.filter(k => k.victimId === playerId).map(k => k.timestamp);
+  const diedDuring = (fromMs: number, toMs: number) => playerDeaths.some(t => t > fromMs && t <= toMs);
+
+  // 1. Clear path: area and jungle CS gained every minute until the first back
+  const clearPath: JungleSummary['clearPath'] = [];
+  let firstClearEndsAt = 0;
+
+  for (let i = 1; i < frames.length; i++) {
+    const current = frames[i].participantFrames[playerKey];
+    const previous = frames[i - 1].participantFrames[playerKey];
+    if (!current || !previous) continue;
+
+    const area = getJungleArea(current.position);
+    if (i > 2 && area === 'base' && !diedDuring(frames[i - 1].timestamp, frames[i].timestamp)) {
+      firstClearEndsAt = Math.floor(frames[i].timestamp / 1000);
+      break;
+    }
+    clearPath.push({
+      timestamp: Math.floor(frames[i].timestamp / 1000),
+      area,
+      position: current.position,
+      jungleCS: current.jungleMinionsKilled - previous.jungleMinionsKilled,
+    });
+  }
+
+  // 2. Counter-jungle time and idle minutes (no camps, no fight, not in lane)
+  let idleStreak = 0;
+  let idleStart = 0;
+
+  const closeIdleStreak = () => {
+    if (idleStreak >= 2) {
+      stats.idleJungleMinutes += idleStreak;
+      errors.push({
+        type: 'jungle-pathing',
+        severity: idleStreak >= 3 ? 'medium' : 'low',
+        timestamp: Math.floor(idleStart / 1000),
+        message: msg('jungle.idle', {
+          start: formatTime(idleStart),
+          end: formatTime(idleStart + idleStreak * 60000),
+          minutes: idleStreak,
+          gold: idleStreak * 100,
+        }),
+        context: {
+          gamePhase: getGamePhase(idleStart),
+        },
+      });
+    }
+    idleStreak = 0;
+  };
+
+  for (let i = 1; i < frames.length; i++) {
+    const current = frames[i].participantFrames[playerKey];
+    const previous = frames[i - 1].participantFrames[playerKey];
+    if (!current || !previous) continue;
+
+    const area = getJungleArea(current.position);
+    if (isEnemyJungle(area, playerTeamId)) stats.counterJungleMinutes++;
+
+    if (frames[i].timestamp > EARLY_GAME_END_MS || i < 3) continue;
+
+    const fromMs = frames[i - 1].timestamp;
+    const toMs = frames[i].timestamp;
+    const tookCamps = current.jungleMinionsKilled > previous.jungleMinionsKilled;
+    const fought = kills.some(k =>
+      k.timestamp > fromMs && k.timestamp <= toMs &&
+      (k.killerId === playerId || k.victimId === playerId || k.assistingParticipantIds?.includes(playerId))
+    );
+    const idle = !tookCamps && !fought && area !== 'base' && !area.endsWith('-lane') && !diedDuring(fromMs - 30000, toMs);
+
+    if (idle) {
+      if (idleStreak === 0) idleStart = fromMs;
+      idleStreak++;
+    } else {
+      closeIdleStreak();
+    }
+  }
+  closeIdleStreak();
+
+  // 3. Gank attempts: lane kills involving the jungler + lane visits without a kill
+  const ganks: GankAttempt[] = [];
+  const addToGank = (lane: Lane, timestampMs: number, kill?: TimelineEvent) => {
+    const existing = ganks.find(g => g.lane === lane && Math.abs(g.timestamp * 1000 - timestampMs) <= GANK_MERGE_WINDOW_MS);
+    const gank = existing || { timestamp: Math.floor(timestampMs / 1000), lane, kills: 0, deaths: 0, success: false, outcome: 'nothing' as GankAttempt['outcome'] };
+    if (!existing) ganks.push(gank);
+    if (!kill) return;
+
+    if (teamOf(kill.victimId!) === playerTeamId) {
+      gank.deaths++;
+    } else {
+      gank.kills++;
+    }
+  };
+
+  for (const kill of kills) {
+    if (kill.timestamp > EARLY_GAME_END_MS || !kill.position) continue;
+    const lane = getLane(kill.position);
+    if (!lane) continue;
+
+    const involved = kill.killerId === playerId || kill.victimId === playerId || kill.assistingParticipantIds?.includes(playerId);
+    if (involved) addToGank(lane, kill.timestamp, kill);
+  }
+
+  for (let i = 2; i < frames.length; i++) {
+    if (frames[i].timestamp > EARLY_GAME_END_MS) break;
+    const current = frames[i].participantFrames[playerKey];
+    if (!current) continue;
+
+    const lane = getLane(current.position);
+    if (lane && !diedDuring(frames[i - 1].timestamp, frames[i].timestamp)) {
+      addToGank(lane, frames[i].timestamp);
+    }
+  }
+
+  ganks.sort((a, b) => a.timestamp - b.timestamp);
+  for (const gank of ganks) {
+    gank.success = gank.kills > 0;
+    gank.outcome = gank.kills > 0 && gank.deaths > 0 ? 'trade' : gank.kills > 0 ? 'kill' : gank.deaths > 0 ? 'death' : 'nothing';
+
+    stats.gankAttempts++;
+    if (gank.success) stats.successfulGanks++;
+    if (gank.outcome === 'death') {
+      stats.gankDeaths++;
+      errors.push({
+        type: 'jungle-pathing',
+        severity: gank.deaths >= 2 ? 'high' : 'medium',
+        timestamp: gank.timestamp,
+        message: msg('jungle.failedGank', {
+          lane: gank.lane,
+          time: formatTime(gank.timestamp * 1000),
+          deaths: gank.deaths,
+        }),
+        context: {
+          gamePhase: getGamePhase(gank.timestamp * 1000),
+        },
+      });
+    }
+  }
+
+  const gameEndMs = frames[frames.length - 1]?.timestamp || 0;
+  if (gameEndMs >= 10 * 60000 && !ganks.some(g => g.timestamp < 600)) {
+    errors.push({
+      type: 'jungle-pathing',
+      severity: 'low',
+      timestamp: 600,
+      message: msg('jungle.noEarlyGank'),
+      context: {
+        gamePhase: 'early',
+      },
+    });
+  }
+
+  // 4. Presence near objectives at spawn
+  const spawns = getObjectiveSpawns(frames, playerTeamId).filter(s => s.spawnTime <= gameEndMs);
+  let present = 0;
+
+  for (const spawn of spawns) {
+    const frame = frames.reduce((closest, f) =>
+      Math.abs(f.timestamp - spawn.spawnTime) < Math.abs(closest.timestamp - spawn.spawnTime) ? f : closest
+    );
+    const position = frame.participantFrames[playerKey]?.position;
+    if (!position) continue;
+
+    const distance = calculateDistance(position, spawn.pit);
+    if (distance <= OBJECTIVE_PRESENCE_RADIUS) {
+      present++;
+      continue;
+    }
+    if (!spawn.takenByEnemy) continue;
+
+    errors.push({
+      type: 'objective',
+      severity: spawn.objective === 'BARON_NASHOR' ? 'high' : 'medium',
+      timestamp: Math.floor(spawn.spawnTime / 1000),
+      message: msg('jungle.missedSpawn', {
+        objective: msg(`objectiveName.${spawn.objective}`),
+        time: formatTime(spawn.spawnTime),
+        distance: Math.round(distance),
+      }),
+      context: {
+        mapState: {
+          zone: 'neutral',
+          playerPosition: position,
+        },
+        gamePhase: getGamePhase(spawn.spawnTime),
+      },
+    });
+  }
+
+  stats.objectiveSpawns = spawns.length;
+  stats.objectiveSpawnsPresent = present;
+
+  return {
+    errors,
+    stats,
+    jungle: {
+      clearPath,
+      firstClearEndsAt,
+      ganks,
+      counterJungleMinutes: stats.counterJungleMinutes,
+      objectiveSpawns: stats.objectiveSpawns,
+      objectiveSpawnsPresent: stats.objectiveSpawnsPresent,
+    },
+  };
+}
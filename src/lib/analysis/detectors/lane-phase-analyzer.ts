@@ -0,0 +1,69 @@
+// Lane Phase Analyzer - Gold, XP, CS and level differentials vs the lane opponent at 10/15/20 minutes
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorResult,
+  LaneDifferentials,
+  LaneSnapshot,
+} from '../types';
+
+const CHECKPOINTS = [10, 15, 20] as const;
+
+export interface LanePhaseResult extends DetectorResult {
+  laning: LaneDifferentials | null;
+}
+
+export function analyzeLanePhase(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): LanePhaseResult {
+  const stats: { [key: string]: number } = {};
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant) {
+    return { errors: [], stats, laning: null };
+  }
+
+  const opponent = participants.find(
+    p => p.teamId !== playerParticipant.teamId && p.teamPosition === playerParticipant.teamPosition
+  );
+  if (!opponent) {
+    return { errors: [], stats, laning: null };
+  }
+
+  const playerId = playerParticipant.participantId.toString();
+  const opponentId = opponent.participantId.toString();
+  const laning: LaneDifferentials = { opponent: opponent.championName };
+
+  for (const minute of CHECKPOINTS) {
+    // Frames are one minute apart, frame N is at N:00
+    const frame = frames[minute];
+    const player = frame?.participantFrames[playerId];
+    const enemy = frame?.participantFrames[opponentId];
+    if (!player || !enemy) continue;
+
+    const playerCS = player.minionsKilled + player.jungleMinionsKilled;
+    const enemyCS = enemy.minionsKilled + enemy.jungleMinionsKilled;
+
+    const snapshot: LaneSnapshot = {
+      gold: player.totalGold,
+      xp: player.xp,
+      cs: playerCS,
+      level: player.level,
+      goldDiff: player.totalGold - enemy.totalGold,
+      xpDiff: player.xp - enemy.xp,
+      csDiff: playerCS - enemyCS,
+      levelDiff: player.level - enemy.level,
+    };
+    laning[`at${minute}`] = snapshot;
+
+    stats[`goldDiff${minute}`] = snapshot.goldDiff;
+    stats[`xpDiff${minute}`] = snapshot.xpDiff;
+    stats[`csDiff${minute}`] = snapshot.csDiff;
+    stats[`levelDiff${minute}`] = snapshot.levelDiff;
+  }
+
+  return { errors: [], stats, laning };
+}
@@ -1,11 +1,16 @@
-// Objective Analyzer - Analyzes objective control (Dragon, Baron, Herald)
+// Objective Analyzer - Analyzes objective control (Dragon, Baron, Herald, grubs, plates, towers, inhibitors, soul)
 
 import {
   TimelineFrame,
   MatchParticipant,
-  DetectedError,
+  DetectorError,
   DetectorResult,
+  ObjectiveEvent,
+  Message,
 } from '../types';
+import { msg } from '../i18n';
+import { getRespawnTime, getLevelAt } from './death-timer-analyzer';
+import { DRAGON_PIT, BARON_PIT, calculateDistance } from '../map';
 
 function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   const minutes = timestampMs / 60000;
@@ -14,36 +19,69 @@ function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   return 'late';
 }
 
-// Objective positions
-const DRAGON_PIT = { x: 9866, y: 4414 };
-const BARON_PIT = { x: 5007, y: 10471 };
+// Gold given to the team for each turret plate
+const PLATE_GOLD = 125;
 
-function calculateDistance(p1: { x: number; y: number }, p2: { x: number; y: number }): number {
-  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+// Grubs killed within this window belong to the same spawn
+const GRUB_GROUP_WINDOW_MS = 60000;
+
+const LANE_BY_POSITION: Record<string, 'TOP_LANE' | 'MID_LANE' | 'BOT_LANE'> = {
+  TOP: 'TOP_LANE',
+  MIDDLE: 'MID_LANE',
+  BOTTOM: 'BOT_LANE',
+  UTILITY: 'BOT_LANE',
+};
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// "alive, N units away" or "dead" when an objective was taken
+function playerState(state: { alive: boolean; distance: number }): Message {
+  return state.alive ? msg('common.aliveAt', { distance: state.distance }) : msg('common.dead');
+}
+
+export interface ObjectiveResult extends DetectorResult {
+  objectiveEvents: ObjectiveEvent[];
 }
 
 export function analyzeObjectives(
   frames: TimelineFrame[],
   participants: MatchParticipant[],
   playerPuuid: string
-): DetectorResult {
-  const errors: DetectedError[] = [];
+): ObjectiveResult {
+  const errors: DetectorError[] = [];
+  const objectiveEvents: ObjectiveEvent[] = [];
   const stats = {
     dragonsContested: 0,
     dragonsLost: 0,
     baronsContested: 0,
     baronsLost: 0,
     heraldsContested: 0,
+    grubsTaken: 0,
+    grubsLost: 0,
+    platesWon: 0,
+    platesLost: 0,
+    plateGoldWon: 0,
+    plateGoldLost: 0,
+    firstTowerTaken: 0,
+    firstTowerLost: 0,
+    inhibitorsLost: 0,
+    soulTaken: 0,
+    soulLost: 0,
   };
 
   const playerParticipant = participants.find(p => p.puuid === playerPuuid);
   if (!playerParticipant) {
-    return { errors, stats };
+    return { errors, stats, objectiveEvents };
   }
 
   const playerParticipantId = playerParticipant.participantId;
   const playerTeamId = playerParticipant.teamId;
   const isJungler = playerParticipant.teamPosition === 'JUNGLE';
+  const playerLane = LANE_BY_POSITION[playerParticipant.teamPosition];
 
   // Find recent deaths to check if player was dead during objective
   const playerDeaths: { timestamp: number; deathTimer: number }[] = [];
@@ -51,10 +89,8 @@ export function analyzeObjectives(
   for (const frame of frames) {
     for (const event of frame.events) {
       if (event.type === 'CHAMPION_KILL' && event.victimId === playerParticipantId) {
-        const gamePhase = getGamePhase(event.timestamp);
         // Death timers vary by game time and level
-        const deathTimer = gamePhase === 'early' ? 15000 :
-                          gamePhase === 'mid' ? 30000 : 50000;
+        const deathTimer = getRespawnTime(getLevelAt(frames, playerParticipantId, event.timestamp), event.timestamp);
         playerDeaths.push({
           timestamp: event.timestamp,
           deathTimer,
@@ -70,35 +106,193 @@ export function analyzeObjectives(
     );
   }
 
+  // Player position, distance to the objective and alive state when it was taken
+  function getPlayerState(timestamp: number, target: { x: number; y: number }) {
+    const frameIndex = Math.floor(timestamp / 60000);
+    const currentFrame = frames[frameIndex] || frames[frames.length - 1];
+    const playerFrame = currentFrame?.participantFrames[playerParticipantId.toString()];
+    const position = playerFrame?.position || { x: 7500, y: 7500 };
+    return {
+      position,
+      distance: Math.round(calculateDistance(position, target)),
+      alive: !wasPlayerDead(timestamp),
+    };
+  }
+
+  const lostGrubs: Array<{ timestamp: number; distance: number; alive: boolean; position: { x: number; y: number } }> = [];
+  let firstTowerSeen = false;
+  const platesLostInLane: Array<{ timestamp: number; alive: boolean; distance: number }> = [];
+
   // Analyze objective events
   for (const frame of frames) {
     for (const event of frame.events) {
-      if (event.type !== 'ELITE_MONSTER_KILL') continue;
-
       const timestamp = event.timestamp;
       const gamePhase = getGamePhase(timestamp);
-      const takenByEnemy = event.killerTeamId !== playerTeamId;
+      const timeStr = formatTime(timestamp);
 
-      if (!takenByEnemy) continue; // Only analyze lost objectives
+      // Turret plates (teamId = team that lost the plate)
+      if (event.type === 'TURRET_PLATE_DESTROYED') {
+        const lostByPlayerTeam = event.teamId === playerTeamId;
+        const state = getPlayerState(timestamp, event.position || DRAGON_PIT);
+        objectiveEvents.push({
+          type: 'plate',
+          timestamp: Math.floor(timestamp / 1000),
+          takenByPlayerTeam: !lostByPlayerTeam,
+          lane: event.laneType,
+          playerDistance: state.distance,
+          playerAlive: state.alive,
+        });
+
+        if (!playerLane || event.laneType !== playerLane) continue;
+        if (lostByPlayerTeam) {
+          stats.platesLost++;
+          stats.plateGoldLost += PLATE_GOLD;
+          platesLostInLane.push({ timestamp, alive: state.alive, distance: state.distance });
+        } else {
+          stats.platesWon++;
+          stats.plateGoldWon += PLATE_GOLD;
+        }
+        continue;
+      }
 
-      const minuteTimestamp = Math.floor(timestamp / 60000);
-      const secondTimestamp = Math.floor((timestamp % 60000) / 1000);
-      const timeStr = `${minuteTimestamp}:${secondTimestamp.toString().padStart(2, '0')}`;
+      // Towers and inhibitors (teamId = team that lost the building)
+      if (event.type === 'BUILDING_KILL') {
+        const lostByPlayerTeam = event.teamId === playerTeamId;
+        const isInhibitor = event.buildingType === 'INHIBITOR_BUILDING';
+        const state = getPlayerState(timestamp, event.position || BARON_PIT);
+        objectiveEvents.push({
+          type: isInhibitor ? 'inhibitor' : 'tower',
+          timestamp: Math.floor(timestamp / 1000),
+          takenByPlayerTeam: !lostByPlayerTeam,
+          lane: event.laneType,
+          playerDistance: state.distance,
+          playerAlive: state.alive,
+        });
 
-      // Get player position at this time
-      const frameIndex = Math.floor(timestamp / 60000);
-      const currentFrame = frames[frameIndex] || frame;
-      const playerFrame = currentFrame.participantFrames[playerParticipantId.toString()];
-      const playerPos = playerFrame?.position || { x: 7500, y: 7500 };
+        if (!isInhibitor && !firstTowerSeen) {
+          firstTowerSeen = true;
+          if (lostByPlayerTeam) stats.firstTowerLost = 1;
+          else stats.firstTowerTaken = 1;
 
-      const wasDead = wasPlayerDead(timestamp);
+          if (lostByPlayerTeam && event.laneType === playerLane) {
+            errors.push({
+              type: 'objective',
+              severity: 'medium',
+              timestamp: Math.floor(timestamp / 1000),
+              message: msg('objective.firstTower', { time: timeStr, state: playerState(state) }),
+              context: {
+                mapState: {
+                  zone: 'danger',
+                  playerPosition: state.position,
+                },
+                gamePhase,
+              },
+            });
+          }
+        }
+
+        if (isInhibitor && lostByPlayerTeam) {
+          stats.inhibitorsLost++;
+          errors.push({
+            type: 'objective',
+            severity: gamePhase === 'late' ? 'high' : 'critical',
+            timestamp: Math.floor(timestamp / 1000),
+            message: msg('objective.inhibitor', {
+              time: timeStr,
+              lane: event.laneType ? `(${event.laneType.replace('_LANE', '').toLowerCase()}) ` : '',
+              state: playerState(state),
+            }),
+            context: {
+              mapState: {
+                zone: 'danger',
+                playerPosition: state.position,
+              },
+              gamePhase,
+            },
+          });
+        }
+        continue;
+      }
+
+      // Dragon soul (teamId = team receiving the soul)
+      if (event.type === 'DRAGON_SOUL_GIVEN') {
+        const takenByPlayerTeam = event.teamId === playerTeamId;
+        const state = getPlayerState(timestamp, DRAGON_PIT);
+        objectiveEvents.push({
+          type: 'soul',
+          timestamp: Math.floor(timestamp / 1000),
+          takenByPlayerTeam,
+          playerDistance: state.distance,
+          playerAlive: state.alive,
+        });
+
+        if (takenByPlayerTeam) {
+          stats.soulTaken = 1;
+        } else {
+          stats.soulLost = 1;
+          errors.push({
+            type: 'objective',
+            severity: 'critical',
+            timestamp: Math.floor(timestamp / 1000),
+            message: msg('objective.soul', {
+              time: timeStr,
+              state: state.alive ? msg('objective.soul.alive', { distance: state.distance }) : msg('common.dead'),
+            }),
+            context: {
+              mapState: {
+                zone: 'danger',
+                playerPosition: state.position,
+              },
+              gamePhase,
+            },
+          });
+        }
+        continue;
+      }
+
+      if (event.type !== 'ELITE_MONSTER_KILL') continue;
+
+      const takenByEnemy = event.killerTeamId !== playerTeamId;
+      const pit = event.monsterType === 'DRAGON' || event.monsterType === 'ELDER_DRAGON' ? DRAGON_PIT : BARON_PIT;
+      const state = getPlayerState(timestamp, pit);
+      const playerPos = state.position;
+      const wasDead = !state.alive;
+
+      const objectiveType: Record<string, ObjectiveEvent['type']> = {
+        DRAGON: 'dragon',
+        ELDER_DRAGON: 'elder',
+        BARON_NASHOR: 'baron',
+        RIFTHERALD: 'herald',
+        HORDE: 'grubs',
+      };
+      if (event.monsterType) {
+        objectiveEvents.push({
+          type: objectiveType[event.monsterType],
+          timestamp: Math.floor(timestamp / 1000),
+          takenByPlayerTeam: !takenByEnemy,
+          playerDistance: state.distance,
+          playerAlive: state.alive,
+        });
+      }
+
+      if (event.monsterType === 'HORDE') {
+        if (takenByEnemy) {
+          stats.grubsLost++;
+          lostGrubs.push({ timestamp, distance: state.distance, alive: state.alive, position: playerPos });
+        } else {
+          stats.grubsTaken++;
+        }
+        continue;
+      }
+
+      if (!takenByEnemy) continue; // Only analyze lost objectives
 
       // Analyze by objective type
       switch (event.monsterType) {
         case 'DRAGON':
         case 'ELDER_DRAGON': {
           const isElder = event.monsterType === 'ELDER_DRAGON';
-          const distance = calculateDistance(playerPos, DRAGON_PIT);
+          const distance = state.distance;
           stats.dragonsLost++;
 
           if (!wasDead && distance > 4000) {
@@ -108,14 +302,13 @@ export function analyzeObjectives(
               type: 'objective',
               severity,
               timestamp: Math.floor(timestamp / 1000),
-              title: isElder ? 'Elder Dragon perdu' : `Dragon ${event.monsterSubType?.replace('_DRAGON', '') || ''} perdu`,
-              description: `L'ennemi a pris le ${isElder ? 'Elder Dragon' : 'Dragon'} a ${timeStr}. Tu etais a ${Math.round(distance)} unites de distance (${wasDead ? 'mort' : 'vivant'}).`,
-              suggestion: isJungler
-                ? 'En tant que jungler, tu dois timer les objectifs et etre present. Ward la zone 1 min avant le spawn.'
-                : 'Sois pret a pivoter vers le Dragon quand il spawn. Communique avec ton equipe.',
-              coachingNote: isElder
-                ? 'L\'Elder Dragon est souvent game-deciding. Tout doit etre organise autour de cet objectif.'
-                : `Le Dragon donne des buffs permanents a ton equipe. ${distance > 6000 ? 'Tu etais beaucoup trop loin pour contester.' : 'Rapproche-toi plus tot pour avoir le priority.'}`,
+              message: msg(isElder ? 'objective.elder' : 'objective.dragon', {
+                time: timeStr,
+                dragon: event.monsterSubType?.replace('_DRAGON', '') || '',
+                distance: Math.round(distance),
+                advice: msg(isJungler ? 'objective.dragon.jungler' : 'objective.dragon.laner'),
+                detail: msg(distance > 6000 ? 'objective.dragon.tooFar' : 'objective.dragon.closer'),
+              }),
               context: {
                 mapState: {
                   zone: 'danger',
@@ -129,7 +322,7 @@ export function analyzeObjectives(
         }
 
         case 'BARON_NASHOR': {
-          const distance = calculateDistance(playerPos, BARON_PIT);
+          const distance = state.distance;
           stats.baronsLost++;
 
           if (!wasDead && distance > 4000) {
@@ -137,10 +330,7 @@ export function analyzeObjectives(
               type: 'objective',
               severity: 'critical',
               timestamp: Math.floor(timestamp / 1000),
-              title: 'Baron Nashor perdu',
-              description: `L'ennemi a pris le Baron a ${timeStr}. Tu etais a ${Math.round(distance)} unites de distance.`,
-              suggestion: 'Le Baron est l\'objectif le plus important du mid/late game. Groupe avec ton equipe pour le contester ou le prendre.',
-              coachingNote: 'Un Baron donne un enorme avantage en siege et en gold. Perdre un Baron sans le contester est souvent un point tournant negatif.',
+              message: msg('objective.baron', { time: timeStr, distance: Math.round(distance) }),
               context: {
                 mapState: {
                   zone: 'danger',
@@ -154,7 +344,7 @@ export function analyzeObjectives(
         }
 
         case 'RIFTHERALD': {
-          const distance = calculateDistance(playerPos, BARON_PIT); // Herald spawns at Baron pit
+          const distance = state.distance; // Herald spawns at Baron pit
           stats.heraldsContested++;
 
           if (!wasDead && distance > 5000 && gamePhase === 'early') {
@@ -162,10 +352,7 @@ export function analyzeObjectives(
               type: 'objective',
               severity: 'medium',
               timestamp: Math.floor(timestamp / 1000),
-              title: 'Herald perdu',
-              description: `L'ennemi a pris le Herald a ${timeStr}. Tu etais a ${Math.round(distance)} unites de distance.`,
-              suggestion: 'Le Herald peut detruire une tour entiere. Aide ton jungler a le secure ou au moins conteste le.',
-              coachingNote: 'Le Herald est tres utile pour accelerer le early game. Une tour en moins ouvre la map pour ton equipe.',
+              message: msg('objective.herald', { time: timeStr, distance: Math.round(distance) }),
               context: {
                 mapState: {
                   zone: 'neutral',
@@ -181,5 +368,65 @@ export function analyzeObjectives(
     }
   }
 
-  return { errors, stats };
+  // Plates lost in the player's lane (one summary error)
+  if (platesLostInLane.length >= 3 && stats.platesLost > stats.platesWon) {
+    const last = platesLostInLane[platesLostInLane.length - 1];
+    const whileDead = platesLostInLane.filter(p => !p.alive).length;
+    const whileAway = platesLostInLane.filter(p => p.alive && p.distance > 3000).length;
+
+    errors.push({
+      type: 'objective',
+      severity: stats.platesLost - stats.platesWon >= 4 ? 'high' : 'medium',
+      timestamp: Math.floor(last.timestamp / 1000),
+      message: msg('objective.plates', {
+        lost: stats.platesLost,
+        won: stats.platesWon,
+        gold: stats.plateGoldLost,
+        gap: stats.plateGoldLost - stats.plateGoldWon,
+        whileDead,
+        whileAway,
+      }),
+      context: {
+        gamePhase: getGamePhase(last.timestamp),
+      },
+    });
+  }
+
+  // Grubs lost, grouped by spawn (junglers and toplaners contest them)
+  if (isJungler || playerParticipant.teamPosition === 'TOP') {
+    const groups: typeof lostGrubs[] = [];
+    for (const grub of lostGrubs) {
+      const group = groups[groups.length - 1];
+      if (group && grub.timestamp - group[0].timestamp <= GRUB_GROUP_WINDOW_MS) {
+        group.push(grub);
+      } else {
+        groups.push([grub]);
+      }
+    }
+
+    for (const group of groups) {
+      const first = group[0];
+      if (group.length < 2 || !first.alive || first.distance <= 5000) continue;
+
+      errors.push({
+        type: 'objective',
+        severity: group.length >= 3 && isJungler ? 'medium' : 'low',
+        timestamp: Math.floor(first.timestamp / 1000),
+        message: msg('objective.grubs', {
+          count: group.length,
+          time: formatTime(first.timestamp),
+          distance: first.distance,
+        }),
+        context: {
+          mapState: {
+            zone: 'neutral',
+            playerPosition: first.position,
+          },
+          gamePhase: getGamePhase(first.timestamp),
+        },
+      });
+    }
+  }
+
+  return { errors, stats, objectiveEvents };
 }
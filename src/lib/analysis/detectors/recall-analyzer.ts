@@ -0,0 +1,298 @@
+// Recall Analyzer - Detects back timings from shop purchases and unspent gold from participant frames
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+  Message,
+} from '../types';
+import { msg } from '../i18n';
+import { isInFountain } from '../map';
+
+// Gold thresholds for "sitting on gold"
+const LARGE_GOLD = 1500;
+const LATE_BACK_GOLD = 2500;
+const SITTING_MIN_MINUTES = 3;
+
+// Objective spawn timers (ms)
+const FIRST_DRAGON_SPAWN = 5 * 60000;
+const DRAGON_RESPAWN = 5 * 60000;
+const FIRST_BARON_SPAWN = 20 * 60000;
+const BARON_RESPAWN = 6 * 60000;
+
+// Being in base during this window around a spawn means missing the setup
+const SPAWN_WINDOW_BEFORE = 90000;
+const SPAWN_WINDOW_AFTER = 30000;
+
+// Purchases closer than this belong to the same visit to the shop
+const SHOP_VISIT_GAP = 45000;
+// Starting items are bought before minions spawn
+const GAME_START_SHOPPING = 90000;
+// Time spent shopping after a respawn
+const RESPAWN_SHOPPING = 30000;
+
+// Support quest and mana charge upgrades are granted wherever the player is
+const AUTO_UPGRADE_ITEMS = new Set([3866, 3867, 3040, 3042, 3121]);
+
+interface BaseVisit {
+  start: number; // ms
+  end: number;
+}
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Approximate death timer, long enough to cover the shopping done right after respawning
+function respawnWindow(deathMs: number): number {
+  const phase = getGamePhase(deathMs);
+  return (phase === 'early' ? 15000 : phase === 'mid' ? 35000 : 60000) + RESPAWN_SHOPPING;
+}
+
+/**
+ * Visits to the shop, from purchases and sales (only possible in base). Position snapshots are one
+ * minute apart and a back lasts a few seconds, so they only add the backs where nothing was bought.
+ */
+function findBaseVisits(frames: TimelineFrame[], participantId: number, playerTeamId: number): BaseVisit[] {
+  const visits: BaseVisit[] = [];
+
+  for (const frame of frames) {
+    for (const event of frame.events) {
+      if (event.type !== 'ITEM_PURCHASED' && event.type !== 'ITEM_SOLD') continue;
+      if (event.participantId !== participantId || event.timestamp < GAME_START_SHOPPING) continue;
+      if (event.itemId !== undefined && AUTO_UPGRADE_ITEMS.has(event.itemId)) continue;
+
+      const last = visits[visits.length - 1];
+      if (last && event.timestamp - last.end <= SHOP_VISIT_GAP) {
+        last.end = event.timestamp;
+      } else {
+        visits.push({ start: event.timestamp, end: event.timestamp });
+      }
+    }
+  }
+
+  // Seen in fountain without buying anything
+  const key = participantId.toString();
+  for (let i = 1; i < frames.length; i++) {
+    const before = frames[i - 1].participantFrames[key];
+    const current = frames[i].participantFrames[key];
+    if (!before || !current) continue;
+    if (!isInFountain(current.position, playerTeamId) || isInFountain(before.position, playerTeamId)) continue;
+
+    const from = frames[i - 1].timestamp;
+    const to = frames[i].timestamp + 60000;
+    if (!visits.some(v => v.end >= from && v.start <= to)) {
+      visits.push({ start: frames[i].timestamp, end: frames[i].timestamp });
+    }
+  }
+
+  return visits.sort((a, b) => a.start - b.start);
+}
+
+// Last snapshot at or before a timestamp, and first one after
+function frameBefore(frames: TimelineFrame[], timestampMs: number): TimelineFrame | undefined {
+  return [...frames].reverse().find(f => f.timestamp <= timestampMs);
+}
+
+function frameAfter(frames: TimelineFrame[], timestampMs: number): TimelineFrame | undefined {
+  return frames.find(f => f.timestamp > timestampMs);
+}
+
+export function analyzeRecalls(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): DetectorResult {
+  const errors: DetectorError[] = [];
+  const stats = {
+    recalls: 0,
+    avgGoldAtRecall: 0,
+    avgGoldAfterRecall: 0,
+    maxUnspentGold: 0,
+    minutesSittingOnGold: 0,
+    badlyTimedRecalls: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant) {
+    return { errors, stats };
+  }
+
+  const playerId = playerParticipant.participantId.toString();
+  const playerTeamId = playerParticipant.teamId;
+
+  // Deaths (respawn in fountain is not a recall) and objective spawns
+  const deathTimestamps: number[] = [];
+  const spawns: Array<{ objective: Message; spawnTime: number; takenByEnemy: boolean }> = [];
+  let nextDragon = FIRST_DRAGON_SPAWN;
+  let nextBaron = FIRST_BARON_SPAWN;
+
+  for (const frame of frames) {
+    for (const event of frame.events) {
+      if (event.type === 'CHAMPION_KILL' && event.victimId === playerParticipant.participantId) {
+        deathTimestamps.push(event.timestamp);
+      }
+      if (event.type !== 'ELITE_MONSTER_KILL') continue;
+
+      const takenByEnemy = event.killerTeamId !== playerTeamId;
+      if (event.monsterType === 'DRAGON' || event.monsterType === 'ELDER_DRAGON') {
+        spawns.push({ objective: msg('objectiveName.DRAGON'), spawnTime: nextDragon, takenByEnemy });
+        nextDragon = event.timestamp + DRAGON_RESPAWN;
+      } else if (event.monsterType === 'BARON_NASHOR') {
+        spawns.push({ objective: msg('objectiveName.BARON_NASHOR'), spawnTime: nextBaron, takenByEnemy });
+        nextBaron = event.timestamp + BARON_RESPAWN;
+      }
+    }
+  }
+
+  // 1. Detect recalls (shop visits that don't follow a death) and gold carried before/after
+  const goldBefore: number[] = [];
+  const goldAfter: number[] = [];
+  const visits = findBaseVisits(frames, playerParticipant.participantId, playerTeamId);
+
+  for (const visit of visits) {
+    const respawned = deathTimestamps.some(t => visit.start > t && visit.start - t <= respawnWindow(t));
+    if (respawned) continue;
+
+    const before = frameBefore(frames, visit.start)?.participantFrames[playerId];
+    if (!before) continue;
+
+    stats.recalls++;
+    const recallTime = visit.start;
+    const after = frameAfter(frames, visit.end)?.participantFrames[playerId];
+    goldBefore.push(before.currentGold);
+    if (after) goldAfter.push(after.currentGold);
+
+    // Late back: a full item's worth of gold carried into the recall
+    if (before.currentGold >= LATE_BACK_GOLD) {
+      errors.push({
+        type: 'back-timing',
+        severity: before.currentGold >= 3500 ? 'high' : 'medium',
+        timestamp: Math.floor(recallTime / 1000),
+        message: msg('recall.late', { gold: before.currentGold, time: formatTime(recallTime) }),
+        context: {
+          goldState: {
+            player: before.currentGold,
+            opponent: 0,
+            differential: before.currentGold,
+          },
+          mapState: {
+            zone: 'safe',
+          },
+          gamePhase: getGamePhase(recallTime),
+        },
+      });
+    }
+
+    // Recall lined up with a dragon/baron spawn
+    const spawn = spawns.find(s =>
+      recallTime >= s.spawnTime - SPAWN_WINDOW_BEFORE && recallTime <= s.spawnTime + SPAWN_WINDOW_AFTER
+    );
+    if (spawn) {
+      stats.badlyTimedRecalls++;
+      errors.push({
+        type: 'back-timing',
+        severity: spawn.takenByEnemy ? 'high' : 'medium',
+        timestamp: Math.floor(recallTime / 1000),
+        message: msg('recall.objectiveSpawn', {
+          objective: spawn.objective,
+          time: formatTime(recallTime),
+          spawnTime: formatTime(spawn.spawnTime),
+          taken: spawn.takenByEnemy ? msg('recall.objectiveSpawn.taken', { objective: spawn.objective }) : '',
+        }),
+        context: {
+          goldState: {
+            player: before.currentGold,
+            opponent: 0,
+            differential: before.currentGold,
+          },
+          mapState: {
+            zone: 'safe',
+          },
+          gamePhase: getGamePhase(recallTime),
+        },
+      });
+    }
+  }
+
+  // 2. Sitting on gold for several minutes outside of base
+  let streakStart = -1;
+  let streakMaxGold = 0;
+
+  const closeStreak = (endIndex: number) => {
+    const minutes = endIndex - streakStart;
+    if (minutes >= SITTING_MIN_MINUTES) {
+      stats.minutesSittingOnGold += minutes;
+      const startMs = frames[streakStart].timestamp;
+      const position = frames[streakStart].participantFrames[playerId]?.position;
+
+      errors.push({
+        type: 'back-timing',
+        severity: minutes >= 5 ? 'high' : 'medium',
+        timestamp: Math.floor(startMs / 1000),
+        message: msg('recall.sittingOnGold', {
+          gold: streakMaxGold,
+          threshold: LARGE_GOLD,
+          minutes,
+          start: formatTime(startMs),
+          end: formatTime(frames[endIndex - 1].timestamp),
+        }),
+        context: {
+          goldState: {
+            player: streakMaxGold,
+            opponent: 0,
+            differential: streakMaxGold,
+          },
+          mapState: {
+            zone: 'neutral',
+            playerPosition: position,
+          },
+          gamePhase: getGamePhase(startMs),
+        },
+      });
+    }
+    streakStart = -1;
+    streakMaxGold = 0;
+  };
+
+  for (let i = 1; i < frames.length; i++) {
+    const playerFrame = frames[i].participantFrames[playerId];
+    if (!playerFrame) continue;
+
+    stats.maxUnspentGold = Math.max(stats.maxUnspentGold, playerFrame.currentGold);
+
+    // A visit to the shop during the minute ends the streak even if some gold is left
+    const shopped = visits.some(v => v.end > frames[i - 1].timestamp && v.start <= frames[i].timestamp);
+    const sitting = playerFrame.currentGold >= LARGE_GOLD &&
+      !shopped &&
+      !isInFountain(playerFrame.position, playerTeamId);
+    if (sitting) {
+      if (streakStart < 0) streakStart = i;
+      streakMaxGold = Math.max(streakMaxGold, playerFrame.currentGold);
+    } else if (streakStart >= 0) {
+      closeStreak(i);
+    }
+  }
+  if (streakStart >= 0) {
+    closeStreak(frames.length);
+  }
+
+  if (goldBefore.length > 0) {
+    stats.avgGoldAtRecall = Math.round(goldBefore.reduce((sum, g) => sum + g, 0) / goldBefore.length);
+  }
+  if (goldAfter.length > 0) {
+    stats.avgGoldAfterRecall = Math.round(goldAfter.reduce((sum, g) => sum + g, 0) / goldAfter.length);
+  }
+
+  return { errors, stats };
+}
@@ -0,0 +1,224 @@
+// Roam Analyzer - Detects MID/SUPPORT roams and links each one to its outcome and lane cost
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+  MapZone,
+  DetectorHighlight,
+  Message,
+} from '../types';
+import { msg } from '../i18n';
+import { getMapZone } from '../map';
+
+// Roams are tracked until mid game, when lanes stop being assigned
+const ROAM_PHASE_END_MINUTES = 20;
+
+// Lane region each roaming role is expected to hold
+const HOME_LANE: Record<string, MapZone> = {
+  MIDDLE: 'mid_lane',
+  UTILITY: 'bot_lane',
+};
+
+interface Roam {
+  startIndex: number;
+  endIndex: number; // first frame back in lane (or end of tracking)
+  targetZone: MapZone;
+  kills: number;
+  assists: number;
+  objectives: Message[];
+  died: boolean;
+  csLost: number;
+  xpLost: number;
+}
+
+export interface RoamResult extends DetectorResult {
+  highlights: DetectorHighlight[];
+}
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Objectives a roam can end on (other monsters are shown generically)
+const OBJECTIVE_NAMES = ['DRAGON', 'ELDER_DRAGON', 'BARON_NASHOR', 'RIFTHERALD', 'HORDE'];
+
+export function analyzeRoams(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): RoamResult {
+  const errors: DetectorError[] = [];
+  const highlights: DetectorHighlight[] = [];
+  const stats = {
+    roams: 0,
+    successfulRoams: 0,
+    failedRoams: 0,
+    roamKills: 0,
+    roamAssists: 0,
+    csLostRoaming: 0,
+    xpLostRoaming: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  const homeLane = playerParticipant ? HOME_LANE[playerParticipant.teamPosition] : undefined;
+  if (!playerParticipant || !homeLane) {
+    return { errors, stats, highlights };
+  }
+
+  const playerId = playerParticipant.participantId;
+  const playerKey = playerId.toString();
+  const playerTeamId = playerParticipant.teamId;
+  const ownBase: MapZone = playerTeamId === 100 ? 'blue_base' : 'red_base';
+  const opponent = participants.find(
+    p => p.teamId !== playerTeamId && p.teamPosition === playerParticipant.teamPosition
+  );
+  const opponentKey = opponent?.participantId.toString();
+
+  const events = frames.flatMap(f => f.events);
+  const isPlayerInvolved = (ids: number[] | undefined, killerId?: number) =>
+    killerId === playerId || (ids || []).includes(playerId);
+
+  // Zone of the player each frame (null while dead)
+  const zoneAt = (index: number): MapZone | null => {
+    const frame = frames[index].participantFrames[playerKey];
+    if (!frame) return null;
+    const died = events.some(e =>
+      e.type === 'CHAMPION_KILL' && e.victimId === playerId &&
+      e.timestamp > frames[index - 1].timestamp && e.timestamp <= frames[index].timestamp
+    );
+    if (died) return null;
+    return getMapZone(frame.position, playerTeamId).zone;
+  };
+
+  const isHome = (zone: MapZone) => zone === homeLane || zone === ownBase;
+
+  // 1. Find roam windows (consecutive frames outside the lane region)
+  const roams: Roam[] = [];
+  let current: Roam | null = null;
+  const lastIndex = Math.min(frames.length - 1, ROAM_PHASE_END_MINUTES);
+
+  for (let i = 3; i <= lastIndex; i++) {
+    const zone = zoneAt(i);
+    const away = zone !== null && !isHome(zone);
+
+    if (away && !current) {
+      current = { startIndex: i, endIndex: i, targetZone: zone!, kills: 0, assists: 0, objectives: [], died: false, csLost: 0, xpLost: 0 };
+    } else if (!away && current) {
+      current.endIndex = i;
+      roams.push(current);
+      current = null;
+    }
+  }
+  if (current) {
+    current.endIndex = lastIndex;
+    roams.push(current);
+  }
+
+  // 2. Outcome and lane cost of each roam
+  for (const roam of roams) {
+    const fromMs = frames[roam.startIndex - 1].timestamp;
+    const toMs = frames[roam.endIndex].timestamp;
+
+    for (const event of events) {
+      if (event.timestamp <= fromMs || event.timestamp > toMs) continue;
+
+      if (event.type === 'CHAMPION_KILL') {
+        if (event.victimId === playerId) roam.died = true;
+        else if (event.killerId === playerId) roam.kills++;
+        else if (event.assistingParticipantIds?.includes(playerId)) roam.assists++;
+      }
+      if (event.type === 'ELITE_MONSTER_KILL' && event.killerTeamId === playerTeamId && isPlayerInvolved(event.assistingParticipantIds, event.killerId)) {
+        roam.objectives.push(msg(OBJECTIVE_NAMES.includes(event.monsterType || '') ? `objectiveName.${event.monsterType}` : 'objectiveName.MONSTER'));
+      }
+      if (event.type === 'BUILDING_KILL' && event.teamId !== playerTeamId && isPlayerInvolved(event.assistingParticipantIds, event.killerId)) {
+        roam.objectives.push(msg(event.buildingType === 'INHIBITOR_BUILDING' ? 'objectiveName.INHIBITOR' : 'objectiveName.TOWER'));
+      }
+    }
+
+    const startFrame = frames[roam.startIndex - 1].participantFrames;
+    const endFrame = frames[roam.endIndex].participantFrames;
+    const playerCS = (endFrame[playerKey]?.minionsKilled || 0) - (startFrame[playerKey]?.minionsKilled || 0);
+    const playerXP = (endFrame[playerKey]?.xp || 0) - (startFrame[playerKey]?.xp || 0);
+    if (opponentKey) {
+      const opponentCS = (endFrame[opponentKey]?.minionsKilled || 0) - (startFrame[opponentKey]?.minionsKilled || 0);
+      const opponentXP = (endFrame[opponentKey]?.xp || 0) - (startFrame[opponentKey]?.xp || 0);
+      roam.csLost = Math.max(0, opponentCS - playerCS);
+      roam.xpLost = Math.max(0, opponentXP - playerXP);
+    }
+
+    const gains = roam.kills + roam.assists + roam.objectives.length;
+    const successful = gains > 0 && !(roam.died && roam.kills === 0 && roam.objectives.length === 0);
+    const minutes = roam.endIndex - roam.startIndex;
+    const where = msg(`zone.${roam.targetZone}`);
+    const startMs = frames[roam.startIndex].timestamp;
+    const laneCost = msg('roam.laneCost', { cs: roam.csLost, xp: roam.xpLost });
+
+    stats.roams++;
+    stats.roamKills += roam.kills;
+    stats.roamAssists += roam.assists;
+    stats.csLostRoaming += roam.csLost;
+    stats.xpLostRoaming += roam.xpLost;
+
+    if (successful) {
+      stats.successfulRoams++;
+      const results = [
+        ...(roam.kills > 0 ? [msg('roam.kills', { count: roam.kills })] : []),
+        ...(roam.assists > 0 ? [msg('roam.assists', { count: roam.assists })] : []),
+        ...roam.objectives,
+      ];
+
+      highlights.push({
+        type: 'roaming',
+        timestamp: Math.floor(startMs / 1000),
+        message: msg('roam.success', { where, time: formatTime(startMs), results, laneCost }),
+      });
+      continue;
+    }
+
+    // Short trips without cost are not real roams (e.g. warding the river)
+    if (!roam.died && roam.csLost < 6 && minutes < 2) continue;
+
+    stats.failedRoams++;
+    errors.push({
+      type: 'roaming',
+      severity: roam.died ? 'high' : roam.csLost >= 12 || minutes >= 2 ? 'medium' : 'low',
+      timestamp: Math.floor(startMs / 1000),
+      message: msg('roam.failed', {
+        title: msg(roam.died ? 'roam.failed.titleDied' : 'roam.failed.titleNothing'),
+        time: formatTime(startMs),
+        where,
+        minutes: Math.max(1, minutes),
+        outcome: msg(roam.died ? 'roam.failed.died' : 'roam.failed.nothing'),
+        laneCost,
+        note: opponent ? msg('roam.failed.noteOpponent', { opponent: opponent.championName, laneCost }) : msg('roam.failed.note'),
+      }),
+      context: {
+        csState: {
+          player: endFrame[playerKey]?.minionsKilled || 0,
+          opponent: opponentKey ? endFrame[opponentKey]?.minionsKilled || 0 : 0,
+          differential: opponentKey
+            ? (endFrame[playerKey]?.minionsKilled || 0) - (endFrame[opponentKey]?.minionsKilled || 0)
+            : 0,
+        },
+        mapState: {
+          zone: roam.died ? 'danger' : 'neutral',
+          playerPosition: frames[roam.startIndex].participantFrames[playerKey]?.position,
+        },
+        gamePhase: getGamePhase(startMs),
+      },
+    });
+  }
+
+  return { errors, stats, highlights };
+}
@@ -0,0 +1,227 @@
+// Skill Order Analyzer - Rebuilds the ability leveling sequence from SKILL_LEVEL_UP events
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+} from '../types';
+import { msg } from '../i18n';
+
+export type SkillKey = 'Q' | 'W' | 'E' | 'R';
+
+const SKILL_BY_SLOT: Record<number, SkillKey> = { 1: 'Q', 2: 'W', 3: 'E', 4: 'R' };
+
+// Levels at which the ultimate can be ranked up
+const ULT_LEVELS = [6, 11, 16];
+
+// Recommended max order per champion (basic abilities, first maxed first).
+// Keys are Riot championName values - extend or override as the meta changes.
+export const RECOMMENDED_SKILL_ORDERS: Record<string, string> = {
+  Ahri: 'QWE',
+  Akali: 'QEW',
+  Annie: 'QWE',
+  Ashe: 'WQE',
+  Caitlyn: 'QWE',
+  Darius: 'QEW',
+  Diana: 'QWE',
+  Draven: 'QWE',
+  Ezreal: 'QEW',
+  Fiora: 'QEW',
+  Garen: 'EQW',
+  Jinx: 'QWE',
+  Kaisa: 'QEW',
+  Katarina: 'QEW',
+  LeeSin: 'QWE',
+  Leona: 'WEQ',
+  Lux: 'EQW',
+  Malphite: 'QEW',
+  MissFortune: 'QEW',
+  Morgana: 'QWE',
+  Nautilus: 'QEW',
+  Orianna: 'QWE',
+  Riven: 'QEW',
+  Sett: 'QWE',
+  Sylas: 'QWE',
+  Syndra: 'QWE',
+  Thresh: 'EQW',
+  Vayne: 'QWE',
+  Viego: 'QEW',
+  Yasuo: 'QEW',
+  Yone: 'QWE',
+  Zed: 'QEW',
+};
+
+// Champions whose ultimate does not follow the 6/11/16 rule
+const NON_STANDARD_ULT = new Set(['Elise', 'Jayce', 'Karma', 'Nidalee', 'Udyr']);
+
+export interface SkillOrderResult extends DetectorResult {
+  sequence: SkillKey[];
+}
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Basic ability with the most points after `level` skill points (ties go to the one ranked first)
+function getLeadingSkill(sequence: SkillKey[], level: number, exclude: SkillKey[] = []): SkillKey | null {
+  const ranks = new Map<SkillKey, { points: number; reachedAt: number }>();
+  sequence.slice(0, level).forEach((skill, index) => {
+    if (skill === 'R' || exclude.includes(skill)) return;
+    const current = ranks.get(skill) || { points: 0, reachedAt: 0 };
+    ranks.set(skill, { points: current.points + 1, reachedAt: index });
+  });
+
+  let leading: SkillKey | null = null;
+  let best = { points: 0, reachedAt: Infinity };
+  for (const [skill, rank] of ranks) {
+    if (rank.points > best.points || (rank.points === best.points && rank.reachedAt < best.reachedAt)) {
+      leading = skill;
+      best = rank;
+    }
+  }
+  return leading;
+}
+
+export function analyzeSkillOrder(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string,
+  recommendedOrders: Record<string, string> = RECOMMENDED_SKILL_ORDERS
+): SkillOrderResult {
+  const errors: DetectorError[] = [];
+  const stats = {
+    skillPoints: 0,
+    ultDelays: 0,
+    ultLevelsDelayed: 0,
+    followsRecommendedOrder: 1,
+  };
+  const sequence: SkillKey[] = [];
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant) {
+    return { errors, stats, sequence };
+  }
+
+  // Skill points in order, with the time each was spent (EVOLVE events are not skill points)
+  const timestamps: number[] = [];
+  for (const frame of frames) {
+    for (const event of frame.events) {
+      if (event.type !== 'SKILL_LEVEL_UP' || event.participantId !== playerParticipant.participantId) continue;
+      if (event.levelUpType === 'EVOLVE') continue;
+
+      const skill = event.skillSlot ? SKILL_BY_SLOT[event.skillSlot] : undefined;
+      if (!skill) continue;
+
+      sequence.push(skill);
+      timestamps.push(event.timestamp);
+    }
+  }
+
+  stats.skillPoints = sequence.length;
+  const championName = playerParticipant.championName;
+  if (NON_STANDARD_ULT.has(championName)) {
+    return { errors, stats, sequence };
+  }
+
+  // 1. Ultimate ranked later than 6/11/16
+  ULT_LEVELS.forEach((ultLevel, rankIndex) => {
+    if (sequence.length < ultLevel) return;
+
+    let ultPointIndex = -1;
+    let ultsSeen = 0;
+    for (let i = 0; i < sequence.length; i++) {
+      if (sequence[i] === 'R' && ++ultsSeen === rankIndex + 1) {
+        ultPointIndex = i;
+        break;
+      }
+    }
+
+    const rankedAtLevel = ultPointIndex + 1;
+    if (ultPointIndex >= 0 && rankedAtLevel <= ultLevel) return;
+
+    const levelReachedAt = timestamps[ultLevel - 1];
+    const levelsLate = ultPointIndex >= 0 ? rankedAtLevel - ultLevel : sequence.length - ultLevel + 1;
+    stats.ultDelays++;
+    stats.ultLevelsDelayed += levelsLate;
+
+    const delayMs = ultPointIndex >= 0 ? timestamps[ultPointIndex] - levelReachedAt : 0;
+    const delay = ultPointIndex >= 0
+      ? msg('skillOrder.ultDelay.at', {
+        rankedAt: rankedAtLevel,
+        time: formatTime(timestamps[ultPointIndex]),
+        seconds: Math.round(delayMs / 1000),
+        level: ultLevel,
+      })
+      : msg('skillOrder.ultDelay.never');
+
+    errors.push({
+      type: 'skill-order',
+      severity: ultLevel === 6 && (levelsLate >= 2 || delayMs >= 30000) ? 'high' : ultLevel === 6 ? 'medium' : 'low',
+      timestamp: Math.floor(levelReachedAt / 1000),
+      message: msg('skillOrder.ultDelay', {
+        rank: rankIndex + 1,
+        level: ultLevel,
+        time: formatTime(levelReachedAt),
+        delay,
+        note: msg(ultLevel === 6 ? 'skillOrder.ultDelay.noteLevel6' : 'skillOrder.ultDelay.note'),
+      }),
+      context: {
+        levelState: {
+          player: ultLevel,
+          opponent: 0,
+        },
+        gamePhase: getGamePhase(levelReachedAt),
+      },
+    });
+  });
+
+  // 2. Max order compared to the recommended one
+  const recommended = recommendedOrders[championName];
+  if (recommended && sequence.length >= 9) {
+    const playerOrder: SkillKey[] = [];
+    const firstMax = getLeadingSkill(sequence, 9);
+    if (firstMax) playerOrder.push(firstMax);
+    if (firstMax && sequence.length >= 13) {
+      const secondMax = getLeadingSkill(sequence, 13, [firstMax]);
+      if (secondMax) playerOrder.push(secondMax);
+    }
+
+    const expected = recommended.slice(0, playerOrder.length).split('') as SkillKey[];
+    const deviationIndex = playerOrder.findIndex((skill, index) => skill !== expected[index]);
+
+    if (deviationIndex >= 0) {
+      stats.followsRecommendedOrder = 0;
+      const checkLevel = deviationIndex === 0 ? 9 : 13;
+      const timestampMs = timestamps[checkLevel - 1];
+
+      errors.push({
+        type: 'skill-order',
+        severity: deviationIndex === 0 ? 'medium' : 'low',
+        timestamp: Math.floor(timestampMs / 1000),
+        message: msg('skillOrder.maxOrder', {
+          champion: championName,
+          level: checkLevel,
+          skill: playerOrder[deviationIndex],
+          expected: expected[deviationIndex],
+          recommended: recommended.split('').join(' > '),
+          sequence: sequence.slice(0, checkLevel).join(' '),
+        }),
+        context: {
+          gamePhase: getGamePhase(timestampMs),
+        },
+      });
+    }
+  }
+
+  return { errors, stats, sequence };
+}
@@ -0,0 +1,235 @@
+// Teamfight Analyzer - Groups kills by time and position into teamfights and reviews the player's role in each
+
+import {
+  TimelineFrame,
+  TimelineEvent,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+  Teamfight,
+} from '../types';
+import { msg } from '../i18n';
+import { Position, calculateDistance } from '../map';
+
+// Kills further apart than this (time or distance) belong to different fights
+const FIGHT_TIME_GAP_MS = 20000;
+const FIGHT_RADIUS = 3000;
+
+// A fight needs at least this many champions involved, with 2+ on each side
+const MIN_FIGHT_PARTICIPANTS = 5;
+
+// Further than this from the fight while alive = not taking part
+const ABSENT_DISTANCE = 4000;
+
+export interface TeamfightResult extends DetectorResult {
+  teamfights: Teamfight[];
+}
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function getCenter(kills: TimelineEvent[]): Position {
+  const positioned = kills.filter(k => k.position);
+  if (positioned.length === 0) return { x: 0, y: 0 };
+  return {
+    x: Math.round(positioned.reduce((sum, k) => sum + k.position!.x, 0) / positioned.length),
+    y: Math.round(positioned.reduce((sum, k) => sum + k.position!.y, 0) / positioned.length),
+  };
+}
+
+// Everyone who killed, died, assisted or damaged a victim during the fight
+function getInvolvedIds(kills: TimelineEvent[]): Set<number> {
+  const ids = new Set<number>();
+  for (const kill of kills) {
+    if (kill.killerId) ids.add(kill.killerId);
+    if (kill.victimId) ids.add(kill.victimId);
+    kill.assistingParticipantIds?.forEach(id => ids.add(id));
+    kill.victimDamageReceived?.forEach(damage => {
+      if (damage.participantId) ids.add(damage.participantId);
+    });
+  }
+  return ids;
+}
+
+// Interpolate a participant's position between the two surrounding frames
+function getPositionAt(frames: TimelineFrame[], participantId: number, timestampMs: number): Position | undefined {
+  const key = participantId.toString();
+  const nextIndex = frames.findIndex(f => f.timestamp >= timestampMs);
+  if (nextIndex <= 0) return frames[Math.max(0, nextIndex)]?.participantFrames[key]?.position;
+
+  const prev = frames[nextIndex - 1];
+  const next = frames[nextIndex];
+  const from = prev.participantFrames[key]?.position;
+  const to = next.participantFrames[key]?.position;
+  if (!from || !to) return from || to;
+
+  const ratio = (timestampMs - prev.timestamp) / (next.timestamp - prev.timestamp);
+  return {
+    x: Math.round(from.x + (to.x - from.x) * ratio),
+    y: Math.round(from.y + (to.y - from.y) * ratio),
+  };
+}
+
+export function analyzeTeamfights(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): TeamfightResult {
+  const errors: DetectorError[] = [];
+  const stats = {
+    teamfights: 0,
+    teamfightsWon: 0,
+    teamfightsLost: 0,
+    teamfightsParticipated: 0,
+    diedFirstInTeamfight: 0,
+  };
+  const teamfights: Teamfight[] = [];
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant) {
+    return { errors, stats, teamfights };
+  }
+
+  const playerId = playerParticipant.participantId;
+  const playerTeamId = playerParticipant.teamId;
+  const teamOf = (participantId: number) => participants.find(p => p.participantId === participantId)?.teamId;
+  const championOf = (participantId: number) => participants.find(p => p.participantId === participantId)?.championName || 'Unknown';
+
+  const kills = frames
+    .flatMap(f => f.events)
+    .filter(e => e.type === 'CHAMPION_KILL' && e.victimId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // Player deaths with an approximate respawn (to know if they could take part)
+  const deaths = kills
+    .filter(k => k.victimId === playerId)
+    .map(k => {
+      const phase = getGamePhase(k.timestamp);
+      const deathTimer = phase === 'early' ? 15000 : phase === 'mid' ? 30000 : 50000;
+      return { timestamp: k.timestamp, respawn: k.timestamp + deathTimer };
+    });
+
+  // 1. Cluster kills by time and position
+  const clusters: TimelineEvent[][] = [];
+  for (const kill of kills) {
+    const current = clusters[clusters.length - 1];
+    const last = current?.[current.length - 1];
+    const closeInTime = last && kill.timestamp - last.timestamp <= FIGHT_TIME_GAP_MS;
+    const closeInSpace = !kill.position || (current && calculateDistance(kill.position, getCenter(current)) <= FIGHT_RADIUS);
+
+    if (current && closeInTime && closeInSpace) {
+      current.push(kill);
+    } else {
+      clusters.push([kill]);
+    }
+  }
+
+  // 2. Keep clusters that involve enough champions on both sides
+  for (const cluster of clusters) {
+    const involved = getInvolvedIds(cluster);
+    const allies = [...involved].filter(id => teamOf(id) === playerTeamId);
+    const enemies = [...involved].filter(id => teamOf(id) !== undefined && teamOf(id) !== playerTeamId);
+    if (involved.size < MIN_FIGHT_PARTICIPANTS || allies.length < 2 || enemies.length < 2) continue;
+
+    const startMs = cluster[0].timestamp;
+    const endMs = cluster[cluster.length - 1].timestamp;
+    const center = getCenter(cluster);
+
+    const allyKills = cluster.filter(k => teamOf(k.victimId!) !== playerTeamId).length;
+    const enemyKills = cluster.length - allyKills;
+    const outcome: Teamfight['outcome'] = allyKills > enemyKills ? 'won' : allyKills < enemyKills ? 'lost' : 'even';
+
+    const playerAlive = !deaths.some(d => d.timestamp < startMs && d.respawn > startMs);
+    const playerInvolved = involved.has(playerId);
+    const playerKill = cluster.find(k => k.victimId === playerId || k.killerId === playerId);
+    const playerPosition = playerKill?.position || getPositionAt(frames, playerId, startMs);
+    const playerDistance = playerPosition ? Math.round(calculateDistance(playerPosition, center)) : -1;
+    const playerDiedFirst = cluster[0].victimId === playerId;
+
+    const fight: Teamfight = {
+      start: Math.floor(startMs / 1000),
+      end: Math.floor(endMs / 1000),
+      position: center,
+      allies: allies.map(championOf),
+      enemies: enemies.map(championOf),
+      kills: { ally: allyKills, enemy: enemyKills },
+      outcome,
+      playerAlive,
+      playerInvolved,
+      playerPosition,
+      playerDistance,
+      playerDiedFirst,
+    };
+    teamfights.push(fight);
+
+    stats.teamfights++;
+    if (outcome === 'won') stats.teamfightsWon++;
+    if (outcome === 'lost') stats.teamfightsLost++;
+    if (playerInvolved) stats.teamfightsParticipated++;
+    if (playerDiedFirst) stats.diedFirstInTeamfight++;
+
+    if (outcome !== 'lost') continue;
+
+    const score = `${allyKills}-${enemyKills}`;
+
+    // 3a. Player was the first to die and the fight was lost
+    if (playerDiedFirst) {
+      const killer = cluster[0].killerId ? championOf(cluster[0].killerId) : msg('common.theEnemy');
+      errors.push({
+        type: 'teamfight',
+        severity: enemyKills - allyKills >= 3 ? 'critical' : 'high',
+        timestamp: Math.floor(startMs / 1000),
+        message: msg('teamfight.diedFirst', {
+          time: formatTime(startMs),
+          killer,
+          score,
+          allies: allies.length,
+          enemies: enemies.length,
+        }),
+        context: {
+          mapState: {
+            zone: 'danger',
+            playerPosition,
+          },
+          gamePhase: getGamePhase(startMs),
+        },
+      });
+      continue;
+    }
+
+    // 3b. Player was alive but too far to help
+    if (playerAlive && !playerInvolved && playerDistance > ABSENT_DISTANCE) {
+      errors.push({
+        type: 'teamfight',
+        severity: enemies.length - allies.length >= 1 ? 'high' : 'medium',
+        timestamp: Math.floor(startMs / 1000),
+        message: msg('teamfight.absent', {
+          time: formatTime(startMs),
+          score,
+          allies: allies.length,
+          enemies: enemies.length,
+          distance: playerDistance,
+        }),
+        context: {
+          mapState: {
+            zone: 'neutral',
+            playerPosition,
+          },
+          gamePhase: getGamePhase(startMs),
+        },
+      });
+    }
+  }
+
+  return { errors, stats, teamfights };
+}
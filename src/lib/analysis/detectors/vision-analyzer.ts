@@ -3,9 +3,11 @@
 import {
   TimelineFrame,
   MatchParticipant,
-  DetectedError,
+  DetectorError,
   DetectorResult,
 } from '../types';
+import { msg } from '../i18n';
+import { PhaseBenchmarks } from '../benchmarks';
 
 function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   const minutes = timestampMs / 60000;
@@ -14,19 +16,13 @@ function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
   return 'late';
 }
 
-// Vision benchmarks per game phase (wards placed per 5 min)
-const VISION_BENCHMARKS = {
-  early: { good: 5, average: 3, poor: 1 },
-  mid: { good: 8, average: 5, poor: 2 },
-  late: { good: 10, average: 6, poor: 3 },
-};
-
 export function analyzeVision(
   frames: TimelineFrame[],
   participants: MatchParticipant[],
-  playerPuuid: string
+  playerPuuid: string,
+  wardsPer5MinByPhase: PhaseBenchmarks // Wards expected per 5 min for the player's role
 ): DetectorResult {
-  const errors: DetectedError[] = [];
+  const errors: DetectorError[] = [];
   const stats = {
     totalWardsPlaced: 0,
     totalWardsKilled: 0,
@@ -78,36 +74,27 @@ export function analyzeVision(
     const minuteStart = parseInt(windowKey) * 5;
     const minuteEnd = minuteStart + 5;
     const gamePhase = getGamePhase(minuteStart * 60000);
-    const benchmark = VISION_BENCHMARKS[gamePhase];
+    const benchmark = wardsPer5MinByPhase[gamePhase];
 
     // Check ward placement
-    const adjustedBenchmark = isSupport ? benchmark : {
-      good: benchmark.good * 0.6,
-      average: benchmark.average * 0.6,
-      poor: benchmark.poor * 0.6
-    };
-
-    if (data.placed < adjustedBenchmark.poor && minuteStart >= 10) {
+    if (data.placed < benchmark.poor && minuteStart >= 10) {
       const severity = gamePhase === 'late' ? 'high' : 'medium';
 
       errors.push({
         type: 'vision',
         severity,
         timestamp: minuteStart * 60,
-        title: `Manque de vision (${minuteStart}-${minuteEnd} min)`,
-        description: `Tu n'as place que ${data.placed} ward(s) entre ${minuteStart} et ${minuteEnd} min. ${
-          isSupport
-            ? 'En tant que support, la vision est ta responsabilite principale.'
-            : 'Meme en tant que laner, tu dois contribuer a la vision.'
-        }`,
-        suggestion: isSupport
-          ? 'Place des wards strategiques: river, jungle ennemie, objectifs. Utilise ton Oracle Lens pour deward.'
-          : 'Achete des Control Wards regulierement. Une ward peut sauver ta vie ou celle de ton equipe.',
-        coachingNote: `La vision gagne des games. ${data.placed} ward(s) en 5 min est insuffisant pour avoir une bonne lecture de la map.`,
+        message: msg('vision.lowWards', {
+          start: minuteStart,
+          end: minuteEnd,
+          wards: data.placed,
+          role: msg(isSupport ? 'vision.lowWards.support' : 'vision.lowWards.laner'),
+          advice: msg(isSupport ? 'vision.lowWards.adviceSupport' : 'vision.lowWards.adviceLaner'),
+        }),
         context: {
           visionState: {
             playerWardsActive: data.placed,
-            areaWarded: data.placed >= adjustedBenchmark.average,
+            areaWarded: data.placed >= benchmark.average,
           },
           gamePhase,
         },
@@ -120,10 +107,7 @@ export function analyzeVision(
         type: 'vision',
         severity: 'low',
         timestamp: minuteStart * 60,
-        title: `Pas de Control Ward (${minuteStart}-${minuteEnd} min)`,
-        description: `Tu n'as pas place de Control Ward entre ${minuteStart} et ${minuteEnd} min.`,
-        suggestion: 'Les Control Wards sont essentielles pour controler les zones cles (dragon, baron, jungle). Achetes-en a chaque back.',
-        coachingNote: 'Une Control Ward coute 75 gold mais peut sauver ta vie ou reveler des embuscades. C\'est l\'un des meilleurs investissements du jeu.',
+        message: msg('vision.noControlWard', { start: minuteStart, end: minuteEnd }),
         context: {
           visionState: {
             playerWardsActive: data.placed,
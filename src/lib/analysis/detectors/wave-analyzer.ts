@@ -0,0 +1,228 @@
+// Wave Analyzer - Detects wave management mistakes from CS deltas, lane presence and tower events
+
+import {
+  TimelineFrame,
+  MatchParticipant,
+  DetectorError,
+  DetectorResult,
+} from '../types';
+import { msg } from '../i18n';
+import { Lane, getLaneType, getMapZone, isInLane, isInFountain, isOnOwnSide } from '../map';
+
+// Laning phase ends at 14 min (or when an outer tower of the lane falls)
+const LANING_PHASE_END_MINUTES = 14;
+
+// Expected minion CS per minute when no lane opponent is available
+const EXPECTED_LANE_CS_PER_MIN = 8;
+
+const LANE_BY_POSITION: Record<string, Lane> = {
+  TOP: 'top',
+  MIDDLE: 'mid',
+  BOTTOM: 'bot',
+  UTILITY: 'bot',
+};
+
+function getGamePhase(timestampMs: number): 'early' | 'mid' | 'late' {
+  const minutes = timestampMs / 60000;
+  if (minutes < 14) return 'early';
+  if (minutes < 25) return 'mid';
+  return 'late';
+}
+
+function formatTime(timestampMs: number): string {
+  const minutes = Math.floor(timestampMs / 60000);
+  const seconds = Math.floor((timestampMs % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function analyzeWaves(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  playerPuuid: string
+): DetectorResult {
+  const errors: DetectorError[] = [];
+  const stats = {
+    recalls: 0,
+    recallsWithoutCrash: 0,
+    csLostWhileAway: 0,
+    laneAbsenceMinutes: 0,
+    longestLaneAbsence: 0,
+  };
+
+  const playerParticipant = participants.find(p => p.puuid === playerPuuid);
+  if (!playerParticipant) {
+    return { errors, stats };
+  }
+
+  const lane = LANE_BY_POSITION[playerParticipant.teamPosition];
+  if (!lane) {
+    return { errors, stats }; // Junglers don't manage a lane
+  }
+
+  const playerId = playerParticipant.participantId.toString();
+  const playerTeamId = playerParticipant.teamId;
+  const opponent = participants.find(
+    p => p.teamId !== playerTeamId && p.teamPosition === playerParticipant.teamPosition
+  );
+  const opponentId = opponent?.participantId.toString();
+
+  // Laning phase ends early if an outer tower falls in the player's lane
+  let laningEndMs = LANING_PHASE_END_MINUTES * 60000;
+  const deaths: Array<{ timestamp: number; respawn: number }> = [];
+
+  for (const frame of frames) {
+    for (const event of frame.events) {
+      if (
+        event.type === 'BUILDING_KILL' &&
+        event.towerType === 'OUTER_TURRET' &&
+        event.laneType === getLaneType(lane)
+      ) {
+        laningEndMs = Math.min(laningEndMs, event.timestamp);
+      }
+      if (event.type === 'CHAMPION_KILL' && event.victimId === playerParticipant.participantId) {
+        const phase = getGamePhase(event.timestamp);
+        const deathTimer = phase === 'early' ? 15000 : phase === 'mid' ? 30000 : 50000;
+        deaths.push({ timestamp: event.timestamp, respawn: event.timestamp + deathTimer });
+      }
+    }
+  }
+
+  // Died during the minute before this frame
+  const diedBefore = (frameIndex: number) => deaths.some(d =>
+    d.timestamp <= frames[frameIndex].timestamp && d.respawn >= frames[frameIndex - 1].timestamp
+  );
+
+  // Minion CS gained by player and opponent between two frames
+  const csDelta = (frameIndex: number) => {
+    const prev = frames[frameIndex - 1].participantFrames;
+    const curr = frames[frameIndex].participantFrames;
+    const player = (curr[playerId]?.minionsKilled || 0) - (prev[playerId]?.minionsKilled || 0);
+    const opponentCS = opponentId
+      ? (curr[opponentId]?.minionsKilled || 0) - (prev[opponentId]?.minionsKilled || 0)
+      : EXPECTED_LANE_CS_PER_MIN;
+    return { player, opponent: opponentCS, lost: Math.max(0, opponentCS - player) };
+  };
+
+  const csStateAt = (frameIndex: number) => {
+    const player = frames[frameIndex].participantFrames[playerId]?.minionsKilled || 0;
+    const opponentCS = opponentId
+      ? frames[frameIndex].participantFrames[opponentId]?.minionsKilled || 0
+      : Math.round(EXPECTED_LANE_CS_PER_MIN * frameIndex);
+    return { player, opponent: opponentCS, differential: player - opponentCS };
+  };
+
+  // 1. Recalls without crashing the wave
+  for (let i = 2; i < frames.length - 1; i++) {
+    if (frames[i].timestamp > laningEndMs) break;
+
+    const before = frames[i - 1].participantFrames[playerId];
+    const current = frames[i].participantFrames[playerId];
+    if (!before || !current) continue;
+
+    const recalled = isInFountain(current.position, playerTeamId) &&
+      !isInFountain(before.position, playerTeamId) &&
+      !diedBefore(i);
+    if (!recalled) continue;
+
+    stats.recalls++;
+
+    if (!isInLane(before.position, lane) || !isOnOwnSide(before.position, playerTeamId)) continue;
+
+    // CS lost while the un-crashed wave bounced back into the player's tower
+    const lost = csDelta(i).lost + csDelta(i + 1).lost;
+    if (lost < 8) continue;
+
+    stats.recallsWithoutCrash++;
+    const timeStr = formatTime(frames[i].timestamp);
+
+    errors.push({
+      type: 'wave-management',
+      severity: lost >= 15 ? 'high' : 'medium',
+      timestamp: Math.floor(frames[i].timestamp / 1000),
+      message: msg('wave.recallWithoutCrash', { time: timeStr, lost, gold: lost * 21 }),
+      context: {
+        csState: csStateAt(i),
+        mapState: {
+          zone: getMapZone(before.position, playerTeamId).safety,
+          playerPosition: before.position,
+        },
+        gamePhase: getGamePhase(frames[i].timestamp),
+      },
+    });
+  }
+
+  // 2. CS lost while away from lane (roaming or dead) and long lane absences
+  let windowStart = -1;
+  let windowLost = 0;
+  let windowDeadMinutes = 0;
+
+  const closeWindow = (endIndex: number) => {
+    const minutes = endIndex - windowStart;
+    stats.laneAbsenceMinutes += minutes;
+    stats.csLostWhileAway += windowLost;
+    stats.longestLaneAbsence = Math.max(stats.longestLaneAbsence, minutes);
+
+    const isLongGap = minutes >= 3;
+    if (windowLost >= 10 || isLongGap) {
+      const startMs = frames[windowStart].timestamp;
+      const endMs = frames[endIndex - 1].timestamp;
+      const wasMostlyDead = windowDeadMinutes * 2 >= minutes;
+      const startPosition = frames[windowStart].participantFrames[playerId]?.position;
+
+      errors.push({
+        type: 'wave-management',
+        severity: windowLost >= 20 ? 'high' : 'medium',
+        timestamp: Math.floor(startMs / 1000),
+        message: msg('wave.away', {
+          title: isLongGap
+            ? msg('wave.away.titleLong', { minutes })
+            : msg(wasMostlyDead ? 'wave.away.titleDead' : 'wave.away.titleRoam'),
+          start: formatTime(startMs),
+          end: formatTime(endMs + 60000),
+          reason: msg(wasMostlyDead ? 'common.dead' : 'wave.away.roaming'),
+          lost: windowLost,
+          opponent: opponent?.championName || msg('wave.away.standardLane'),
+          advice: msg(wasMostlyDead ? 'wave.away.adviceDead' : 'wave.away.adviceRoam'),
+          note: isLongGap ? msg('wave.away.noteLong') : msg('wave.away.noteRoam', { lost: windowLost, gold: windowLost * 21 }),
+        }),
+        context: {
+          csState: csStateAt(endIndex - 1),
+          mapState: {
+            zone: startPosition ? getMapZone(startPosition, playerTeamId).safety : 'neutral',
+            playerPosition: startPosition,
+          },
+          gamePhase: getGamePhase(startMs),
+        },
+      });
+    }
+
+    windowStart = -1;
+    windowLost = 0;
+    windowDeadMinutes = 0;
+  };
+
+  for (let i = 2; i < frames.length; i++) {
+    if (frames[i].timestamp > laningEndMs) break;
+
+    const playerFrame = frames[i].participantFrames[playerId];
+    if (!playerFrame) continue;
+
+    const dead = diedBefore(i);
+    // Recalls are handled above
+    const inBase = !dead && isInFountain(playerFrame.position, playerTeamId);
+    const away = dead || (!inBase && !isInLane(playerFrame.position, lane));
+
+    if (away) {
+      if (windowStart < 0) windowStart = i;
+      windowLost += csDelta(i).lost;
+      if (dead) windowDeadMinutes++;
+    } else if (windowStart >= 0) {
+      closeWindow(i);
+    }
+  }
+  if (windowStart >= 0) {
+    closeWindow(Math.min(frames.length, Math.floor(laningEndMs / 60000) + 1));
+  }
+
+  return { errors, stats };
+}
@@ -1,6 +1,15 @@
 // Coaching Tip Generator - Generates personalized tips based on analysis results
 
 import { DetectedError } from '../types';
+import { Language, translate } from '../i18n';
+
+// Tip as defined below: title and description come from the catalogs (tip.<id>.title / .description)
+interface TipDefinition {
+  id: string;
+  category: string; // catalog key: tipCategory.<category>
+  priority: number;
+  role?: string; // Role-specific tip
+}
 
 interface CoachingTip {
   id: string;
@@ -9,160 +18,193 @@ interface CoachingTip {
   description: string;
   priority: number;
   relatedErrors?: string[];
-  role?: string; // Role-specific tip
+  role?: string;
 }
 
-// Error type to category mapping
-const ERROR_CATEGORIES: Record<string, string> = {
-  'cs-missing': 'Farm',
-  'vision': 'Vision',
-  'positioning': 'Positionnement',
-  'map-awareness': 'Conscience Map',
-  'objective': 'Objectifs',
-  'trading': 'Trades',
-  'timing': 'Timing',
-  'wave-management': 'Gestion Waves',
-  'itemization': 'Items',
-  'cooldown-tracking': 'Cooldowns',
-  'roaming': 'Roaming',
-  'teamfight': 'Teamfight',
-};
-
 // Role type
 type Role = 'TOP' | 'JUNGLE' | 'MID' | 'ADC' | 'SUPPORT' | 'UNKNOWN';
 
 // Pre-defined coaching tips by category
-const COACHING_TIPS: Record<string, CoachingTip[]> = {
+const COACHING_TIPS: Record<string, TipDefinition[]> = {
   'cs-missing': [
     {
       id: 'cs-1',
-      category: 'Farm',
-      title: 'Pratique le last hit',
-      description: 'Va en Practice Tool et entraine-toi a last hit sans utiliser de sorts. Vise 80+ CS a 10 min.',
+      category: 'farm',
       priority: 1,
     },
     {
       id: 'cs-2',
-      category: 'Farm',
-      title: 'CS sous tour',
-      description: 'Apprends le pattern: 2 coups de tour + 1 auto pour les melees, 1 coup de tour + 1 auto pour les casters (avec items de depart).',
+      category: 'farm',
       priority: 2,
     },
   ],
   'vision': [
     {
       id: 'vision-1',
-      category: 'Vision',
-      title: 'Achete des Control Wards',
-      description: 'Achete une Control Ward a chaque back. Place-la dans ta jungle ou pres des objectifs.',
+      category: 'vision',
       priority: 1,
     },
     {
       id: 'vision-2',
-      category: 'Vision',
-      title: 'Ward avant les objectifs',
-      description: 'Place des wards 1 minute avant le spawn du Dragon/Baron pour avoir l\'information.',
+      category: 'vision',
       priority: 2,
     },
   ],
   'positioning': [
     {
       id: 'pos-1',
-      category: 'Positionnement',
-      title: 'Reste avec ton equipe',
-      description: 'En mid/late game, ne te separe pas de ton equipe sauf si tu as de la vision et que tu sais ou sont les ennemis.',
+      category: 'positioning',
       priority: 1,
     },
     {
       id: 'pos-2',
-      category: 'Positionnement',
-      title: 'Respecte le fog of war',
-      description: 'Si tu ne vois pas 3+ ennemis sur la map, joue comme s\'ils venaient vers toi.',
+      category: 'positioning',
       priority: 2,
     },
   ],
   'map-awareness': [
     {
       id: 'map-1',
-      category: 'Conscience Map',
-      title: 'Regarde ta minimap',
-      description: 'Force-toi a regarder ta minimap toutes les 3 secondes. C\'est une habitude a developper.',
+      category: 'mapAwareness',
       priority: 1,
     },
     {
       id: 'map-2',
-      category: 'Conscience Map',
-      title: 'Track le jungler ennemi',
-      description: 'Note mentalement ou le jungler ennemi a ete vu. S\'il etait bot, il sera top dans 30-40 sec.',
+      category: 'mapAwareness',
       priority: 2,
     },
   ],
   'objective': [
     {
       id: 'obj-1',
-      category: 'Objectifs',
-      title: 'Priorise les objectifs',
-      description: 'Apres un kill ou un avantage, pense toujours: "Quel objectif puis-je prendre?"',
+      category: 'objectives',
       priority: 1,
     },
     {
       id: 'obj-2',
-      category: 'Objectifs',
-      title: 'Time les objectifs',
-      description: 'Le Dragon respawn 5 min apres, le Baron 6 min. Prepare-toi 1 min avant.',
+      category: 'objectives',
+      priority: 2,
+    },
+  ],
+  'wave-management': [
+    {
+      id: 'wave-1',
+      category: 'waves',
+      priority: 1,
+    },
+    {
+      id: 'wave-2',
+      category: 'waves',
+      priority: 2,
+    },
+  ],
+  'back-timing': [
+    {
+      id: 'back-1',
+      category: 'backTiming',
+      priority: 1,
+    },
+    {
+      id: 'back-2',
+      category: 'backTiming',
+      priority: 2,
+    },
+  ],
+  'itemization': [
+    {
+      id: 'item-1',
+      category: 'items',
+      priority: 1,
+    },
+    {
+      id: 'item-2',
+      category: 'items',
+      priority: 2,
+    },
+  ],
+  'power-spike': [
+    {
+      id: 'spike-1',
+      category: 'powerSpikes',
+      priority: 1,
+    },
+  ],
+  'skill-order': [
+    {
+      id: 'skill-1',
+      category: 'skills',
+      priority: 1,
+    },
+  ],
+  'jungle-pathing': [
+    {
+      id: 'jungle-1',
+      category: 'jungle',
+      priority: 1,
+    },
+    {
+      id: 'jungle-2',
+      category: 'jungle',
+      priority: 2,
+    },
+  ],
+  'roaming': [
+    {
+      id: 'roam-1',
+      category: 'roaming',
+      priority: 1,
+    },
+    {
+      id: 'roam-2',
+      category: 'roaming',
       priority: 2,
     },
   ],
+  'death-timing': [
+    {
+      id: 'death-timing-1',
+      category: 'deathTiming',
+      priority: 1,
+    },
+  ],
   'trading': [
     {
       id: 'trade-1',
-      category: 'Trades',
-      title: 'Trade quand l\'ennemi last hit',
-      description: 'Attaque l\'ennemi quand il s\'approche pour last hit un minion. Il doit choisir entre te frapper ou prendre le CS.',
+      category: 'trading',
       priority: 1,
     },
     {
       id: 'trade-2',
-      category: 'Trades',
-      title: 'Respecte les powerspikes',
-      description: 'Fais attention aux niveaux 2, 3, 6 et aux completions d\'items. Ce sont des moments ou ton adversaire devient plus fort.',
+      category: 'trading',
       priority: 2,
     },
   ],
 };
 
 // Role-specific coaching tips
-const ROLE_SPECIFIC_TIPS: Record<Role, CoachingTip[]> = {
+const ROLE_SPECIFIC_TIPS: Record<Role, TipDefinition[]> = {
   'TOP': [
     {
       id: 'top-1',
-      category: 'Toplaner',
-      title: 'Gestion du freeze',
-      description: 'En tant que Toplaner, apprends a freeze pres de ta tour. Ca te protege des ganks et force l\'ennemi a overextend pour farm.',
+      category: 'top',
       priority: 1,
       role: 'TOP',
     },
     {
       id: 'top-2',
-      category: 'Toplaner',
-      title: 'TP pour objectifs',
-      description: 'Garde ton TP pour rejoindre les fights bot ou contester Drake. Ne le gaspille pas pour revenir en lane apres un back.',
+      category: 'top',
       priority: 1,
       role: 'TOP',
     },
     {
       id: 'top-3',
-      category: 'Toplaner',
-      title: 'Herald timing',
-      description: 'Entre 8 et 14 min, c\'est TON moment pour le Herald. Ping ton jungler et prepare la vision.',
+      category: 'top',
       priority: 2,
       role: 'TOP',
     },
     {
       id: 'top-4',
-      category: 'Toplaner',
-      title: 'Split push efficace',
-      description: 'Split push seulement avec vision. Pose 2 wards dans la jungle ennemie avant de push profond.',
+      category: 'top',
       priority: 2,
       role: 'TOP',
     },
@@ -170,33 +212,25 @@ const ROLE_SPECIFIC_TIPS: Record<Role, CoachingTip[]> = {
   'JUNGLE': [
     {
       id: 'jg-1',
-      category: 'Jungler',
-      title: 'Objectifs > Ganks',
-      description: 'Priorise toujours les objectifs (Drake, Herald, Baron) sur les ganks. Un objectif = avantage garanti.',
+      category: 'jungler',
       priority: 1,
       role: 'JUNGLE',
     },
     {
       id: 'jg-2',
-      category: 'Jungler',
-      title: 'Track le jungler ennemi',
-      description: 'Note ou le jungler ennemi a ete vu. S\'il gank top, tu peux prendre son bot side ou gank bot.',
+      category: 'jungler',
       priority: 1,
       role: 'JUNGLE',
     },
     {
       id: 'jg-3',
-      category: 'Jungler',
-      title: 'Gank des lanes pushees',
-      description: 'Ne gank jamais une lane poussee sous tour ennemie. Attend que ton laner push ou gank ailleurs.',
+      category: 'jungler',
       priority: 2,
       role: 'JUNGLE',
     },
     {
       id: 'jg-4',
-      category: 'Jungler',
-      title: 'Vision pre-objectif',
-      description: '1 minute avant Drake/Baron, place des wards et sweep la zone. C\'est TA responsabilite.',
+      category: 'jungler',
       priority: 2,
       role: 'JUNGLE',
     },
@@ -204,33 +238,25 @@ const ROLE_SPECIFIC_TIPS: Record<Role, CoachingTip[]> = {
   'MID': [
     {
       id: 'mid-1',
-      category: 'Midlaner',
-      title: 'Roam apres push',
-      description: 'Push ta wave AVANT de roam. Sinon tu perds du CS et ton roam peut echouer si ta wave est sous ta tour.',
+      category: 'mid',
       priority: 1,
       role: 'MID',
     },
     {
       id: 'mid-2',
-      category: 'Midlaner',
-      title: 'Prio pour ton jungler',
-      description: 'Si tu as la prio mid, ton jungler peut envahir et contester les scuttles. Aide-le sur les contests.',
+      category: 'mid',
       priority: 1,
       role: 'MID',
     },
     {
       id: 'mid-3',
-      category: 'Midlaner',
-      title: 'Track les roams ennemis',
-      description: 'Si ton adversaire disparait, PING immediatement. Meme si tu n\'es pas sur, un ping peut sauver tes teammates.',
+      category: 'mid',
       priority: 2,
       role: 'MID',
     },
     {
       id: 'mid-4',
-      category: 'Midlaner',
-      title: 'Conteste les objectifs',
-      description: 'Ta position centrale te permet d\'arriver rapidement sur Drake/Herald. Sois present pour chaque contest.',
+      category: 'mid',
       priority: 2,
       role: 'MID',
     },
@@ -238,33 +264,25 @@ const ROLE_SPECIFIC_TIPS: Record<Role, CoachingTip[]> = {
   'ADC': [
     {
       id: 'adc-1',
-      category: 'ADC',
-      title: 'Survie = DPS',
-      description: 'Un ADC mort fait 0 degats. Reste TOUJOURS derriere ton frontline et ne facecheck jamais.',
+      category: 'adc',
       priority: 1,
       role: 'ADC',
     },
     {
       id: 'adc-2',
-      category: 'ADC',
-      title: 'Kiting en teamfight',
-      description: 'Utilise attack-move (A + click) pour kite automatiquement. Frappe la cible la plus proche et safe.',
+      category: 'adc',
       priority: 1,
       role: 'ADC',
     },
     {
       id: 'adc-3',
-      category: 'ADC',
-      title: 'Farm side lane safe',
-      description: 'Ne farm pas une side lane sans vision. Si tu ne vois pas 3+ ennemis, joue comme s\'ils venaient vers toi.',
+      category: 'adc',
       priority: 2,
       role: 'ADC',
     },
     {
       id: 'adc-4',
-      category: 'ADC',
-      title: 'Presence sur Drake',
-      description: 'Ton DPS est crucial pour secure Drake rapidement. Sois TOUJOURS present, meme si tu dois perdre quelques CS.',
+      category: 'adc',
       priority: 2,
       role: 'ADC',
     },
@@ -272,33 +290,25 @@ const ROLE_SPECIFIC_TIPS: Record<Role, CoachingTip[]> = {
   'SUPPORT': [
     {
       id: 'sup-1',
-      category: 'Support',
-      title: 'Vision = Victoire',
-      description: 'Achete des Control Wards a CHAQUE back. Place-les pres des objectifs ou dans les bushes de la jungle.',
+      category: 'support',
       priority: 1,
       role: 'SUPPORT',
     },
     {
       id: 'sup-2',
-      category: 'Support',
-      title: 'Peel ton ADC',
-      description: 'En teamfight, ta priorite #1 est de garder ton ADC en vie. Utilise tes CC sur les assassins qui le ciblent.',
+      category: 'support',
       priority: 1,
       role: 'SUPPORT',
     },
     {
       id: 'sup-3',
-      category: 'Support',
-      title: 'Roam mid efficace',
-      description: 'Roam mid apres avoir push la wave bot. Previens ton ADC et ward la riviere avant de partir.',
+      category: 'support',
       priority: 2,
       role: 'SUPPORT',
     },
     {
       id: 'sup-4',
-      category: 'Support',
-      title: 'Sweep avant objectifs',
-      description: 'Utilise ton Sweeper autour de Drake/Baron 1 min avant le spawn. Deny la vision ennemie est crucial.',
+      category: 'support',
       priority: 2,
       role: 'SUPPORT',
     },
@@ -315,18 +325,21 @@ export function generateCoachingTips(
     objectiveScore: number;
     tradingScore: number;
   },
-  role: Role = 'UNKNOWN'
+  role: Role = 'UNKNOWN',
+  language: Language = 'en'
 ): CoachingTip[] {
-  const tips: CoachingTip[] = [];
+  const tips: Array<TipDefinition & { relatedErrors?: string[] }> = [];
   const usedTipIds = new Set<string>();
 
-  // Count errors by type
+  // Count errors by type (and the win probability they cost)
   const errorCounts: Record<string, number> = {};
+  const errorImpact: Record<string, number> = {};
   const errorIds: Record<string, string[]> = {};
 
   for (const error of errors) {
     const type = error.type;
     errorCounts[type] = (errorCounts[type] || 0) + 1;
+    errorImpact[type] = (errorImpact[type] || 0) + Math.min(0, error.impact ?? 0);
     if (!errorIds[type]) errorIds[type] = [];
     errorIds[type].push(`error-${error.timestamp}`);
   }
@@ -344,9 +357,9 @@ export function generateCoachingTips(
     usedTipIds.add(tip.id);
   }
 
-  // Sort error types by count (most frequent first)
+  // Sort error types by impact (most costly first), then by count
   const sortedTypes = Object.entries(errorCounts)
-    .sort((a, b) => b[1] - a[1])
+    .sort((a, b) => errorImpact[a[0]] - errorImpact[b[0]] || b[1] - a[1])
     .map(([type]) => type);
 
   // Add tips for most common error types
@@ -404,10 +417,12 @@ export function generateCoachingTips(
     }
   }
 
-  // Assign final priorities
-  tips.forEach((tip, index) => {
-    tip.priority = index + 1;
-  });
-
-  return tips;
+  // Render in the player's language and assign final priorities
+  return tips.map((tip, index) => ({
+    ...tip,
+    category: translate(`tipCategory.${tip.category}`, {}, language),
+    title: translate(`tip.${tip.id}.title`, {}, language),
+    description: translate(`tip.${tip.id}.description`, {}, language),
+    priority: index + 1,
+  }));
 }
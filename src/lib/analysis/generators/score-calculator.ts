@@ -1,6 +1,7 @@
 // Score Calculator - Calculates overall and category scores from analysis results
 
-import { DetectedError } from '../types';
+import { DetectedError, LaneSnapshot } from '../types';
+import { Benchmarks, DEFAULT_SCORING_BENCHMARKS } from '../benchmarks';
 
 interface ScoreBreakdown {
   overallScore: number;
@@ -25,9 +26,25 @@ const ERROR_CATEGORIES: Record<string, keyof Omit<ScoreBreakdown, 'overallScore'
   'cooldown-tracking': 'tradingScore',
   'roaming': 'positioningScore',
   'teamfight': 'positioningScore',
+  'back-timing': 'tradingScore',
+  'power-spike': 'tradingScore',
+  'skill-order': 'tradingScore',
+  'jungle-pathing': 'objectiveScore',
+  'death-timing': 'objectiveScore',
 };
 
 // Severity penalty weights
+export type ScoreWeights = Record<keyof Omit<ScoreBreakdown, 'overallScore'>, number>;
+
+// Summoner's Rift weights; game mode profiles can override them (e.g. ARAM has no CS/vision/objectives)
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  csScore: 0.2,
+  visionScore: 0.15,
+  positioningScore: 0.3,
+  objectiveScore: 0.15,
+  tradingScore: 0.2,
+};
+
 const SEVERITY_PENALTIES: Record<string, number> = {
   critical: 15,
   high: 10,
@@ -35,16 +52,40 @@ const SEVERITY_PENALTIES: Record<string, number> = {
   low: 2,
 };
 
+// Penalty from the win probability lost around the error (2 to 15 points, every error costs something),
+// or from its severity label when the error could not be measured
+function getPenalty(error: DetectedError): number {
+  if (error.impact === undefined) {
+    return SEVERITY_PENALTIES[error.severity] || 5;
+  }
+  return Math.min(15, Math.max(2, Math.round(-error.impact)));
+}
+
 export function calculateScores(
   errors: DetectedError[],
   detectorStats: {
     deaths: { totalDeaths: number; soloDeaths: number; towerdiveDeaths: number };
     cs: { avgCSPerMin: number; maxCSDiff: number };
     vision: { wardsPerMinute: number; totalWardsPlaced: number };
-    objectives: { dragonsLost: number; baronsLost: number };
+    objectives: {
+      dragonsLost: number;
+      baronsLost: number;
+      platesWon?: number;
+      platesLost?: number;
+      grubsTaken?: number;
+      grubsLost?: number;
+      firstTowerTaken?: number;
+      firstTowerLost?: number;
+      inhibitorsLost?: number;
+      soulTaken?: number;
+      soulLost?: number;
+    };
+    laning?: LaneSnapshot; // Differentials vs lane opponent @15 (or @10)
   },
   matchResult: 'win' | 'loss',
-  gameDuration: number
+  gameDuration: number,
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+  benchmarks: Benchmarks['scoring'] = DEFAULT_SCORING_BENCHMARKS
 ): ScoreBreakdown {
   // Start with perfect scores
   const scores: ScoreBreakdown = {
@@ -59,7 +100,7 @@ export function calculateScores(
   // Apply penalties for each error
   for (const error of errors) {
     const category = ERROR_CATEGORIES[error.type] || 'positioningScore';
-    const penalty = SEVERITY_PENALTIES[error.severity] || 5;
+    const penalty = getPenalty(error);
 
     scores[category] = Math.max(0, scores[category] - penalty);
   }
@@ -68,29 +109,29 @@ export function calculateScores(
 
   // CS Score adjustments
   const csPerMin = detectorStats.cs.avgCSPerMin;
-  if (csPerMin >= 8) {
+  if (csPerMin >= benchmarks.csPerMin.good) {
     scores.csScore = Math.min(100, scores.csScore + 10);
-  } else if (csPerMin >= 7) {
+  } else if (csPerMin >= benchmarks.csPerMin.average) {
     scores.csScore = Math.min(100, scores.csScore + 5);
-  } else if (csPerMin < 5) {
+  } else if (csPerMin < benchmarks.csPerMin.poor) {
     scores.csScore = Math.max(0, scores.csScore - 10);
   }
 
   // Vision Score adjustments
   const wardsPerMin = detectorStats.vision.wardsPerMinute;
-  if (wardsPerMin >= 1.0) {
+  if (wardsPerMin >= benchmarks.wardsPerMin.good) {
     scores.visionScore = Math.min(100, scores.visionScore + 10);
-  } else if (wardsPerMin >= 0.7) {
+  } else if (wardsPerMin >= benchmarks.wardsPerMin.average) {
     scores.visionScore = Math.min(100, scores.visionScore + 5);
-  } else if (wardsPerMin < 0.3) {
+  } else if (wardsPerMin < benchmarks.wardsPerMin.poor) {
     scores.visionScore = Math.max(0, scores.visionScore - 15);
   }
 
   // Positioning Score - based on death types
   const deathsPerMin = detectorStats.deaths.totalDeaths / (gameDuration / 60);
-  if (deathsPerMin < 0.2) {
+  if (deathsPerMin < benchmarks.deathsPerMin.good) {
     scores.positioningScore = Math.min(100, scores.positioningScore + 10);
-  } else if (deathsPerMin > 0.4) {
+  } else if (deathsPerMin > benchmarks.deathsPerMin.poor) {
     scores.positioningScore = Math.max(0, scores.positioningScore - 10);
   }
 
@@ -102,15 +143,38 @@ export function calculateScores(
     scores.objectiveScore = Math.max(0, scores.objectiveScore - 10);
   }
 
-  // Calculate overall score (weighted average)
-  const weights = {
-    csScore: 0.2,
-    visionScore: 0.15,
-    positioningScore: 0.3,
-    objectiveScore: 0.15,
-    tradingScore: 0.2,
-  };
+  // Rest of the objective economy: plates, grubs, first tower, inhibitors, soul
+  const objectives = detectorStats.objectives;
+  const plateDiff = (objectives.platesWon || 0) - (objectives.platesLost || 0);
+  const grubDiff = (objectives.grubsTaken || 0) - (objectives.grubsLost || 0);
+  let objectiveEconomy = Math.max(-10, Math.min(10, plateDiff * 2));
+  objectiveEconomy += Math.max(-6, Math.min(6, grubDiff * 2));
+  objectiveEconomy += 5 * ((objectives.firstTowerTaken || 0) - (objectives.firstTowerLost || 0));
+  objectiveEconomy -= Math.min(15, 5 * (objectives.inhibitorsLost || 0));
+  objectiveEconomy += 10 * ((objectives.soulTaken || 0) - (objectives.soulLost || 0));
+  scores.objectiveScore = Math.max(0, Math.min(100, scores.objectiveScore + objectiveEconomy));
+
+  // Laning differentials (GD/CSD vs lane opponent)
+  const laning = detectorStats.laning;
+  if (laning) {
+    if (laning.csDiff >= 15) {
+      scores.csScore = Math.min(100, scores.csScore + 5);
+    } else if (laning.csDiff <= -15) {
+      scores.csScore = Math.max(0, scores.csScore - 5);
+    }
+
+    if (laning.goldDiff >= 1000) {
+      scores.tradingScore = Math.min(100, scores.tradingScore + 10);
+    } else if (laning.goldDiff >= 500) {
+      scores.tradingScore = Math.min(100, scores.tradingScore + 5);
+    } else if (laning.goldDiff <= -1000) {
+      scores.tradingScore = Math.max(0, scores.tradingScore - 10);
+    } else if (laning.goldDiff <= -500) {
+      scores.tradingScore = Math.max(0, scores.tradingScore - 5);
+    }
+  }
 
+  // Calculate overall score (weighted average)
   scores.overallScore = Math.round(
     scores.csScore * weights.csScore +
     scores.visionScore * weights.visionScore +
@@ -0,0 +1,178 @@
+// Win Probability - Simple offline model from gold, towers, dragons and barons
+// Used to measure how much each mistake actually cost (error impact) and to find swing moments
+
+import {
+  TimelineFrame,
+  TimelineEvent,
+  MatchParticipant,
+  WinProbabilityPoint,
+  SwingMoment,
+} from '../types';
+import { Language, translate } from '../i18n';
+
+// Logistic model weights (hand-tuned, per unit of advantage)
+const WEIGHTS = {
+  goldPer1000: 0.55, // scaled down after 20 min, gold matters less late
+  tower: 0.15,
+  inhibitor: 0.35,
+  dragon: 0.12,
+  soul: 0.6,
+  baron: 0.2,
+  baronBuff: 0.8,
+  elderBuff: 0.9,
+};
+
+const BARON_BUFF_MS = 180000;
+const ELDER_BUFF_MS = 150000;
+
+// Window around an error used to measure its impact
+const IMPACT_BEFORE_MS = 10000;
+const IMPACT_AFTER_MS = 90000;
+
+interface KeyEvent {
+  timestamp: number;
+  allied: boolean; // event favors the player's team
+  kind: 'tower' | 'inhibitor' | 'dragon' | 'soul' | 'elder' | 'baron' | 'herald';
+}
+
+export interface WinProbabilityModel {
+  timeline: WinProbabilityPoint[];
+  at: (timestampMs: number) => number;
+}
+
+function toKeyEvent(event: TimelineEvent, teamId: number): KeyEvent | null {
+  if (event.type === 'BUILDING_KILL' && event.teamId) {
+    // teamId is the team that LOST the building
+    const kind = event.buildingType === 'INHIBITOR_BUILDING' ? 'inhibitor' : 'tower';
+    return { timestamp: event.timestamp, allied: event.teamId !== teamId, kind };
+  }
+  if (event.type === 'DRAGON_SOUL_GIVEN' && event.teamId) {
+    return { timestamp: event.timestamp, allied: event.teamId === teamId, kind: 'soul' };
+  }
+  if (event.type === 'ELITE_MONSTER_KILL' && event.killerTeamId) {
+    const allied = event.killerTeamId === teamId;
+    if (event.monsterType === 'DRAGON') return { timestamp: event.timestamp, allied, kind: 'dragon' };
+    if (event.monsterType === 'ELDER_DRAGON') return { timestamp: event.timestamp, allied, kind: 'elder' };
+    if (event.monsterType === 'BARON_NASHOR') return { timestamp: event.timestamp, allied, kind: 'baron' };
+    if (event.monsterType === 'RIFTHERALD') return { timestamp: event.timestamp, allied, kind: 'herald' };
+  }
+  return null;
+}
+
+// Team gold difference at any time, interpolated between frames
+function goldDiffAt(frames: TimelineFrame[], teamOf: Map<string, number>, teamId: number, timestampMs: number): number {
+  const diffAt = (frame: TimelineFrame) => Object.entries(frame.participantFrames).reduce((sum, [id, pf]) =>
+    sum + (teamOf.get(id) === teamId ? pf.totalGold : -pf.totalGold), 0);
+
+  const nextIndex = frames.findIndex(f => f.timestamp >= timestampMs);
+  if (nextIndex === -1) return diffAt(frames[frames.length - 1]);
+  if (nextIndex === 0) return diffAt(frames[0]);
+
+  const prev = frames[nextIndex - 1];
+  const next = frames[nextIndex];
+  const ratio = (timestampMs - prev.timestamp) / (next.timestamp - prev.timestamp);
+  return diffAt(prev) + (diffAt(next) - diffAt(prev)) * ratio;
+}
+
+/**
+ * Builds the win probability of the player's team over the game,
+ * evaluated at every frame and every key event (towers, dragons, barons...)
+ */
+export function buildWinProbabilityModel(
+  frames: TimelineFrame[],
+  participants: MatchParticipant[],
+  teamId: number,
+  language: Language = 'en'
+): WinProbabilityModel {
+  const teamOf = new Map(participants.map(p => [p.participantId.toString(), p.teamId]));
+  const keyEvents = frames
+    .flatMap(f => f.events)
+    .map(e => toKeyEvent(e, teamId))
+    .filter((e): e is KeyEvent => e !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const at = (timestampMs: number): number => {
+    if (frames.length === 0) return 0.5;
+
+    const minutes = timestampMs / 60000;
+    const goldScale = 20 / Math.max(20, minutes);
+    let z = WEIGHTS.goldPer1000 * goldScale * goldDiffAt(frames, teamOf, teamId, timestampMs) / 1000;
+
+    for (const event of keyEvents) {
+      if (event.timestamp > timestampMs) break;
+      const sign = event.allied ? 1 : -1;
+      const elapsed = timestampMs - event.timestamp;
+
+      switch (event.kind) {
+        case 'tower': z += sign * WEIGHTS.tower; break;
+        case 'inhibitor': z += sign * WEIGHTS.inhibitor; break;
+        case 'dragon': z += sign * WEIGHTS.dragon; break;
+        case 'soul': z += sign * WEIGHTS.soul; break;
+        case 'elder': if (elapsed <= ELDER_BUFF_MS) z += sign * WEIGHTS.elderBuff; break;
+        case 'baron':
+          z += sign * WEIGHTS.baron;
+          if (elapsed <= BARON_BUFF_MS) z += sign * WEIGHTS.baronBuff;
+          break;
+        case 'herald': break; // Herald value shows up in tower/plate gold
+      }
+    }
+
+    return 1 / (1 + Math.exp(-z));
+  };
+
+  const timestamps = [...frames.map(f => f.timestamp), ...keyEvents.map(e => e.timestamp)].sort((a, b) => a - b);
+  const timeline: WinProbabilityPoint[] = timestamps.map(timestamp => {
+    const event = keyEvents.find(e => e.timestamp === timestamp);
+    return {
+      timestamp: Math.floor(timestamp / 1000),
+      probability: Math.round(at(timestamp) * 1000) / 1000,
+      event: event ? translate(`winProbability.${event.kind}.${event.allied ? 'allied' : 'enemy'}`, {}, language) : undefined,
+    };
+  });
+
+  return { timeline, at };
+}
+
+// Win probability delta (percentage points) around an error timestamp (seconds)
+export function getImpactAt(model: WinProbabilityModel, timestampSec: number): number {
+  const timestampMs = timestampSec * 1000;
+  const before = model.at(Math.max(0, timestampMs - IMPACT_BEFORE_MS));
+  const after = model.at(timestampMs + IMPACT_AFTER_MS);
+  return Math.round((after - before) * 1000) / 10;
+}
+
+// Attach the impact of each error (negative = hurt the player's team)
+export function attachImpact<T extends { timestamp: number; impact?: number }>(errors: T[], model: WinProbabilityModel): T[] {
+  return errors.map(error => ({ ...error, impact: getImpactAt(model, error.timestamp) }));
+}
+
+// Biggest win probability changes between two consecutive points
+export function findSwingMoments(
+  timeline: WinProbabilityPoint[],
+  limit: number = 5,
+  language: Language = 'en'
+): SwingMoment[] {
+  const swings: SwingMoment[] = [];
+
+  for (let i = 1; i < timeline.length; i++) {
+    const before = timeline[i - 1].probability;
+    const after = timeline[i].probability;
+    swings.push({
+      timestamp: timeline[i].timestamp,
+      before,
+      after,
+      delta: Math.round((after - before) * 1000) / 10,
+      cause: timeline[i].event || translate('winProbability.gold', {}, language),
+    });
+  }
+
+  return swings
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, limit)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Most costly errors first (errors without an impact count as neutral); stable, so ties keep their order
+export function rankErrorsByImpact<T extends { impact?: number }>(errors: T[]): T[] {
+  return [...errors].sort((a, b) => (a.impact ?? 0) - (b.impact ?? 0));
+}
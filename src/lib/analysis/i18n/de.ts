@@ -0,0 +1,407 @@
+// German catalog
+
+import { MessageKey } from './en';
+
+export const de: Record<MessageKey, string> = {
+  // Shared fragments
+  'common.theEnemy': 'der Gegner',
+  'common.yourOpponent': 'deinen Lane-Gegner',
+  'common.dead': 'tot',
+  'common.aliveAt': 'am Leben, {distance} Einheiten entfernt',
+
+  // Deaths
+  'death.tower.title': 'Tod unter dem gegnerischen Turm',
+  'death.tower.description': 'Du bist bei {time} unter dem gegnerischen Turm gestorben. {detail}',
+  'death.tower.ganked': 'Du wurdest von {count} Gegnern in die Zange genommen.',
+  'death.tower.killedBy': '{killer} hat dich unter seinem Turm getötet.',
+  'death.tower.killed': 'Der Gegner hat dich unter seinem Turm getötet.',
+  'death.tower.suggestion': 'Tauche nicht ohne Vasallen, die den Turm tanken, und stelle sicher, dass du genug Schaden hast, um schnell abzuschließen.',
+  'death.tower.coachingNote': '{note}',
+  'death.tower.noteGanked': 'Der koordinierte Dive des Gegners war wahrscheinlich absehbar. Schau auf die Minimap, bevor du unter den Turm gehst.',
+  'death.tower.noteSolo': 'Prüfe vor einem Dive, ob du hast: 1) Vasallen, 2) Genug Leben, 3) Deine Fähigkeiten bereit.',
+  'death.isolated.title': 'Tod in isolierter Position',
+  'death.isolated.description': 'Du bist bei {time} isoliert gestorben. Dein nächster Verbündeter ({ally}) war {distance} Einheiten entfernt.',
+  'death.isolated.suggestion': 'Bleib nah bei deinem Team, besonders wenn du keine Sicht auf den Gegner hast.',
+  'death.isolated.coachingNote': '{note}',
+  'death.isolated.noteDanger': 'Du warst in gegnerischem Gebiet. Das ist ohne dein Team sehr riskant.',
+  'death.isolated.noteNeutral': 'Auch in neutralem Gebiet macht dich die Isolation anfällig für Picks.',
+  'death.gank.title': 'Tod durch Gank mehrerer Gegner',
+  'death.gank.description': 'Du wurdest bei {time} von {count} Gegnern getötet. {detail}',
+  'death.gank.danger': 'Du warst in gefährlichem Gebiet.',
+  'death.gank.coordinated': 'Der Gegner hat seinen Gank gut koordiniert.',
+  'death.gank.suggestion': 'Setze mehr Wards, um gegnerische Rotationen zu sehen. Spiel sicherer, wenn mehrere Gegner auf der Karte fehlen.',
+  'death.gank.coachingNote': 'Zähle vor dem Pushen oder Traden die sichtbaren Gegner auf der Karte. Siehst du keine 3, geh davon aus, dass sie zu dir kommen.',
+  'death.goldDeficit.title': 'Tod mit Goldrückstand',
+  'death.goldDeficit.description': 'Du bist bei {time} gegen {killer} gestorben, mit {gold} Gold Rückstand.',
+  'death.goldDeficit.suggestion': 'Vermeide All-ins, wenn du hinten liegst. Farme sicher und warte auf deinen Jungler oder einen Item-Powerspike.',
+  'death.goldDeficit.coachingNote': 'Mit {gold} Gold Rückstand hat dein Gegner wahrscheinlich ein Item mehr als du. Respektiere diesen Powerspike.',
+  'death.levelDeficit.title': 'Tod mit Levelrückstand',
+  'death.levelDeficit.description': 'Du bist bei {time} mit {levels} Level(s) Rückstand auf deinen Gegner gestorben.',
+  'death.levelDeficit.suggestion': 'Level bringen mehr Fähigkeitspunkte und Werte. Lass dich nicht auf Kämpfe gegen höhere Level ein.',
+  'death.levelDeficit.coachingNote': 'Jedes Level ist etwa 600 Gold an Werten wert. Warte, bis du aufgeholt hast, bevor du kämpfst.',
+  'death.avoidable.title': 'Vermeidbarer Tod',
+  'death.avoidable.description': 'Du bist bei {time} gegen {killer}{help} gestorben.',
+  'death.avoidable.withHelp': ' mit Unterstützung',
+  'death.avoidable.suggestion': 'Analysiere, was dich in diese Position gebracht hat. Hättest du diesen Kampf vermeiden können?',
+  'death.avoidable.coachingNote': '{note}',
+  'death.avoidable.noteLate': 'Im Late Game kann ein Tod das Spiel kosten. Sei bei deiner Positionierung besonders vorsichtig.',
+  'death.avoidable.note': 'Jeder Tod verschafft dem Gegner einen Vorteil. Minimiere deine Tode, um die Kontrolle zu behalten.',
+
+  // CS
+  'cs.behind.title': 'CS-Rückstand bei {minute} Min',
+  'cs.behind.description': 'Du hast {cs} CS gegen {opponentCs} deines Gegners ({diff} CS, etwa {gold} Gold Rückstand).',
+  'cs.behind.suggestion': '{advice}',
+  'cs.behind.jungler': 'Optimiere deine Jungle-Clears. Lass keine Camps aus und timen ihre Respawns gut.',
+  'cs.behind.laner': 'Konzentriere dich auf Last Hits. Ist die Lane schwer, nutze deine Fähigkeiten, um CS unter dem Turm zu sichern.',
+  'cs.behind.coachingNote': '{note}',
+  'cs.behind.noteLarge': '{missing} CS Rückstand ist erheblich. Dein Gegner hat allein durch CS fast ein Item Vorsprung.',
+  'cs.behind.note': 'Schon 15 CS Rückstand sind etwa 300 Gold. Das summiert sich im Laufe des Spiels schnell.',
+  'cs.belowAverage.title': 'CS unter dem Durchschnitt bei {minute} Min',
+  'cs.belowAverage.description': 'Du hast {cs} CS ({perMin} CS/Min). Das Ziel sind mindestens {target} CS/Min.',
+  'cs.belowAverage.suggestion': '{advice}',
+  'cs.belowAverage.jungler': 'Achte darauf, alle Camps effizient zu clearen und zwischen den Ganks keine Zeit zu verlieren.',
+  'cs.belowAverage.laner': 'Trainiere Last Hits im Übungstool. Jeder Vasall zählt.',
+  'cs.belowAverage.coachingNote': 'Bei {minute} Min solltest du {expected} CS anpeilen. Dir fehlen {missed}.',
+
+  // Vision
+  'vision.lowWards.title': 'Zu wenig Sicht ({start}-{end} Min)',
+  'vision.lowWards.description': 'Du hast zwischen Minute {start} und {end} nur {wards} Ward(s) gesetzt. {role}',
+  'vision.lowWards.support': 'Als Support ist Sicht deine Hauptaufgabe.',
+  'vision.lowWards.laner': 'Auch als Laner musst du zur Sicht beitragen.',
+  'vision.lowWards.suggestion': '{advice}',
+  'vision.lowWards.adviceSupport': 'Setze strategische Wards: Fluss, gegnerischer Dschungel, Objectives. Nutze deine Orakel-Linse, um Wards zu entfernen.',
+  'vision.lowWards.adviceLaner': 'Kaufe regelmäßig Control Wards. Eine Ward kann dein Leben oder das deines Teams retten.',
+  'vision.lowWards.coachingNote': 'Sicht gewinnt Spiele. {wards} Ward(s) in 5 Min reichen nicht, um die Karte gut zu lesen.',
+  'vision.noControlWard.title': 'Keine Control Ward ({start}-{end} Min)',
+  'vision.noControlWard.description': 'Du hast zwischen Minute {start} und {end} keine Control Ward gesetzt.',
+  'vision.noControlWard.suggestion': 'Control Wards sind essenziell, um Schlüsselzonen zu kontrollieren (Drache, Baron, Dschungel). Kaufe bei jedem Back eine.',
+  'vision.noControlWard.coachingNote': 'Eine Control Ward kostet 75 Gold, kann aber dein Leben retten oder Hinterhalte aufdecken. Sie ist eine der besten Investitionen im Spiel.',
+
+  // Objectives
+  'objective.firstTower.title': 'Erster Turm in deiner Lane verloren',
+  'objective.firstTower.description': 'Dein Turm ist bei {time} als erster des Spiels gefallen. Du warst {state}.',
+  'objective.firstTower.suggestion': 'Wenn dein Turm bedroht ist, bleib zur Verteidigung oder hol Hilfe, bevor er fällt. Der erste Turm gibt dem Gegner Bonusgold.',
+  'objective.firstTower.coachingNote': 'Der Verlust des ersten Turms öffnet deine Kartenhälfte: dein Dschungel wird gefährlich und der Gegner kann frei roamen.',
+  'objective.inhibitor.title': 'Inhibitor verloren',
+  'objective.inhibitor.description': 'Der Gegner hat bei {time} einen Inhibitor {lane}zerstört. Du warst {state}.',
+  'objective.inhibitor.suggestion': 'Verteidige deine Basis als Gruppe und cleare die Super-Vasallen. Stirb nicht, wenn der Gegner Baron oder Überzahl hat.',
+  'objective.inhibitor.coachingNote': 'Ein verlorener Inhibitor lässt Super-Vasallen erscheinen, die deine Basis ständig unter Druck setzen.',
+  'objective.soul.title': 'Drachenseele verloren',
+  'objective.soul.description': 'Der Gegner hat bei {time} die Drachenseele bekommen. Du warst {state}.',
+  'objective.soul.alive': 'am Leben, {distance} Einheiten von der Grube entfernt',
+  'objective.soul.suggestion': 'Wenn dem Gegner nur noch ein Drache zur Seele fehlt, hat jeder Drache Priorität: bereite die Sicht 1 Min vorher vor und gruppiere dich mit deinem Team.',
+  'objective.soul.coachingNote': 'Die Drachenseele ist ein sehr starker permanenter Bonus. Sie dem Gegner zu überlassen, macht die folgenden Teamfights deutlich schwerer.',
+  'objective.elder.title': 'Älterer Drache verloren',
+  'objective.elder.description': 'Der Gegner hat bei {time} den Älteren Drachen geholt. Du warst {distance} Einheiten entfernt (am Leben).',
+  'objective.elder.suggestion': '{advice}',
+  'objective.elder.coachingNote': 'Der Ältere Drache entscheidet oft das Spiel. Alles muss um dieses Objective herum organisiert werden.',
+  'objective.dragon.title': 'Drache {dragon} verloren',
+  'objective.dragon.description': 'Der Gegner hat bei {time} den Drachen geholt. Du warst {distance} Einheiten entfernt (am Leben).',
+  'objective.dragon.suggestion': '{advice}',
+  'objective.dragon.jungler': 'Als Jungler musst du die Objectives timen und vor Ort sein. Warde den Bereich 1 Min vor dem Spawn.',
+  'objective.dragon.laner': 'Sei bereit, zum Drachen zu rotieren, sobald er spawnt. Sprich dich mit deinem Team ab.',
+  'objective.dragon.coachingNote': 'Der Drache gibt deinem Team permanente Buffs. {detail}',
+  'objective.dragon.tooFar': 'Du warst viel zu weit weg, um ihn zu contesten.',
+  'objective.dragon.closer': 'Geh früher in die Nähe, um Priorität zu haben.',
+  'objective.baron.title': 'Baron Nashor verloren',
+  'objective.baron.description': 'Der Gegner hat bei {time} den Baron geholt. Du warst {distance} Einheiten entfernt.',
+  'objective.baron.suggestion': 'Der Baron ist das wichtigste Objective im Mid/Late Game. Gruppiere dich mit deinem Team, um ihn zu contesten oder zu holen.',
+  'objective.baron.coachingNote': 'Ein Baron bringt einen enormen Belagerungs- und Goldvorteil. Einen Baron kampflos abzugeben, ist oft ein negativer Wendepunkt.',
+  'objective.herald.title': 'Herold verloren',
+  'objective.herald.description': 'Der Gegner hat bei {time} den Herold geholt. Du warst {distance} Einheiten entfernt.',
+  'objective.herald.suggestion': 'Der Herold kann einen ganzen Turm zerstören. Hilf deinem Jungler, ihn zu sichern, oder contest ihn zumindest.',
+  'objective.herald.coachingNote': 'Der Herold ist sehr nützlich, um das Early Game zu beschleunigen. Ein Turm weniger öffnet die Karte für dein Team.',
+  'objective.plates.title': '{lost} Turmplatten in deiner Lane verloren',
+  'objective.plates.description': 'Dein Turm hat {lost} Platten verloren ({gold} Gold für den Gegner), bei {won} gewonnenen. {whileDead} fielen, während du tot warst, {whileAway}, während du weg warst.',
+  'objective.plates.suggestion': 'Vor Minute 14 ist jede Platte Gold wert. Verlass deine Lane nicht, wenn deine Welle zu deinem Turm drückt, und bestrafe deinen Gegner, wenn er roamt.',
+  'objective.plates.coachingNote': 'Platten sind im Early Game die wichtigste Quelle für Gebäudegold: allein dadurch {gap} Gold Unterschied.',
+  'objective.grubs.title': '{count} Leerenlarven verloren',
+  'objective.grubs.description': 'Der Gegner hat bei {time} {count} Larven geholt. Du warst am Leben, {distance} Einheiten entfernt.',
+  'objective.grubs.suggestion': 'Larven geben dem Team, das sie holt, Schaden gegen Türme. Spiele mit deinem Toplaner und Jungler um ihren Spawn herum.',
+  'objective.grubs.coachingNote': 'Die Larven kampflos abzugeben, beschleunigt den Fall deiner Türme.',
+
+  // Death timers
+  'deathTimer.beforeObjective.title': 'Tod vor {objective}',
+  'deathTimer.beforeObjective.description': 'Du bist bei {time}{killer} mit {respawn}s Respawn-Zeit auf Level {level} gestorben. Der Gegner hat {objective} {delay}s später geholt, während du noch tot warst.',
+  'deathTimer.killedBy': ' (getötet von {killer})',
+  'deathTimer.beforeObjective.suggestion': 'Geh vor einem Objective kein Risiko ein: in dieser Spielphase nimmt dich ein Tod für {respawn}s aus dem Spiel. Bleib gruppiert und spiel um Sicht statt um Picks.',
+  'deathTimer.beforeObjective.coachingNote': 'Tode kurz vor einem Objective kosten doppelt: der Gegner spielt in Überzahl und holt das Objective umsonst.',
+
+  // ARAM
+  'aram.damageShare.title': 'Schadensanteil zu niedrig',
+  'aram.damageShare.description': 'Du hast {share}% des Schadens deines Teams an Champions verursacht (erwartet: mindestens {target}%).',
+  'aram.damageShare.suggestion': 'In ARAM wird ständig gekämpft: bleib in Reichweite, um deine Fähigkeiten bei jedem Engage einzusetzen, statt hinten zu warten.',
+  'aram.damageShare.coachingNote': 'Ein niedriger Schadensanteil bedeutet oft, dass du zu spät zu Kämpfen kommst oder stirbst, bevor du deine Fähigkeiten eingesetzt hast.',
+  'aram.deaths.title': 'Zu häufige Tode',
+  'aram.deaths.description': 'Du bist {deaths} Mal gestorben, also {per10} Tode pro 10 Minuten (empfohlenes Maximum: {max}).',
+  'aram.deaths.suggestion': 'Jeder Tod lässt dein Team während deines Respawns im 4v5. Warte, bis deine Frontline engaged, bevor du vorgehst.',
+  'aram.deaths.coachingNote': 'In ARAM lässt sich häufiges Sterben nicht durch Farmen ausgleichen: Zeit im Tod ist verlorene Kampfzeit.',
+  'aram.poke.title': 'Zu viel Poke kassiert',
+  'aram.poke.description': 'Außerhalb von Kämpfen hast du {taken} Schaden pro Minute erlitten, gegenüber {team} im Schnitt deines Teams (x{ratio}).',
+  'aram.poke.suggestion': 'Bleib zwischen den Kämpfen hinter deinen Vasallen und außer Reichweite gegnerischer Poke-Fähigkeiten. Geh mit vollem Leben in Kämpfe, nicht mit halbem.',
+  'aram.poke.coachingNote': 'Der Poke vor einem Kampf entscheidet ihn oft: ein Spieler mit 50% Leben ist ein leichtes Ziel.',
+
+  // Recalls
+  'recall.late.title': 'Zu später Back',
+  'recall.late.description': 'Du hattest {gold} nicht ausgegebenes Gold kurz vor deinem Back gegen {time}.',
+  'recall.late.suggestion': 'Geh zurück, sobald du das Gold für eine wichtige Komponente oder ein ganzes Item hast. Jede Minute mit Gold in der Tasche ist eine Minute ohne Werte.',
+  'recall.late.coachingNote': 'Mit {gold} Gold hättest du ein ganzes Item kaufen können. Deine Trades in dieser Zeit fanden ohne diesen Vorteil statt.',
+  'recall.objectiveSpawn.title': 'Back zum Spawn des {objective}',
+  'recall.objectiveSpawn.description': 'Du warst gegen {time} in der Basis, während der {objective} bei {spawnTime} erschien.{taken}',
+  'recall.objectiveSpawn.taken': ' Der Gegner hat den {objective} geholt.',
+  'recall.objectiveSpawn.suggestion': 'Geh 60 bis 90 Sekunden vor dem Spawn des {objective} zurück, um mit deinen Items wiederzukommen und beim Sicht-Setup zu helfen.',
+  'recall.objectiveSpawn.coachingNote': 'Ein gut getimter Back vor einem Objective bringt dir die Werte UND die Präsenz. Ein schlecht getimter kostet dich beides.',
+  'recall.sittingOnGold.title': 'Auf {gold} Gold sitzen geblieben',
+  'recall.sittingOnGold.description': 'Zwischen {start} und {end} hattest du {minutes} Minuten lang mehr als {threshold} Gold in der Tasche (bis zu {gold} Gold).',
+  'recall.sittingOnGold.suggestion': 'Such dir ein Fenster für einen Back: nach einem Wellen-Crash, nach einem Kill oder wenn dein Team dich nicht braucht.',
+  'recall.sittingOnGold.coachingNote': '{gold} nicht ausgegebenes Gold ist ein Powerspike, den du nicht nutzt. Dein Gegner hat wahrscheinlich schon eingekauft.',
+
+  // Waves
+  'wave.recallWithoutCrash.title': 'Back ohne die Welle zu crashen',
+  'wave.recallWithoutCrash.description': 'Du bist gegen {time} in die Basis gegangen, ohne deine Welle in den gegnerischen Turm zu pushen. Du hast während deines Backs etwa {lost} CS verloren.',
+  'wave.recallWithoutCrash.suggestion': 'Pushe deine Welle vor dem Back in den gegnerischen Turm, damit sie crasht. So kommst du zurück, ohne Vasallen zu verlieren.',
+  'wave.recallWithoutCrash.coachingNote': '{lost} CS sind etwa {gold} Gold. Ein gut getimter Back nach einem Crash kostet fast nichts.',
+  'wave.away.title': '{title}',
+  'wave.away.titleLong': '{minutes} Min nicht in der Lane',
+  'wave.away.titleDead': 'CS verloren, während du tot warst',
+  'wave.away.titleRoam': 'CS während eines Roams verloren',
+  'wave.away.description': 'Zwischen {start} und {end} warst du nicht in der Lane ({reason}). Du hast etwa {lost} CS im Vergleich zu {opponent} verloren.',
+  'wave.away.roaming': 'Roam oder Dschungel',
+  'wave.away.standardLane': 'einer Standard-Lane',
+  'wave.away.suggestion': '{advice}',
+  'wave.away.adviceDead': 'Jeder Tod in der Lane kostet auch die Wellen, die unter deinem Turm sterben. Spiel sicherer, wenn du es dir nicht leisten kannst, die Lane zu verlieren.',
+  'wave.away.adviceRoam': 'Pushe deine Welle, bevor du die Lane verlässt. Komm schnell zurück, wenn der Roam nichts bringt.',
+  'wave.away.coachingNote': '{note}',
+  'wave.away.noteLong': 'Eine lange Abwesenheit von der Lane schenkt deinem Gegner Druck und Erfahrung.',
+  'wave.away.noteRoam': 'Ein Roam muss mehr einbringen als die {lost} CS (~{gold} Gold), die er kostet.',
+
+  // Itemization
+  'itemization.firstSpike': '1. Item',
+  'itemization.secondSpike': '2. Item',
+  'itemization.powerSpike.title': '{item} hinter {opponent}',
+  'itemization.powerSpike.description': '{detail}',
+  'itemization.powerSpike.later': '{opponent} hat sein {item} bei {opponentTime} fertiggestellt, du bei {time} ({minutes} Min Rückstand).',
+  'itemization.powerSpike.never': '{opponent} hat sein {item} bei {opponentTime} fertiggestellt, du nie.',
+  'itemization.powerSpike.suggestion': 'Respektiere den gegnerischen Powerspike: vermeide All-ins, bis du bei den Items aufgeholt hast, und optimiere deine Backs, um aufzuholen.',
+  'itemization.powerSpike.coachingNote': 'In diesen {minutes} Minuten hatte dein Gegner ein fertiges Item mehr. Genau dann kann er Trades erzwingen.',
+  'itemization.firstItem': 'Erstes Item',
+  'itemization.secondItem': 'Zweites Item',
+  'itemization.lateCore.title': '{item} zu spät',
+  'itemization.lateCore.description': '{detail}',
+  'itemization.lateCore.completed': '{item} bei {time} fertiggestellt, obwohl es vor Minute {minute} erwartet wird.',
+  'itemization.lateCore.missing': '{item} bei Minute {minute} immer noch nicht fertig.',
+  'itemization.lateCore.suggestion': 'Verbessere dein Farmen und deine Back-Timings, um deine Kern-Items früher fertigzustellen.',
+  'itemization.lateCore.coachingNote': 'Deine Kern-Items bestimmen deine Powerspikes. Jede Minute Verspätung verringert deinen Einfluss in Kämpfen.',
+  'itemization.controlWards.title': 'Keine Control Ward gekauft',
+  'itemization.controlWards.description': 'Du hast zwischen {start} und {end} keine Control Ward gekauft ({minutes} Min).',
+  'itemization.controlWards.suggestion': 'Kaufe bei jedem Back eine Control Ward. Sie kostet 75 Gold und bleibt stehen, bis sie zerstört wird.',
+  'itemization.controlWards.coachingNote': 'Insgesamt hast du in diesem Spiel {bought} Control Ward(s) gekauft.',
+
+  // Roams
+  'roam.laneCost': '{cs} CS und {xp} EP',
+  'roam.kills': '{count} Kill(s)',
+  'roam.assists': '{count} Assist(s)',
+  'roam.success.title': 'Erfolgreicher Roam nach {where}',
+  'roam.success.description': 'Dein Roam bei {time} hat {results} gebracht, für {laneCost} Verlust in der Lane.',
+  'roam.failed.title': '{title}',
+  'roam.failed.titleDied': 'Tod während eines Roams',
+  'roam.failed.titleNothing': 'Roam ohne Ergebnis',
+  'roam.failed.description': 'Gegen {time} hast du deine Lane für etwa {minutes} Min Richtung {where} verlassen{outcome}. Kosten in der Lane: {laneCost}.',
+  'roam.failed.died': ' und bist gestorben',
+  'roam.failed.nothing': ', ohne Kill, Assist oder Objective',
+  'roam.failed.suggestion': 'Roame erst, nachdem du deine Welle gepusht hast, wenn die Ziel-Lane Richtung Gegner gedrückt ist und du ankommst, bevor er sich zurückzieht.',
+  'roam.failed.coachingNote': '{note}',
+  'roam.failed.noteOpponent': 'Während deiner Abwesenheit hat sich {opponent} in der Lane einen Vorteil verschafft ({laneCost}).',
+  'roam.failed.note': 'Ein Roam, der nichts bringt, ist verlorene Farm- und Erfahrungszeit.',
+
+  // Teamfights
+  'teamfight.diedFirst.title': 'Als Erster in einem verlorenen Teamfight gestorben',
+  'teamfight.diedFirst.description': 'Bei {time} bist du als Erster gestorben (getötet von {killer}) und dein Team hat den Kampf {score} verloren ({allies}v{enemies}).',
+  'teamfight.diedFirst.suggestion': 'Bleib im Teamfight hinter deiner Frontline und warte, bis der Gegner seine Engage-Fähigkeiten genutzt hat, bevor du vorgehst.',
+  'teamfight.diedFirst.coachingNote': 'Der erste Tod in einem Teamfight gibt dem Gegner ein 5v4. Die ersten Sekunden zu überleben, ist oft mehr wert als dein Schaden.',
+  'teamfight.absent.title': 'Bei einem verlorenen Teamfight gefehlt',
+  'teamfight.absent.description': 'Bei {time} hat dein Team einen Kampf {score} im {allies}v{enemies} verloren, während du am Leben und {distance} Einheiten entfernt warst.',
+  'teamfight.absent.suggestion': 'Wenn sich dein Team sammelt oder ein Objective ansteht, schließ dich an. Wenn du splitpushst, sorge dafür, dass es keinen Kampf ohne dich erzwingt.',
+  'teamfight.absent.coachingNote': 'Ein Teamfight in Unterzahl geht fast immer verloren. Deine Position auf der Karte muss der deines Teams folgen.',
+
+  // Jungle
+  'jungle.idle.title': 'Leerlauf im Dschungel',
+  'jungle.idle.description': 'Zwischen {start} und {end} hast du kein Camp genommen, nicht gegankt und an keinem Kampf teilgenommen.',
+  'jungle.idle.suggestion': 'Plane deinen Weg: jede Minute sollte dem Farmen, Ganken, dem Kontern des gegnerischen Junglers oder der Vorbereitung eines Objectives dienen.',
+  'jungle.idle.coachingNote': '{minutes} Minuten ohne Aktion sind etwa {gold} Gold und Erfahrung, die du gegenüber dem gegnerischen Jungler verlierst.',
+  'jungle.failedGank.title': 'Gescheiterter Gank ({lane})',
+  'jungle.failedGank.description': 'Dein Gank ({lane}) bei {time} brachte keinen Kill und dein Team hat {deaths} Spieler verloren.',
+  'jungle.failedGank.suggestion': 'Ganke, wenn die Welle deines Laners zu seinem Turm gedrückt ist und der Gegner seine Fluchtfähigkeiten genutzt hat. Prüfe die Wards, bevor du reingehst.',
+  'jungle.failedGank.coachingNote': 'Ein gescheiterter Gank kostet Farmzeit, und wenn jemand stirbt, verschafft er dem Gegner den Vorteil.',
+  'jungle.noEarlyGank.title': 'Kein Gank vor 10 Minuten',
+  'jungle.noEarlyGank.description': 'Du hast in den ersten 10 Minuten keinen Gank versucht.',
+  'jungle.noEarlyGank.suggestion': 'Such nach Lanes, die Richtung Gegner gedrückt sind oder einen Level-/Fähigkeitsvorteil haben, und ganke sie nach deinem ersten Clear.',
+  'jungle.noEarlyGank.coachingNote': 'Farmen ist wichtig, aber ohne Druck auf den Lanes kann der Gegner frei spielen und in deinen Dschungel eindringen.',
+  'jungle.missedSpawn.title': 'Beim Spawn des {objective} gefehlt',
+  'jungle.missedSpawn.description': 'Beim Spawn des {objective} ({time}) warst du {distance} Einheiten von der Grube entfernt. Der Gegner hat ihn geholt.',
+  'jungle.missedSpawn.suggestion': 'Beende deinen Clear so, dass du 30 bis 60 Sekunden vor dem Spawn des {objective} in der Nähe bist, mit verfügbarem Zuschlagen.',
+  'jungle.missedSpawn.coachingNote': 'Als Jungler musst du bei den neutralen Objectives zur Stelle sein. Deine Abwesenheit lässt den Gegner sie umsonst holen.',
+
+  // Skill order
+  'skillOrder.ultDelay.title': 'Ultimate Rang {rank} zu spät gelevelt',
+  'skillOrder.ultDelay.description': 'Du hast Level {level} bei {time} erreicht, aber deine Ultimate (Rang {rank}) wurde {delay} gelevelt.',
+  'skillOrder.ultDelay.at': 'auf Level {rankedAt} ({time}), {seconds}s nach Erreichen von Level {level}',
+  'skillOrder.ultDelay.never': 'nie',
+  'skillOrder.ultDelay.suggestion': 'Level deine Ultimate, sobald du Level {level} erreichst. Aktiviere das schnelle Leveln (Strg + R), damit du es nie vergisst.',
+  'skillOrder.ultDelay.coachingNote': '{note}',
+  'skillOrder.ultDelay.noteLevel6': 'Level 6 ist der größte Powerspike der Lane-Phase. Dein Gegner kann dich all-innen, solange du deine Ultimate nicht hast.',
+  'skillOrder.ultDelay.note': 'Jeder Rang der Ultimate senkt ihre Abklingzeit und erhöht ihren Schaden. Lass sie nie ungelevelt.',
+  'skillOrder.maxOrder.title': 'Ungewöhnliche Skill-Reihenfolge auf {champion}',
+  'skillOrder.maxOrder.description': 'Auf Level {level} hast du {skill} priorisiert, während die empfohlene Reihenfolge auf {champion} {recommended} ist.',
+  'skillOrder.maxOrder.suggestion': 'Maxe zuerst {expected} (Reihenfolge {recommended}), außer ein bestimmtes Matchup verlangt etwas anderes.',
+  'skillOrder.maxOrder.coachingNote': 'Deine Reihenfolge: {sequence}.',
+
+  // Map zones and objectives (roam targets and results)
+  'zone.blue_base': 'die blaue Basis',
+  'zone.red_base': 'die rote Basis',
+  'zone.blue_jungle': 'den blauen Dschungel',
+  'zone.red_jungle': 'den roten Dschungel',
+  'zone.river_top': 'den oberen Fluss',
+  'zone.river_bot': 'den unteren Fluss',
+  'zone.dragon_pit': 'den Drachen',
+  'zone.baron_pit': 'den Baron',
+  'zone.top_lane': 'die Top-Lane',
+  'zone.mid_lane': 'die Mid-Lane',
+  'zone.bot_lane': 'die Bot-Lane',
+  'objectiveName.DRAGON': 'Drache',
+  'objectiveName.ELDER_DRAGON': 'Älterer Drache',
+  'objectiveName.BARON_NASHOR': 'Baron',
+  'objectiveName.RIFTHERALD': 'Herold',
+  'objectiveName.HORDE': 'Leerenlarven',
+  'objectiveName.MONSTER': 'Monster',
+  'objectiveName.TOWER': 'Turm',
+  'objectiveName.INHIBITOR': 'Inhibitor',
+
+  // Win probability events
+  'winProbability.tower.allied': 'Turm von deinem Team zerstört',
+  'winProbability.tower.enemy': 'Turm verloren',
+  'winProbability.inhibitor.allied': 'Inhibitor von deinem Team zerstört',
+  'winProbability.inhibitor.enemy': 'Inhibitor verloren',
+  'winProbability.dragon.allied': 'Drache von deinem Team geholt',
+  'winProbability.dragon.enemy': 'Drache vom Gegner geholt',
+  'winProbability.soul.allied': 'Drachenseele für dein Team',
+  'winProbability.soul.enemy': 'Drachenseele für den Gegner',
+  'winProbability.elder.allied': 'Älterer Drache von deinem Team geholt',
+  'winProbability.elder.enemy': 'Älterer Drache vom Gegner geholt',
+  'winProbability.baron.allied': 'Baron von deinem Team geholt',
+  'winProbability.baron.enemy': 'Baron vom Gegner geholt',
+  'winProbability.herald.allied': 'Herold von deinem Team geholt',
+  'winProbability.herald.enemy': 'Herold vom Gegner geholt',
+  'winProbability.gold': 'Goldunterschied',
+
+  // Coaching tips
+  'tipCategory.farm': 'Farmen',
+  'tipCategory.vision': 'Sicht',
+  'tipCategory.positioning': 'Positionierung',
+  'tipCategory.mapAwareness': 'Kartenbewusstsein',
+  'tipCategory.objectives': 'Objectives',
+  'tipCategory.waves': 'Wellenmanagement',
+  'tipCategory.backTiming': 'Back-Timing',
+  'tipCategory.items': 'Items',
+  'tipCategory.powerSpikes': 'Powerspikes',
+  'tipCategory.skills': 'Fähigkeiten',
+  'tipCategory.jungle': 'Dschungel',
+  'tipCategory.roaming': 'Roaming',
+  'tipCategory.deathTiming': 'Timing der Tode',
+  'tipCategory.trading': 'Trades',
+  'tipCategory.top': 'Toplaner',
+  'tipCategory.jungler': 'Jungler',
+  'tipCategory.mid': 'Midlaner',
+  'tipCategory.adc': 'ADC',
+  'tipCategory.support': 'Support',
+  'tip.cs-1.title': 'Übe Last Hits',
+  'tip.cs-1.description': 'Geh ins Übungstool und trainiere Last Hits ohne Fähigkeiten. Ziel: 80+ CS bei 10 Min.',
+  'tip.cs-2.title': 'CS unter dem Turm',
+  'tip.cs-2.description': 'Lerne das Muster: 2 Turmschüsse + 1 Angriff für Nahkampf-Vasallen, 1 Turmschuss + 1 Angriff für Fernkampf-Vasallen (mit Start-Items).',
+  'tip.vision-1.title': 'Kaufe Control Wards',
+  'tip.vision-1.description': 'Kaufe bei jedem Back eine Control Ward. Platziere sie in deinem Dschungel oder nahe der Objectives.',
+  'tip.vision-2.title': 'Wards vor den Objectives',
+  'tip.vision-2.description': 'Setze Wards 1 Minute vor dem Spawn von Drache/Baron, um die Informationen zu haben.',
+  'tip.pos-1.title': 'Bleib bei deinem Team',
+  'tip.pos-1.description': 'Im Mid/Late Game trenn dich nicht von deinem Team, außer du hast Sicht und weißt, wo die Gegner sind.',
+  'tip.pos-2.title': 'Respektiere den Nebel des Krieges',
+  'tip.pos-2.description': 'Siehst du keine 3+ Gegner auf der Karte, spiel so, als kämen sie zu dir.',
+  'tip.map-1.title': 'Schau auf deine Minimap',
+  'tip.map-1.description': 'Zwing dich, alle 3 Sekunden auf die Minimap zu schauen. Das ist eine Gewohnheit, die man entwickeln muss.',
+  'tip.map-2.title': 'Verfolge den gegnerischen Jungler',
+  'tip.map-2.description': 'Merke dir, wo der gegnerische Jungler gesehen wurde. War er unten, ist er in 30-40 Sek oben.',
+  'tip.obj-1.title': 'Priorisiere die Objectives',
+  'tip.obj-1.description': 'Nach einem Kill oder Vorteil frag dich immer: „Welches Objective kann ich holen?“',
+  'tip.obj-2.title': 'Behalte die Objective-Timer im Blick',
+  'tip.obj-2.description': 'Der Drache respawnt nach 5 Min, der Baron nach 6 Min. Bereite dich 1 Min vorher vor.',
+  'tip.wave-1.title': 'Crashe die Welle vor dem Back',
+  'tip.wave-1.description': 'Pushe deine Welle direkt vor dem Back in den gegnerischen Turm. Sie kommt zu dir zurück, während du einkaufst, ohne CS zu verlieren.',
+  'tip.wave-2.title': 'Pushe, bevor du die Lane verlässt',
+  'tip.wave-2.description': 'Pushe deine Welle vor einem Roam oder Objective. Eine Welle, die während deiner Abwesenheit an deinem Turm ankommt, ist verlorener CS.',
+  'tip.back-1.title': 'Gib dein Gold aus',
+  'tip.back-1.description': 'Sobald du Gold für eine wichtige Komponente hast, such ein Fenster für einen Back. Gold in der Tasche gibt keine Werte.',
+  'tip.back-2.title': 'Back vor den Objectives',
+  'tip.back-2.description': 'Geh 60 bis 90 Sekunden vor dem Spawn von Drache oder Baron zurück, um mit deinen Items rechtzeitig zum Setup da zu sein.',
+  'tip.item-1.title': 'Stelle deine Kern-Items fertig',
+  'tip.item-1.description': 'Dein erstes fertiges Item ist dein erster echter Powerspike. Ziel ist es, es vor Minute 14 zu haben, durch gutes Farmen und gut getimte Backs.',
+  'tip.item-2.title': 'Eine Control Ward pro Back',
+  'tip.item-2.description': 'Füge jedem Einkauf eine Control Ward hinzu. 75 Gold für dauerhafte Sicht sind das beste Preis-Leistungs-Verhältnis im Spiel.',
+  'tip.spike-1.title': 'Vergleiche deine Items',
+  'tip.spike-1.description': 'Drücke Tab, um die Items deines Gegners zu sehen. Hat er ein fertiges Item mehr, vermeide lange Trades.',
+  'tip.skill-1.title': 'Ultimate auf 6, 11 und 16',
+  'tip.skill-1.description': 'Level deine Ultimate so früh wie möglich. Ein Shortcut wie Strg + R erlaubt es, ohne den Blick vom Kampf abzuwenden.',
+  'tip.jungle-1.title': 'Plane deine Route',
+  'tip.jungle-1.description': 'Entscheide bei jedem Verlassen der Basis: welche Camps, welche Lane ganken, welches Objective vorbereiten. Ein Jungler ohne Plan verliert Zeit.',
+  'tip.jungle-2.title': 'Ganke gepushte Lanes',
+  'tip.jungle-2.description': 'Die besten Ganks zielen auf einen Gegner, der seine Welle weit weg von seinem Turm gepusht hat, ohne Ward und ohne Blitz.',
+  'tip.roam-1.title': 'Pushe vor dem Roam',
+  'tip.roam-1.description': 'Ein guter Roam beginnt mit einer Welle, die in den gegnerischen Turm gepusht ist. Dein Gegner muss wählen: dir folgen oder seinen CS verlieren.',
+  'tip.roam-2.title': 'Wähle dein Ziel',
+  'tip.roam-2.description': 'Roame zu einer Lane, deren Welle Richtung Gegner gedrückt ist und deren Gegner keinen Blitz hat. Sonst farme weiter.',
+  'tip.death-timing-1.title': 'Kein Risiko vor einem Objective',
+  'tip.death-timing-1.description': 'In der Minute vor einem Drachen oder Baron vermeide Duelle und Facechecks. Ein Tod in diesem Moment schenkt dem Gegner das Objective.',
+  'tip.trade-1.title': 'Trade, wenn der Gegner Last Hits macht',
+  'tip.trade-1.description': 'Greif den Gegner an, wenn er für einen Last Hit an einen Vasallen herangeht. Er muss wählen: zurückschlagen oder den CS nehmen.',
+  'tip.trade-2.title': 'Respektiere die Powerspikes',
+  'tip.trade-2.description': 'Achte auf die Level 2, 3, 6 und auf fertige Items. Das sind die Momente, in denen dein Gegner stärker wird.',
+  'tip.top-1.title': 'Freeze-Management',
+  'tip.top-1.description': 'Lerne als Toplaner, die Welle nahe deinem Turm zu freezen. Das schützt dich vor Ganks und zwingt den Gegner, sich zum Farmen zu überstrecken.',
+  'tip.top-2.title': 'TP für Objectives',
+  'tip.top-2.description': 'Spare deinen TP, um dich Kämpfen unten anzuschließen oder den Drachen zu contesten. Verschwende ihn nicht, um nach einem Back in die Lane zurückzukehren.',
+  'tip.top-3.title': 'Timing des Herolds',
+  'tip.top-3.description': 'Zwischen Minute 8 und 14 ist DEIN Zeitfenster für den Herold. Sag deinem Jungler Bescheid und bereite die Sicht vor.',
+  'tip.top-4.title': 'Effektiver Splitpush',
+  'tip.top-4.description': 'Splitpushe nur mit Sicht. Setze 2 Wards im gegnerischen Dschungel, bevor du tief pushst.',
+  'tip.jg-1.title': 'Objectives > Ganks',
+  'tip.jg-1.description': 'Priorisiere immer die Objectives (Drache, Herold, Baron) vor Ganks. Ein Objective = garantierter Vorteil.',
+  'tip.jg-2.title': 'Verfolge den gegnerischen Jungler',
+  'tip.jg-2.description': 'Merke dir, wo der gegnerische Jungler gesehen wurde. Gankt er oben, kannst du seine Camps unten nehmen oder unten ganken.',
+  'tip.jg-3.title': 'Ganks auf gepushte Lanes',
+  'tip.jg-3.description': 'Ganke nie eine Lane, die unter den gegnerischen Turm gepusht ist. Warte, bis dein Verbündeter pusht, oder ganke woanders.',
+  'tip.jg-4.title': 'Sicht vor dem Objective',
+  'tip.jg-4.description': '1 Minute vor Drache/Baron Wards setzen und den Bereich cleanen. Das ist DEINE Verantwortung.',
+  'tip.mid-1.title': 'Roam nach dem Push',
+  'tip.mid-1.description': 'Pushe deine Welle, BEVOR du roamst. Sonst verlierst du CS und dein Roam kann scheitern, wenn deine Welle unter deinem Turm ist.',
+  'tip.mid-2.title': 'Priorität für deinen Jungler',
+  'tip.mid-2.description': 'Hast du Priorität auf Mid, kann dein Jungler invaden und die Krabben contesten. Hilf ihm bei diesen Contests.',
+  'tip.mid-3.title': 'Verfolge gegnerische Roams',
+  'tip.mid-3.description': 'Verschwindet dein Gegner, PINGE sofort. Auch wenn du unsicher bist, kann ein Ping deine Mitspieler retten.',
+  'tip.mid-4.title': 'Contest die Objectives',
+  'tip.mid-4.description': 'Deine zentrale Position erlaubt dir, schnell bei Drache/Herold zu sein. Sei bei jedem Contest dabei.',
+  'tip.adc-1.title': 'Überleben = DPS',
+  'tip.adc-1.description': 'Ein toter ADC macht 0 Schaden. Bleib IMMER hinter deiner Frontline und mach nie einen Facecheck.',
+  'tip.adc-2.title': 'Kiten in Kämpfen',
+  'tip.adc-2.description': 'Nutze Attack-Move (A + Klick), um automatisch zu kiten. Greif das nächste sichere Ziel an.',
+  'tip.adc-3.title': 'Seitenlanes sicher farmen',
+  'tip.adc-3.description': 'Farme keine Seitenlane ohne Sicht. Siehst du keine 3+ Gegner, spiel so, als kämen sie zu dir.',
+  'tip.adc-4.title': 'Präsenz beim Drachen',
+  'tip.adc-4.description': 'Dein DPS ist entscheidend, um den Drachen schnell zu sichern. Sei IMMER da, auch wenn du etwas CS verlierst.',
+  'tip.sup-1.title': 'Sicht = Sieg',
+  'tip.sup-1.description': 'Kaufe bei JEDEM Back Control Wards. Platziere sie nahe der Objectives oder in den Büschen des Dschungels.',
+  'tip.sup-2.title': 'Beschütze deinen ADC',
+  'tip.sup-2.description': 'In Kämpfen ist deine Priorität Nummer 1, deinen ADC am Leben zu halten. Nutze deine Kontrolleffekte auf Assassinen, die ihn angreifen.',
+  'tip.sup-3.title': 'Effektiver Roam auf Mid',
+  'tip.sup-3.description': 'Roame auf Mid, nachdem du die Bot-Welle gepusht hast. Sag deinem ADC Bescheid und warde den Fluss, bevor du gehst.',
+  'tip.sup-4.title': 'Sweepen vor den Objectives',
+  'tip.sup-4.description': 'Nutze deine Orakel-Linse 1 Min vor dem Spawn um Drache/Baron. Gegnerische Sicht zu verweigern, ist entscheidend.',
+};
@@ -0,0 +1,407 @@
+// English catalog - reference for the other languages (every key must exist here)
+
+export const en = {
+  // Shared fragments
+  'common.theEnemy': 'the enemy',
+  'common.yourOpponent': 'your opponent',
+  'common.dead': 'dead',
+  'common.aliveAt': 'alive, {distance} units away',
+
+  // Deaths
+  'death.tower.title': 'Death under the enemy tower',
+  'death.tower.description': 'You died under the enemy tower at {time}. {detail}',
+  'death.tower.ganked': 'You got caught between {count} enemies.',
+  'death.tower.killedBy': '{killer} killed you under their tower.',
+  'death.tower.killed': 'The enemy killed you under their tower.',
+  'death.tower.suggestion': 'Don\'t dive without minions to tank the tower, and make sure you have enough damage to finish quickly.',
+  'death.tower.coachingNote': '{note}',
+  'death.tower.noteGanked': 'The enemy\'s coordinated dive was probably telegraphed. Check your minimap before going under the tower.',
+  'death.tower.noteSolo': 'Before diving, check that you have: 1) Minions, 2) Enough HP, 3) Your cooldowns ready.',
+  'death.isolated.title': 'Death while isolated',
+  'death.isolated.description': 'You died at {time} while isolated. Your closest ally ({ally}) was {distance} units away.',
+  'death.isolated.suggestion': 'Stay close to your team, especially when you have no vision of the enemy.',
+  'death.isolated.coachingNote': '{note}',
+  'death.isolated.noteDanger': 'You were in enemy territory. That is very risky without your team.',
+  'death.isolated.noteNeutral': 'Even in neutral ground, being isolated makes you vulnerable to picks.',
+  'death.gank.title': 'Death to a multi-man gank',
+  'death.gank.description': 'You were killed by {count} enemies at {time}. {detail}',
+  'death.gank.danger': 'You were in dangerous territory.',
+  'death.gank.coordinated': 'The enemy coordinated their gank well.',
+  'death.gank.suggestion': 'Place more wards to see enemy rotations. Play safer when several enemies are missing from the map.',
+  'death.gank.coachingNote': 'Before pushing or trading, count the enemies visible on the map. If you can\'t see 3 or more, assume they are coming for you.',
+  'death.goldDeficit.title': 'Death while behind in gold',
+  'death.goldDeficit.description': 'You died at {time} to {killer} while {gold} gold behind.',
+  'death.goldDeficit.suggestion': 'Avoid all-in trades when you are behind. Farm safely and wait for your jungler or an item power spike.',
+  'death.goldDeficit.coachingNote': 'With {gold} gold less, your opponent probably has one more item than you. Respect that power spike.',
+  'death.levelDeficit.title': 'Death while behind in levels',
+  'death.levelDeficit.description': 'You died at {time} {levels} level(s) behind your opponent.',
+  'death.levelDeficit.suggestion': 'Levels give more ability points and stats. Don\'t engage someone with a higher level.',
+  'death.levelDeficit.coachingNote': 'Each level is worth roughly 600 gold of stats. Wait until you catch up before fighting.',
+  'death.avoidable.title': 'Avoidable death',
+  'death.avoidable.description': 'You died at {time} to {killer}{help}.',
+  'death.avoidable.withHelp': ' with help',
+  'death.avoidable.suggestion': 'Think about what brought you to that position. Could you have avoided that fight?',
+  'death.avoidable.coachingNote': '{note}',
+  'death.avoidable.noteLate': 'In the late game, a single death can cost the game. Be extra careful with your positioning.',
+  'death.avoidable.note': 'Every death hands the enemy an advantage. Minimize your deaths to keep control.',
+
+  // CS
+  'cs.behind.title': 'CS deficit at {minute} min',
+  'cs.behind.description': 'You have {cs} CS against {opponentCs} for your opponent ({diff} CS, about {gold} gold behind).',
+  'cs.behind.suggestion': '{advice}',
+  'cs.behind.jungler': 'Optimize your jungle clears. Don\'t skip camps and time your respawns well.',
+  'cs.behind.laner': 'Focus on last hitting. If the lane is hard, use your spells to secure CS under your tower.',
+  'cs.behind.coachingNote': '{note}',
+  'cs.behind.noteLarge': 'Being {missing} CS behind is significant. Your opponent is almost an item ahead from CS alone.',
+  'cs.behind.note': 'Even 15 CS behind is about 300 gold. It adds up quickly over the course of the game.',
+  'cs.belowAverage.title': 'CS below average at {minute} min',
+  'cs.belowAverage.description': 'You have {cs} CS ({perMin} CS/min). The target is at least {target} CS/min.',
+  'cs.belowAverage.suggestion': '{advice}',
+  'cs.belowAverage.jungler': 'Make sure you clear all your camps efficiently and don\'t waste time between ganks.',
+  'cs.belowAverage.laner': 'Practice last hitting in the practice tool. Every minion counts.',
+  'cs.belowAverage.coachingNote': 'At {minute} min, you should aim for {expected} CS. You missed {missed}.',
+
+  // Vision
+  'vision.lowWards.title': 'Lack of vision ({start}-{end} min)',
+  'vision.lowWards.description': 'You only placed {wards} ward(s) between {start} and {end} min. {role}',
+  'vision.lowWards.support': 'As a support, vision is your main responsibility.',
+  'vision.lowWards.laner': 'Even as a laner, you need to contribute to vision.',
+  'vision.lowWards.suggestion': '{advice}',
+  'vision.lowWards.adviceSupport': 'Place strategic wards: river, enemy jungle, objectives. Use your Oracle Lens to clear wards.',
+  'vision.lowWards.adviceLaner': 'Buy Control Wards regularly. A single ward can save your life or your team\'s.',
+  'vision.lowWards.coachingNote': 'Vision wins games. {wards} ward(s) in 5 min is not enough to read the map well.',
+  'vision.noControlWard.title': 'No Control Ward ({start}-{end} min)',
+  'vision.noControlWard.description': 'You didn\'t place any Control Ward between {start} and {end} min.',
+  'vision.noControlWard.suggestion': 'Control Wards are essential to control key areas (dragon, baron, jungle). Buy one every time you back.',
+  'vision.noControlWard.coachingNote': 'A Control Ward costs 75 gold but can save your life or reveal ambushes. It is one of the best investments in the game.',
+
+  // Objectives
+  'objective.firstTower.title': 'First tower lost in your lane',
+  'objective.firstTower.description': 'Your tower was the first of the game to fall, at {time}. You were {state}.',
+  'objective.firstTower.suggestion': 'When your tower is threatened, stay to defend it or ask for help before it falls. The first tower gives the enemy bonus gold.',
+  'objective.firstTower.coachingNote': 'Losing the first tower opens up your half of the map: your jungle becomes dangerous and the enemy can roam freely.',
+  'objective.inhibitor.title': 'Inhibitor lost',
+  'objective.inhibitor.description': 'The enemy destroyed an inhibitor {lane}at {time}. You were {state}.',
+  'objective.inhibitor.suggestion': 'Defend your base as a group and clear the super minions. Avoid dying when the enemy has Baron or a numbers advantage.',
+  'objective.inhibitor.coachingNote': 'A lost inhibitor spawns super minions that put constant pressure on your base.',
+  'objective.soul.title': 'Dragon soul lost',
+  'objective.soul.description': 'The enemy got the dragon soul at {time}. You were {state}.',
+  'objective.soul.alive': 'alive, {distance} units from the pit',
+  'objective.soul.suggestion': 'When the enemy is one dragon away from soul, every dragon becomes a priority: set up vision 1 min before and group with your team.',
+  'objective.soul.coachingNote': 'The dragon soul is a very strong permanent bonus. Giving it to the enemy makes every following teamfight much harder.',
+  'objective.elder.title': 'Elder Dragon lost',
+  'objective.elder.description': 'The enemy took the Elder Dragon at {time}. You were {distance} units away (alive).',
+  'objective.elder.suggestion': '{advice}',
+  'objective.elder.coachingNote': 'The Elder Dragon often decides the game. Everything should be organized around this objective.',
+  'objective.dragon.title': '{dragon} Dragon lost',
+  'objective.dragon.description': 'The enemy took the Dragon at {time}. You were {distance} units away (alive).',
+  'objective.dragon.suggestion': '{advice}',
+  'objective.dragon.jungler': 'As a jungler, you need to track objective timers and be there. Ward the area 1 min before it spawns.',
+  'objective.dragon.laner': 'Be ready to rotate to the Dragon when it spawns. Communicate with your team.',
+  'objective.dragon.coachingNote': 'The Dragon gives permanent buffs to your team. {detail}',
+  'objective.dragon.tooFar': 'You were much too far away to contest.',
+  'objective.dragon.closer': 'Move closer earlier to get priority.',
+  'objective.baron.title': 'Baron Nashor lost',
+  'objective.baron.description': 'The enemy took Baron at {time}. You were {distance} units away.',
+  'objective.baron.suggestion': 'Baron is the most important objective of the mid/late game. Group with your team to contest it or take it.',
+  'objective.baron.coachingNote': 'Baron gives a huge siege and gold advantage. Losing Baron without contesting it is often a negative turning point.',
+  'objective.herald.title': 'Herald lost',
+  'objective.herald.description': 'The enemy took the Herald at {time}. You were {distance} units away.',
+  'objective.herald.suggestion': 'The Herald can destroy a whole tower. Help your jungler secure it, or at least contest it.',
+  'objective.herald.coachingNote': 'The Herald is very useful to speed up the early game. One tower fewer opens the map for your team.',
+  'objective.plates.title': '{lost} plates lost in your lane',
+  'objective.plates.description': 'Your tower lost {lost} plates ({gold} gold for the enemy) against {won} taken. {whileDead} fell while you were dead, {whileAway} while you were away.',
+  'objective.plates.suggestion': 'Before 14 min, every plate is worth gold. Don\'t leave your lane when your wave is pushing toward your tower, and punish your opponent when they roam.',
+  'objective.plates.coachingNote': 'Plates are the main source of structure gold in the early game: a {gap} gold gap from them alone.',
+  'objective.grubs.title': '{count} Void Grubs lost',
+  'objective.grubs.description': 'The enemy took {count} grubs at {time}. You were alive, {distance} units away.',
+  'objective.grubs.suggestion': 'Grubs give tower damage to the team that takes them. Play around their spawn with your top laner and jungler.',
+  'objective.grubs.coachingNote': 'Giving grubs away for free speeds up the fall of your towers.',
+
+  // Death timers
+  'deathTimer.beforeObjective.title': 'Death before {objective}',
+  'deathTimer.beforeObjective.description': 'You died at {time}{killer} with a {respawn}s respawn timer at level {level}. The enemy took {objective} {delay}s later, while you were still dead.',
+  'deathTimer.killedBy': ' (killed by {killer})',
+  'deathTimer.beforeObjective.suggestion': 'Take no risks before an objective: at this stage of the game, a death takes you out for {respawn}s. Stay grouped and play for vision rather than picks.',
+  'deathTimer.beforeObjective.coachingNote': 'Deaths right before an objective cost double: the enemy plays with a numbers advantage and takes the objective for free.',
+
+  // ARAM
+  'aram.damageShare.title': 'Damage share too low',
+  'aram.damageShare.description': 'You dealt {share}% of your team\'s damage to champions (expected: at least {target}%).',
+  'aram.damageShare.suggestion': 'In ARAM, fights never stop: stay in range to use your spells in every engagement instead of waiting in the back.',
+  'aram.damageShare.coachingNote': 'A low damage share often means you arrive late to fights or die before using your cooldowns.',
+  'aram.deaths.title': 'Deaths too frequent',
+  'aram.deaths.description': 'You died {deaths} times, or {per10} deaths per 10 minutes (recommended maximum: {max}).',
+  'aram.deaths.suggestion': 'Every death leaves your team in a 4v5 while you respawn. Wait for your frontline to engage before stepping forward.',
+  'aram.deaths.coachingNote': 'In ARAM, dying often can\'t be made up by farming: time spent dead is fight time lost.',
+  'aram.poke.title': 'Too much poke taken',
+  'aram.poke.description': 'Outside of fights, you took {taken} damage per minute, against {team} on average for your team (x{ratio}).',
+  'aram.poke.suggestion': 'Stay behind your minions and out of range of enemy poke between fights. Go into fights with your HP, not at half health.',
+  'aram.poke.coachingNote': 'Poke taken before a fight often decides it: a player at 50% health is a free target.',
+
+  // Recalls
+  'recall.late.title': 'Back too late',
+  'recall.late.description': 'You had {gold} unspent gold right before your back around {time}.',
+  'recall.late.suggestion': 'Back as soon as you have the gold for a key component or a full item. Every minute with gold in your pocket is a minute without stats.',
+  'recall.late.coachingNote': 'With {gold} gold, you could have bought a full item. Your trades in the meantime were made without that advantage.',
+  'recall.objectiveSpawn.title': 'Back during the {objective} spawn',
+  'recall.objectiveSpawn.description': 'You were in base around {time}, while the {objective} spawned at {spawnTime}.{taken}',
+  'recall.objectiveSpawn.taken': ' The enemy took the {objective}.',
+  'recall.objectiveSpawn.suggestion': 'Back 60 to 90 seconds before the {objective} spawns so you come back with your items and help set up vision.',
+  'recall.objectiveSpawn.coachingNote': 'A well-timed back before an objective gives you the stats AND the presence. A badly timed one makes you lose both.',
+  'recall.sittingOnGold.title': 'Sitting on {gold} gold',
+  'recall.sittingOnGold.description': 'Between {start} and {end}, you kept more than {threshold} gold in your pocket for {minutes} minutes (up to {gold} gold).',
+  'recall.sittingOnGold.suggestion': 'Find a window to back: after crashing a wave, after a kill or when your team doesn\'t need you.',
+  'recall.sittingOnGold.coachingNote': '{gold} unspent gold is a power spike you aren\'t using. Your opponent has probably already bought theirs.',
+
+  // Waves
+  'wave.recallWithoutCrash.title': 'Back without crashing the wave',
+  'wave.recallWithoutCrash.description': 'You went back to base around {time} without pushing your wave into the enemy tower. You lost about {lost} CS during your back.',
+  'wave.recallWithoutCrash.suggestion': 'Before backing, push your wave into the enemy tower so it crashes. You will return to lane without losing minions.',
+  'wave.recallWithoutCrash.coachingNote': '{lost} CS is about {gold} gold. A back timed right after a crash costs almost nothing.',
+  'wave.away.title': '{title}',
+  'wave.away.titleLong': 'Away from lane for {minutes} min',
+  'wave.away.titleDead': 'CS lost while dead',
+  'wave.away.titleRoam': 'CS lost during a roam',
+  'wave.away.description': 'Between {start} and {end}, you weren\'t in lane ({reason}). You lost about {lost} CS compared to {opponent}.',
+  'wave.away.roaming': 'roaming or in the jungle',
+  'wave.away.standardLane': 'a standard lane',
+  'wave.away.suggestion': '{advice}',
+  'wave.away.adviceDead': 'Every death in lane also costs the waves that die under your tower. Play safer when you can\'t afford to lose the lane.',
+  'wave.away.adviceRoam': 'Push your wave before leaving your lane. Come back quickly if the roam isn\'t working out.',
+  'wave.away.coachingNote': '{note}',
+  'wave.away.noteLong': 'A long absence from lane hands free pressure and experience to your opponent.',
+  'wave.away.noteRoam': 'A roam must earn more than the {lost} CS (~{gold} gold) it costs.',
+
+  // Itemization
+  'itemization.firstSpike': '1st item',
+  'itemization.secondSpike': '2nd item',
+  'itemization.powerSpike.title': '{item} behind {opponent}',
+  'itemization.powerSpike.description': '{detail}',
+  'itemization.powerSpike.later': '{opponent} completed their {item} at {opponentTime}, you at {time} ({minutes} min behind).',
+  'itemization.powerSpike.never': '{opponent} completed their {item} at {opponentTime}, you never did.',
+  'itemization.powerSpike.suggestion': 'Respect the enemy power spike: avoid all-ins until you have caught up in items, and optimize your backs to close the gap.',
+  'itemization.powerSpike.coachingNote': 'For those {minutes} minutes, your opponent had one more completed item. That is when they can force trades.',
+  'itemization.firstItem': 'First item',
+  'itemization.secondItem': 'Second item',
+  'itemization.lateCore.title': '{item} completed late',
+  'itemization.lateCore.description': '{detail}',
+  'itemization.lateCore.completed': '{item} completed at {time}, while it is expected before {minute} min.',
+  'itemization.lateCore.missing': '{item} still not completed at {minute} min.',
+  'itemization.lateCore.suggestion': 'Improve your farm and your back timings to complete your key items earlier.',
+  'itemization.lateCore.coachingNote': 'Your key items define your power spikes. Every minute of delay reduces your impact in fights.',
+  'itemization.controlWards.title': 'No Control Ward bought',
+  'itemization.controlWards.description': 'You didn\'t buy any Control Ward between {start} and {end} ({minutes} min).',
+  'itemization.controlWards.suggestion': 'Buy a Control Ward every time you back. It costs 75 gold and stays until it is destroyed.',
+  'itemization.controlWards.coachingNote': 'In total, you bought {bought} Control Ward(s) this game.',
+
+  // Roams
+  'roam.laneCost': '{cs} CS and {xp} XP',
+  'roam.kills': '{count} kill(s)',
+  'roam.assists': '{count} assist(s)',
+  'roam.success.title': 'Successful roam to {where}',
+  'roam.success.description': 'Your roam at {time} earned {results}, for {laneCost} lost in lane.',
+  'roam.failed.title': '{title}',
+  'roam.failed.titleDied': 'Death during a roam',
+  'roam.failed.titleNothing': 'Roam with no result',
+  'roam.failed.description': 'Around {time}, you left your lane for {where} for about {minutes} min{outcome}. Lane cost: {laneCost}.',
+  'roam.failed.died': ' and died',
+  'roam.failed.nothing': ' without a kill, an assist or an objective',
+  'roam.failed.suggestion': 'Only roam after pushing your wave, when the target lane is pushed toward the enemy and you can get there before they back off.',
+  'roam.failed.coachingNote': '{note}',
+  'roam.failed.noteOpponent': 'While you were away, {opponent} got ahead in lane ({laneCost}).',
+  'roam.failed.note': 'A roam that earns nothing is lost farm and experience.',
+
+  // Teamfights
+  'teamfight.diedFirst.title': 'First to die in a lost teamfight',
+  'teamfight.diedFirst.description': 'At {time}, you died first (killed by {killer}) and your team lost the fight {score} ({allies}v{enemies}).',
+  'teamfight.diedFirst.suggestion': 'In teamfights, stay behind your frontline and wait for the enemy to use their engage spells before stepping forward.',
+  'teamfight.diedFirst.coachingNote': 'The first death of a teamfight gives the enemy a 5v4. Surviving the first seconds is often worth more than your damage.',
+  'teamfight.absent.title': 'Missing from a lost teamfight',
+  'teamfight.absent.description': 'At {time}, your team lost a fight {score} in a {allies}v{enemies} while you were alive {distance} units away.',
+  'teamfight.absent.suggestion': 'When your team groups or an objective is coming up, join them. If you split push, make sure they don\'t force a fight without you.',
+  'teamfight.absent.coachingNote': 'A teamfight with fewer players is almost always lost. Your position on the map should follow your team\'s.',
+
+  // Jungle
+  'jungle.idle.title': 'Idle time in the jungle',
+  'jungle.idle.description': 'Between {start} and {end}, you took no camp, no gank and joined no fight.',
+  'jungle.idle.suggestion': 'Plan your path: every minute should be spent farming, ganking, countering the enemy jungler or setting up an objective.',
+  'jungle.idle.coachingNote': '{minutes} minutes without action is roughly {gold} gold and experience lost compared to the enemy jungler.',
+  'jungle.failedGank.title': 'Failed {lane} gank',
+  'jungle.failedGank.description': 'Your {lane} gank at {time} got no kill and your team lost {deaths} player(s).',
+  'jungle.failedGank.suggestion': 'Gank when your laner\'s wave is pushed toward their tower and the enemy has used their escape spells. Check for wards before going in.',
+  'jungle.failedGank.coachingNote': 'A failed gank costs farm time, and if someone dies, it hands the advantage to the enemy.',
+  'jungle.noEarlyGank.title': 'No gank before 10 minutes',
+  'jungle.noEarlyGank.description': 'You didn\'t attempt any gank in the first 10 minutes.',
+  'jungle.noEarlyGank.suggestion': 'Look for lanes pushed toward the enemy or with a level/spell advantage and gank them after your first clear.',
+  'jungle.noEarlyGank.coachingNote': 'Farming matters, but without lane pressure the enemy can play freely and invade your jungle.',
+  'jungle.missedSpawn.title': 'Missing at the {objective} spawn',
+  'jungle.missedSpawn.description': 'When the {objective} spawned ({time}), you were {distance} units from the pit. The enemy took it.',
+  'jungle.missedSpawn.suggestion': 'Finish your clear so you are near the {objective} 30 to 60 seconds before it spawns, with Smite available.',
+  'jungle.missedSpawn.coachingNote': 'As the jungler, you are the one who must show up for neutral objectives. Your absence lets the enemy take them for free.',
+
+  // Skill order
+  'skillOrder.ultDelay.title': 'Ultimate rank {rank} leveled late',
+  'skillOrder.ultDelay.description': 'You reached level {level} at {time}, but your ultimate (rank {rank}) was leveled {delay}.',
+  'skillOrder.ultDelay.at': 'at level {rankedAt} ({time}), {seconds}s after reaching level {level}',
+  'skillOrder.ultDelay.never': 'never',
+  'skillOrder.ultDelay.suggestion': 'Level your ultimate as soon as you reach level {level}. Enable quick level up (Ctrl + R) so you never forget it.',
+  'skillOrder.ultDelay.coachingNote': '{note}',
+  'skillOrder.ultDelay.noteLevel6': 'Level 6 is the biggest power spike of the laning phase. Your opponent can all-in you while you don\'t have your ultimate.',
+  'skillOrder.ultDelay.note': 'Each ultimate rank lowers its cooldown and increases its damage. Never leave it waiting.',
+  'skillOrder.maxOrder.title': 'Unusual skill order on {champion}',
+  'skillOrder.maxOrder.description': 'At level {level}, you prioritized {skill} while the recommended order on {champion} is {recommended}.',
+  'skillOrder.maxOrder.suggestion': 'Max {expected} first (order {recommended}), unless a specific matchup calls for something else.',
+  'skillOrder.maxOrder.coachingNote': 'Your order: {sequence}.',
+
+  // Map zones and objectives (roam targets and results)
+  'zone.blue_base': 'the blue base',
+  'zone.red_base': 'the red base',
+  'zone.blue_jungle': 'the blue jungle',
+  'zone.red_jungle': 'the red jungle',
+  'zone.river_top': 'the top river',
+  'zone.river_bot': 'the bot river',
+  'zone.dragon_pit': 'the Dragon',
+  'zone.baron_pit': 'the Baron',
+  'zone.top_lane': 'the top lane',
+  'zone.mid_lane': 'the mid lane',
+  'zone.bot_lane': 'the bot lane',
+  'objectiveName.DRAGON': 'Dragon',
+  'objectiveName.ELDER_DRAGON': 'Elder Dragon',
+  'objectiveName.BARON_NASHOR': 'Baron',
+  'objectiveName.RIFTHERALD': 'Herald',
+  'objectiveName.HORDE': 'Void Grubs',
+  'objectiveName.MONSTER': 'Monster',
+  'objectiveName.TOWER': 'Tower',
+  'objectiveName.INHIBITOR': 'Inhibitor',
+
+  // Win probability events
+  'winProbability.tower.allied': 'Tower destroyed by your team',
+  'winProbability.tower.enemy': 'Tower lost',
+  'winProbability.inhibitor.allied': 'Inhibitor destroyed by your team',
+  'winProbability.inhibitor.enemy': 'Inhibitor lost',
+  'winProbability.dragon.allied': 'Dragon taken by your team',
+  'winProbability.dragon.enemy': 'Dragon taken by the enemy',
+  'winProbability.soul.allied': 'Dragon soul for your team',
+  'winProbability.soul.enemy': 'Dragon soul for the enemy',
+  'winProbability.elder.allied': 'Elder taken by your team',
+  'winProbability.elder.enemy': 'Elder taken by the enemy',
+  'winProbability.baron.allied': 'Baron taken by your team',
+  'winProbability.baron.enemy': 'Baron taken by the enemy',
+  'winProbability.herald.allied': 'Herald taken by your team',
+  'winProbability.herald.enemy': 'Herald taken by the enemy',
+  'winProbability.gold': 'Gold difference',
+
+  // Coaching tips
+  'tipCategory.farm': 'Farming',
+  'tipCategory.vision': 'Vision',
+  'tipCategory.positioning': 'Positioning',
+  'tipCategory.mapAwareness': 'Map awareness',
+  'tipCategory.objectives': 'Objectives',
+  'tipCategory.waves': 'Wave management',
+  'tipCategory.backTiming': 'Back timing',
+  'tipCategory.items': 'Items',
+  'tipCategory.powerSpikes': 'Power spikes',
+  'tipCategory.skills': 'Abilities',
+  'tipCategory.jungle': 'Jungle',
+  'tipCategory.roaming': 'Roaming',
+  'tipCategory.deathTiming': 'Death timing',
+  'tipCategory.trading': 'Trading',
+  'tipCategory.top': 'Top laner',
+  'tipCategory.jungler': 'Jungler',
+  'tipCategory.mid': 'Mid laner',
+  'tipCategory.adc': 'ADC',
+  'tipCategory.support': 'Support',
+  'tip.cs-1.title': 'Practice last hitting',
+  'tip.cs-1.description': 'Go into the Practice Tool and train last hitting without using spells. Aim for 80+ CS at 10 min.',
+  'tip.cs-2.title': 'CS under tower',
+  'tip.cs-2.description': 'Learn the pattern: 2 tower shots + 1 auto for melee minions, 1 tower shot + 1 auto for casters (with starting items).',
+  'tip.vision-1.title': 'Buy Control Wards',
+  'tip.vision-1.description': 'Buy a Control Ward every time you back. Place it in your jungle or near objectives.',
+  'tip.vision-2.title': 'Ward before objectives',
+  'tip.vision-2.description': 'Place wards 1 minute before Dragon/Baron spawns to have the information.',
+  'tip.pos-1.title': 'Stay with your team',
+  'tip.pos-1.description': 'In the mid/late game, don\'t split from your team unless you have vision and know where the enemies are.',
+  'tip.pos-2.title': 'Respect the fog of war',
+  'tip.pos-2.description': 'If you can\'t see 3+ enemies on the map, play as if they are coming for you.',
+  'tip.map-1.title': 'Look at your minimap',
+  'tip.map-1.description': 'Force yourself to look at your minimap every 3 seconds. It is a habit you have to build.',
+  'tip.map-2.title': 'Track the enemy jungler',
+  'tip.map-2.description': 'Keep a mental note of where the enemy jungler was seen. If they were bot, they will be top in 30-40 sec.',
+  'tip.obj-1.title': 'Prioritize objectives',
+  'tip.obj-1.description': 'After a kill or an advantage, always think: "Which objective can I take?"',
+  'tip.obj-2.title': 'Time objectives',
+  'tip.obj-2.description': 'Dragon respawns 5 min later, Baron 6 min. Get ready 1 min before.',
+  'tip.wave-1.title': 'Crash before backing',
+  'tip.wave-1.description': 'Push your wave into the enemy tower right before backing. It will come back to you while you shop, without losing CS.',
+  'tip.wave-2.title': 'Push before leaving lane',
+  'tip.wave-2.description': 'Before a roam or an objective, push your wave. A wave that reaches your tower while you are away is lost CS.',
+  'tip.back-1.title': 'Spend your gold',
+  'tip.back-1.description': 'As soon as you have the gold for an important component, look for a window to back. Gold in your pocket gives no stats.',
+  'tip.back-2.title': 'Back before objectives',
+  'tip.back-2.description': 'Back 60 to 90 seconds before Dragon or Baron spawns to come back with your items in time for the setup.',
+  'tip.item-1.title': 'Complete your key items',
+  'tip.item-1.description': 'Your first completed item is your first real power spike. Aim for it before 14 min by farming cleanly and backing at the right time.',
+  'tip.item-2.title': 'One Control Ward per back',
+  'tip.item-2.description': 'Add a Control Ward to every purchase. 75 gold for permanent vision is the best value in the game.',
+  'tip.spike-1.title': 'Compare your items',
+  'tip.spike-1.description': 'Press Tab to see your opponent\'s items. If they have one more completed item, avoid long trades.',
+  'tip.skill-1.title': 'Ultimate at 6, 11 and 16',
+  'tip.skill-1.description': 'Level your ultimate as soon as possible. A shortcut like Ctrl + R lets you do it without taking your eyes off the fight.',
+  'tip.jungle-1.title': 'Plan your path',
+  'tip.jungle-1.description': 'Every time you leave base, decide: which camps, which lane to gank, which objective to set up. A jungler without a plan wastes time.',
+  'tip.jungle-2.title': 'Gank pushed lanes',
+  'tip.jungle-2.description': 'The best ganks target an enemy who pushed their wave far from their tower, without a ward and without Flash.',
+  'tip.roam-1.title': 'Push before roaming',
+  'tip.roam-1.description': 'A good roam starts with a wave pushed into the enemy tower. Your opponent has to choose between following you and losing CS.',
+  'tip.roam-2.title': 'Pick your target',
+  'tip.roam-2.description': 'Roam to a lane whose wave is pushed toward the enemy and whose opponent has no Flash. Otherwise, keep farming.',
+  'tip.death-timing-1.title': 'Zero risk before an objective',
+  'tip.death-timing-1.description': 'In the minute before a Dragon or a Baron, avoid duels and facechecks. Dying at that moment hands the objective to the enemy.',
+  'tip.trade-1.title': 'Trade when the enemy last hits',
+  'tip.trade-1.description': 'Attack the enemy when they step up to last hit a minion. They have to choose between hitting you and taking the CS.',
+  'tip.trade-2.title': 'Respect power spikes',
+  'tip.trade-2.description': 'Watch out for levels 2, 3, 6 and item completions. Those are the moments your opponent gets stronger.',
+  'tip.top-1.title': 'Freeze management',
+  'tip.top-1.description': 'As a top laner, learn to freeze near your tower. It protects you from ganks and forces the enemy to overextend to farm.',
+  'tip.top-2.title': 'TP for objectives',
+  'tip.top-2.description': 'Keep your TP to join bot fights or contest Drake. Don\'t waste it to return to lane after a back.',
+  'tip.top-3.title': 'Herald timing',
+  'tip.top-3.description': 'Between 8 and 14 min, it is YOUR time for the Herald. Ping your jungler and set up vision.',
+  'tip.top-4.title': 'Effective split push',
+  'tip.top-4.description': 'Only split push with vision. Place 2 wards in the enemy jungle before pushing deep.',
+  'tip.jg-1.title': 'Objectives > Ganks',
+  'tip.jg-1.description': 'Always prioritize objectives (Drake, Herald, Baron) over ganks. An objective is a guaranteed advantage.',
+  'tip.jg-2.title': 'Track the enemy jungler',
+  'tip.jg-2.description': 'Note where the enemy jungler was seen. If they gank top, you can take their bot side camps or gank bot.',
+  'tip.jg-3.title': 'Ganking pushed lanes',
+  'tip.jg-3.description': 'Never gank a lane pushed under the enemy tower. Wait for your laner to push or gank elsewhere.',
+  'tip.jg-4.title': 'Pre-objective vision',
+  'tip.jg-4.description': '1 minute before Drake/Baron, place wards and sweep the area. It is YOUR responsibility.',
+  'tip.mid-1.title': 'Roam after pushing',
+  'tip.mid-1.description': 'Push your wave BEFORE roaming. Otherwise you lose CS and your roam can fail if your wave is under your tower.',
+  'tip.mid-2.title': 'Priority for your jungler',
+  'tip.mid-2.description': 'If you have mid priority, your jungler can invade and contest scuttles. Help them in those contests.',
+  'tip.mid-3.title': 'Track enemy roams',
+  'tip.mid-3.description': 'If your opponent disappears, PING immediately. Even if you are not sure, a ping can save your teammates.',
+  'tip.mid-4.title': 'Contest objectives',
+  'tip.mid-4.description': 'Your central position lets you reach Drake/Herald quickly. Be there for every contest.',
+  'tip.adc-1.title': 'Survival = DPS',
+  'tip.adc-1.description': 'A dead ADC deals 0 damage. ALWAYS stay behind your frontline and never facecheck.',
+  'tip.adc-2.title': 'Kiting in teamfights',
+  'tip.adc-2.description': 'Use attack-move (A + click) to kite automatically. Hit the closest safe target.',
+  'tip.adc-3.title': 'Farm side lanes safely',
+  'tip.adc-3.description': 'Don\'t farm a side lane without vision. If you can\'t see 3+ enemies, play as if they are coming for you.',
+  'tip.adc-4.title': 'Be there for Drake',
+  'tip.adc-4.description': 'Your DPS is crucial to secure Drake quickly. ALWAYS be there, even if you have to lose a few CS.',
+  'tip.sup-1.title': 'Vision = Victory',
+  'tip.sup-1.description': 'Buy Control Wards EVERY time you back. Place them near objectives or in jungle bushes.',
+  'tip.sup-2.title': 'Peel for your ADC',
+  'tip.sup-2.description': 'In teamfights, your #1 priority is keeping your ADC alive. Use your CC on the assassins targeting them.',
+  'tip.sup-3.title': 'Effective mid roams',
+  'tip.sup-3.description': 'Roam mid after pushing the bot wave. Warn your ADC and ward the river before leaving.',
+  'tip.sup-4.title': 'Sweep before objectives',
+  'tip.sup-4.description': 'Use your Sweeper around Drake/Baron 1 min before the spawn. Denying enemy vision is crucial.',
+};
+
+export type MessageKey = keyof typeof en;
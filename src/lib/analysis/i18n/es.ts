@@ -0,0 +1,407 @@
+// Spanish catalog
+
+import { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  // Shared fragments
+  'common.theEnemy': 'el enemigo',
+  'common.yourOpponent': 'tu rival',
+  'common.dead': 'muerto',
+  'common.aliveAt': 'vivo, a {distance} unidades',
+
+  // Deaths
+  'death.tower.title': 'Muerte bajo la torre enemiga',
+  'death.tower.description': 'Moriste bajo la torre enemiga a los {time}. {detail}',
+  'death.tower.ganked': 'Te encerraron entre {count} enemigos.',
+  'death.tower.killedBy': '{killer} te mató bajo su torre.',
+  'death.tower.killed': 'El enemigo te mató bajo su torre.',
+  'death.tower.suggestion': 'No hagas dive sin minions que tanqueen la torre, y asegúrate de tener daño suficiente para rematar rápido.',
+  'death.tower.coachingNote': '{note}',
+  'death.tower.noteGanked': 'El dive coordinado del enemigo probablemente se veía venir. Mira el minimapa antes de meterte bajo torre.',
+  'death.tower.noteSolo': 'Antes de hacer dive, comprueba que tienes: 1) Minions, 2) Vida suficiente, 3) Tus habilidades listas.',
+  'death.isolated.title': 'Muerte en posición aislada',
+  'death.isolated.description': 'Moriste a los {time} estando aislado. Tu aliado más cercano ({ally}) estaba a {distance} unidades.',
+  'death.isolated.suggestion': 'Quédate cerca de tu equipo, sobre todo cuando no tienes visión del enemigo.',
+  'death.isolated.coachingNote': '{note}',
+  'death.isolated.noteDanger': 'Estabas en territorio enemigo. Es muy arriesgado sin tu equipo.',
+  'death.isolated.noteNeutral': 'Incluso en zona neutral, estar aislado te hace vulnerable a los picks.',
+  'death.gank.title': 'Muerte por gank múltiple',
+  'death.gank.description': 'Te mataron {count} enemigos a los {time}. {detail}',
+  'death.gank.danger': 'Estabas en territorio peligroso.',
+  'death.gank.coordinated': 'El enemigo coordinó bien su gank.',
+  'death.gank.suggestion': 'Coloca más wards para ver las rotaciones enemigas. Juega más seguro cuando faltan varios enemigos en el mapa.',
+  'death.gank.coachingNote': 'Antes de empujar o tradear, cuenta los enemigos visibles en el mapa. Si no ves 3 o más, asume que vienen a por ti.',
+  'death.goldDeficit.title': 'Muerte con desventaja de oro',
+  'death.goldDeficit.description': 'Moriste a los {time} contra {killer} con {gold} de oro de desventaja.',
+  'death.goldDeficit.suggestion': 'Evita los all-in cuando vas por detrás. Farmea seguro y espera a tu jungla o a un pico de poder de objeto.',
+  'death.goldDeficit.coachingNote': 'Con {gold} de oro menos, tu rival probablemente tiene un objeto más que tú. Respeta ese pico de poder.',
+  'death.levelDeficit.title': 'Muerte con desventaja de nivel',
+  'death.levelDeficit.description': 'Moriste a los {time} con {levels} nivel(es) menos que tu rival.',
+  'death.levelDeficit.suggestion': 'El nivel da más puntos de habilidad y estadísticas. No te enfrentes a alguien de nivel superior.',
+  'death.levelDeficit.coachingNote': 'Cada nivel vale unas 600 de oro en estadísticas. Espera a igualar antes de pelear.',
+  'death.avoidable.title': 'Muerte evitable',
+  'death.avoidable.description': 'Moriste a los {time} contra {killer}{help}.',
+  'death.avoidable.withHelp': ' con ayuda',
+  'death.avoidable.suggestion': 'Analiza qué te llevó a esa posición. ¿Podrías haber evitado esa pelea?',
+  'death.avoidable.coachingNote': '{note}',
+  'death.avoidable.noteLate': 'En late game, una muerte puede costar la partida. Ten mucho cuidado con tu posicionamiento.',
+  'death.avoidable.note': 'Cada muerte le da ventaja al enemigo. Minimiza tus muertes para mantener el control.',
+
+  // CS
+  'cs.behind.title': 'Desventaja de CS a los {minute} min',
+  'cs.behind.description': 'Tienes {cs} CS contra {opponentCs} de tu rival ({diff} CS, unas {gold} de oro de desventaja).',
+  'cs.behind.suggestion': '{advice}',
+  'cs.behind.jungler': 'Optimiza tus clears de jungla. No te saltes campamentos y controla bien sus reapariciones.',
+  'cs.behind.laner': 'Céntrate en el último golpe. Si la línea es difícil, usa tus hechizos para asegurar el CS bajo torre.',
+  'cs.behind.coachingNote': '{note}',
+  'cs.behind.noteLarge': 'Ir {missing} CS por detrás es mucho. Tu rival tiene casi un objeto de ventaja solo por el CS.',
+  'cs.behind.note': 'Incluso 15 CS de desventaja son unas 300 de oro. Se acumula rápido a lo largo de la partida.',
+  'cs.belowAverage.title': 'CS por debajo de la media a los {minute} min',
+  'cs.belowAverage.description': 'Tienes {cs} CS ({perMin} CS/min). El objetivo es al menos {target} CS/min.',
+  'cs.belowAverage.suggestion': '{advice}',
+  'cs.belowAverage.jungler': 'Asegúrate de limpiar todos tus campamentos de forma eficiente y de no perder tiempo entre ganks.',
+  'cs.belowAverage.laner': 'Practica el último golpe en la herramienta de práctica. Cada minion cuenta.',
+  'cs.belowAverage.coachingNote': 'A los {minute} min, deberías apuntar a {expected} CS. Te faltaron {missed}.',
+
+  // Vision
+  'vision.lowWards.title': 'Falta de visión ({start}-{end} min)',
+  'vision.lowWards.description': 'Solo colocaste {wards} ward(s) entre el minuto {start} y el {end}. {role}',
+  'vision.lowWards.support': 'Como support, la visión es tu responsabilidad principal.',
+  'vision.lowWards.laner': 'Incluso como jugador de línea, debes contribuir a la visión.',
+  'vision.lowWards.suggestion': '{advice}',
+  'vision.lowWards.adviceSupport': 'Coloca wards estratégicas: río, jungla enemiga, objetivos. Usa tu Lente del Oráculo para quitar wards.',
+  'vision.lowWards.adviceLaner': 'Compra Control Wards con regularidad. Una ward puede salvar tu vida o la de tu equipo.',
+  'vision.lowWards.coachingNote': 'La visión gana partidas. {wards} ward(s) en 5 min no bastan para leer bien el mapa.',
+  'vision.noControlWard.title': 'Sin Control Ward ({start}-{end} min)',
+  'vision.noControlWard.description': 'No colocaste ninguna Control Ward entre el minuto {start} y el {end}.',
+  'vision.noControlWard.suggestion': 'Las Control Wards son esenciales para controlar las zonas clave (dragón, barón, jungla). Compra una en cada vuelta a base.',
+  'vision.noControlWard.coachingNote': 'Una Control Ward cuesta 75 de oro pero puede salvarte la vida o revelar emboscadas. Es una de las mejores inversiones del juego.',
+
+  // Objectives
+  'objective.firstTower.title': 'Primera torre perdida en tu línea',
+  'objective.firstTower.description': 'Tu torre fue la primera de la partida en caer, a los {time}. Estabas {state}.',
+  'objective.firstTower.suggestion': 'Cuando tu torre esté amenazada, quédate a defenderla o pide ayuda antes de que caiga. La primera torre da oro extra al enemigo.',
+  'objective.firstTower.coachingNote': 'Perder la primera torre abre tu mitad del mapa: tu jungla se vuelve peligrosa y el enemigo puede rotar libremente.',
+  'objective.inhibitor.title': 'Inhibidor perdido',
+  'objective.inhibitor.description': 'El enemigo destruyó un inhibidor {lane}a los {time}. Estabas {state}.',
+  'objective.inhibitor.suggestion': 'Defiende tu base en grupo y limpia los superminions. Evita morir cuando el enemigo tiene el Barón o ventaja numérica.',
+  'objective.inhibitor.coachingNote': 'Un inhibidor perdido hace aparecer superminions que presionan constantemente tu base.',
+  'objective.soul.title': 'Alma del dragón perdida',
+  'objective.soul.description': 'El enemigo obtuvo el alma del dragón a los {time}. Estabas {state}.',
+  'objective.soul.alive': 'vivo, a {distance} unidades del foso',
+  'objective.soul.suggestion': 'Cuando al enemigo le falta un dragón para el alma, cada dragón es prioritario: prepara la visión 1 min antes y agrúpate con tu equipo.',
+  'objective.soul.coachingNote': 'El alma del dragón es una bonificación permanente muy fuerte. Dejársela al enemigo hace mucho más difíciles las siguientes peleas.',
+  'objective.elder.title': 'Dragón Ancestral perdido',
+  'objective.elder.description': 'El enemigo tomó el Dragón Ancestral a los {time}. Estabas a {distance} unidades (vivo).',
+  'objective.elder.suggestion': '{advice}',
+  'objective.elder.coachingNote': 'El Dragón Ancestral suele decidir la partida. Todo debe organizarse alrededor de este objetivo.',
+  'objective.dragon.title': 'Dragón {dragon} perdido',
+  'objective.dragon.description': 'El enemigo tomó el Dragón a los {time}. Estabas a {distance} unidades (vivo).',
+  'objective.dragon.suggestion': '{advice}',
+  'objective.dragon.jungler': 'Como jungla, debes controlar los tiempos de los objetivos y estar presente. Pon wards en la zona 1 min antes de que aparezca.',
+  'objective.dragon.laner': 'Prepárate para rotar al Dragón cuando aparezca. Comunícate con tu equipo.',
+  'objective.dragon.coachingNote': 'El Dragón da mejoras permanentes a tu equipo. {detail}',
+  'objective.dragon.tooFar': 'Estabas demasiado lejos para disputarlo.',
+  'objective.dragon.closer': 'Acércate antes para tener la prioridad.',
+  'objective.baron.title': 'Barón Nashor perdido',
+  'objective.baron.description': 'El enemigo tomó el Barón a los {time}. Estabas a {distance} unidades.',
+  'objective.baron.suggestion': 'El Barón es el objetivo más importante del mid/late game. Agrúpate con tu equipo para disputarlo o tomarlo.',
+  'objective.baron.coachingNote': 'Un Barón da una enorme ventaja de asedio y de oro. Perder un Barón sin disputarlo suele ser un punto de inflexión negativo.',
+  'objective.herald.title': 'Heraldo perdido',
+  'objective.herald.description': 'El enemigo tomó el Heraldo a los {time}. Estabas a {distance} unidades.',
+  'objective.herald.suggestion': 'El Heraldo puede destruir una torre entera. Ayuda a tu jungla a asegurarlo o al menos dispútalo.',
+  'objective.herald.coachingNote': 'El Heraldo es muy útil para acelerar el early game. Una torre menos abre el mapa para tu equipo.',
+  'objective.plates.title': '{lost} placas perdidas en tu línea',
+  'objective.plates.description': 'Tu torre perdió {lost} placas ({gold} de oro para el enemigo) contra {won} ganadas. {whileDead} cayeron mientras estabas muerto, {whileAway} mientras estabas lejos.',
+  'objective.plates.suggestion': 'Antes del minuto 14, cada placa vale oro. No dejes tu línea cuando tu oleada empuja hacia tu torre, y castiga a tu rival cuando rote.',
+  'objective.plates.coachingNote': 'Las placas son la principal fuente de oro de estructuras en el early game: {gap} de oro de diferencia solo con ellas.',
+  'objective.grubs.title': '{count} Larvas del Vacío perdidas',
+  'objective.grubs.description': 'El enemigo tomó {count} larvas a los {time}. Estabas vivo, a {distance} unidades.',
+  'objective.grubs.suggestion': 'Las larvas dan daño a torres al equipo que las toma. Juega alrededor de su aparición con tu toplaner y tu jungla.',
+  'objective.grubs.coachingNote': 'Regalar las larvas acelera la caída de tus torres.',
+
+  // Death timers
+  'deathTimer.beforeObjective.title': 'Muerte antes de {objective}',
+  'deathTimer.beforeObjective.description': 'Moriste a los {time}{killer} con {respawn}s de reaparición a nivel {level}. El enemigo tomó {objective} {delay}s después, mientras seguías muerto.',
+  'deathTimer.killedBy': ' (te mató {killer})',
+  'deathTimer.beforeObjective.suggestion': 'Antes de un objetivo, no corras ningún riesgo: en este momento de la partida, una muerte te saca del juego durante {respawn}s. Quédate agrupado y juega la visión en lugar de los picks.',
+  'deathTimer.beforeObjective.coachingNote': 'Las muertes justo antes de un objetivo cuestan el doble: el enemigo juega con ventaja numérica y toma el objetivo gratis.',
+
+  // ARAM
+  'aram.damageShare.title': 'Porcentaje de daño demasiado bajo',
+  'aram.damageShare.description': 'Hiciste el {share}% del daño de tu equipo a campeones (esperado: al menos {target}%).',
+  'aram.damageShare.suggestion': 'En ARAM las peleas son constantes: quédate a rango para usar tus hechizos en cada enfrentamiento en lugar de esperar atrás.',
+  'aram.damageShare.coachingNote': 'Un porcentaje de daño bajo suele significar que llegas tarde a las peleas o que mueres antes de usar tus habilidades.',
+  'aram.deaths.title': 'Muertes demasiado frecuentes',
+  'aram.deaths.description': 'Moriste {deaths} veces, es decir {per10} muertes cada 10 minutos (máximo recomendado: {max}).',
+  'aram.deaths.suggestion': 'Cada muerte deja a tu equipo en un 4v5 mientras reapareces. Espera a que tu primera línea inicie antes de avanzar.',
+  'aram.deaths.coachingNote': 'En ARAM, morir a menudo no se compensa farmeando: el tiempo muerto es tiempo de pelea perdido.',
+  'aram.poke.title': 'Demasiado poke recibido',
+  'aram.poke.description': 'Fuera de las peleas, recibiste {taken} de daño por minuto, contra {team} de media en tu equipo (x{ratio}).',
+  'aram.poke.suggestion': 'Quédate detrás de tus minions y fuera del alcance del poke enemigo entre peleas. Entra a las peleas con tu vida, no a media vida.',
+  'aram.poke.coachingNote': 'El poke recibido antes de una pelea suele decidirla: un jugador al 50% de vida es un objetivo gratis.',
+
+  // Recalls
+  'recall.late.title': 'Vuelta a base demasiado tardía',
+  'recall.late.description': 'Tenías {gold} de oro sin gastar justo antes de volver a base hacia los {time}.',
+  'recall.late.suggestion': 'Vuelve a base en cuanto tengas oro para un componente clave o un objeto completo. Cada minuto con oro en el bolsillo es un minuto sin estadísticas.',
+  'recall.late.coachingNote': 'Con {gold} de oro podrías haber comprado un objeto completo. Tus trades mientras tanto se hicieron sin esa ventaja.',
+  'recall.objectiveSpawn.title': 'Vuelta a base durante la aparición del {objective}',
+  'recall.objectiveSpawn.description': 'Estabas en base hacia los {time}, mientras el {objective} aparecía a los {spawnTime}.{taken}',
+  'recall.objectiveSpawn.taken': ' El enemigo tomó el {objective}.',
+  'recall.objectiveSpawn.suggestion': 'Vuelve a base 60 a 90 segundos antes de que aparezca el {objective} para volver con tus objetos y ayudar a preparar la visión.',
+  'recall.objectiveSpawn.coachingNote': 'Una vuelta a base bien calculada antes de un objetivo te da las estadísticas Y la presencia. Una mal calculada te hace perder ambas.',
+  'recall.sittingOnGold.title': 'Sentado sobre {gold} de oro',
+  'recall.sittingOnGold.description': 'Entre los {start} y los {end}, guardaste más de {threshold} de oro durante {minutes} minutos (hasta {gold} de oro).',
+  'recall.sittingOnGold.suggestion': 'Busca una ventana para volver a base: tras estrellar una oleada, tras un kill o cuando tu equipo no te necesite.',
+  'recall.sittingOnGold.coachingNote': '{gold} de oro sin gastar es un pico de poder que no usas. Tu rival probablemente ya ha comprado.',
+
+  // Waves
+  'wave.recallWithoutCrash.title': 'Vuelta a base sin estrellar la oleada',
+  'wave.recallWithoutCrash.description': 'Volviste a base hacia los {time} sin empujar tu oleada contra la torre enemiga. Perdiste unos {lost} CS durante la vuelta.',
+  'wave.recallWithoutCrash.suggestion': 'Antes de volver a base, empuja tu oleada contra la torre enemiga para que se estrelle. Volverás a la línea sin perder minions.',
+  'wave.recallWithoutCrash.coachingNote': '{lost} CS son unas {gold} de oro. Una vuelta a base justo después de estrellar la oleada casi no cuesta nada.',
+  'wave.away.title': '{title}',
+  'wave.away.titleLong': 'Fuera de la línea durante {minutes} min',
+  'wave.away.titleDead': 'CS perdido mientras estabas muerto',
+  'wave.away.titleRoam': 'CS perdido durante un roam',
+  'wave.away.description': 'Entre los {start} y los {end}, no estabas en la línea ({reason}). Perdiste unos {lost} CS respecto a {opponent}.',
+  'wave.away.roaming': 'roam o jungla',
+  'wave.away.standardLane': 'una línea estándar',
+  'wave.away.suggestion': '{advice}',
+  'wave.away.adviceDead': 'Cada muerte en línea también cuesta las oleadas que mueren bajo tu torre. Juega más seguro cuando no puedas permitirte perder la línea.',
+  'wave.away.adviceRoam': 'Empuja tu oleada antes de dejar la línea. Vuelve rápido si el roam no da resultado.',
+  'wave.away.coachingNote': '{note}',
+  'wave.away.noteLong': 'Una ausencia larga en la línea le regala presión y experiencia a tu rival.',
+  'wave.away.noteRoam': 'Un roam debe aportar más que los {lost} CS (~{gold} de oro) que cuesta.',
+
+  // Itemization
+  'itemization.firstSpike': '1.er objeto',
+  'itemization.secondSpike': '2.º objeto',
+  'itemization.powerSpike.title': '{item} por detrás de {opponent}',
+  'itemization.powerSpike.description': '{detail}',
+  'itemization.powerSpike.later': '{opponent} completó su {item} a los {opponentTime}, tú a los {time} ({minutes} min de retraso).',
+  'itemization.powerSpike.never': '{opponent} completó su {item} a los {opponentTime}, tú nunca.',
+  'itemization.powerSpike.suggestion': 'Respeta el pico de poder rival: evita los all-in hasta igualar en objetos, y optimiza tus vueltas a base para recuperar.',
+  'itemization.powerSpike.coachingNote': 'Durante esos {minutes} minutos, tu rival tenía un objeto completo más. Es cuando puede forzar trades.',
+  'itemization.firstItem': 'Primer objeto',
+  'itemization.secondItem': 'Segundo objeto',
+  'itemization.lateCore.title': '{item} tardío',
+  'itemization.lateCore.description': '{detail}',
+  'itemization.lateCore.completed': '{item} completado a los {time}, cuando se espera antes del minuto {minute}.',
+  'itemization.lateCore.missing': '{item} aún sin completar en el minuto {minute}.',
+  'itemization.lateCore.suggestion': 'Mejora tu farmeo y tus vueltas a base para completar antes tus objetos clave.',
+  'itemization.lateCore.coachingNote': 'Tus objetos clave definen tus picos de poder. Cada minuto de retraso reduce tu impacto en las peleas.',
+  'itemization.controlWards.title': 'Ninguna Control Ward comprada',
+  'itemization.controlWards.description': 'No compraste ninguna Control Ward entre los {start} y los {end} ({minutes} min).',
+  'itemization.controlWards.suggestion': 'Compra una Control Ward en cada vuelta a base. Cuesta 75 de oro y se queda hasta que la destruyen.',
+  'itemization.controlWards.coachingNote': 'En total, compraste {bought} Control Ward(s) en la partida.',
+
+  // Roams
+  'roam.laneCost': '{cs} CS y {xp} XP',
+  'roam.kills': '{count} kill(s)',
+  'roam.assists': '{count} asistencia(s)',
+  'roam.success.title': 'Roam exitoso hacia {where}',
+  'roam.success.description': 'Tu roam de los {time} consiguió {results}, a cambio de {laneCost} perdidos en línea.',
+  'roam.failed.title': '{title}',
+  'roam.failed.titleDied': 'Muerte durante un roam',
+  'roam.failed.titleNothing': 'Roam sin resultado',
+  'roam.failed.description': 'Hacia los {time}, dejaste tu línea para ir a {where} durante unos {minutes} min{outcome}. Coste en línea: {laneCost}.',
+  'roam.failed.died': ' y moriste',
+  'roam.failed.nothing': ' sin kill, asistencia ni objetivo',
+  'roam.failed.suggestion': 'Haz roam solo después de empujar tu oleada, cuando la línea objetivo esté empujada hacia el enemigo y puedas llegar antes de que se retire.',
+  'roam.failed.coachingNote': '{note}',
+  'roam.failed.noteOpponent': 'Durante tu ausencia, {opponent} tomó ventaja en la línea ({laneCost}).',
+  'roam.failed.note': 'Un roam que no aporta nada es tiempo de farmeo y experiencia perdidos.',
+
+  // Teamfights
+  'teamfight.diedFirst.title': 'Primero en morir en una pelea perdida',
+  'teamfight.diedFirst.description': 'A los {time}, moriste primero (te mató {killer}) y tu equipo perdió la pelea {score} ({allies}v{enemies}).',
+  'teamfight.diedFirst.suggestion': 'En las peleas de equipo, quédate detrás de tu primera línea y espera a que el enemigo use sus hechizos de inicio antes de avanzar.',
+  'teamfight.diedFirst.coachingNote': 'La primera muerte de una pelea le da un 5v4 al enemigo. Sobrevivir los primeros segundos suele valer más que tu daño.',
+  'teamfight.absent.title': 'Ausente de una pelea perdida',
+  'teamfight.absent.description': 'A los {time}, tu equipo perdió una pelea {score} en un {allies}v{enemies} mientras estabas vivo a {distance} unidades.',
+  'teamfight.absent.suggestion': 'Cuando tu equipo se agrupa o se acerca un objetivo, únete. Si haces split push, asegúrate de que no fuercen una pelea sin ti.',
+  'teamfight.absent.coachingNote': 'Una pelea en inferioridad numérica casi siempre se pierde. Tu posición en el mapa debe seguir a la de tu equipo.',
+
+  // Jungle
+  'jungle.idle.title': 'Tiempo muerto en la jungla',
+  'jungle.idle.description': 'Entre los {start} y los {end}, no tomaste ningún campamento, ni gankeaste, ni participaste en una pelea.',
+  'jungle.idle.suggestion': 'Planifica tu ruta: cada minuto debe servir para farmear, gankear, contrarrestar al jungla enemigo o preparar un objetivo.',
+  'jungle.idle.coachingNote': '{minutes} minutos sin acción son unas {gold} de oro y experiencia perdidas frente al jungla rival.',
+  'jungle.failedGank.title': 'Gank {lane} fallido',
+  'jungle.failedGank.description': 'Tu gank {lane} a los {time} no consiguió ningún kill y tu equipo perdió {deaths} jugador(es).',
+  'jungle.failedGank.suggestion': 'Gankea cuando la oleada de tu aliado esté empujada hacia su torre y el enemigo haya usado sus hechizos de escape. Revisa las wards antes de entrar.',
+  'jungle.failedGank.coachingNote': 'Un gank fallido cuesta tiempo de farmeo y, si alguien muere, le da la ventaja al rival.',
+  'jungle.noEarlyGank.title': 'Ningún gank antes de 10 minutos',
+  'jungle.noEarlyGank.description': 'No intentaste ningún gank durante los primeros 10 minutos.',
+  'jungle.noEarlyGank.suggestion': 'Busca líneas empujadas hacia el enemigo o con ventaja de nivel/hechizos y gankéalas después de tu primer clear.',
+  'jungle.noEarlyGank.coachingNote': 'Farmear es importante, pero sin presión en las líneas el enemigo puede jugar libremente e invadir tu jungla.',
+  'jungle.missedSpawn.title': 'Ausente en la aparición del {objective}',
+  'jungle.missedSpawn.description': 'Cuando apareció el {objective} ({time}), estabas a {distance} unidades del foso. El enemigo lo tomó.',
+  'jungle.missedSpawn.suggestion': 'Termina tu clear para estar cerca del {objective} 30 a 60 segundos antes de que aparezca, con Aplastar disponible.',
+  'jungle.missedSpawn.coachingNote': 'Como jungla, eres tú quien debe estar en los objetivos neutrales. Tu ausencia deja que el enemigo los tome gratis.',
+
+  // Skill order
+  'skillOrder.ultDelay.title': 'Definitiva rango {rank} subida tarde',
+  'skillOrder.ultDelay.description': 'Llegaste a nivel {level} a los {time}, pero tu definitiva (rango {rank}) se subió {delay}.',
+  'skillOrder.ultDelay.at': 'a nivel {rankedAt} ({time}), {seconds}s después de llegar a nivel {level}',
+  'skillOrder.ultDelay.never': 'nunca',
+  'skillOrder.ultDelay.suggestion': 'Sube tu definitiva en cuanto llegues a nivel {level}. Activa la subida rápida (Ctrl + R) para no olvidarla nunca.',
+  'skillOrder.ultDelay.coachingNote': '{note}',
+  'skillOrder.ultDelay.noteLevel6': 'El nivel 6 es el mayor pico de poder de la fase de líneas. Tu rival puede hacerte all-in mientras no tienes tu definitiva.',
+  'skillOrder.ultDelay.note': 'Cada rango de la definitiva reduce su enfriamiento y aumenta su daño. No la dejes nunca sin subir.',
+  'skillOrder.maxOrder.title': 'Orden de habilidades inusual con {champion}',
+  'skillOrder.maxOrder.description': 'A nivel {level}, priorizaste {skill} cuando el orden recomendado con {champion} es {recommended}.',
+  'skillOrder.maxOrder.suggestion': 'Maximiza {expected} primero (orden {recommended}), salvo que un enfrentamiento concreto pida otra cosa.',
+  'skillOrder.maxOrder.coachingNote': 'Tu orden: {sequence}.',
+
+  // Map zones and objectives (roam targets and results)
+  'zone.blue_base': 'la base azul',
+  'zone.red_base': 'la base roja',
+  'zone.blue_jungle': 'la jungla azul',
+  'zone.red_jungle': 'la jungla roja',
+  'zone.river_top': 'el río superior',
+  'zone.river_bot': 'el río inferior',
+  'zone.dragon_pit': 'el Dragón',
+  'zone.baron_pit': 'el Barón',
+  'zone.top_lane': 'la línea superior',
+  'zone.mid_lane': 'la línea central',
+  'zone.bot_lane': 'la línea inferior',
+  'objectiveName.DRAGON': 'Dragón',
+  'objectiveName.ELDER_DRAGON': 'Dragón Ancestral',
+  'objectiveName.BARON_NASHOR': 'Barón',
+  'objectiveName.RIFTHERALD': 'Heraldo',
+  'objectiveName.HORDE': 'Larvas del Vacío',
+  'objectiveName.MONSTER': 'Monstruo',
+  'objectiveName.TOWER': 'Torre',
+  'objectiveName.INHIBITOR': 'Inhibidor',
+
+  // Win probability events
+  'winProbability.tower.allied': 'Torre destruida por tu equipo',
+  'winProbability.tower.enemy': 'Torre perdida',
+  'winProbability.inhibitor.allied': 'Inhibidor destruido por tu equipo',
+  'winProbability.inhibitor.enemy': 'Inhibidor perdido',
+  'winProbability.dragon.allied': 'Dragón tomado por tu equipo',
+  'winProbability.dragon.enemy': 'Dragón tomado por el enemigo',
+  'winProbability.soul.allied': 'Alma del dragón para tu equipo',
+  'winProbability.soul.enemy': 'Alma del dragón para el enemigo',
+  'winProbability.elder.allied': 'Ancestral tomado por tu equipo',
+  'winProbability.elder.enemy': 'Ancestral tomado por el enemigo',
+  'winProbability.baron.allied': 'Barón tomado por tu equipo',
+  'winProbability.baron.enemy': 'Barón tomado por el enemigo',
+  'winProbability.herald.allied': 'Heraldo tomado por tu equipo',
+  'winProbability.herald.enemy': 'Heraldo tomado por el enemigo',
+  'winProbability.gold': 'Diferencia de oro',
+
+  // Coaching tips
+  'tipCategory.farm': 'Farmeo',
+  'tipCategory.vision': 'Visión',
+  'tipCategory.positioning': 'Posicionamiento',
+  'tipCategory.mapAwareness': 'Lectura del mapa',
+  'tipCategory.objectives': 'Objetivos',
+  'tipCategory.waves': 'Gestión de oleadas',
+  'tipCategory.backTiming': 'Vueltas a base',
+  'tipCategory.items': 'Objetos',
+  'tipCategory.powerSpikes': 'Picos de poder',
+  'tipCategory.skills': 'Habilidades',
+  'tipCategory.jungle': 'Jungla',
+  'tipCategory.roaming': 'Roaming',
+  'tipCategory.deathTiming': 'Momento de las muertes',
+  'tipCategory.trading': 'Trades',
+  'tipCategory.top': 'Toplaner',
+  'tipCategory.jungler': 'Jungla',
+  'tipCategory.mid': 'Midlaner',
+  'tipCategory.adc': 'ADC',
+  'tipCategory.support': 'Support',
+  'tip.cs-1.title': 'Practica el último golpe',
+  'tip.cs-1.description': 'Entra en la herramienta de práctica y entrena el último golpe sin usar hechizos. Apunta a 80+ CS a los 10 min.',
+  'tip.cs-2.title': 'CS bajo torre',
+  'tip.cs-2.description': 'Aprende el patrón: 2 golpes de torre + 1 ataque para los cuerpo a cuerpo, 1 golpe de torre + 1 ataque para los casters (con objetos iniciales).',
+  'tip.vision-1.title': 'Compra Control Wards',
+  'tip.vision-1.description': 'Compra una Control Ward en cada vuelta a base. Colócala en tu jungla o cerca de los objetivos.',
+  'tip.vision-2.title': 'Wards antes de los objetivos',
+  'tip.vision-2.description': 'Coloca wards 1 minuto antes de que aparezca el Dragón/Barón para tener la información.',
+  'tip.pos-1.title': 'Quédate con tu equipo',
+  'tip.pos-1.description': 'En mid/late game, no te separes de tu equipo salvo que tengas visión y sepas dónde están los enemigos.',
+  'tip.pos-2.title': 'Respeta la niebla de guerra',
+  'tip.pos-2.description': 'Si no ves 3+ enemigos en el mapa, juega como si vinieran a por ti.',
+  'tip.map-1.title': 'Mira tu minimapa',
+  'tip.map-1.description': 'Oblígate a mirar el minimapa cada 3 segundos. Es un hábito que hay que desarrollar.',
+  'tip.map-2.title': 'Sigue al jungla enemigo',
+  'tip.map-2.description': 'Apunta mentalmente dónde se vio al jungla enemigo. Si estaba abajo, estará arriba en 30-40 seg.',
+  'tip.obj-1.title': 'Prioriza los objetivos',
+  'tip.obj-1.description': 'Después de un kill o una ventaja, piensa siempre: «¿Qué objetivo puedo tomar?»',
+  'tip.obj-2.title': 'Controla los tiempos de los objetivos',
+  'tip.obj-2.description': 'El Dragón reaparece 5 min después, el Barón 6 min. Prepárate 1 min antes.',
+  'tip.wave-1.title': 'Estrella la oleada antes de volver',
+  'tip.wave-1.description': 'Empuja tu oleada contra la torre enemiga justo antes de volver a base. Volverá hacia ti mientras compras, sin perder CS.',
+  'tip.wave-2.title': 'Empuja antes de dejar la línea',
+  'tip.wave-2.description': 'Antes de un roam o un objetivo, empuja tu oleada. Una oleada que llega a tu torre mientras no estás es CS perdido.',
+  'tip.back-1.title': 'Gasta tu oro',
+  'tip.back-1.description': 'En cuanto tengas oro para un componente importante, busca una ventana para volver a base. El oro en el bolsillo no da estadísticas.',
+  'tip.back-2.title': 'Vuelve antes de los objetivos',
+  'tip.back-2.description': 'Vuelve a base 60 a 90 segundos antes de que aparezca el Dragón o el Barón para regresar con tus objetos a tiempo para la preparación.',
+  'tip.item-1.title': 'Completa tus objetos clave',
+  'tip.item-1.description': 'Tu primer objeto completo es tu primer pico de poder real. Apunta a tenerlo antes del minuto 14 farmeando bien y volviendo a base en el momento justo.',
+  'tip.item-2.title': 'Una Control Ward por vuelta',
+  'tip.item-2.description': 'Añade una Control Ward a cada compra. 75 de oro por visión permanente es la mejor relación calidad/precio del juego.',
+  'tip.spike-1.title': 'Compara tus objetos',
+  'tip.spike-1.description': 'Pulsa Tab para ver los objetos de tu rival. Si tiene un objeto completo más, evita los trades largos.',
+  'tip.skill-1.title': 'Definitiva a 6, 11 y 16',
+  'tip.skill-1.description': 'Sube tu definitiva lo antes posible. Un atajo como Ctrl + R te permite hacerlo sin apartar la vista de la pelea.',
+  'tip.jungle-1.title': 'Planifica tu ruta',
+  'tip.jungle-1.description': 'Cada vez que salgas de base, decide: qué campamentos, qué línea gankear, qué objetivo preparar. Un jungla sin plan pierde tiempo.',
+  'tip.jungle-2.title': 'Gankea líneas empujadas',
+  'tip.jungle-2.description': 'Los mejores ganks apuntan a un enemigo que empujó su oleada lejos de su torre, sin ward y sin Destello.',
+  'tip.roam-1.title': 'Empuja antes de hacer roam',
+  'tip.roam-1.description': 'Un buen roam empieza con una oleada empujada contra la torre enemiga. Tu rival tiene que elegir entre seguirte o perder su CS.',
+  'tip.roam-2.title': 'Elige tu objetivo',
+  'tip.roam-2.description': 'Haz roam hacia una línea cuya oleada esté empujada hacia el enemigo y cuyo rival no tenga Destello. Si no, sigue farmeando.',
+  'tip.death-timing-1.title': 'Cero riesgo antes de un objetivo',
+  'tip.death-timing-1.description': 'En el minuto previo a un Dragón o un Barón, evita los duelos y los facechecks. Morir en ese momento le regala el objetivo al enemigo.',
+  'tip.trade-1.title': 'Tradea cuando el enemigo va a por el último golpe',
+  'tip.trade-1.description': 'Ataca al enemigo cuando se acerque a dar el último golpe a un minion. Tiene que elegir entre golpearte o tomar el CS.',
+  'tip.trade-2.title': 'Respeta los picos de poder',
+  'tip.trade-2.description': 'Presta atención a los niveles 2, 3, 6 y a los objetos completados. Son los momentos en los que tu rival se vuelve más fuerte.',
+  'tip.top-1.title': 'Gestión del freeze',
+  'tip.top-1.description': 'Como toplaner, aprende a congelar la oleada cerca de tu torre. Te protege de los ganks y obliga al enemigo a sobreextenderse para farmear.',
+  'tip.top-2.title': 'TP para objetivos',
+  'tip.top-2.description': 'Guarda tu TP para unirte a las peleas de abajo o disputar el Dragón. No lo malgastes para volver a la línea tras una vuelta a base.',
+  'tip.top-3.title': 'Momento del Heraldo',
+  'tip.top-3.description': 'Entre los minutos 8 y 14, es TU momento para el Heraldo. Avisa a tu jungla y prepara la visión.',
+  'tip.top-4.title': 'Split push eficaz',
+  'tip.top-4.description': 'Haz split push solo con visión. Coloca 2 wards en la jungla enemiga antes de empujar a fondo.',
+  'tip.jg-1.title': 'Objetivos > Ganks',
+  'tip.jg-1.description': 'Prioriza siempre los objetivos (Dragón, Heraldo, Barón) sobre los ganks. Un objetivo = ventaja garantizada.',
+  'tip.jg-2.title': 'Sigue al jungla enemigo',
+  'tip.jg-2.description': 'Apunta dónde se vio al jungla enemigo. Si gankea arriba, puedes tomar sus campamentos de abajo o gankear abajo.',
+  'tip.jg-3.title': 'Ganks en líneas empujadas',
+  'tip.jg-3.description': 'Nunca gankees una línea empujada bajo la torre enemiga. Espera a que tu aliado empuje o gankea en otro lado.',
+  'tip.jg-4.title': 'Visión antes del objetivo',
+  'tip.jg-4.description': '1 minuto antes del Dragón/Barón, coloca wards y limpia la zona. Es TU responsabilidad.',
+  'tip.mid-1.title': 'Roam después de empujar',
+  'tip.mid-1.description': 'Empuja tu oleada ANTES de hacer roam. Si no, pierdes CS y tu roam puede fallar si tu oleada está bajo tu torre.',
+  'tip.mid-2.title': 'Prioridad para tu jungla',
+  'tip.mid-2.description': 'Si tienes prioridad en mid, tu jungla puede invadir y disputar los cangrejos. Ayúdale en esas disputas.',
+  'tip.mid-3.title': 'Sigue los roams enemigos',
+  'tip.mid-3.description': 'Si tu rival desaparece, haz PING de inmediato. Aunque no estés seguro, un ping puede salvar a tus compañeros.',
+  'tip.mid-4.title': 'Disputa los objetivos',
+  'tip.mid-4.description': 'Tu posición central te permite llegar rápido al Dragón/Heraldo. Está presente en cada disputa.',
+  'tip.adc-1.title': 'Supervivencia = DPS',
+  'tip.adc-1.description': 'Un ADC muerto hace 0 de daño. Quédate SIEMPRE detrás de tu primera línea y nunca hagas facecheck.',
+  'tip.adc-2.title': 'Kiteo en las peleas',
+  'tip.adc-2.description': 'Usa attack-move (A + clic) para kitear automáticamente. Golpea al objetivo más cercano y seguro.',
+  'tip.adc-3.title': 'Farmea las líneas laterales con seguridad',
+  'tip.adc-3.description': 'No farmees una línea lateral sin visión. Si no ves 3+ enemigos, juega como si vinieran a por ti.',
+  'tip.adc-4.title': 'Presencia en el Dragón',
+  'tip.adc-4.description': 'Tu DPS es crucial para asegurar el Dragón rápido. Está SIEMPRE presente, aunque tengas que perder algo de CS.',
+  'tip.sup-1.title': 'Visión = Victoria',
+  'tip.sup-1.description': 'Compra Control Wards en CADA vuelta a base. Colócalas cerca de los objetivos o en los arbustos de la jungla.',
+  'tip.sup-2.title': 'Protege a tu ADC',
+  'tip.sup-2.description': 'En las peleas, tu prioridad número 1 es mantener vivo a tu ADC. Usa tu control de masas en los asesinos que van a por él.',
+  'tip.sup-3.title': 'Roam eficaz a mid',
+  'tip.sup-3.description': 'Haz roam a mid después de empujar la oleada de abajo. Avisa a tu ADC y pon una ward en el río antes de irte.',
+  'tip.sup-4.title': 'Barrido antes de los objetivos',
+  'tip.sup-4.description': 'Usa tu Barredor alrededor del Dragón/Barón 1 min antes de su aparición. Negar la visión enemiga es crucial.',
+};
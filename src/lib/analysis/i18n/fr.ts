@@ -0,0 +1,407 @@
+// French catalog
+
+import { MessageKey } from './en';
+
+export const fr: Record<MessageKey, string> = {
+  // Shared fragments
+  'common.theEnemy': 'l\'ennemi',
+  'common.yourOpponent': 'ton adversaire',
+  'common.dead': 'mort',
+  'common.aliveAt': 'en vie, à {distance} unités',
+
+  // Deaths
+  'death.tower.title': 'Mort sous tour ennemie',
+  'death.tower.description': 'Tu es mort sous la tour ennemie à {time}. {detail}',
+  'death.tower.ganked': 'Tu as été pris en sandwich par {count} ennemis.',
+  'death.tower.killedBy': '{killer} t\'a tué sous sa tour.',
+  'death.tower.killed': 'L\'ennemi t\'a tué sous sa tour.',
+  'death.tower.suggestion': 'Ne dive pas sans minions pour tanker la tour, et assure-toi d\'avoir assez de dégâts pour finir rapidement.',
+  'death.tower.coachingNote': '{note}',
+  'death.tower.noteGanked': 'Les dives coordonnés de l\'ennemi étaient probablement télégraphiés. Regarde ta minimap avant d\'aller sous tour.',
+  'death.tower.noteSolo': 'Avant de dive, vérifie que tu as : 1) Des minions, 2) Assez de PV, 3) Tes cooldowns prêts.',
+  'death.isolated.title': 'Mort en position isolée',
+  'death.isolated.description': 'Tu es mort à {time} alors que tu étais isolé. Ton allié le plus proche ({ally}) était à {distance} unités.',
+  'death.isolated.suggestion': 'Reste proche de ton équipe, surtout quand tu n\'as pas de vision de l\'ennemi.',
+  'death.isolated.coachingNote': '{note}',
+  'death.isolated.noteDanger': 'Tu étais en territoire ennemi. C\'est très risqué sans ton équipe.',
+  'death.isolated.noteNeutral': 'Même en zone neutre, l\'isolement te rend vulnérable aux picks.',
+  'death.gank.title': 'Mort par gank multiple',
+  'death.gank.description': 'Tu as été tué par {count} ennemis à {time}. {detail}',
+  'death.gank.danger': 'Tu étais en territoire dangereux.',
+  'death.gank.coordinated': 'L\'ennemi a bien coordonné son gank.',
+  'death.gank.suggestion': 'Place plus de wards pour voir les rotations ennemies. Joue plus safe quand tu ne vois pas plusieurs ennemis sur la map.',
+  'death.gank.coachingNote': 'Avant de push ou de trade, compte les ennemis visibles sur la map. Si tu n\'en vois pas 3+, présume qu\'ils viennent vers toi.',
+  'death.goldDeficit.title': 'Mort avec désavantage de gold',
+  'death.goldDeficit.description': 'Tu es mort à {time} contre {killer} alors que tu avais {gold} gold de retard.',
+  'death.goldDeficit.suggestion': 'Évite les trades all-in quand tu es en retard. Farm safe et attends ton jungler ou un item powerspike.',
+  'death.goldDeficit.coachingNote': 'Avec {gold} gold de retard, ton adversaire a probablement 1 item de plus que toi. Respecte ce powerspike.',
+  'death.levelDeficit.title': 'Mort avec désavantage de niveau',
+  'death.levelDeficit.description': 'Tu es mort à {time} avec {levels} niveau(x) de retard sur ton adversaire.',
+  'death.levelDeficit.suggestion': 'Le niveau donne accès à plus de points de compétence et de stats. N\'engage pas contre quelqu\'un de niveau supérieur.',
+  'death.levelDeficit.coachingNote': 'Chaque niveau donne environ 600 gold de stats. Attends d\'égaliser avant de fight.',
+  'death.avoidable.title': 'Mort évitable',
+  'death.avoidable.description': 'Tu es mort à {time} contre {killer}{help}.',
+  'death.avoidable.withHelp': ' avec aide',
+  'death.avoidable.suggestion': 'Analyse ce qui t\'a amené à cette position. Aurais-tu pu éviter ce fight ?',
+  'death.avoidable.coachingNote': '{note}',
+  'death.avoidable.noteLate': 'En late game, une mort peut coûter la partie. Sois extrêmement prudent avec ton positionnement.',
+  'death.avoidable.note': 'Chaque mort donne de l\'avantage à l\'ennemi. Minimise tes morts pour garder le contrôle.',
+
+  // CS
+  'cs.behind.title': 'Retard de CS à {minute} min',
+  'cs.behind.description': 'Tu as {cs} CS contre {opponentCs} pour ton adversaire ({diff} CS, soit ~{gold} gold de retard).',
+  'cs.behind.suggestion': '{advice}',
+  'cs.behind.jungler': 'Optimise tes clears de jungle. Ne rate pas de camps et time bien tes respawns.',
+  'cs.behind.laner': 'Concentre-toi sur le last hit. Si la lane est difficile, utilise tes sorts pour sécuriser les CS sous tour.',
+  'cs.behind.coachingNote': '{note}',
+  'cs.behind.noteLarge': '{missing} CS de retard, c\'est significatif. Ton adversaire a presque un item d\'avance rien qu\'en CS.',
+  'cs.behind.note': 'Même 15 CS de retard représentent ~300 gold. Ça s\'accumule vite sur la durée de la partie.',
+  'cs.belowAverage.title': 'CS en dessous de la moyenne à {minute} min',
+  'cs.belowAverage.description': 'Tu as {cs} CS ({perMin} CS/min). L\'objectif est {target} CS/min minimum.',
+  'cs.belowAverage.suggestion': '{advice}',
+  'cs.belowAverage.jungler': 'Assure-toi de clear tous tes camps efficacement et de ne pas perdre de temps entre les ganks.',
+  'cs.belowAverage.laner': 'Entraîne-toi au last hit en Practice Tool. Chaque minion compte.',
+  'cs.belowAverage.coachingNote': 'À {minute} min, tu devrais viser {expected} CS. Tu en as raté {missed}.',
+
+  // Vision
+  'vision.lowWards.title': 'Manque de vision ({start}-{end} min)',
+  'vision.lowWards.description': 'Tu n\'as placé que {wards} ward(s) entre {start} et {end} min. {role}',
+  'vision.lowWards.support': 'En tant que support, la vision est ta responsabilité principale.',
+  'vision.lowWards.laner': 'Même en tant que laner, tu dois contribuer à la vision.',
+  'vision.lowWards.suggestion': '{advice}',
+  'vision.lowWards.adviceSupport': 'Place des wards stratégiques : rivière, jungle ennemie, objectifs. Utilise ta Lentille d\'oracle pour déwarder.',
+  'vision.lowWards.adviceLaner': 'Achète des Control Wards régulièrement. Une ward peut sauver ta vie ou celle de ton équipe.',
+  'vision.lowWards.coachingNote': 'La vision gagne des games. {wards} ward(s) en 5 min, c\'est insuffisant pour avoir une bonne lecture de la map.',
+  'vision.noControlWard.title': 'Pas de Control Ward ({start}-{end} min)',
+  'vision.noControlWard.description': 'Tu n\'as pas placé de Control Ward entre {start} et {end} min.',
+  'vision.noControlWard.suggestion': 'Les Control Wards sont essentielles pour contrôler les zones clés (dragon, baron, jungle). Achètes-en à chaque back.',
+  'vision.noControlWard.coachingNote': 'Une Control Ward coûte 75 gold mais peut sauver ta vie ou révéler des embuscades. C\'est l\'un des meilleurs investissements du jeu.',
+
+  // Objectives
+  'objective.firstTower.title': 'Première tour perdue dans ta lane',
+  'objective.firstTower.description': 'Ta tour a été la première de la partie à tomber, à {time}. Tu étais {state}.',
+  'objective.firstTower.suggestion': 'Quand ta tour est menacée, reste pour la défendre ou demande de l\'aide avant qu\'elle ne tombe. La première tour donne un bonus de gold à l\'ennemi.',
+  'objective.firstTower.coachingNote': 'Perdre la première tour ouvre ta moitié de map : ta jungle devient dangereuse et l\'ennemi peut roam librement.',
+  'objective.inhibitor.title': 'Inhibiteur perdu',
+  'objective.inhibitor.description': 'L\'ennemi a détruit un inhibiteur {lane}à {time}. Tu étais {state}.',
+  'objective.inhibitor.suggestion': 'Défends ta base en groupe et clear les super minions. Évite de mourir quand l\'ennemi a le Baron ou un avantage numérique.',
+  'objective.inhibitor.coachingNote': 'Un inhibiteur perdu fait apparaître des super minions qui mettent une pression constante sur ta base.',
+  'objective.soul.title': 'Âme du dragon perdue',
+  'objective.soul.description': 'L\'ennemi a obtenu l\'âme du dragon à {time}. Tu étais {state}.',
+  'objective.soul.alive': 'en vie, à {distance} unités du pit',
+  'objective.soul.suggestion': 'Quand l\'ennemi est à un dragon de l\'âme, chaque dragon devient prioritaire : prépare la vision 1 min avant et groupe avec ton équipe.',
+  'objective.soul.coachingNote': 'L\'âme du dragon est un bonus permanent très puissant. La laisser à l\'ennemi rend les teamfights suivants beaucoup plus difficiles.',
+  'objective.elder.title': 'Dragon ancestral perdu',
+  'objective.elder.description': 'L\'ennemi a pris le Dragon ancestral à {time}. Tu étais à {distance} unités de distance (vivant).',
+  'objective.elder.suggestion': '{advice}',
+  'objective.elder.coachingNote': 'Le Dragon ancestral décide souvent de la partie. Tout doit être organisé autour de cet objectif.',
+  'objective.dragon.title': 'Dragon {dragon} perdu',
+  'objective.dragon.description': 'L\'ennemi a pris le Dragon à {time}. Tu étais à {distance} unités de distance (vivant).',
+  'objective.dragon.suggestion': '{advice}',
+  'objective.dragon.jungler': 'En tant que jungler, tu dois timer les objectifs et être présent. Ward la zone 1 min avant le spawn.',
+  'objective.dragon.laner': 'Sois prêt à pivoter vers le Dragon quand il spawn. Communique avec ton équipe.',
+  'objective.dragon.coachingNote': 'Le Dragon donne des buffs permanents à ton équipe. {detail}',
+  'objective.dragon.tooFar': 'Tu étais beaucoup trop loin pour contester.',
+  'objective.dragon.closer': 'Rapproche-toi plus tôt pour avoir la priorité.',
+  'objective.baron.title': 'Baron Nashor perdu',
+  'objective.baron.description': 'L\'ennemi a pris le Baron à {time}. Tu étais à {distance} unités de distance.',
+  'objective.baron.suggestion': 'Le Baron est l\'objectif le plus important du mid/late game. Groupe avec ton équipe pour le contester ou le prendre.',
+  'objective.baron.coachingNote': 'Un Baron donne un énorme avantage en siège et en gold. Perdre un Baron sans le contester est souvent un tournant négatif.',
+  'objective.herald.title': 'Héraut perdu',
+  'objective.herald.description': 'L\'ennemi a pris le Héraut à {time}. Tu étais à {distance} unités de distance.',
+  'objective.herald.suggestion': 'Le Héraut peut détruire une tour entière. Aide ton jungler à le sécuriser ou au moins conteste-le.',
+  'objective.herald.coachingNote': 'Le Héraut est très utile pour accélérer le early game. Une tour en moins ouvre la map pour ton équipe.',
+  'objective.plates.title': '{lost} plaques perdues dans ta lane',
+  'objective.plates.description': 'Ta tour a perdu {lost} plaques ({gold} gold pour l\'ennemi) contre {won} gagnées. {whileDead} tombées pendant que tu étais mort, {whileAway} pendant que tu étais loin.',
+  'objective.plates.suggestion': 'Avant 14 min, chaque plaque vaut du gold. Ne quitte pas ta lane quand ta wave pousse vers ta tour, et punis l\'adversaire quand il roam.',
+  'objective.plates.coachingNote': 'Les plaques sont la principale source de gold structurel du early game : {gap} gold d\'écart rien qu\'avec elles.',
+  'objective.grubs.title': '{count} Larves du Néant perdues',
+  'objective.grubs.description': 'L\'ennemi a pris {count} larves à {time}. Tu étais en vie, à {distance} unités.',
+  'objective.grubs.suggestion': 'Les larves donnent des dégâts contre les tours à l\'équipe qui les prend. Joue autour de leur spawn avec ton toplaner et ton jungler.',
+  'objective.grubs.coachingNote': 'Laisser les larves gratuitement accélère la chute de tes tours.',
+
+  // Death timers
+  'deathTimer.beforeObjective.title': 'Mort avant {objective}',
+  'deathTimer.beforeObjective.description': 'Tu es mort à {time}{killer} avec {respawn}s de respawn au niveau {level}. L\'ennemi a pris {objective} {delay}s plus tard, pendant que tu étais encore mort.',
+  'deathTimer.killedBy': ' (tué par {killer})',
+  'deathTimer.beforeObjective.suggestion': 'Avant un objectif, ne prends aucun risque : à ce stade de la partie, une mort te sort du jeu pendant {respawn}s. Reste groupé et joue la vision plutôt que les picks.',
+  'deathTimer.beforeObjective.coachingNote': 'Les morts juste avant un objectif coûtent double : l\'ennemi joue en surnombre et prend l\'objectif gratuitement.',
+
+  // ARAM
+  'aram.damageShare.title': 'Part de dégâts trop faible',
+  'aram.damageShare.description': 'Tu as infligé {share}% des dégâts de ton équipe aux champions (attendu : au moins {target}%).',
+  'aram.damageShare.suggestion': 'En ARAM, les fights sont permanents : reste à portée pour utiliser tes sorts à chaque engagement au lieu d\'attendre en retrait.',
+  'aram.damageShare.coachingNote': 'Une faible part de dégâts signifie souvent que tu arrives en retard aux fights ou que tu meurs avant d\'avoir joué tes cooldowns.',
+  'aram.deaths.title': 'Morts trop fréquentes',
+  'aram.deaths.description': 'Tu es mort {deaths} fois, soit {per10} morts par 10 minutes (maximum conseillé : {max}).',
+  'aram.deaths.suggestion': 'Chaque mort laisse ton équipe en 4v5 pendant ton respawn. Attends que ta frontline engage avant d\'avancer.',
+  'aram.deaths.coachingNote': 'En ARAM, mourir souvent ne se rattrape pas en farmant : le temps mort est du temps de fight perdu.',
+  'aram.poke.title': 'Trop de poke subi',
+  'aram.poke.description': 'Hors des fights, tu as subi {taken} dégâts par minute, contre {team} en moyenne pour ton équipe (x{ratio}).',
+  'aram.poke.suggestion': 'Reste derrière tes minions et hors de portée des sorts de poke ennemis entre les fights. Entre en fight avec tous tes PV, pas à moitié vie.',
+  'aram.poke.coachingNote': 'Le poke subi avant un fight décide souvent du fight : un joueur à 50% de vie est une cible gratuite.',
+
+  // Recalls
+  'recall.late.title': 'Back trop tardif',
+  'recall.late.description': 'Tu avais {gold} gold non dépensés juste avant ton back vers {time}.',
+  'recall.late.suggestion': 'Back dès que tu as l\'or pour un composant clé ou un item complet. Chaque minute avec de l\'or en poche est une minute sans stats.',
+  'recall.late.coachingNote': 'Avec {gold} gold, tu aurais pu acheter un item complet. Tes trades pendant ce temps se faisaient sans cet avantage.',
+  'recall.objectiveSpawn.title': 'Back au spawn : {objective}',
+  'recall.objectiveSpawn.description': 'Tu étais à la base vers {time}, alors que l\'objectif ({objective}) apparaissait à {spawnTime}.{taken}',
+  'recall.objectiveSpawn.taken': ' L\'ennemi l\'a pris ({objective}).',
+  'recall.objectiveSpawn.suggestion': 'Back 60 à 90 secondes avant le spawn de l\'objectif ({objective}) pour revenir avec tes items et participer au setup de vision.',
+  'recall.objectiveSpawn.coachingNote': 'Un back bien timé avant un objectif te donne les stats ET la présence. Un back au mauvais moment te fait perdre les deux.',
+  'recall.sittingOnGold.title': 'Assis sur {gold} gold',
+  'recall.sittingOnGold.description': 'Entre {start} et {end}, tu as gardé plus de {threshold} gold en poche pendant {minutes} minutes (jusqu\'à {gold} gold).',
+  'recall.sittingOnGold.suggestion': 'Trouve une fenêtre pour back : après un crash de wave, un kill ou quand ton équipe n\'a pas besoin de toi.',
+  'recall.sittingOnGold.coachingNote': '{gold} gold non dépensés, c\'est un powerspike que tu n\'utilises pas. Ton adversaire, lui, a probablement déjà acheté.',
+
+  // Waves
+  'wave.recallWithoutCrash.title': 'Back sans crash la wave',
+  'wave.recallWithoutCrash.description': 'Tu es rentré à la base vers {time} sans avoir push ta wave sous la tour ennemie. Tu as perdu environ {lost} CS pendant ton back.',
+  'wave.recallWithoutCrash.suggestion': 'Avant de back, push ta wave sous la tour ennemie pour qu\'elle se crash. Tu reviendras en lane sans perdre de minions.',
+  'wave.recallWithoutCrash.coachingNote': '{lost} CS représentent environ {gold} gold. Un back bien timé après un crash ne coûte presque rien.',
+  'wave.away.title': '{title}',
+  'wave.away.titleLong': 'Absent de la lane pendant {minutes} min',
+  'wave.away.titleDead': 'CS perdus pendant ta mort',
+  'wave.away.titleRoam': 'CS perdus pendant un roam',
+  'wave.away.description': 'Entre {start} et {end}, tu n\'étais pas en lane ({reason}). Tu as perdu environ {lost} CS par rapport à {opponent}.',
+  'wave.away.roaming': 'roam ou jungle',
+  'wave.away.standardLane': 'une lane standard',
+  'wave.away.suggestion': '{advice}',
+  'wave.away.adviceDead': 'Chaque mort en lane coûte aussi les waves qui meurent sous ta tour. Joue plus safe quand tu ne peux pas te permettre de perdre la lane.',
+  'wave.away.adviceRoam': 'Avant de quitter ta lane, push ta wave. Reviens rapidement si le roam ne donne rien.',
+  'wave.away.coachingNote': '{note}',
+  'wave.away.noteLong': 'Une longue absence en lane donne la pression et l\'expérience gratuitement à ton adversaire.',
+  'wave.away.noteRoam': 'Un roam doit rapporter plus que les {lost} CS (~{gold} gold) qu\'il coûte.',
+
+  // Itemization
+  'itemization.firstSpike': '1er item',
+  'itemization.secondSpike': '2e item',
+  'itemization.powerSpike.title': '{item} en retard sur {opponent}',
+  'itemization.powerSpike.description': '{detail}',
+  'itemization.powerSpike.later': '{opponent} a terminé son {item} à {opponentTime}, toi à {time} ({minutes} min de retard).',
+  'itemization.powerSpike.never': '{opponent} a terminé son {item} à {opponentTime}, toi jamais.',
+  'itemization.powerSpike.suggestion': 'Respecte le powerspike adverse : évite les all-in tant que tu n\'as pas égalisé en items, et optimise tes backs pour rattraper.',
+  'itemization.powerSpike.coachingNote': 'Pendant ces {minutes} minutes, ton adversaire avait un item complet de plus. C\'est le moment où il peut forcer des trades.',
+  'itemization.firstItem': 'Premier item',
+  'itemization.secondItem': 'Deuxième item',
+  'itemization.lateCore.title': '{item} tardif',
+  'itemization.lateCore.description': '{detail}',
+  'itemization.lateCore.completed': '{item} terminé à {time}, alors qu\'on l\'attend avant {minute} min.',
+  'itemization.lateCore.missing': '{item} toujours pas terminé à {minute} min.',
+  'itemization.lateCore.suggestion': 'Améliore ton farm et tes timings de back pour compléter tes items clés plus tôt.',
+  'itemization.lateCore.coachingNote': 'Tes items clés définissent tes powerspikes. Chaque minute de retard réduit ton impact dans les fights.',
+  'itemization.controlWards.title': 'Pas de Control Ward achetée',
+  'itemization.controlWards.description': 'Tu n\'as acheté aucune Control Ward entre {start} et {end} ({minutes} min).',
+  'itemization.controlWards.suggestion': 'Achète une Control Ward à chaque back. Elle coûte 75 gold et reste en place jusqu\'à être détruite.',
+  'itemization.controlWards.coachingNote': 'Au total, tu as acheté {bought} Control Ward(s) dans la partie.',
+
+  // Roams
+  'roam.laneCost': '{cs} CS et {xp} XP',
+  'roam.kills': '{count} kill(s)',
+  'roam.assists': '{count} assist(s)',
+  'roam.success.title': 'Roam réussi vers {where}',
+  'roam.success.description': 'Ton roam de {time} a rapporté {results}, pour {laneCost} perdus en lane.',
+  'roam.failed.title': '{title}',
+  'roam.failed.titleDied': 'Mort pendant un roam',
+  'roam.failed.titleNothing': 'Roam sans résultat',
+  'roam.failed.description': 'Vers {time}, tu as quitté ta lane pour {where} pendant environ {minutes} min{outcome}. Coût en lane : {laneCost}.',
+  'roam.failed.died': ' et tu es mort',
+  'roam.failed.nothing': ' sans kill, assist ni objectif',
+  'roam.failed.suggestion': 'Roam seulement après avoir push ta wave, quand la lane ciblée est poussée vers l\'ennemi et que tu peux y arriver avant qu\'il ne recule.',
+  'roam.failed.coachingNote': '{note}',
+  'roam.failed.noteOpponent': 'Pendant ton absence, {opponent} a pris l\'avantage en lane ({laneCost}).',
+  'roam.failed.note': 'Un roam qui ne rapporte rien, c\'est du temps de farm et d\'expérience perdu.',
+
+  // Teamfights
+  'teamfight.diedFirst.title': 'Mort en premier dans un teamfight perdu',
+  'teamfight.diedFirst.description': 'À {time}, tu es mort en premier (tué par {killer}) et ton équipe a perdu le fight {score} ({allies}v{enemies}).',
+  'teamfight.diedFirst.suggestion': 'En teamfight, reste derrière ta frontline et attends que l\'ennemi utilise ses sorts d\'engage avant d\'avancer.',
+  'teamfight.diedFirst.coachingNote': 'Le premier mort d\'un teamfight donne un 5v4 à l\'ennemi. Survivre aux premières secondes vaut souvent plus que tes dégâts.',
+  'teamfight.absent.title': 'Absent d\'un teamfight perdu',
+  'teamfight.absent.description': 'À {time}, ton équipe a perdu un fight {score} en {allies}v{enemies} alors que tu étais en vie à {distance} unités.',
+  'teamfight.absent.suggestion': 'Quand ton équipe se regroupe ou qu\'un objectif arrive, rejoins-la. Si tu split push, assure-toi qu\'elle ne force pas de fight sans toi.',
+  'teamfight.absent.coachingNote': 'Un teamfight en infériorité numérique se perd presque toujours. Ta position sur la map doit suivre celle de ton équipe.',
+
+  // Jungle
+  'jungle.idle.title': 'Temps mort dans la jungle',
+  'jungle.idle.description': 'Entre {start} et {end}, tu n\'as pris aucun camp, fait aucun gank ni participé à aucun fight.',
+  'jungle.idle.suggestion': 'Planifie ton chemin : chaque minute doit servir à farmer, ganker, contrer le jungler ennemi ou préparer un objectif.',
+  'jungle.idle.coachingNote': '{minutes} minutes sans action, c\'est environ {gold} gold et de l\'expérience perdus par rapport au jungler adverse.',
+  'jungle.failedGank.title': 'Gank {lane} raté',
+  'jungle.failedGank.description': 'Ton gank {lane} à {time} n\'a rapporté aucun kill et ton équipe a perdu {deaths} joueur(s).',
+  'jungle.failedGank.suggestion': 'Gank quand la wave de ton laner est poussée vers sa tour et que l\'ennemi a utilisé ses sorts de fuite. Vérifie les wards avant d\'entrer.',
+  'jungle.failedGank.coachingNote': 'Un gank raté coûte du temps de farm, et si quelqu\'un meurt, il donne l\'avantage à l\'adversaire.',
+  'jungle.noEarlyGank.title': 'Aucun gank avant 10 minutes',
+  'jungle.noEarlyGank.description': 'Tu n\'as tenté aucun gank pendant les 10 premières minutes.',
+  'jungle.noEarlyGank.suggestion': 'Cherche les lanes poussées vers l\'ennemi ou avec un avantage de niveau/sorts et gank-les après ton premier clear.',
+  'jungle.noEarlyGank.coachingNote': 'Farmer est important, mais sans pression en lane, l\'ennemi peut jouer librement et envahir ta jungle.',
+  'jungle.missedSpawn.title': 'Absent au spawn : {objective}',
+  'jungle.missedSpawn.description': 'Au spawn de l\'objectif ({objective}, {time}), tu étais à {distance} unités du pit. L\'ennemi l\'a pris.',
+  'jungle.missedSpawn.suggestion': 'Termine ton clear pour être près de l\'objectif ({objective}) 30 à 60 secondes avant son spawn, avec ton Châtiment disponible.',
+  'jungle.missedSpawn.coachingNote': 'En tant que jungler, c\'est toi qui dois être au rendez-vous des objectifs neutres. Ton absence laisse l\'ennemi le prendre gratuitement.',
+
+  // Skill order
+  'skillOrder.ultDelay.title': 'Ultime rang {rank} en retard',
+  'skillOrder.ultDelay.description': 'Tu as atteint le niveau {level} à {time}, mais ton ultime (rang {rank}) a été monté {delay}.',
+  'skillOrder.ultDelay.at': 'au niveau {rankedAt} ({time}), {seconds}s après avoir atteint le niveau {level}',
+  'skillOrder.ultDelay.never': 'jamais',
+  'skillOrder.ultDelay.suggestion': 'Monte ton ultime dès le niveau {level}. Active le « level up » rapide (Ctrl + R) pour ne jamais l\'oublier.',
+  'skillOrder.ultDelay.coachingNote': '{note}',
+  'skillOrder.ultDelay.noteLevel6': 'Le niveau 6 est le plus gros powerspike de la lane. Ton adversaire peut all-in pendant que tu n\'as pas ton ultime.',
+  'skillOrder.ultDelay.note': 'Chaque rang d\'ultime réduit son délai de récupération et augmente ses dégâts. Ne le laisse jamais en attente.',
+  'skillOrder.maxOrder.title': 'Ordre des sorts inhabituel sur {champion}',
+  'skillOrder.maxOrder.description': 'Au niveau {level}, tu as priorisé {skill} alors que l\'ordre recommandé sur {champion} est {recommended}.',
+  'skillOrder.maxOrder.suggestion': 'Monte {expected} en priorité (ordre {recommended}), sauf si un matchup précis demande autre chose.',
+  'skillOrder.maxOrder.coachingNote': 'Ton ordre : {sequence}.',
+
+  // Map zones and objectives (roam targets and results)
+  'zone.blue_base': 'la base bleue',
+  'zone.red_base': 'la base rouge',
+  'zone.blue_jungle': 'la jungle bleue',
+  'zone.red_jungle': 'la jungle rouge',
+  'zone.river_top': 'la rivière top',
+  'zone.river_bot': 'la rivière bot',
+  'zone.dragon_pit': 'le Dragon',
+  'zone.baron_pit': 'le Baron',
+  'zone.top_lane': 'la top lane',
+  'zone.mid_lane': 'la mid lane',
+  'zone.bot_lane': 'la bot lane',
+  'objectiveName.DRAGON': 'Dragon',
+  'objectiveName.ELDER_DRAGON': 'Dragon ancestral',
+  'objectiveName.BARON_NASHOR': 'Baron',
+  'objectiveName.RIFTHERALD': 'Héraut',
+  'objectiveName.HORDE': 'Larves du Néant',
+  'objectiveName.MONSTER': 'Monstre',
+  'objectiveName.TOWER': 'Tour',
+  'objectiveName.INHIBITOR': 'Inhibiteur',
+
+  // Win probability events
+  'winProbability.tower.allied': 'Tour détruite par ton équipe',
+  'winProbability.tower.enemy': 'Tour perdue',
+  'winProbability.inhibitor.allied': 'Inhibiteur détruit par ton équipe',
+  'winProbability.inhibitor.enemy': 'Inhibiteur perdu',
+  'winProbability.dragon.allied': 'Dragon pris par ton équipe',
+  'winProbability.dragon.enemy': 'Dragon pris par l\'ennemi',
+  'winProbability.soul.allied': 'Âme du dragon pour ton équipe',
+  'winProbability.soul.enemy': 'Âme du dragon pour l\'ennemi',
+  'winProbability.elder.allied': 'Dragon ancestral pris par ton équipe',
+  'winProbability.elder.enemy': 'Dragon ancestral pris par l\'ennemi',
+  'winProbability.baron.allied': 'Baron pris par ton équipe',
+  'winProbability.baron.enemy': 'Baron pris par l\'ennemi',
+  'winProbability.herald.allied': 'Héraut pris par ton équipe',
+  'winProbability.herald.enemy': 'Héraut pris par l\'ennemi',
+  'winProbability.gold': 'Écart de gold',
+
+  // Coaching tips
+  'tipCategory.farm': 'Farm',
+  'tipCategory.vision': 'Vision',
+  'tipCategory.positioning': 'Positionnement',
+  'tipCategory.mapAwareness': 'Lecture de la map',
+  'tipCategory.objectives': 'Objectifs',
+  'tipCategory.waves': 'Gestion des waves',
+  'tipCategory.backTiming': 'Timing des backs',
+  'tipCategory.items': 'Items',
+  'tipCategory.powerSpikes': 'Powerspikes',
+  'tipCategory.skills': 'Compétences',
+  'tipCategory.jungle': 'Jungle',
+  'tipCategory.roaming': 'Roaming',
+  'tipCategory.deathTiming': 'Timing des morts',
+  'tipCategory.trading': 'Trades',
+  'tipCategory.top': 'Toplaner',
+  'tipCategory.jungler': 'Jungler',
+  'tipCategory.mid': 'Midlaner',
+  'tipCategory.adc': 'ADC',
+  'tipCategory.support': 'Support',
+  'tip.cs-1.title': 'Pratique le last hit',
+  'tip.cs-1.description': 'Va en Practice Tool et entraîne-toi à last hit sans utiliser de sorts. Vise 80+ CS à 10 min.',
+  'tip.cs-2.title': 'CS sous tour',
+  'tip.cs-2.description': 'Apprends le pattern : 2 coups de tour + 1 auto pour les mêlées, 1 coup de tour + 1 auto pour les casters (avec items de départ).',
+  'tip.vision-1.title': 'Achète des Control Wards',
+  'tip.vision-1.description': 'Achète une Control Ward à chaque back. Place-la dans ta jungle ou près des objectifs.',
+  'tip.vision-2.title': 'Ward avant les objectifs',
+  'tip.vision-2.description': 'Place des wards 1 minute avant le spawn du Dragon/Baron pour avoir l\'information.',
+  'tip.pos-1.title': 'Reste avec ton équipe',
+  'tip.pos-1.description': 'En mid/late game, ne te sépare pas de ton équipe sauf si tu as de la vision et que tu sais où sont les ennemis.',
+  'tip.pos-2.title': 'Respecte le brouillard de guerre',
+  'tip.pos-2.description': 'Si tu ne vois pas 3+ ennemis sur la map, joue comme s\'ils venaient vers toi.',
+  'tip.map-1.title': 'Regarde ta minimap',
+  'tip.map-1.description': 'Force-toi à regarder ta minimap toutes les 3 secondes. C\'est une habitude à développer.',
+  'tip.map-2.title': 'Suis le jungler ennemi',
+  'tip.map-2.description': 'Note mentalement où le jungler ennemi a été vu. S\'il était bot, il sera top dans 30-40 s.',
+  'tip.obj-1.title': 'Priorise les objectifs',
+  'tip.obj-1.description': 'Après un kill ou un avantage, pense toujours : « Quel objectif puis-je prendre ? »',
+  'tip.obj-2.title': 'Time les objectifs',
+  'tip.obj-2.description': 'Le Dragon réapparaît 5 min après, le Baron 6 min. Prépare-toi 1 min avant.',
+  'tip.wave-1.title': 'Crash avant de back',
+  'tip.wave-1.description': 'Push ta wave sous la tour ennemie juste avant de back. Elle reviendra vers toi pendant que tu achètes, sans perte de CS.',
+  'tip.wave-2.title': 'Push avant de quitter la lane',
+  'tip.wave-2.description': 'Avant un roam ou un objectif, push ta wave. Une wave qui arrive sous ta tour pendant ton absence, ce sont des CS perdus.',
+  'tip.back-1.title': 'Dépense ton or',
+  'tip.back-1.description': 'Dès que tu as l\'or pour un composant important, cherche une fenêtre pour back. L\'or en poche ne te donne aucune stat.',
+  'tip.back-2.title': 'Back avant les objectifs',
+  'tip.back-2.description': 'Back 60 à 90 secondes avant le spawn du Dragon ou du Baron pour revenir avec tes items au moment du setup.',
+  'tip.item-1.title': 'Termine tes items clés',
+  'tip.item-1.description': 'Ton premier item complet est ton premier vrai powerspike. Vise-le avant 14 min en farmant proprement et en backant au bon moment.',
+  'tip.item-2.title': 'Une Control Ward par back',
+  'tip.item-2.description': 'Ajoute une Control Ward à chaque achat. 75 gold pour de la vision permanente, c\'est le meilleur rapport qualité/prix du jeu.',
+  'tip.spike-1.title': 'Compare tes items',
+  'tip.spike-1.description': 'Appuie sur Tab pour voir les items de ton adversaire. S\'il a un item complet de plus, évite les trades longs.',
+  'tip.skill-1.title': 'Ultime à 6, 11 et 16',
+  'tip.skill-1.description': 'Monte ton ultime dès que possible. Un raccourci comme Ctrl + R permet de le faire sans quitter le combat des yeux.',
+  'tip.jungle-1.title': 'Planifie ton chemin',
+  'tip.jungle-1.description': 'Avant chaque sortie de base, décide : quels camps, quelle lane ganker, quel objectif préparer. Un jungler sans plan perd du temps.',
+  'tip.jungle-2.title': 'Gank les lanes poussées',
+  'tip.jungle-2.description': 'Les meilleurs ganks ciblent un ennemi qui a push sa wave loin de sa tour, sans ward et sans Flash.',
+  'tip.roam-1.title': 'Push avant de roam',
+  'tip.roam-1.description': 'Un bon roam commence par une wave poussée sous la tour ennemie. Ton adversaire doit choisir entre te suivre et perdre ses CS.',
+  'tip.roam-2.title': 'Choisis ta cible',
+  'tip.roam-2.description': 'Roam vers une lane dont la wave est poussée vers l\'ennemi et dont l\'adversaire n\'a pas Flash. Sinon, reste farmer.',
+  'tip.death-timing-1.title': 'Zéro risque avant un objectif',
+  'tip.death-timing-1.description': 'Dans la minute qui précède un Dragon ou un Baron, évite les duels et les facechecks. Une mort à ce moment offre l\'objectif à l\'ennemi.',
+  'tip.trade-1.title': 'Trade quand l\'ennemi last hit',
+  'tip.trade-1.description': 'Attaque l\'ennemi quand il s\'approche pour last hit un minion. Il doit choisir entre te frapper ou prendre le CS.',
+  'tip.trade-2.title': 'Respecte les powerspikes',
+  'tip.trade-2.description': 'Fais attention aux niveaux 2, 3, 6 et aux items terminés. Ce sont des moments où ton adversaire devient plus fort.',
+  'tip.top-1.title': 'Gestion du freeze',
+  'tip.top-1.description': 'En tant que toplaner, apprends à freeze près de ta tour. Ça te protège des ganks et force l\'ennemi à overextend pour farmer.',
+  'tip.top-2.title': 'TP pour les objectifs',
+  'tip.top-2.description': 'Garde ta TP pour rejoindre les fights bot ou contester le Drake. Ne la gaspille pas pour revenir en lane après un back.',
+  'tip.top-3.title': 'Timing du Héraut',
+  'tip.top-3.description': 'Entre 8 et 14 min, c\'est TON moment pour le Héraut. Ping ton jungler et prépare la vision.',
+  'tip.top-4.title': 'Split push efficace',
+  'tip.top-4.description': 'Split push seulement avec de la vision. Pose 2 wards dans la jungle ennemie avant de push en profondeur.',
+  'tip.jg-1.title': 'Objectifs > Ganks',
+  'tip.jg-1.description': 'Priorise toujours les objectifs (Drake, Héraut, Baron) sur les ganks. Un objectif = avantage garanti.',
+  'tip.jg-2.title': 'Suis le jungler ennemi',
+  'tip.jg-2.description': 'Note où le jungler ennemi a été vu. S\'il gank top, tu peux prendre son côté bot ou gank bot.',
+  'tip.jg-3.title': 'Gank des lanes poussées',
+  'tip.jg-3.description': 'Ne gank jamais une lane poussée sous la tour ennemie. Attends que ton laner push ou gank ailleurs.',
+  'tip.jg-4.title': 'Vision avant les objectifs',
+  'tip.jg-4.description': '1 minute avant Drake/Baron, place des wards et sweep la zone. C\'est TA responsabilité.',
+  'tip.mid-1.title': 'Roam après un push',
+  'tip.mid-1.description': 'Push ta wave AVANT de roam. Sinon tu perds des CS et ton roam peut échouer si ta wave est sous ta tour.',
+  'tip.mid-2.title': 'Prio pour ton jungler',
+  'tip.mid-2.description': 'Si tu as la prio mid, ton jungler peut envahir et contester les carapateurs. Aide-le sur les contests.',
+  'tip.mid-3.title': 'Suis les roams ennemis',
+  'tip.mid-3.description': 'Si ton adversaire disparaît, PING immédiatement. Même si tu n\'es pas sûr, un ping peut sauver tes coéquipiers.',
+  'tip.mid-4.title': 'Conteste les objectifs',
+  'tip.mid-4.description': 'Ta position centrale te permet d\'arriver rapidement sur Drake/Héraut. Sois présent pour chaque contest.',
+  'tip.adc-1.title': 'Survie = DPS',
+  'tip.adc-1.description': 'Un ADC mort fait 0 dégât. Reste TOUJOURS derrière ta frontline et ne facecheck jamais.',
+  'tip.adc-2.title': 'Kiting en teamfight',
+  'tip.adc-2.description': 'Utilise l\'attack-move (A + clic) pour kiter automatiquement. Frappe la cible la plus proche et la plus safe.',
+  'tip.adc-3.title': 'Farm en side lane en sécurité',
+  'tip.adc-3.description': 'Ne farm pas une side lane sans vision. Si tu ne vois pas 3+ ennemis, joue comme s\'ils venaient vers toi.',
+  'tip.adc-4.title': 'Présence au Drake',
+  'tip.adc-4.description': 'Ton DPS est crucial pour sécuriser le Drake rapidement. Sois TOUJOURS présent, même si tu dois perdre quelques CS.',
+  'tip.sup-1.title': 'Vision = Victoire',
+  'tip.sup-1.description': 'Achète des Control Wards à CHAQUE back. Place-les près des objectifs ou dans les buissons de la jungle.',
+  'tip.sup-2.title': 'Protège ton ADC',
+  'tip.sup-2.description': 'En teamfight, ta priorité n°1 est de garder ton ADC en vie. Utilise tes CC sur les assassins qui le ciblent.',
+  'tip.sup-3.title': 'Roam mid efficace',
+  'tip.sup-3.description': 'Roam mid après avoir push la wave bot. Préviens ton ADC et ward la rivière avant de partir.',
+  'tip.sup-4.title': 'Sweep avant les objectifs',
+  'tip.sup-4.description': 'Utilise ton Sweeper autour du Drake/Baron 1 min avant le spawn. Refuser la vision ennemie est crucial.',
+};
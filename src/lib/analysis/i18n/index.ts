@@ -0,0 +1,71 @@
+// Engine i18n - Renders detector and generator messages in the player's language
+// Catalogs map `<message key>.<field>` to a template with {param} placeholders
+
+import { DetectedError, DetectorError, DetectorHighlight, Highlight, Message, MessageParam } from '../types';
+import { en, MessageKey } from './en';
+import { fr } from './fr';
+import { es } from './es';
+import { de } from './de';
+import { pt } from './pt';
+
+export type Language = 'en' | 'fr' | 'es' | 'de' | 'pt';
+
+export type { MessageKey };
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, fr, es, de, pt };
+
+export function isLanguage(value: string | undefined): value is Language {
+  return value !== undefined && value in CATALOGS;
+}
+
+// Unknown or missing languages fall back to English
+export function resolveLanguage(value?: string): Language {
+  return isLanguage(value) ? value : 'en';
+}
+
+export function msg(key: string, params?: Record<string, MessageParam>): Message {
+  return params ? { key, params } : { key };
+}
+
+function hasKey(key: string): key is MessageKey {
+  return key in en;
+}
+
+/**
+ * Renders a catalog entry. Params that are messages are rendered in the same language
+ * (lists are joined with commas), missing entries fall back to English, then to the key itself.
+ */
+export function translate(key: string, params: Record<string, MessageParam> = {}, language: Language = 'en'): string {
+  const template = hasKey(key) ? CATALOGS[language][key] ?? en[key] : key;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    if (Array.isArray(value)) return value.map(item => translate(item.key, item.params, language)).join(', ');
+    if (typeof value === 'object') return translate(value.key, value.params, language);
+    return String(value);
+  });
+}
+
+export function localizeError(error: DetectorError, language: Language): DetectedError {
+  const { message, ...rest } = error;
+  const field = (name: string) => translate(`${message.key}.${name}`, message.params, language);
+
+  return {
+    ...rest,
+    title: field('title'),
+    description: field('description'),
+    suggestion: field('suggestion'),
+    coachingNote: hasKey(`${message.key}.coachingNote`) ? field('coachingNote') : undefined,
+  };
+}
+
+export function localizeHighlight(highlight: DetectorHighlight, language: Language): Highlight {
+  const { message, ...rest } = highlight;
+
+  return {
+    ...rest,
+    title: translate(`${message.key}.title`, message.params, language),
+    description: translate(`${message.key}.description`, message.params, language),
+  };
+}
@@ -0,0 +1,407 @@
+// Portuguese catalog
+
+import { MessageKey } from './en';
+
+export const pt: Record<MessageKey, string> = {
+  // Shared fragments
+  'common.theEnemy': 'o inimigo',
+  'common.yourOpponent': 'seu adversário de rota',
+  'common.dead': 'morto',
+  'common.aliveAt': 'vivo a {distance} unidades',
+
+  // Deaths
+  'death.tower.title': 'Morte sob a torre inimiga',
+  'death.tower.description': 'Você morreu sob a torre inimiga aos {time}. {detail}',
+  'death.tower.ganked': 'Você foi pego por {count} inimigos.',
+  'death.tower.killedBy': '{killer} te matou sob a torre dele.',
+  'death.tower.killed': 'O inimigo te matou sob a torre dele.',
+  'death.tower.suggestion': 'Evite dar dive sem tropas para tankar a torre e garanta que tem dano suficiente para finalizar rápido.',
+  'death.tower.coachingNote': '{note}',
+  'death.tower.noteGanked': 'O dive coordenado do inimigo provavelmente era previsível. Olhe o minimapa antes de entrar na torre.',
+  'death.tower.noteSolo': 'Antes de um dive, verifique se você tem: 1) Tropas, 2) Vida suficiente, 3) Suas habilidades disponíveis.',
+  'death.isolated.title': 'Morte em posição isolada',
+  'death.isolated.description': 'Você morreu isolado aos {time}. Seu aliado mais próximo ({ally}) estava a {distance} unidades.',
+  'death.isolated.suggestion': 'Fique perto do seu time, principalmente quando não tem visão do inimigo.',
+  'death.isolated.coachingNote': '{note}',
+  'death.isolated.noteDanger': 'Você estava em território inimigo. É muito arriscado sem o seu time.',
+  'death.isolated.noteNeutral': 'Mesmo em território neutro, ficar isolado te deixa vulnerável a picks.',
+  'death.gank.title': 'Morte por gank de vários inimigos',
+  'death.gank.description': 'Você foi abatido por {count} inimigos aos {time}. {detail}',
+  'death.gank.danger': 'Você estava em uma zona perigosa.',
+  'death.gank.coordinated': 'O inimigo coordenou bem o gank.',
+  'death.gank.suggestion': 'Coloque mais sentinelas para ver as rotações inimigas. Jogue com mais cuidado quando vários inimigos sumirem do mapa.',
+  'death.gank.coachingNote': 'Antes de empurrar ou trocar, conte os inimigos visíveis no mapa. Se não vir 3, suponha que estão vindo atrás de você.',
+  'death.goldDeficit.title': 'Morte com desvantagem de ouro',
+  'death.goldDeficit.description': 'Você morreu para {killer} aos {time} com {gold} de ouro a menos.',
+  'death.goldDeficit.suggestion': 'Evite all-ins quando estiver atrás. Farme com segurança e espere seu jungler ou um pico de itens.',
+  'death.goldDeficit.coachingNote': 'Com {gold} de ouro a menos, seu adversário provavelmente tem um item a mais. Respeite esse pico de poder.',
+  'death.levelDeficit.title': 'Morte com desvantagem de nível',
+  'death.levelDeficit.description': 'Você morreu aos {time} com {levels} nível(is) a menos que seu adversário.',
+  'death.levelDeficit.suggestion': 'Níveis dão mais pontos de habilidade e atributos. Evite lutas contra adversários de nível mais alto.',
+  'death.levelDeficit.coachingNote': 'Cada nível vale cerca de 600 de ouro em atributos. Espere recuperar antes de lutar.',
+  'death.avoidable.title': 'Morte evitável',
+  'death.avoidable.description': 'Você morreu para {killer}{help} aos {time}.',
+  'death.avoidable.withHelp': ' com ajuda',
+  'death.avoidable.suggestion': 'Analise o que te levou a essa posição. Você poderia ter evitado essa luta?',
+  'death.avoidable.coachingNote': '{note}',
+  'death.avoidable.noteLate': 'No late game, uma morte pode custar a partida. Tenha cuidado redobrado com seu posicionamento.',
+  'death.avoidable.note': 'Cada morte dá vantagem ao inimigo. Minimize suas mortes para manter o controle.',
+
+  // CS
+  'cs.behind.title': 'Atrás em CS aos {minute} min',
+  'cs.behind.description': 'Você tem {cs} CS contra {opponentCs} do seu adversário ({diff} CS, cerca de {gold} de ouro a menos).',
+  'cs.behind.suggestion': '{advice}',
+  'cs.behind.jungler': 'Otimize seus clears da selva. Não deixe acampamentos para trás e controle bem os tempos de renascimento.',
+  'cs.behind.laner': 'Concentre-se no last hit. Se a rota estiver difícil, use suas habilidades para garantir CS sob a torre.',
+  'cs.behind.coachingNote': '{note}',
+  'cs.behind.noteLarge': '{missing} CS a menos é uma diferença significativa. Seu adversário tem quase um item de vantagem só em CS.',
+  'cs.behind.note': 'Até 15 CS a menos já são cerca de 300 de ouro. Isso se acumula rápido ao longo da partida.',
+  'cs.belowAverage.title': 'CS abaixo da média aos {minute} min',
+  'cs.belowAverage.description': 'Você tem {cs} CS ({perMin} CS/min). O objetivo é pelo menos {target} CS/min.',
+  'cs.belowAverage.suggestion': '{advice}',
+  'cs.belowAverage.jungler': 'Limpe todos os acampamentos de forma eficiente e não perca tempo entre os ganks.',
+  'cs.belowAverage.laner': 'Pratique o last hit na ferramenta de treino. Cada tropa conta.',
+  'cs.belowAverage.coachingNote': 'Aos {minute} min, mire em {expected} CS. Faltam {missed}.',
+
+  // Vision
+  'vision.lowWards.title': 'Visão insuficiente ({start}-{end} min)',
+  'vision.lowWards.description': 'Você colocou só {wards} sentinela(s) entre o minuto {start} e {end}. {role}',
+  'vision.lowWards.support': 'Como suporte, a visão é sua função principal.',
+  'vision.lowWards.laner': 'Mesmo como laner, você precisa contribuir para a visão.',
+  'vision.lowWards.suggestion': '{advice}',
+  'vision.lowWards.adviceSupport': 'Coloque sentinelas estratégicas: rio, selva inimiga, objetivos. Use sua Lente do Oráculo para limpar sentinelas.',
+  'vision.lowWards.adviceLaner': 'Compre Sentinelas de Controle regularmente. Uma sentinela pode salvar sua vida ou a do seu time.',
+  'vision.lowWards.coachingNote': 'Visão ganha partidas. {wards} sentinela(s) em 5 min não bastam para ler bem o mapa.',
+  'vision.noControlWard.title': 'Nenhuma Sentinela de Controle ({start}-{end} min)',
+  'vision.noControlWard.description': 'Você não colocou nenhuma Sentinela de Controle entre o minuto {start} e {end}.',
+  'vision.noControlWard.suggestion': 'Sentinelas de Controle são essenciais para controlar zonas-chave (Dragão, Barão, selva). Compre uma a cada volta à base.',
+  'vision.noControlWard.coachingNote': 'Uma Sentinela de Controle custa 75 de ouro, mas pode salvar sua vida ou revelar emboscadas. É um dos melhores investimentos do jogo.',
+
+  // Objectives
+  'objective.firstTower.title': 'Primeira torre perdida na sua rota',
+  'objective.firstTower.description': 'Sua torre caiu aos {time}, a primeira da partida. Você estava {state}.',
+  'objective.firstTower.suggestion': 'Quando sua torre estiver ameaçada, fique para defender ou peça ajuda antes que ela caia. A primeira torre dá ouro extra ao inimigo.',
+  'objective.firstTower.coachingNote': 'Perder a primeira torre abre sua metade do mapa: sua selva fica perigosa e o inimigo pode rotacionar livremente.',
+  'objective.inhibitor.title': 'Inibidor perdido',
+  'objective.inhibitor.description': 'O inimigo destruiu um inibidor {lane}aos {time}. Você estava {state}.',
+  'objective.inhibitor.suggestion': 'Defenda sua base em grupo e limpe as supertropas. Evite morrer quando o inimigo tem Barão ou vantagem numérica.',
+  'objective.inhibitor.coachingNote': 'Um inibidor perdido gera supertropas que pressionam sua base constantemente.',
+  'objective.soul.title': 'Alma do Dragão perdida',
+  'objective.soul.description': 'O inimigo conseguiu a Alma do Dragão aos {time}. Você estava {state}.',
+  'objective.soul.alive': 'vivo a {distance} unidades do covil',
+  'objective.soul.suggestion': 'Quando falta um dragão para o inimigo conseguir a alma, cada dragão é prioritário: prepare a visão 1 min antes e agrupe com seu time.',
+  'objective.soul.coachingNote': 'A Alma do Dragão é um bônus permanente muito forte. Entregá-la ao inimigo torna as lutas seguintes muito mais difíceis.',
+  'objective.elder.title': 'Dragão Ancestral perdido',
+  'objective.elder.description': 'O inimigo pegou o Dragão Ancestral aos {time}. Você estava a {distance} unidades (vivo).',
+  'objective.elder.suggestion': '{advice}',
+  'objective.elder.coachingNote': 'O Dragão Ancestral costuma decidir a partida. Tudo deve ser organizado em torno desse objetivo.',
+  'objective.dragon.title': 'Dragão {dragon} perdido',
+  'objective.dragon.description': 'O inimigo pegou o dragão aos {time}. Você estava a {distance} unidades (vivo).',
+  'objective.dragon.suggestion': '{advice}',
+  'objective.dragon.jungler': 'Como jungler, você precisa controlar o tempo dos objetivos e estar presente. Coloque sentinelas na área 1 min antes do nascimento.',
+  'objective.dragon.laner': 'Esteja pronto para rotacionar para o dragão quando ele nascer. Comunique-se com seu time.',
+  'objective.dragon.coachingNote': 'O dragão dá buffs permanentes ao seu time. {detail}',
+  'objective.dragon.tooFar': 'Você estava longe demais para disputá-lo.',
+  'objective.dragon.closer': 'Aproxime-se mais cedo para ter prioridade.',
+  'objective.baron.title': 'Barão Na\'Shor perdido',
+  'objective.baron.description': 'O inimigo pegou o Barão aos {time}. Você estava a {distance} unidades.',
+  'objective.baron.suggestion': 'O Barão é o objetivo mais importante do mid/late game. Agrupe com seu time para disputá-lo ou pegá-lo.',
+  'objective.baron.coachingNote': 'Um Barão dá uma enorme vantagem de cerco e de ouro. Entregar um Barão sem lutar costuma ser um ponto de virada negativo.',
+  'objective.herald.title': 'Arauto perdido',
+  'objective.herald.description': 'O inimigo pegou o Arauto aos {time}. Você estava a {distance} unidades.',
+  'objective.herald.suggestion': 'O Arauto pode destruir uma torre inteira. Ajude seu jungler a garanti-lo ou pelo menos dispute-o.',
+  'objective.herald.coachingNote': 'O Arauto é muito útil para acelerar o early game. Uma torre a menos abre o mapa para o seu time.',
+  'objective.plates.title': '{lost} placas de torre perdidas na sua rota',
+  'objective.plates.description': 'Sua torre perdeu {lost} placas ({gold} de ouro para o inimigo) contra {won} ganhas. {whileDead} caíram enquanto você estava morto, {whileAway} enquanto estava fora.',
+  'objective.plates.suggestion': 'Antes do minuto 14, cada placa vale ouro. Não saia da rota quando sua onda empurra para sua torre e puna seu adversário quando ele rotaciona.',
+  'objective.plates.coachingNote': 'As placas são a principal fonte de ouro de estruturas no early game: {gap} de ouro de diferença só nisso.',
+  'objective.grubs.title': '{count} Vastilarvas perdidas',
+  'objective.grubs.description': 'O inimigo pegou {count} larvas aos {time}. Você estava vivo a {distance} unidades.',
+  'objective.grubs.suggestion': 'As larvas dão dano contra torres ao time que as pega. Jogue em torno do nascimento delas com seu topo e seu jungler.',
+  'objective.grubs.coachingNote': 'Entregar as larvas sem disputa acelera a queda das suas torres.',
+
+  // Death timers
+  'deathTimer.beforeObjective.title': 'Morte antes do {objective}',
+  'deathTimer.beforeObjective.description': 'Você morreu aos {time}{killer} com {respawn}s de tempo de renascimento no nível {level}. O inimigo pegou o {objective} {delay}s depois, enquanto você ainda estava morto.',
+  'deathTimer.killedBy': ' (abatido por {killer})',
+  'deathTimer.beforeObjective.suggestion': 'Não corra riscos antes de um objetivo: nessa fase do jogo, uma morte te tira da partida por {respawn}s. Fique agrupado e jogue pela visão em vez de procurar picks.',
+  'deathTimer.beforeObjective.coachingNote': 'Mortes logo antes de um objetivo custam em dobro: o inimigo joga com vantagem numérica e pega o objetivo de graça.',
+
+  // ARAM
+  'aram.damageShare.title': 'Participação no dano muito baixa',
+  'aram.damageShare.description': 'Você causou {share}% do dano a campeões do seu time (esperado: pelo menos {target}%).',
+  'aram.damageShare.suggestion': 'No ARAM as lutas são constantes: fique ao alcance para usar suas habilidades em cada engage em vez de esperar atrás.',
+  'aram.damageShare.coachingNote': 'Uma participação baixa no dano costuma significar que você chega tarde às lutas ou morre antes de usar suas habilidades.',
+  'aram.deaths.title': 'Mortes frequentes demais',
+  'aram.deaths.description': 'Você morreu {deaths} vezes, ou seja, {per10} mortes a cada 10 minutos (máximo recomendado: {max}).',
+  'aram.deaths.suggestion': 'Cada morte deixa seu time em 4v5 durante seu renascimento. Espere sua linha de frente iniciar antes de avançar.',
+  'aram.deaths.coachingNote': 'No ARAM, morrer com frequência não se compensa farmando: o tempo morto é tempo de luta perdido.',
+  'aram.poke.title': 'Poke demais recebido',
+  'aram.poke.description': 'Fora das lutas, você recebeu {taken} de dano por minuto contra {team} na média do seu time (x{ratio}).',
+  'aram.poke.suggestion': 'Entre as lutas, fique atrás das suas tropas e fora do alcance das habilidades de poke inimigas. Entre nas lutas com a vida cheia, não pela metade.',
+  'aram.poke.coachingNote': 'O poke antes de uma luta costuma decidi-la: um jogador com 50% de vida é um alvo fácil.',
+
+  // Recalls
+  'recall.late.title': 'Volta à base tardia',
+  'recall.late.description': 'Você tinha {gold} de ouro não gasto pouco antes de voltar à base por volta de {time}.',
+  'recall.late.suggestion': 'Volte à base assim que tiver ouro para um componente importante ou um item completo. Cada minuto com ouro no bolso é um minuto sem atributos.',
+  'recall.late.coachingNote': 'Com {gold} de ouro, você poderia ter comprado um item completo. Suas trocas durante esse tempo foram feitas sem essa vantagem.',
+  'recall.objectiveSpawn.title': 'Volta à base no nascimento do {objective}',
+  'recall.objectiveSpawn.description': 'Você estava na base por volta de {time} enquanto o {objective} nascia aos {spawnTime}.{taken}',
+  'recall.objectiveSpawn.taken': ' O inimigo pegou o {objective}.',
+  'recall.objectiveSpawn.suggestion': 'Volte à base 60 a 90 segundos antes do nascimento do {objective} para voltar com seus itens e ajudar a preparar a visão.',
+  'recall.objectiveSpawn.coachingNote': 'Uma volta bem cronometrada antes de um objetivo te dá os atributos E a presença. Uma mal cronometrada te custa os dois.',
+  'recall.sittingOnGold.title': 'Parado com {gold} de ouro',
+  'recall.sittingOnGold.description': 'Entre {start} e {end}, você passou {minutes} minutos com mais de {threshold} de ouro no bolso (até {gold} de ouro).',
+  'recall.sittingOnGold.suggestion': 'Procure uma janela para voltar à base: depois de estourar a onda, depois de um abate ou quando seu time não precisa de você.',
+  'recall.sittingOnGold.coachingNote': '{gold} de ouro não gasto é um pico de poder que você não está usando. Seu adversário provavelmente já fez as compras dele.',
+
+  // Waves
+  'wave.recallWithoutCrash.title': 'Volta à base sem estourar a onda',
+  'wave.recallWithoutCrash.description': 'Você voltou à base por volta de {time} sem empurrar sua onda até a torre inimiga. Perdeu cerca de {lost} CS durante a volta.',
+  'wave.recallWithoutCrash.suggestion': 'Empurre sua onda até a torre inimiga antes de voltar à base para que ela estoure. Assim você volta sem perder tropas.',
+  'wave.recallWithoutCrash.coachingNote': '{lost} CS são cerca de {gold} de ouro. Uma volta bem cronometrada depois de estourar a onda quase não custa nada.',
+  'wave.away.title': '{title}',
+  'wave.away.titleLong': 'Fora da rota por {minutes} min',
+  'wave.away.titleDead': 'CS perdido enquanto estava morto',
+  'wave.away.titleRoam': 'CS perdido durante um roam',
+  'wave.away.description': 'Entre {start} e {end}, você esteve fora da rota ({reason}). Perdeu cerca de {lost} CS em comparação com {opponent}.',
+  'wave.away.roaming': 'roam ou selva',
+  'wave.away.standardLane': 'uma rota padrão',
+  'wave.away.suggestion': '{advice}',
+  'wave.away.adviceDead': 'Cada morte na rota também custa as ondas que morrem sob sua torre. Jogue com mais segurança quando não puder se dar ao luxo de perder a rota.',
+  'wave.away.adviceRoam': 'Empurre sua onda antes de sair da rota. Volte rápido se o roam não der resultado.',
+  'wave.away.coachingNote': '{note}',
+  'wave.away.noteLong': 'Uma longa ausência da rota dá pressão e experiência de graça ao seu adversário.',
+  'wave.away.noteRoam': 'Um roam precisa render mais do que os {lost} CS (~{gold} de ouro) que custa.',
+
+  // Itemization
+  'itemization.firstSpike': '1º item',
+  'itemization.secondSpike': '2º item',
+  'itemization.powerSpike.title': '{item} atrás de {opponent}',
+  'itemization.powerSpike.description': '{detail}',
+  'itemization.powerSpike.later': '{opponent} completou o {item} aos {opponentTime}, você aos {time} ({minutes} min de atraso).',
+  'itemization.powerSpike.never': '{opponent} completou o {item} aos {opponentTime}, você nunca.',
+  'itemization.powerSpike.suggestion': 'Respeite o pico de poder inimigo: evite all-ins até alcançá-lo em itens e otimize suas voltas à base para recuperar.',
+  'itemization.powerSpike.coachingNote': 'Durante esses {minutes} minutos, seu adversário tinha um item completo a mais. É exatamente quando ele pode forçar trocas.',
+  'itemization.firstItem': 'Primeiro item',
+  'itemization.secondItem': 'Segundo item',
+  'itemization.lateCore.title': '{item} tardio',
+  'itemization.lateCore.description': '{detail}',
+  'itemization.lateCore.completed': '{item} completado aos {time}, quando é esperado antes do minuto {minute}.',
+  'itemization.lateCore.missing': '{item} ainda não completado no minuto {minute}.',
+  'itemization.lateCore.suggestion': 'Melhore seu farm e o momento das voltas à base para completar seus itens principais mais cedo.',
+  'itemization.lateCore.coachingNote': 'Seus itens principais definem seus picos de poder. Cada minuto de atraso reduz seu impacto nas lutas.',
+  'itemization.controlWards.title': 'Nenhuma Sentinela de Controle comprada',
+  'itemization.controlWards.description': 'Você não comprou nenhuma Sentinela de Controle entre {start} e {end} ({minutes} min).',
+  'itemization.controlWards.suggestion': 'Compre uma Sentinela de Controle a cada volta à base. Ela custa 75 de ouro e fica até ser destruída.',
+  'itemization.controlWards.coachingNote': 'No total, você comprou {bought} Sentinela(s) de Controle nesta partida.',
+
+  // Roams
+  'roam.laneCost': '{cs} CS e {xp} de XP',
+  'roam.kills': '{count} abate(s)',
+  'roam.assists': '{count} assistência(s)',
+  'roam.success.title': 'Roam bem-sucedido para {where}',
+  'roam.success.description': 'Seu roam aos {time} rendeu {results}, por {laneCost} perdidos na rota.',
+  'roam.failed.title': '{title}',
+  'roam.failed.titleDied': 'Morte durante um roam',
+  'roam.failed.titleNothing': 'Roam sem resultado',
+  'roam.failed.description': 'Por volta de {time}, você deixou sua rota por cerca de {minutes} min em direção a {where}{outcome}. Custo na rota: {laneCost}.',
+  'roam.failed.died': ' e morreu',
+  'roam.failed.nothing': ' sem abate, assistência nem objetivo',
+  'roam.failed.suggestion': 'Faça roam só depois de empurrar sua onda, quando a rota alvo estiver empurrada para o inimigo e você puder chegar antes que ele recue.',
+  'roam.failed.coachingNote': '{note}',
+  'roam.failed.noteOpponent': 'Durante sua ausência, {opponent} ganhou vantagem na rota ({laneCost}).',
+  'roam.failed.note': 'Um roam que não rende nada é tempo de farm e de experiência perdido.',
+
+  // Teamfights
+  'teamfight.diedFirst.title': 'Primeiro a morrer em uma luta perdida',
+  'teamfight.diedFirst.description': 'Aos {time}, você foi o primeiro a morrer (abatido por {killer}) e seu time perdeu a luta por {score} ({allies}v{enemies}).',
+  'teamfight.diedFirst.suggestion': 'Em lutas de time, fique atrás da sua linha de frente e espere o inimigo usar suas habilidades de engage antes de avançar.',
+  'teamfight.diedFirst.coachingNote': 'A primeira morte de uma luta dá um 5v4 ao inimigo. Sobreviver aos primeiros segundos costuma valer mais que o seu dano.',
+  'teamfight.absent.title': 'Ausente em uma luta perdida',
+  'teamfight.absent.description': 'Aos {time}, seu time perdeu uma luta por {score} em {allies}v{enemies} enquanto você estava vivo a {distance} unidades.',
+  'teamfight.absent.suggestion': 'Quando seu time se agrupa ou um objetivo se aproxima, junte-se a ele. Se estiver fazendo split push, garanta que isso não force uma luta sem você.',
+  'teamfight.absent.coachingNote': 'Uma luta em desvantagem numérica quase sempre é perdida. Sua posição no mapa deve acompanhar a do seu time.',
+
+  // Jungle
+  'jungle.idle.title': 'Tempo ocioso na selva',
+  'jungle.idle.description': 'Entre {start} e {end}, você não pegou nenhum acampamento, não fez gank e não participou de nenhuma luta.',
+  'jungle.idle.suggestion': 'Planeje sua rota: cada minuto deve servir para farmar, gankar, contrariar o jungler inimigo ou preparar um objetivo.',
+  'jungle.idle.coachingNote': '{minutes} minutos sem ação são cerca de {gold} de ouro e experiência perdidos contra o jungler inimigo.',
+  'jungle.failedGank.title': 'Gank fracassado ({lane})',
+  'jungle.failedGank.description': 'Seu gank ({lane}) aos {time} não rendeu nenhum abate e seu time perdeu {deaths} jogador(es).',
+  'jungle.failedGank.suggestion': 'Faça gank quando a onda do seu aliado estiver empurrada para a torre dele e o inimigo tiver usado suas habilidades de fuga. Verifique as sentinelas antes de entrar.',
+  'jungle.failedGank.coachingNote': 'Um gank fracassado custa tempo de farm e, se alguém morre, dá a vantagem ao inimigo.',
+  'jungle.noEarlyGank.title': 'Nenhum gank antes dos 10 minutos',
+  'jungle.noEarlyGank.description': 'Você não tentou nenhum gank nos primeiros 10 minutos.',
+  'jungle.noEarlyGank.suggestion': 'Procure rotas empurradas para o inimigo ou com vantagem de nível/habilidades e faça gank depois do seu primeiro clear.',
+  'jungle.noEarlyGank.coachingNote': 'Farmar é importante, mas sem pressão nas rotas o inimigo joga livremente e pode invadir sua selva.',
+  'jungle.missedSpawn.title': 'Ausente no nascimento do {objective}',
+  'jungle.missedSpawn.description': 'No nascimento do {objective} ({time}), você estava a {distance} unidades do covil. O inimigo o pegou.',
+  'jungle.missedSpawn.suggestion': 'Termine seu clear para estar perto 30 a 60 segundos antes do nascimento do {objective}, com o Golpear disponível.',
+  'jungle.missedSpawn.coachingNote': 'Como jungler, você precisa estar presente nos objetivos neutros. Sua ausência deixa o inimigo pegá-los de graça.',
+
+  // Skill order
+  'skillOrder.ultDelay.title': 'Ultimate nível {rank} atrasada',
+  'skillOrder.ultDelay.description': 'Você chegou ao nível {level} aos {time}, mas sua ultimate (nível {rank}) foi evoluída {delay}.',
+  'skillOrder.ultDelay.at': 'no nível {rankedAt} ({time}), {seconds}s depois de chegar ao nível {level}',
+  'skillOrder.ultDelay.never': 'nunca',
+  'skillOrder.ultDelay.suggestion': 'Evolua sua ultimate assim que chegar ao nível {level}. Ative a evolução rápida (Ctrl + R) para nunca esquecer.',
+  'skillOrder.ultDelay.coachingNote': '{note}',
+  'skillOrder.ultDelay.noteLevel6': 'O nível 6 é o maior pico de poder da fase de rotas. Seu adversário pode dar all-in enquanto você não tem sua ultimate.',
+  'skillOrder.ultDelay.note': 'Cada nível da ultimate reduz o tempo de recarga e aumenta o dano. Nunca a deixe sem evoluir.',
+  'skillOrder.maxOrder.title': 'Ordem de habilidades incomum com {champion}',
+  'skillOrder.maxOrder.description': 'No nível {level}, você priorizou {skill}, enquanto a ordem recomendada com {champion} é {recommended}.',
+  'skillOrder.maxOrder.suggestion': 'Maximize {expected} primeiro (ordem {recommended}), salvo se um confronto específico pedir outra coisa.',
+  'skillOrder.maxOrder.coachingNote': 'Sua ordem: {sequence}.',
+
+  // Map zones and objectives (roam targets and results)
+  'zone.blue_base': 'a base azul',
+  'zone.red_base': 'a base vermelha',
+  'zone.blue_jungle': 'a selva azul',
+  'zone.red_jungle': 'a selva vermelha',
+  'zone.river_top': 'o rio superior',
+  'zone.river_bot': 'o rio inferior',
+  'zone.dragon_pit': 'o Dragão',
+  'zone.baron_pit': 'o Barão',
+  'zone.top_lane': 'a rota do topo',
+  'zone.mid_lane': 'a rota do meio',
+  'zone.bot_lane': 'a rota inferior',
+  'objectiveName.DRAGON': 'Dragão',
+  'objectiveName.ELDER_DRAGON': 'Dragão Ancestral',
+  'objectiveName.BARON_NASHOR': 'Barão',
+  'objectiveName.RIFTHERALD': 'Arauto',
+  'objectiveName.HORDE': 'Vastilarvas',
+  'objectiveName.MONSTER': 'monstro',
+  'objectiveName.TOWER': 'torre',
+  'objectiveName.INHIBITOR': 'inibidor',
+
+  // Win probability events
+  'winProbability.tower.allied': 'Torre destruída pelo seu time',
+  'winProbability.tower.enemy': 'Torre perdida',
+  'winProbability.inhibitor.allied': 'Inibidor destruído pelo seu time',
+  'winProbability.inhibitor.enemy': 'Inibidor perdido',
+  'winProbability.dragon.allied': 'Dragão pego pelo seu time',
+  'winProbability.dragon.enemy': 'Dragão pego pelo inimigo',
+  'winProbability.soul.allied': 'Alma do Dragão para o seu time',
+  'winProbability.soul.enemy': 'Alma do Dragão para o inimigo',
+  'winProbability.elder.allied': 'Dragão Ancestral pego pelo seu time',
+  'winProbability.elder.enemy': 'Dragão Ancestral pego pelo inimigo',
+  'winProbability.baron.allied': 'Barão pego pelo seu time',
+  'winProbability.baron.enemy': 'Barão pego pelo inimigo',
+  'winProbability.herald.allied': 'Arauto pego pelo seu time',
+  'winProbability.herald.enemy': 'Arauto pego pelo inimigo',
+  'winProbability.gold': 'Diferença de ouro',
+
+  // Coaching tips
+  'tipCategory.farm': 'Farm',
+  'tipCategory.vision': 'Visão',
+  'tipCategory.positioning': 'Posicionamento',
+  'tipCategory.mapAwareness': 'Leitura de mapa',
+  'tipCategory.objectives': 'Objetivos',
+  'tipCategory.waves': 'Controle de ondas',
+  'tipCategory.backTiming': 'Voltas à base',
+  'tipCategory.items': 'Itens',
+  'tipCategory.powerSpikes': 'Picos de poder',
+  'tipCategory.skills': 'Habilidades',
+  'tipCategory.jungle': 'Selva',
+  'tipCategory.roaming': 'Roaming',
+  'tipCategory.deathTiming': 'Momento das mortes',
+  'tipCategory.trading': 'Trocas',
+  'tipCategory.top': 'Topo',
+  'tipCategory.jungler': 'Jungler',
+  'tipCategory.mid': 'Meio',
+  'tipCategory.adc': 'ADC',
+  'tipCategory.support': 'Suporte',
+  'tip.cs-1.title': 'Pratique o last hit',
+  'tip.cs-1.description': 'Entre na ferramenta de treino e pratique o last hit sem usar habilidades. Mire em 80+ CS aos 10 min.',
+  'tip.cs-2.title': 'CS sob a torre',
+  'tip.cs-2.description': 'Aprenda o padrão: 2 tiros da torre + 1 ataque para tropas corpo a corpo, 1 tiro da torre + 1 ataque para tropas à distância (com itens iniciais).',
+  'tip.vision-1.title': 'Compre Sentinelas de Controle',
+  'tip.vision-1.description': 'Compre uma Sentinela de Controle a cada volta à base. Coloque-a na sua selva ou perto dos objetivos.',
+  'tip.vision-2.title': 'Sentinelas antes dos objetivos',
+  'tip.vision-2.description': 'Coloque sentinelas 1 minuto antes do nascimento do Dragão/Barão para ter a informação.',
+  'tip.pos-1.title': 'Fique com seu time',
+  'tip.pos-1.description': 'No mid/late game, não se separe do seu time a menos que tenha visão e saiba onde estão os inimigos.',
+  'tip.pos-2.title': 'Respeite a névoa de guerra',
+  'tip.pos-2.description': 'Se não vir 3+ inimigos no mapa, jogue como se estivessem vindo atrás de você.',
+  'tip.map-1.title': 'Olhe seu minimapa',
+  'tip.map-1.description': 'Obrigue-se a olhar o minimapa a cada 3 segundos. É um hábito a desenvolver.',
+  'tip.map-2.title': 'Acompanhe o jungler inimigo',
+  'tip.map-2.description': 'Anote mentalmente onde o jungler inimigo foi visto. Se estava embaixo, estará em cima em 30-40 s.',
+  'tip.obj-1.title': 'Priorize os objetivos',
+  'tip.obj-1.description': 'Depois de um abate ou vantagem, pense sempre: "Que objetivo posso pegar?"',
+  'tip.obj-2.title': 'Controle os tempos dos objetivos',
+  'tip.obj-2.description': 'O Dragão renasce em 5 min, o Barão em 6 min. Prepare-se 1 min antes.',
+  'tip.wave-1.title': 'Estoure a onda antes de voltar',
+  'tip.wave-1.description': 'Empurre sua onda até a torre inimiga logo antes de voltar à base. Ela volta para você enquanto compra, sem perder CS.',
+  'tip.wave-2.title': 'Empurre antes de sair da rota',
+  'tip.wave-2.description': 'Antes de um roam ou objetivo, empurre sua onda. Uma onda que chega à sua torre enquanto você está fora é CS perdido.',
+  'tip.back-1.title': 'Gaste seu ouro',
+  'tip.back-1.description': 'Assim que tiver ouro para um componente importante, procure uma janela para voltar à base. Ouro no bolso não dá atributos.',
+  'tip.back-2.title': 'Volte antes dos objetivos',
+  'tip.back-2.description': 'Volte à base 60 a 90 segundos antes do nascimento do Dragão ou do Barão para voltar com seus itens a tempo da preparação.',
+  'tip.item-1.title': 'Complete seus itens principais',
+  'tip.item-1.description': 'Seu primeiro item completo é seu primeiro pico de poder real. Mire em tê-lo antes do minuto 14 farmando bem e voltando à base no momento certo.',
+  'tip.item-2.title': 'Uma Sentinela de Controle por volta',
+  'tip.item-2.description': 'Adicione uma Sentinela de Controle a cada compra. 75 de ouro por visão permanente é o melhor custo-benefício do jogo.',
+  'tip.spike-1.title': 'Compare seus itens',
+  'tip.spike-1.description': 'Aperte Tab para ver os itens do seu adversário. Se ele tiver um item completo a mais, evite trocas longas.',
+  'tip.skill-1.title': 'Ultimate no 6, 11 e 16',
+  'tip.skill-1.description': 'Evolua sua ultimate o quanto antes. Um atalho como Ctrl + R permite fazer isso sem tirar os olhos da luta.',
+  'tip.jungle-1.title': 'Planeje sua rota',
+  'tip.jungle-1.description': 'Sempre que sair da base, decida: quais acampamentos, qual rota gankar, qual objetivo preparar. Um jungler sem plano perde tempo.',
+  'tip.jungle-2.title': 'Ganke rotas empurradas',
+  'tip.jungle-2.description': 'Os melhores ganks miram um inimigo que empurrou sua onda longe da torre, sem sentinela e sem Flash.',
+  'tip.roam-1.title': 'Empurre antes do roam',
+  'tip.roam-1.description': 'Um bom roam começa com uma onda empurrada até a torre inimiga. Seu adversário precisa escolher entre te seguir ou perder o CS.',
+  'tip.roam-2.title': 'Escolha seu alvo',
+  'tip.roam-2.description': 'Faça roam para uma rota cuja onda esteja empurrada para o inimigo e cujo adversário esteja sem Flash. Caso contrário, continue farmando.',
+  'tip.death-timing-1.title': 'Zero risco antes de um objetivo',
+  'tip.death-timing-1.description': 'No minuto antes de um Dragão ou Barão, evite duelos e facechecks. Morrer nesse momento entrega o objetivo ao inimigo.',
+  'tip.trade-1.title': 'Troque quando o inimigo for dar last hit',
+  'tip.trade-1.description': 'Ataque o inimigo quando ele se aproximar para dar o last hit em uma tropa. Ele precisa escolher entre revidar ou pegar o CS.',
+  'tip.trade-2.title': 'Respeite os picos de poder',
+  'tip.trade-2.description': 'Fique atento aos níveis 2, 3, 6 e aos itens completos. São os momentos em que seu adversário fica mais forte.',
+  'tip.top-1.title': 'Controle do freeze',
+  'tip.top-1.description': 'Como topo, aprenda a congelar a onda perto da sua torre. Isso te protege dos ganks e obriga o inimigo a se expor para farmar.',
+  'tip.top-2.title': 'TP para objetivos',
+  'tip.top-2.description': 'Guarde seu TP para entrar nas lutas de baixo ou disputar o Dragão. Não o desperdice para voltar à rota depois de uma volta à base.',
+  'tip.top-3.title': 'Momento do Arauto',
+  'tip.top-3.description': 'Entre os minutos 8 e 14, é o SEU momento para o Arauto. Avise seu jungler e prepare a visão.',
+  'tip.top-4.title': 'Split push eficaz',
+  'tip.top-4.description': 'Faça split push só com visão. Coloque 2 sentinelas na selva inimiga antes de empurrar fundo.',
+  'tip.jg-1.title': 'Objetivos > Ganks',
+  'tip.jg-1.description': 'Priorize sempre os objetivos (Dragão, Arauto, Barão) sobre os ganks. Um objetivo = vantagem garantida.',
+  'tip.jg-2.title': 'Acompanhe o jungler inimigo',
+  'tip.jg-2.description': 'Anote onde o jungler inimigo foi visto. Se ele ganka em cima, você pode pegar os acampamentos dele embaixo ou gankar embaixo.',
+  'tip.jg-3.title': 'Ganks em rotas empurradas',
+  'tip.jg-3.description': 'Nunca ganke uma rota empurrada sob a torre inimiga. Espere seu aliado empurrar ou ganke em outro lugar.',
+  'tip.jg-4.title': 'Visão antes do objetivo',
+  'tip.jg-4.description': '1 minuto antes do Dragão/Barão, coloque sentinelas e limpe a área. É SUA responsabilidade.',
+  'tip.mid-1.title': 'Roam depois de empurrar',
+  'tip.mid-1.description': 'Empurre sua onda ANTES de fazer roam. Senão você perde CS e seu roam pode falhar se sua onda estiver sob sua torre.',
+  'tip.mid-2.title': 'Prioridade para seu jungler',
+  'tip.mid-2.description': 'Se você tem prioridade no meio, seu jungler pode invadir e disputar os caranguejos. Ajude-o nessas disputas.',
+  'tip.mid-3.title': 'Acompanhe os roams inimigos',
+  'tip.mid-3.description': 'Se seu adversário sumir, dê PING imediatamente. Mesmo sem certeza, um ping pode salvar seus aliados.',
+  'tip.mid-4.title': 'Dispute os objetivos',
+  'tip.mid-4.description': 'Sua posição central permite chegar rápido ao Dragão/Arauto. Esteja presente em cada disputa.',
+  'tip.adc-1.title': 'Sobrevivência = DPS',
+  'tip.adc-1.description': 'Um ADC morto causa 0 de dano. Fique SEMPRE atrás da sua linha de frente e nunca faça facecheck.',
+  'tip.adc-2.title': 'Kite nas lutas',
+  'tip.adc-2.description': 'Use o attack-move (A + clique) para kitar automaticamente. Ataque o alvo mais próximo e seguro.',
+  'tip.adc-3.title': 'Farme as rotas laterais com segurança',
+  'tip.adc-3.description': 'Não farme uma rota lateral sem visão. Se não vir 3+ inimigos, jogue como se estivessem vindo atrás de você.',
+  'tip.adc-4.title': 'Presença no Dragão',
+  'tip.adc-4.description': 'Seu DPS é crucial para garantir o Dragão rápido. Esteja SEMPRE presente, mesmo que perca um pouco de CS.',
+  'tip.sup-1.title': 'Visão = Vitória',
+  'tip.sup-1.description': 'Compre Sentinelas de Controle a CADA volta à base. Coloque-as perto dos objetivos ou nos arbustos da selva.',
+  'tip.sup-2.title': 'Proteja seu ADC',
+  'tip.sup-2.description': 'Nas lutas, sua prioridade número 1 é manter seu ADC vivo. Use seu controle de grupo nos assassinos que o atacam.',
+  'tip.sup-3.title': 'Roam eficaz para o meio',
+  'tip.sup-3.description': 'Faça roam para o meio depois de empurrar a onda de baixo. Avise seu ADC e coloque sentinela no rio antes de ir.',
+  'tip.sup-4.title': 'Varredura antes dos objetivos',
+  'tip.sup-4.description': 'Use sua Lente do Oráculo em volta do Dragão/Barão 1 min antes do nascimento. Negar a visão inimiga é crucial.',
+};
@@ -1,20 +1,30 @@
 // Main Analysis Orchestrator
 // Coordinates all detectors and generators to produce a complete game analysis
 
-import { analyzeDeaths, analyzeCS, analyzeVision, analyzeObjectives } from './detectors';
+import { analyzeDeaths, analyzeCS, analyzeVision, analyzeObjectives, analyzeWaves, analyzeRecalls, analyzeItemization, analyzeSkillOrder, analyzeTeamfights, analyzeJungle, analyzeRoams, analyzeLanePhase, analyzeDeathTimers, analyzeAram } from './detectors';
 import { calculateScores } from './generators/score-calculator';
 import { generateCoachingTips } from './generators/coaching-tip-generator';
+import { getGameModeProfile, DetectorId } from './profiles';
+import { inferRoles, applyInferredRoles } from './role-inference';
+import { buildWinProbabilityModel, attachImpact, findSwingMoments, rankErrorsByImpact } from './generators/win-probability';
+import { Language, localizeError, localizeHighlight } from './i18n';
+import { BenchmarkOverride, resolveBenchmarks, toBenchmarkTier, toPatch } from './benchmarks';
 import {
   TimelineFrame,
   MatchParticipant,
   AnalysisResult,
-  DetectedError,
+  DetectorError,
+  DetectorResult,
 } from './types';
 
+const EMPTY_RESULT: DetectorResult = { errors: [], stats: {} };
+
 export interface MatchData {
   matchId: string;
   gameDuration: number; // in seconds
   gameMode: string;
+  queueId?: number;
+  gameVersion?: string; // e.g. "14.20.628.1234", selects patch-specific benchmarks
   participants: MatchParticipant[];
 }
 
@@ -22,16 +32,36 @@ export interface TimelineData {
   frames: TimelineFrame[];
 }
 
+// Stored benchmark overrides and the player's rank tier ("GOLD", "DIAMOND"...)
+export interface BenchmarkOptions {
+  overrides?: BenchmarkOverride[];
+  tier?: string;
+}
+
 /**
- * Performs a complete analysis of a match using Riot API data
+ * Performs a complete analysis of a match using Riot API data.
+ * Errors, highlights, swing moments and tips are rendered in `language`.
  */
 export async function analyzeMatch(
   matchData: MatchData,
   timelineData: TimelineData,
-  playerPuuid: string
+  playerPuuid: string,
+  language: Language = 'en',
+  benchmarkOptions: BenchmarkOptions = {}
 ): Promise<AnalysisResult> {
   const { frames } = timelineData;
-  const { participants, matchId, gameDuration } = matchData;
+  const { matchId, gameDuration, gameMode } = matchData;
+
+  // Game mode profile decides the map and which detectors apply
+  const profile = getGameModeProfile(matchData.queueId, gameMode);
+  if (!profile) {
+    throw new Error(`Unsupported game mode: ${gameMode}`);
+  }
+  const runs = (detector: DetectorId) => profile.detectors.includes(detector);
+
+  // Resolve roles (missing or swapped teamPosition) so every detector finds the real lane opponent
+  const roles = profile.usesRoles ? inferRoles(frames, matchData.participants) : null;
+  const participants = roles ? applyInferredRoles(matchData.participants, roles) : matchData.participants;
 
   // Find player
   const playerParticipant = participants.find(p => p.puuid === playerPuuid);
@@ -39,22 +69,71 @@ export async function analyzeMatch(
     throw new Error('Player not found in match participants');
   }
 
-  // Run all detectors
-  const deathResults = analyzeDeaths(frames, participants, playerPuuid);
-  const csResults = analyzeCS(frames, participants, playerPuuid);
-  const visionResults = analyzeVision(frames, participants, playerPuuid);
-  const objectiveResults = analyzeObjectives(frames, participants, playerPuuid);
+  const playerRoleInference = roles?.get(playerParticipant.participantId);
+  const laneOpponent = participants.find(
+    p => p.teamId !== playerParticipant.teamId && p.teamPosition === playerParticipant.teamPosition
+  );
+
+  // Normalize role from Riot API format
+  const roleMap: Record<string, 'TOP' | 'JUNGLE' | 'MID' | 'ADC' | 'SUPPORT' | 'UNKNOWN'> = {
+    'TOP': 'TOP',
+    'JUNGLE': 'JUNGLE',
+    'MIDDLE': 'MID',
+    'MID': 'MID',
+    'BOTTOM': 'ADC',
+    'ADC': 'ADC',
+    'UTILITY': 'SUPPORT',
+    'SUPPORT': 'SUPPORT',
+  };
+  const playerRole = roleMap[playerParticipant.teamPosition?.toUpperCase() || ''] || 'UNKNOWN';
+
+  // Expected values for this role, rank bracket and patch
+  const benchmarks = resolveBenchmarks(
+    benchmarkOptions.overrides || [],
+    playerRole,
+    toBenchmarkTier(benchmarkOptions.tier),
+    toPatch(matchData.gameVersion)
+  );
+
+  // Run the profile's detectors
+  const deathResults = runs('deaths') ? analyzeDeaths(frames, participants, playerPuuid, profile.map) : EMPTY_RESULT;
+  const csResults = runs('cs') ? analyzeCS(frames, participants, playerPuuid, benchmarks.csPerMinByPhase) : EMPTY_RESULT;
+  const visionResults = runs('vision') ? analyzeVision(frames, participants, playerPuuid, benchmarks.wardsPer5MinByPhase) : EMPTY_RESULT;
+  const objectiveResults = runs('objectives') ? analyzeObjectives(frames, participants, playerPuuid) : { ...EMPTY_RESULT, objectiveEvents: [] };
+  const waveResults = runs('waves') ? analyzeWaves(frames, participants, playerPuuid) : EMPTY_RESULT;
+  const recallResults = runs('recalls') ? analyzeRecalls(frames, participants, playerPuuid) : EMPTY_RESULT;
+  const itemResults = runs('itemization') ? analyzeItemization(frames, participants, playerPuuid) : { ...EMPTY_RESULT, itemization: null };
+  const skillResults = runs('skill-order') ? analyzeSkillOrder(frames, participants, playerPuuid) : { ...EMPTY_RESULT, sequence: [] };
+  const teamfightResults = runs('teamfights') ? analyzeTeamfights(frames, participants, playerPuuid) : { ...EMPTY_RESULT, teamfights: [] };
+  const jungleResults = runs('jungle') ? analyzeJungle(frames, participants, playerPuuid) : { ...EMPTY_RESULT, jungle: null };
+  const roamResults = runs('roams') ? analyzeRoams(frames, participants, playerPuuid) : { ...EMPTY_RESULT, highlights: [] };
+  const laneResults = runs('lane-phase') ? analyzeLanePhase(frames, participants, playerPuuid) : { ...EMPTY_RESULT, laning: null };
+  const deathTimerResults = runs('death-timers') ? analyzeDeathTimers(frames, participants, playerPuuid) : EMPTY_RESULT;
+  const aramResults = runs('aram') && profile.aram ? analyzeAram(frames, participants, playerPuuid, profile.aram) : { ...EMPTY_RESULT, aram: null };
 
   // Combine all errors
-  const allErrors: DetectedError[] = [
+  const detectedErrors: DetectorError[] = [
     ...deathResults.errors,
     ...csResults.errors,
     ...visionResults.errors,
     ...objectiveResults.errors,
+    ...waveResults.errors,
+    ...recallResults.errors,
+    ...itemResults.errors,
+    ...skillResults.errors,
+    ...teamfightResults.errors,
+    ...jungleResults.errors,
+    ...roamResults.errors,
+    ...deathTimerResults.errors,
+    ...aramResults.errors,
   ];
 
-  // Sort errors by timestamp
-  allErrors.sort((a, b) => a.timestamp - b.timestamp);
+  // Measure what each error cost in win probability
+  const winModel = buildWinProbabilityModel(frames, participants, playerParticipant.teamId, language);
+  const measuredErrors = attachImpact(detectedErrors.map(error => localizeError(error, language)), winModel);
+
+  // Most costly errors first, in timeline order when they cost the same
+  const allErrors = rankErrorsByImpact(measuredErrors.sort((a, b) => a.timestamp - b.timestamp));
 
   // Calculate scores
   const scores = calculateScores(
@@ -76,27 +155,26 @@ export async function analyzeMatch(
       objectives: {
         dragonsLost: objectiveResults.stats.dragonsLost || 0,
         baronsLost: objectiveResults.stats.baronsLost || 0,
+        platesWon: objectiveResults.stats.platesWon || 0,
+        platesLost: objectiveResults.stats.platesLost || 0,
+        grubsTaken: objectiveResults.stats.grubsTaken || 0,
+        grubsLost: objectiveResults.stats.grubsLost || 0,
+        firstTowerTaken: objectiveResults.stats.firstTowerTaken || 0,
+        firstTowerLost: objectiveResults.stats.firstTowerLost || 0,
+        inhibitorsLost: objectiveResults.stats.inhibitorsLost || 0,
+        soulTaken: objectiveResults.stats.soulTaken || 0,
+        soulLost: objectiveResults.stats.soulLost || 0,
       },
+      laning: laneResults.laning?.at15 || laneResults.laning?.at10,
     },
     playerParticipant.win ? 'win' : 'loss',
-    gameDuration
+    gameDuration,
+    profile.scoreWeights,
+    benchmarks.scoring
   );
 
-  // Normalize role from Riot API format
-  const roleMap: Record<string, 'TOP' | 'JUNGLE' | 'MID' | 'ADC' | 'SUPPORT' | 'UNKNOWN'> = {
-    'TOP': 'TOP',
-    'JUNGLE': 'JUNGLE',
-    'MIDDLE': 'MID',
-    'MID': 'MID',
-    'BOTTOM': 'ADC',
-    'ADC': 'ADC',
-    'UTILITY': 'SUPPORT',
-    'SUPPORT': 'SUPPORT',
-  };
-  const playerRole = roleMap[playerParticipant.teamPosition?.toUpperCase() || ''] || 'UNKNOWN';
-
   // Generate coaching tips with role-specific recommendations
-  const tips = generateCoachingTips(allErrors, scores, playerRole);
+  const tips = generateCoachingTips(allErrors, scores, playerRole, language);
 
   // Build final result
   const result: AnalysisResult = {
@@ -118,7 +196,18 @@ export async function analyzeMatch(
       tradingScore: scores.tradingScore,
       deathsAnalyzed: deathResults.stats.totalDeaths || 0,
       errorsFound: allErrors.length,
+      skillOrder: skillResults.sequence,
+      jungle: jungleResults.jungle || undefined,
+      highlights: roamResults.highlights.map(highlight => localizeHighlight(highlight, language)),
+      laning: laneResults.laning || undefined,
+      winProbability: winModel.timeline,
+      swingMoments: findSwingMoments(winModel.timeline, 5, language),
+      objectiveEvents: objectiveResults.objectiveEvents,
+      aram: aramResults.aram || undefined,
+      itemization: itemResults.itemization || undefined,
+      role: playerRoleInference ? { ...playerRoleInference, laneOpponent: laneOpponent?.championName } : undefined,
     },
+    teamfights: teamfightResults.teamfights,
     tips: tips.map((tip, index) => ({
       ...tip,
       id: `tip-${index}`,
@@ -130,3 +219,5 @@ export async function analyzeMatch(
 
 // Re-export types
 export * from './types';
+export { resolveLanguage } from './i18n';
+export type { Language } from './i18n';
@@ -0,0 +1,282 @@
+// Map Geometry - Polygon regions, turrets and objective pits shared by all detectors
+// Coordinates are Riot timeline units: blue base bottom-left (0, 0), red base top-right
+// Summoner's Rift is the default map; Howling Abyss (ARAM) is a single diagonal lane
+
+import { TimelineFrame, MapZone } from './types';
+
+export type Position = { x: number; y: number };
+export type Lane = 'top' | 'mid' | 'bot';
+export type LaneType = 'TOP_LANE' | 'MID_LANE' | 'BOT_LANE';
+export type TurretTier = 'OUTER_TURRET' | 'INNER_TURRET' | 'BASE_TURRET' | 'NEXUS_TURRET';
+
+// Finer than MapZone: jungles are split in quadrants (top/bot side of the mid lane)
+export type MapRegion =
+  | 'blue_base'
+  | 'red_base'
+  | 'top_lane'
+  | 'mid_lane'
+  | 'bot_lane'
+  | 'dragon_pit'
+  | 'baron_pit'
+  | 'river_top'
+  | 'river_bot'
+  | 'blue_top_jungle'
+  | 'blue_bot_jungle'
+  | 'red_top_jungle'
+  | 'red_bot_jungle';
+
+export interface Turret {
+  teamId: 100 | 200;
+  lane: LaneType;
+  tier: TurretTier;
+  position: Position;
+}
+
+export interface TurretState extends Turret {
+  destroyedAt: number | null; // ms, null while standing
+}
+
+export interface MapGeometry {
+  id: 'summoners-rift' | 'howling-abyss';
+  fountains: Record<100 | 200, Position>;
+  turrets: Turret[];
+  regions: Array<[MapRegion, Position[]]>; // checked in order
+  fallbackRegion?: MapRegion; // for positions outside every polygon
+}
+
+export const DRAGON_PIT: Position = { x: 9866, y: 4414 };
+export const BARON_PIT: Position = { x: 5007, y: 10471 }; // Herald and grubs spawn here too
+
+export const TURRET_RANGE = 850;
+
+// Fountain platform and shop, where a recall lands
+const FOUNTAIN_RADIUS = 2500;
+
+const LANE_TYPES: Record<Lane, LaneType> = {
+  top: 'TOP_LANE',
+  mid: 'MID_LANE',
+  bot: 'BOT_LANE',
+};
+
+const RIFT_TURRETS: Turret[] = [
+  // Blue side
+  { teamId: 100, lane: 'TOP_LANE', tier: 'OUTER_TURRET', position: { x: 981, y: 10441 } },
+  { teamId: 100, lane: 'TOP_LANE', tier: 'INNER_TURRET', position: { x: 1512, y: 6699 } },
+  { teamId: 100, lane: 'TOP_LANE', tier: 'BASE_TURRET', position: { x: 1169, y: 4287 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'OUTER_TURRET', position: { x: 5846, y: 6396 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'INNER_TURRET', position: { x: 5048, y: 4812 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'BASE_TURRET', position: { x: 3651, y: 3696 } },
+  { teamId: 100, lane: 'BOT_LANE', tier: 'OUTER_TURRET', position: { x: 10504, y: 1029 } },
+  { teamId: 100, lane: 'BOT_LANE', tier: 'INNER_TURRET', position: { x: 6919, y: 1483 } },
+  { teamId: 100, lane: 'BOT_LANE', tier: 'BASE_TURRET', position: { x: 4281, y: 1253 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 1748, y: 2270 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 2177, y: 1807 } },
+  // Red side
+  { teamId: 200, lane: 'TOP_LANE', tier: 'OUTER_TURRET', position: { x: 4318, y: 13875 } },
+  { teamId: 200, lane: 'TOP_LANE', tier: 'INNER_TURRET', position: { x: 7943, y: 13411 } },
+  { teamId: 200, lane: 'TOP_LANE', tier: 'BASE_TURRET', position: { x: 10481, y: 13650 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'OUTER_TURRET', position: { x: 8955, y: 8510 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'INNER_TURRET', position: { x: 9767, y: 10113 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'BASE_TURRET', position: { x: 11134, y: 11207 } },
+  { teamId: 200, lane: 'BOT_LANE', tier: 'OUTER_TURRET', position: { x: 13866, y: 4505 } },
+  { teamId: 200, lane: 'BOT_LANE', tier: 'INNER_TURRET', position: { x: 13327, y: 8226 } },
+  { teamId: 200, lane: 'BOT_LANE', tier: 'BASE_TURRET', position: { x: 13624, y: 10572 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 12611, y: 13084 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 13052, y: 12612 } },
+];
+
+// Region polygons, checked in order (pits before river, lanes before jungles)
+// Red side polygons mirror blue side ones through the map center
+const RIFT_REGIONS: Array<[MapRegion, Position[]]> = [
+  ['blue_base', [{ x: 0, y: 0 }, { x: 0, y: 4800 }, { x: 3000, y: 4800 }, { x: 4800, y: 3000 }, { x: 4800, y: 0 }]],
+  ['red_base', [{ x: 15000, y: 15000 }, { x: 15000, y: 10200 }, { x: 12000, y: 10200 }, { x: 10200, y: 12000 }, { x: 10200, y: 15000 }]],
+  ['dragon_pit', [{ x: 9100, y: 3700 }, { x: 10700, y: 3700 }, { x: 10700, y: 5200 }, { x: 9100, y: 5200 }]],
+  ['baron_pit', [{ x: 4200, y: 9700 }, { x: 5800, y: 9700 }, { x: 5800, y: 11300 }, { x: 4200, y: 11300 }]],
+  ['top_lane', [{ x: 0, y: 4800 }, { x: 0, y: 15000 }, { x: 10200, y: 15000 }, { x: 10200, y: 12500 }, { x: 2500, y: 12500 }, { x: 2500, y: 4800 }]],
+  ['bot_lane', [{ x: 4800, y: 0 }, { x: 15000, y: 0 }, { x: 15000, y: 10200 }, { x: 12500, y: 10200 }, { x: 12500, y: 2500 }, { x: 4800, y: 2500 }]],
+  ['mid_lane', [{ x: 4650, y: 3150 }, { x: 11850, y: 10350 }, { x: 10350, y: 11850 }, { x: 3150, y: 4650 }]],
+  ['river_top', [{ x: 2500, y: 11000 }, { x: 4000, y: 12500 }, { x: 8250, y: 8250 }, { x: 6750, y: 6750 }]],
+  ['river_bot', [{ x: 6750, y: 6750 }, { x: 8250, y: 8250 }, { x: 12500, y: 4000 }, { x: 11000, y: 2500 }]],
+  ['blue_top_jungle', [{ x: 2500, y: 4800 }, { x: 2500, y: 11000 }, { x: 6000, y: 7500 }, { x: 3150, y: 4650 }, { x: 3000, y: 4800 }]],
+  ['blue_bot_jungle', [{ x: 4800, y: 2500 }, { x: 11000, y: 2500 }, { x: 7500, y: 6000 }, { x: 4650, y: 3150 }, { x: 4800, y: 3000 }]],
+  ['red_top_jungle', [{ x: 10200, y: 12500 }, { x: 4000, y: 12500 }, { x: 7500, y: 9000 }, { x: 10350, y: 11850 }, { x: 10200, y: 12000 }]],
+  ['red_bot_jungle', [{ x: 12500, y: 10200 }, { x: 12500, y: 4000 }, { x: 9000, y: 7500 }, { x: 11850, y: 10350 }, { x: 12000, y: 10200 }]],
+];
+
+export const SUMMONERS_RIFT: MapGeometry = {
+  id: 'summoners-rift',
+  fountains: {
+    100: { x: 554, y: 581 },
+    200: { x: 14287, y: 14383 },
+  },
+  turrets: RIFT_TURRETS,
+  regions: RIFT_REGIONS,
+};
+
+// Howling Abyss turrets (approximate, every turret is on the single mid lane)
+const ABYSS_TURRETS: Turret[] = [
+  { teamId: 100, lane: 'MID_LANE', tier: 'OUTER_TURRET', position: { x: 5230, y: 5370 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'INNER_TURRET', position: { x: 4050, y: 4130 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'BASE_TURRET', position: { x: 3250, y: 3120 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 1990, y: 2420 } },
+  { teamId: 100, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 2420, y: 1990 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'OUTER_TURRET', position: { x: 7760, y: 7620 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'INNER_TURRET', position: { x: 8940, y: 8860 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'BASE_TURRET', position: { x: 9740, y: 9870 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 11000, y: 10570 } },
+  { teamId: 200, lane: 'MID_LANE', tier: 'NEXUS_TURRET', position: { x: 10570, y: 11000 } },
+];
+
+export const HOWLING_ABYSS: MapGeometry = {
+  id: 'howling-abyss',
+  fountains: {
+    100: { x: 400, y: 400 },
+    200: { x: 12590, y: 12590 },
+  },
+  turrets: ABYSS_TURRETS,
+  regions: [
+    ['blue_base', [{ x: 0, y: 0 }, { x: 0, y: 4000 }, { x: 3400, y: 3400 }, { x: 4000, y: 0 }]],
+    ['red_base', [{ x: 13000, y: 13000 }, { x: 13000, y: 9000 }, { x: 9600, y: 9600 }, { x: 9000, y: 13000 }]],
+  ],
+  // Everything between the bases is the lane (walls are not walkable)
+  fallbackRegion: 'mid_lane',
+};
+
+const REGION_TO_ZONE: Record<MapRegion, MapZone> = {
+  blue_base: 'blue_base',
+  red_base: 'red_base',
+  top_lane: 'top_lane',
+  mid_lane: 'mid_lane',
+  bot_lane: 'bot_lane',
+  dragon_pit: 'dragon_pit',
+  baron_pit: 'baron_pit',
+  river_top: 'river_top',
+  river_bot: 'river_bot',
+  blue_top_jungle: 'blue_jungle',
+  blue_bot_jungle: 'blue_jungle',
+  red_top_jungle: 'red_jungle',
+  red_bot_jungle: 'red_jungle',
+};
+
+export function calculateDistance(p1: Position, p2: Position): number {
+  return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2));
+}
+
+// Ray casting point-in-polygon test (works for concave polygons like the lanes)
+function isInPolygon(position: Position, polygon: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > position.y) !== (b.y > position.y) &&
+        position.x < ((b.x - a.x) * (position.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function getMapRegion(position: Position, map: MapGeometry = SUMMONERS_RIFT): MapRegion {
+  const match = map.regions.find(([, polygon]) => isInPolygon(position, polygon));
+  if (match) return match[0];
+  if (map.fallbackRegion) return map.fallbackRegion;
+
+  // Outside every polygon (map edges, seams): fall back to the side of the river and the mid lane
+  const side = position.x + position.y < 15000 ? 'blue' : 'red';
+  const half = position.y > position.x ? 'top' : 'bot';
+  return `${side}_${half}_jungle` as MapRegion;
+}
+
+// Map zone and how safe it is for the player's team
+export function getMapZone(
+  position: Position,
+  playerTeamId: number,
+  map: MapGeometry = SUMMONERS_RIFT
+): { zone: MapZone; safety: 'safe' | 'neutral' | 'danger' } {
+  const zone = REGION_TO_ZONE[getMapRegion(position, map)];
+  const ownSide = playerTeamId === 100 ? 'blue' : 'red';
+
+  if (zone === 'dragon_pit' || zone === 'baron_pit') {
+    return { zone, safety: 'danger' };
+  }
+  if (zone === 'blue_base' || zone === 'red_base' || zone === 'blue_jungle' || zone === 'red_jungle') {
+    return { zone, safety: zone.startsWith(ownSide) ? 'safe' : 'danger' };
+  }
+  return { zone, safety: 'neutral' };
+}
+
+export function getLane(position: Position, map: MapGeometry = SUMMONERS_RIFT): Lane | null {
+  const region = getMapRegion(position, map);
+  if (region === 'top_lane') return 'top';
+  if (region === 'mid_lane') return 'mid';
+  if (region === 'bot_lane') return 'bot';
+  return null;
+}
+
+export function isInLane(position: Position, lane: Lane, map: MapGeometry = SUMMONERS_RIFT): boolean {
+  return getLane(position, map) === lane;
+}
+
+export function isInBase(position: Position, teamId: number, map: MapGeometry = SUMMONERS_RIFT): boolean {
+  return getMapRegion(position, map) === (teamId === 100 ? 'blue_base' : 'red_base');
+}
+
+// Standing on the fountain platform (e.g. right after a recall)
+export function isInFountain(position: Position, teamId: number, map: MapGeometry = SUMMONERS_RIFT): boolean {
+  return calculateDistance(position, map.fountains[teamId === 100 ? 100 : 200]) < FOUNTAIN_RADIUS;
+}
+
+// True if the position is closer to the team's fountain than to the enemy one
+export function isOnOwnSide(position: Position, teamId: number, map: MapGeometry = SUMMONERS_RIFT): boolean {
+  const own = map.fountains[teamId === 100 ? 100 : 200];
+  const enemy = map.fountains[teamId === 100 ? 200 : 100];
+  return calculateDistance(position, own) < calculateDistance(position, enemy);
+}
+
+export function getLaneType(lane: Lane): LaneType {
+  return LANE_TYPES[lane];
+}
+
+/**
+ * All turrets with the time they fell, from BUILDING_KILL events.
+ * Events are matched on team, lane and tier, then on the closest position (nexus turrets share lane and tier).
+ */
+export function getTurretStates(frames: TimelineFrame[], map: MapGeometry = SUMMONERS_RIFT): TurretState[] {
+  const turrets: TurretState[] = map.turrets.map(turret => ({ ...turret, destroyedAt: null }));
+
+  for (const event of frames.flatMap(f => f.events)) {
+    if (event.type !== 'BUILDING_KILL' || event.buildingType !== 'TOWER_BUILDING') continue;
+
+    const candidates = turrets.filter(t =>
+      t.destroyedAt === null &&
+      t.teamId === event.teamId &&
+      (!event.laneType || t.lane === event.laneType) &&
+      (!event.towerType || t.tier === event.towerType)
+    );
+    if (candidates.length === 0) continue;
+
+    const position = event.position;
+    const turret = position
+      ? candidates.reduce((best, t) => calculateDistance(t.position, position) < calculateDistance(best.position, position) ? t : best)
+      : candidates[0];
+    turret.destroyedAt = event.timestamp;
+  }
+
+  return turrets;
+}
+
+export function getAliveTurrets(turrets: TurretState[], timestampMs: number): TurretState[] {
+  return turrets.filter(t => t.destroyedAt === null || t.destroyedAt > timestampMs);
+}
+
+// In range of an enemy turret still standing at that time
+export function isUnderEnemyTurret(
+  position: Position,
+  playerTeamId: number,
+  turrets: TurretState[],
+  timestampMs: number
+): boolean {
+  return getAliveTurrets(turrets, timestampMs).some(t =>
+    t.teamId !== playerTeamId && calculateDistance(position, t.position) < TURRET_RANGE
+  );
+}
@@ -0,0 +1,163 @@
+// Percentiles - Where a player's per-game metrics sit among Nexra players of the same role and bracket
+// Distributions are aggregated from completed analyses (see services/metric-distributions)
+
+import { Benchmarks, BenchmarkRange } from './benchmarks';
+
+export const RANK_METRICS = ['csPerMin', 'visionScore', 'kda', 'dpm', 'deathsPerMin'] as const;
+export type RankMetric = typeof RANK_METRICS[number];
+
+export type PlayerMetrics = Record<RankMetric, number>;
+
+// Quantiles of a metric: quantiles[p] is the value at the p-th percentile (101 entries, 0..100)
+export interface MetricDistribution {
+  sampleSize: number;
+  mean: number;
+  quantiles: number[];
+}
+
+export interface RankComparison {
+  metric: string;
+  yours: number;
+  average: number;
+  percentile: number; // Share of players doing worse, 0-100
+  sampleSize: number; // Analyses behind the percentile, 0 when estimated from benchmarks
+}
+
+// Below this many samples a distribution is too noisy, percentiles are estimated from benchmarks instead
+export const MIN_DISTRIBUTION_SAMPLES = 30;
+
+const METRIC_LABELS: Record<RankMetric, string> = {
+  csPerMin: 'CS/min',
+  visionScore: 'Vision Score',
+  kda: 'KDA',
+  dpm: 'DPM',
+  deathsPerMin: 'Deaths/min',
+};
+
+const LOWER_IS_BETTER: Record<RankMetric, boolean> = {
+  csPerMin: false,
+  visionScore: false,
+  kda: false,
+  dpm: false,
+  deathsPerMin: true,
+};
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export function computePlayerMetrics(stats: {
+  kills: number;
+  deaths: number;
+  assists: number;
+  cs: number;
+  visionScore: number;
+  damageDealt: number;
+  duration: number; // seconds
+}): PlayerMetrics {
+  const minutes = Math.max(1, stats.duration / 60);
+  return {
+    csPerMin: round(stats.cs / minutes, 1),
+    visionScore: stats.visionScore,
+    kda: round((stats.kills + stats.assists) / Math.max(1, stats.deaths), 2),
+    dpm: Math.round(stats.damageDealt / minutes),
+    deathsPerMin: round(stats.deaths / minutes, 2),
+  };
+}
+
+export function buildDistribution(values: number[]): MetricDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return { sampleSize: 0, mean: 0, quantiles: [] };
+  }
+
+  // Linear interpolation between closest ranks
+  const quantiles: number[] = [];
+  for (let p = 0; p <= 100; p++) {
+    const rank = (p / 100) * (sorted.length - 1);
+    const low = Math.floor(rank);
+    const high = Math.ceil(rank);
+    quantiles.push(round(sorted[low] + (sorted[high] - sorted[low]) * (rank - low), 2));
+  }
+
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  return { sampleSize: sorted.length, mean: round(mean, 2), quantiles };
+}
+
+/**
+ * Percentile of a value in a distribution. A value shared by many players (e.g. 0 deaths)
+ * lands in the middle of their range rather than at its top.
+ */
+export function percentileOf(distribution: MetricDistribution, value: number): number {
+  const q = distribution.quantiles;
+  if (q.length === 0) return 50;
+  if (value < q[0]) return 0;
+  if (value > q[q.length - 1]) return 100;
+
+  const first = q.findIndex(v => v >= value);
+  let last = first;
+  while (last + 1 < q.length && q[last + 1] <= value) last++;
+
+  if (q[first] === value) {
+    return (first + last) / 2;
+  }
+  // value lies strictly between q[first - 1] and q[first]
+  const low = first - 1;
+  return low + (value - q[low]) / (q[first] - q[low]);
+}
+
+/**
+ * Percentile estimated from a benchmark range, for role/bracket pairs without enough data yet:
+ * poor is the 25th percentile, average the 50th and good the 75th.
+ */
+export function estimatePercentile(range: BenchmarkRange, value: number, lowerIsBetter = false): number {
+  const sign = lowerIsBetter ? -1 : 1;
+  const points: [number, number][] = [
+    [sign * range.poor, 25],
+    [sign * range.average, 50],
+    [sign * range.good, 75],
+  ];
+  const v = sign * value;
+
+  // Segment containing the value, extended past both ends
+  const [[x0, y0], [x1, y1]] = v < points[1][0] ? [points[0], points[1]] : [points[1], points[2]];
+  const estimate = x1 === x0 ? 50 : y0 + ((v - x0) / (x1 - x0)) * (y1 - y0);
+  return Math.min(99, Math.max(1, estimate));
+}
+
+function benchmarkRange(benchmarks: Benchmarks, metric: RankMetric): BenchmarkRange {
+  return metric === 'deathsPerMin' ? benchmarks.scoring.deathsPerMin : benchmarks[metric];
+}
+
+/**
+ * comparedToRank entries: Nexra distributions when they have enough samples, benchmarks otherwise.
+ */
+export function buildRankComparison(
+  metrics: PlayerMetrics,
+  distributions: Partial<Record<RankMetric, MetricDistribution>>,
+  benchmarks: Benchmarks
+): RankComparison[] {
+  return RANK_METRICS.map(metric => {
+    const value = metrics[metric];
+    const distribution = distributions[metric];
+    const lowerIsBetter = LOWER_IS_BETTER[metric];
+
+    if (distribution && distribution.sampleSize >= MIN_DISTRIBUTION_SAMPLES) {
+      const percentile = percentileOf(distribution, value);
+      return {
+        metric: METRIC_LABELS[metric],
+        yours: value,
+        average: distribution.mean,
+        percentile: Math.round(lowerIsBetter ? 100 - percentile : percentile),
+        sampleSize: distribution.sampleSize,
+      };
+    }
+
+    const range = benchmarkRange(benchmarks, metric);
+    return {
+      metric: METRIC_LABELS[metric],
+      yours: value,
+      average: range.average,
+      percentile: Math.round(estimatePercentile(range, value, lowerIsBetter)),
+      sampleSize: 0,
+    };
+  });
+}
@@ -0,0 +1,90 @@
+// Game Mode Profiles - Map, detectors, benchmarks and score weights for each supported queue
+
+import { AramBenchmarks } from './types';
+import { MapGeometry, SUMMONERS_RIFT, HOWLING_ABYSS } from './map';
+import { ScoreWeights, DEFAULT_SCORE_WEIGHTS } from './generators/score-calculator';
+
+export type GameModeId = 'summoners-rift' | 'aram';
+
+export type DetectorId =
+  | 'deaths'
+  | 'cs'
+  | 'vision'
+  | 'objectives'
+  | 'waves'
+  | 'recalls'
+  | 'itemization'
+  | 'skill-order'
+  | 'teamfights'
+  | 'jungle'
+  | 'roams'
+  | 'lane-phase'
+  | 'death-timers'
+  | 'aram';
+
+export interface GameModeProfile {
+  id: GameModeId;
+  name: string;
+  map: MapGeometry;
+  detectors: DetectorId[];
+  scoreWeights: ScoreWeights;
+  usesRoles: boolean; // false = no lanes/roles, role prompts don't apply
+  aram?: AramBenchmarks;
+}
+
+// Ranked, normals, swiftplay, quickplay, clash and Co-op vs AI (customs and practice tool, queue 0, are resolved from gameMode)
+const SUMMONERS_RIFT_QUEUES = [400, 420, 430, 440, 480, 490, 700, 870, 880, 890];
+const ARAM_QUEUES = [450];
+
+export const ARAM_BENCHMARKS: AramBenchmarks = {
+  minDamageShare: 0.15,
+  maxDeathsPer10: 5,
+  maxPokeRatio: 1.5,
+};
+
+export const GAME_MODE_PROFILES: Record<GameModeId, GameModeProfile> = {
+  'summoners-rift': {
+    id: 'summoners-rift',
+    name: 'Summoner\'s Rift',
+    map: SUMMONERS_RIFT,
+    detectors: [
+      'deaths', 'cs', 'vision', 'objectives', 'waves', 'recalls', 'itemization',
+      'skill-order', 'teamfights', 'jungle', 'roams', 'lane-phase', 'death-timers',
+    ],
+    scoreWeights: DEFAULT_SCORE_WEIGHTS,
+    usesRoles: true,
+  },
+  aram: {
+    id: 'aram',
+    name: 'ARAM',
+    map: HOWLING_ABYSS,
+    // No vision, objectives, lanes or recalls on the Howling Abyss
+    detectors: ['deaths', 'skill-order', 'teamfights', 'aram'],
+    scoreWeights: {
+      csScore: 0,
+      visionScore: 0,
+      positioningScore: 0.5,
+      objectiveScore: 0,
+      tradingScore: 0.5,
+    },
+    usesRoles: false,
+    aram: ARAM_BENCHMARKS,
+  },
+};
+
+/**
+ * Profile for a match from its queueId (or gameMode when the queue is unknown).
+ * Returns null for unsupported modes (URF, One for All, Arena...).
+ */
+export function getGameModeProfile(queueId?: number, gameMode?: string): GameModeProfile | null {
+  if (queueId !== undefined) {
+    if (SUMMONERS_RIFT_QUEUES.includes(queueId)) return GAME_MODE_PROFILES['summoners-rift'];
+    if (ARAM_QUEUES.includes(queueId)) return GAME_MODE_PROFILES.aram;
+    if (queueId !== 0) return null;
+  }
+
+  const mode = gameMode?.toUpperCase();
+  if (!mode || mode === 'CLASSIC' || mode === 'PRACTICETOOL') return GAME_MODE_PROFILES['summoners-rift'];
+  if (mode === 'ARAM') return GAME_MODE_PROFILES.aram;
+  return null;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { inferRoles, applyInferredRoles, SMITE_SPELL_ID } from './role-inference';
+import { MatchParticipant, TimelineFrame } from './types';
+
+type Spot = { x: number; y: number };
+
+const TOP: Spot = { x: 1000, y: 9000 };
+const JUNGLE: Spot = { x: 4000, y: 7000 };
+const MID: Spot = { x: 7000, y: 7000 };
+const BOT: Spot = { x: 10000, y: 1000 };
+
+interface Player {
+  id: number;
+  teamPosition: string;
+  spots: Spot[]; // Position at minutes 2 to 10
+  minionsAt10: number;
+  jungleAt10?: number;
+  smite?: boolean;
+}
+
+function participant(player: Player): MatchParticipant {
+  return {
+    participantId: player.id,
+    puuid: `puuid-${player.id}`,
+    championId: player.id,
+    championName: `Champion${player.id}`,
+    teamId: 100,
+    teamPosition: player.teamPosition,
+    kills: 0,
+    deaths: 0,
+    assists: 0,
+    win: true,
+    totalGold: 0,
+    visionScore: 0,
+    totalMinionsKilled: player.minionsAt10,
+    neutralMinionsKilled: player.jungleAt10 || 0,
+    summoner1Id: player.smite ? SMITE_SPELL_ID : 4,
+    summoner2Id: 14,
+  };
+}
+
+function buildFrames(players: Player[]): TimelineFrame[] {
+  return Array.from({ length: 11 }, (_, minute) => ({
+    timestamp: minute * 60000,
+    events: [],
+    participantFrames: Object.fromEntries(players.map(player => [player.id.toString(), {
+      participantId: player.id,
+      position: minute >= 2 ? player.spots[minute - 2] : { x: 554, y: 581 },
+      currentGold: 0,
+      totalGold: 0,
+      level: 1,
+      xp: 0,
+      minionsKilled: minute === 10 ? player.minionsAt10 : 0,
+      jungleMinionsKilled: minute === 10 ? player.jungleAt10 || 0 : 0,
+      timeEnemySpentControlled: 0,
+    }])),
+  }));
+}
+
+const always = (spot: Spot) => Array(9).fill(spot);
+
+// Riot swapped the bot lane: the carry is listed as UTILITY and the support as BOTTOM
+function swappedBotLane(supportSpots: Spot[], supportMinions: number): Player[] {
+  return [
+    { id: 1, teamPosition: 'TOP', spots: always(TOP), minionsAt10: 70 },
+    { id: 2, teamPosition: 'JUNGLE', spots: always(JUNGLE), minionsAt10: 0, jungleAt10: 50, smite: true },
+    { id: 3, teamPosition: 'MIDDLE', spots: always(MID), minionsAt10: 75 },
+    { id: 4, teamPosition: 'BOTTOM', spots: supportSpots, minionsAt10: supportMinions },
+    { id: 5, teamPosition: 'UTILITY', spots: always(BOT), minionsAt10: 45 },
+  ];
+}
+
+function positions(players: Player[]): Map<number, string> {
+  const participants = players.map(participant);
+  const roles = inferRoles(buildFrames(players), participants);
+  return new Map(applyInferredRoles(participants, roles).map(p => [p.participantId, p.teamPosition]));
+}
+
+describe('inferRoles', () => {
+  it('swaps the whole bot lane when every reassigned player is confidently placed', () => {
+    const players = swappedBotLane(always(BOT), 10);
+    const roles = inferRoles(buildFrames(players), players.map(participant));
+
+    expect(roles.get(4)).toMatchObject({ position: 'UTILITY', source: 'inferred', riotPosition: 'BOTTOM' });
+    expect(roles.get(5)).toMatchObject({ position: 'BOTTOM', source: 'inferred', riotPosition: 'UTILITY' });
+    expect(roles.get(1)).toMatchObject({ position: 'TOP', source: 'riot' });
+  });
+
+  it('keeps Riot positions for the whole team when one reassignment is not confident', () => {
+    // Support inferred as UTILITY at ~0.53 only (a minute in mid lane, some minions), carry as BOTTOM at 0.9
+    const players = swappedBotLane([MID, ...Array(8).fill(BOT)], 20);
+    const roles = inferRoles(buildFrames(players), players.map(participant));
+
+    expect(roles.get(4)).toMatchObject({ position: 'BOTTOM', source: 'riot', confidence: 0.36 });
+    expect(roles.get(5)).toMatchObject({ position: 'UTILITY', source: 'riot', confidence: 0.1 });
+
+    const resolved = [...positions(players).values()];
+    expect(new Set(resolved).size).toBe(resolved.length);
+  });
+
+  it('never gives two teammates the same position', () => {
+    for (const minions of [0, 10, 20, 30, 40, 50]) {
+      const resolved = [...positions(swappedBotLane([MID, MID, ...Array(7).fill(BOT)], minions)).values()];
+      expect(new Set(resolved).size).toBe(resolved.length);
+    }
+  });
+
+  it('infers every position when Riot reports none', () => {
+    const players = swappedBotLane(always(BOT), 10).map(p => ({ ...p, teamPosition: '' }));
+
+    expect([...positions(players).entries()]).toEqual([
+      [1, 'TOP'],
+      [2, 'JUNGLE'],
+      [3, 'MIDDLE'],
+      [4, 'UTILITY'],
+      [5, 'BOTTOM'],
+    ]);
+  });
+
+  it('leaves a position unset when Riot reports none and the player cannot be placed', () => {
+    const players = swappedBotLane(always(BOT), 10).map(p => ({ ...p, teamPosition: '' }));
+    players[4] = { ...players[4], spots: always({ x: 554, y: 581 }), minionsAt10: 0 };
+    const roles = inferRoles(buildFrames(players), players.map(participant));
+
+    expect(roles.get(5)).toMatchObject({ position: '', source: 'riot', confidence: 0 });
+    expect(roles.get(4)).toMatchObject({ position: 'UTILITY', source: 'inferred' });
+  });
+});
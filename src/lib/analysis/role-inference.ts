@@ -0,0 +1,159 @@
+// Role Inference - Classifies each participant's role from early positions, jungle CS and summoner spells
+// Used when Riot's teamPosition is empty (customs, remakes, some normals) or swapped (e.g. bot/support)
+
+import { TimelineFrame, MatchParticipant, RoleInference } from './types';
+import { getMapRegion } from './map';
+
+export type TeamPosition = 'TOP' | 'JUNGLE' | 'MIDDLE' | 'BOTTOM' | 'UTILITY';
+
+const POSITIONS: TeamPosition[] = ['TOP', 'JUNGLE', 'MIDDLE', 'BOTTOM', 'UTILITY'];
+
+export const SMITE_SPELL_ID = 11;
+
+// Positions are sampled between 2:00 (after leaving base) and 10:00 (before lanes swap)
+const SAMPLE_START_MINUTE = 2;
+const SAMPLE_END_MINUTE = 10;
+
+// Minion CS at 10:00 of a carry on the bot lane (supports sit far below)
+const BOT_CARRY_CS_AT_10 = 50;
+
+// Jungle CS at 10:00 that clearly marks a jungler
+const JUNGLER_CS_AT_10 = 40;
+
+// Below this confidence Riot's teamPosition is kept when it exists
+const OVERRIDE_CONFIDENCE = 0.6;
+
+function hasSmite(participant: MatchParticipant): boolean {
+  return participant.summoner1Id === SMITE_SPELL_ID || participant.summoner2Id === SMITE_SPELL_ID;
+}
+
+// Score (0-1) of each position for one participant
+function scorePositions(frames: TimelineFrame[], participant: MatchParticipant): Record<TeamPosition, number> {
+  const key = participant.participantId.toString();
+  const lastIndex = Math.min(frames.length - 1, SAMPLE_END_MINUTE);
+  const laneFrames = { top_lane: 0, mid_lane: 0, bot_lane: 0 };
+  let samples = 0;
+
+  for (let i = SAMPLE_START_MINUTE; i <= lastIndex; i++) {
+    const position = frames[i].participantFrames[key]?.position;
+    if (!position) continue;
+    samples++;
+    const region = getMapRegion(position);
+    if (region === 'top_lane' || region === 'mid_lane' || region === 'bot_lane') {
+      laneFrames[region]++;
+    }
+  }
+
+  const frameAt10 = frames[lastIndex]?.participantFrames[key];
+  const jungleCS = frameAt10?.jungleMinionsKilled || 0;
+  const minionCS = frameAt10?.minionsKilled || 0;
+  const share = (count: number) => samples > 0 ? count / samples : 0;
+  const botCarry = Math.min(1, minionCS / BOT_CARRY_CS_AT_10);
+
+  return {
+    TOP: share(laneFrames.top_lane),
+    JUNGLE: (hasSmite(participant) ? 0.6 : 0) + 0.4 * Math.min(1, jungleCS / JUNGLER_CS_AT_10),
+    MIDDLE: share(laneFrames.mid_lane),
+    BOTTOM: share(laneFrames.bot_lane) * botCarry,
+    UTILITY: share(laneFrames.bot_lane) * (1 - botCarry),
+  };
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+function isTeamPosition(position: string | undefined): position is TeamPosition {
+  return POSITIONS.includes(position as TeamPosition);
+}
+
+/**
+ * Infers the role of every participant, one role per team (best total score over all assignments).
+ * The decision is made per team so two teammates never share a position: the inferred assignment
+ * replaces Riot's when every reassigned player is confidently placed, otherwise the whole team keeps
+ * Riot's positions. When Riot's are incomplete, players who cannot be placed confidently keep theirs.
+ * The confidence is the share of the participant's score that went to the position kept.
+ */
+export function inferRoles(frames: TimelineFrame[], participants: MatchParticipant[]): Map<number, RoleInference> {
+  const inferred = new Map<number, RoleInference>();
+
+  for (const teamId of [100, 200]) {
+    const team = participants.filter(p => p.teamId === teamId);
+    if (team.length === 0 || team.length > POSITIONS.length) continue;
+    const scores = new Map(team.map(p => [p.participantId, scorePositions(frames, p)]));
+
+    // Smaller teams (remakes, customs) take the first positions of each permutation
+    let best = -1;
+    let assignment = POSITIONS.slice(0, team.length);
+    for (const candidate of permutations(POSITIONS)) {
+      const total = team.reduce((sum, p, i) => sum + scores.get(p.participantId)![candidate[i]], 0);
+      if (total > best) {
+        best = total;
+        assignment = candidate.slice(0, team.length);
+      }
+    }
+
+    const confidenceOf = (participant: MatchParticipant, position: string) => {
+      const playerScores = scores.get(participant.participantId)!;
+      const total = POSITIONS.reduce((sum, p) => sum + playerScores[p], 0);
+      return total > 0 && isTeamPosition(position) ? playerScores[position] / total : 0;
+    };
+
+    const riotPositions = team.map(p => p.teamPosition);
+    const riotComplete = riotPositions.every(isTeamPosition) && new Set(riotPositions).size === team.length;
+    const confident = team.map((participant, i) =>
+      assignment[i] === participant.teamPosition || confidenceOf(participant, assignment[i]) >= OVERRIDE_CONFIDENCE
+    );
+    const useInferred = !riotComplete || confident.every(Boolean);
+
+    // Incomplete Riot positions: only confident players are moved, the others keep Riot's position
+    // (left unset when it is missing or already held by a teammate)
+    const taken = new Set(assignment.filter((_, i) => confident[i]));
+    const positions = team.map((participant, i) => {
+      if (!useInferred) return participant.teamPosition;
+      if (confident[i]) return assignment[i];
+      if (!isTeamPosition(participant.teamPosition) || taken.has(participant.teamPosition)) return '';
+      taken.add(participant.teamPosition);
+      return participant.teamPosition;
+    });
+
+    team.forEach((participant, i) => {
+      const riotPosition = participant.teamPosition || undefined;
+      const position = positions[i];
+      const confidence = confidenceOf(participant, position);
+
+      inferred.set(participant.participantId, {
+        position,
+        confidence: Math.round(confidence * 100) / 100,
+        source: useInferred && confident[i] && position !== riotPosition ? 'inferred' : 'riot',
+        riotPosition,
+      });
+    });
+  }
+
+  return inferred;
+}
+
+/**
+ * Participants with their resolved teamPosition, so that lane opponents match the real lanes.
+ */
+export function applyInferredRoles(
+  participants: MatchParticipant[],
+  roles: Map<number, RoleInference>
+): MatchParticipant[] {
+  return participants.map(p => {
+    const role = roles.get(p.participantId);
+    return role ? { ...p, teamPosition: role.position } : p;
+  });
+}
+
+// Role guess without a timeline (practice games): only summoner spells are known
+export function inferRoleFromSpells(summoner1Id?: number, summoner2Id?: number): RoleInference | null {
+  if (summoner1Id === SMITE_SPELL_ID || summoner2Id === SMITE_SPELL_ID) {
+    return { position: 'JUNGLE', confidence: 0.6, source: 'inferred' };
+  }
+  return null;
+}
@@ -19,6 +19,10 @@ export interface ParticipantFrame {
   minionsKilled: number;
   jungleMinionsKilled: number;
   timeEnemySpentControlled: number;
+  damageStats?: {
+    totalDamageDoneToChampions: number;
+    totalDamageTaken: number;
+  };
 }
 
 // Timeline Events
@@ -76,7 +80,8 @@ export interface TimelineEvent {
   beforeId?: number;
   goldGain?: number;
   // SKILL/LEVEL
-  skillSlot?: number;
+  skillSlot?: number; // 1=Q, 2=W, 3=E, 4=R
+  levelUpType?: 'NORMAL' | 'EVOLVE';
 }
 
 // Match participant info
@@ -95,6 +100,9 @@ export interface MatchParticipant {
   visionScore: number;
   totalMinionsKilled: number;
   neutralMinionsKilled: number;
+  totalDamageDealtToChampions?: number;
+  summoner1Id?: number;
+  summoner2Id?: number;
 }
 
 // Analysis context for a specific moment
@@ -152,6 +160,142 @@ export interface ObjectiveContext {
   goldDifferential: number;
 }
 
+// Teamfight reconstructed from grouped CHAMPION_KILL events
+export interface Teamfight {
+  start: number; // seconds
+  end: number; // seconds
+  position: { x: number; y: number }; // center of the kills
+  allies: string[]; // champions involved on the player's team
+  enemies: string[];
+  kills: { ally: number; enemy: number }; // kills scored by each side
+  outcome: 'won' | 'lost' | 'even';
+  playerAlive: boolean;
+  playerInvolved: boolean;
+  playerPosition?: { x: number; y: number };
+  playerDistance: number; // distance to the fight center, -1 if unknown
+  playerDiedFirst: boolean;
+}
+
+// Lane state vs the lane opponent at a given minute
+export interface LaneSnapshot {
+  gold: number;
+  xp: number;
+  cs: number; // minions + jungle monsters
+  level: number;
+  goldDiff: number;
+  xpDiff: number;
+  csDiff: number;
+  levelDiff: number;
+}
+
+export interface LaneDifferentials {
+  opponent: string; // lane opponent champion
+  at10?: LaneSnapshot;
+  at15?: LaneSnapshot;
+  at20?: LaneSnapshot;
+}
+
+// Objective taken by either team, with the player's state at that moment
+export interface ObjectiveEvent {
+  type: 'dragon' | 'elder' | 'baron' | 'herald' | 'grubs' | 'plate' | 'tower' | 'inhibitor' | 'soul';
+  timestamp: number; // seconds
+  takenByPlayerTeam: boolean;
+  lane?: string; // plates, towers and inhibitors
+  playerDistance: number;
+  playerAlive: boolean;
+}
+
+// Win probability of the player's team at a point in time
+export interface WinProbabilityPoint {
+  timestamp: number; // seconds
+  probability: number; // 0-1
+  event?: string; // key event at this point (tower, dragon, baron...)
+}
+
+// Biggest win probability changes of the game
+export interface SwingMoment {
+  timestamp: number; // seconds
+  before: number;
+  after: number;
+  delta: number; // percentage points
+  cause: string;
+}
+
+// Positive moment worth showing to the player (e.g. a roam that paid off)
+export interface Highlight {
+  type: string;
+  timestamp: number; // seconds
+  title: string;
+  description: string;
+}
+
+// Jungle pathing summary (JUNGLE players only)
+export type JungleArea =
+  | 'base'
+  | 'top-lane'
+  | 'mid-lane'
+  | 'bot-lane'
+  | 'river'
+  | 'blue-top-jungle'
+  | 'blue-bot-jungle'
+  | 'red-top-jungle'
+  | 'red-bot-jungle';
+
+export interface GankAttempt {
+  timestamp: number; // seconds
+  lane: 'top' | 'mid' | 'bot';
+  kills: number; // enemies killed
+  deaths: number; // allies lost (including the jungler)
+  success: boolean;
+  outcome: 'kill' | 'death' | 'trade' | 'nothing';
+}
+
+export interface JungleSummary {
+  clearPath: Array<{
+    timestamp: number; // seconds
+    area: JungleArea;
+    position: { x: number; y: number };
+    jungleCS: number; // jungle CS gained during the minute
+  }>;
+  firstClearEndsAt: number; // seconds, 0 if no back detected
+  ganks: GankAttempt[];
+  counterJungleMinutes: number;
+  objectiveSpawns: number;
+  objectiveSpawnsPresent: number;
+}
+
+// Role of a participant, from Riot's teamPosition or inferred from the timeline
+export interface RoleInference {
+  position: string; // TOP, JUNGLE, MIDDLE, BOTTOM, UTILITY
+  confidence: number; // 0-1
+  source: 'riot' | 'inferred';
+  riotPosition?: string; // teamPosition reported by Riot, if any
+  laneOpponent?: string; // champion played by the resolved lane opponent
+}
+
+// ARAM benchmarks (Howling Abyss profile)
+export interface AramBenchmarks {
+  minDamageShare: number; // share of the team's champion damage (0-1)
+  maxDeathsPer10: number; // deaths per 10 minutes
+  maxPokeRatio: number; // poke taken vs team average
+}
+
+// Item timings measured for the player (seconds), with the lane opponent's completions to compare
+export interface ItemizationSummary {
+  legendaryItems: Array<{ itemId: number; completedAt: number }>;
+  opponentLegendaryItems?: Array<{ itemId: number; completedAt: number }>; // No lane opponent: omitted
+  controlWardsBought: number;
+  longestControlWardGap: number; // minutes without buying a control ward after laning phase
+}
+
+// ARAM benchmarks measured for the player (Howling Abyss profile)
+export interface AramSummary {
+  damageShare: number; // % of the team's champion damage
+  deathsPer10: number;
+  pokeTakenPerMin: number; // damage taken outside fights
+  teamPokeTakenPerMin: number;
+}
+
 // Map zones based on coordinates
 export type MapZone =
   | 'blue_base'
@@ -166,12 +310,30 @@ export type MapZone =
   | 'mid_lane'
   | 'bot_lane';
 
+// Engine text: a catalog key plus the values interpolated into it (rendered by i18n)
+export type MessageParam = string | number | Message | Message[];
+
+export interface Message {
+  key: string;
+  params?: Record<string, MessageParam>;
+}
+
 // Detector result
 export interface DetectorResult {
-  errors: DetectedError[];
+  errors: DetectorError[];
   stats: DetectorStats;
 }
 
+// Error as emitted by a detector: title, description, suggestion and coachingNote
+// are rendered from `message` in the requested language by analyzeMatch
+export type DetectorError = Omit<DetectedError, 'id' | 'title' | 'description' | 'suggestion' | 'coachingNote'> & {
+  message: Message;
+};
+
+export type DetectorHighlight = Omit<Highlight, 'title' | 'description'> & {
+  message: Message;
+};
+
 export interface DetectedError {
   id?: string;
   type: string;
@@ -181,6 +343,7 @@ export interface DetectedError {
   description: string;
   suggestion: string;
   coachingNote?: string;
+  impact?: number; // Win probability delta (percentage points) around the error, negative = cost
   context: {
     goldState?: {
       player: number;
@@ -206,6 +369,12 @@ export interface DetectedError {
       opponent: number;
       differential: number;
     };
+    objectiveState?: {
+      objective: string; // monster types lost (e.g. 'DRAGON', 'BARON_NASHOR + RIFTHERALD')
+      takenAt: number; // seconds
+      timeDead: number; // respawn timer in seconds
+      secondsBeforeObjective: number; // time between the death and the objective
+    };
     gamePhase: 'early' | 'mid' | 'late';
   };
 }
@@ -231,7 +400,18 @@ export interface AnalysisResult {
     tradingScore: number;
     deathsAnalyzed: number;
     errorsFound: number;
+    skillOrder: string[]; // Ability ranked at each level, e.g. ['Q', 'E', 'W', 'Q', ...]
+    jungle?: JungleSummary;
+    highlights: Highlight[];
+    laning?: LaneDifferentials;
+    winProbability: WinProbabilityPoint[];
+    swingMoments: SwingMoment[];
+    objectiveEvents: ObjectiveEvent[];
+    aram?: AramSummary;
+    itemization?: ItemizationSummary;
+    role?: RoleInference;
   };
+  teamfights: Teamfight[];
   tips: Array<{
     id: string;
     category: string;
@@ -63,6 +63,29 @@ export async function requireOwnership(c: Context<{ Bindings: Env }>, next: Next
   await next();
 }
 
+// Constant-time string comparison (no early exit on the first differing character)
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Middleware for admin endpoints: "X-Admin-Key" header must match the ADMIN_API_KEY secret
+export async function requireAdmin(c: Context<{ Bindings: Env }>, next: Next) {
+  const expected = c.env.ADMIN_API_KEY;
+  const provided = c.req.header('X-Admin-Key');
+
+  // Admin endpoints are disabled until the secret is set
+  if (!expected || !provided || !safeEqual(provided, expected)) {
+    return c.json({ success: false, error: 'Access denied' }, 403);
+  }
+
+  await next();
+}
+
 // Rate limiting middleware using KV for distributed rate limiting
 export function rateLimit(options: {
   windowMs: number;
@@ -0,0 +1,158 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Env, ApiResponse } from '../types';
+import { requireAdmin } from '../middleware/auth';
+import { BENCHMARK_ROLES, BENCHMARK_TIERS, BenchmarkOverride, Benchmarks, resolveBenchmarks } from '../lib/analysis/benchmarks';
+import { listBenchmarkOverrides, loadBenchmarkOverrides, saveBenchmarkOverride, deleteBenchmarkOverride } from '../services/benchmark-store';
+import { aggregateMetricDistributions } from '../services/metric-distributions';
+import { getLlmUsageTotals, UsageTotals } from '../services/llm-usage';
+import { getStageHistory, StageHistory } from '../services/analysis-checkpoints';
+
+const app = new Hono<{ Bindings: Env }>();
+
+app.use('*', requireAdmin);
+
+const rangeSchema = z.object({
+  poor: z.number(),
+  average: z.number(),
+  good: z.number(),
+}).partial().strict();
+
+const phaseSchema = z.object({
+  early: rangeSchema,
+  mid: rangeSchema,
+  late: rangeSchema,
+}).partial().strict();
+
+// Partial benchmark values, merged over the defaults (unknown metrics are rejected)
+const valuesSchema = z.object({
+  csPerMin: rangeSchema,
+  visionScore: rangeSchema,
+  wardsPerMin: rangeSchema,
+  deaths: rangeSchema,
+  kda: rangeSchema,
+  dpm: rangeSchema,
+  killParticipation: rangeSchema,
+  csPerMinByPhase: phaseSchema,
+  wardsPer5MinByPhase: phaseSchema,
+  scoring: z.object({
+    csPerMin: rangeSchema,
+    wardsPerMin: rangeSchema,
+    deathsPerMin: rangeSchema,
+  }).partial().strict(),
+}).partial().strict();
+
+const keySchema = z.object({
+  role: z.union([z.literal('*'), z.enum(BENCHMARK_ROLES)]),
+  tier: z.union([z.literal('*'), z.enum(BENCHMARK_TIERS)]),
+  patch: z.string().regex(/^(\*|\d+\.\d+)$/, 'patch must be "*" or "major.minor" (e.g. "14.20")'),
+});
+
+const overrideSchema = keySchema.extend({
+  values: valuesSchema,
+});
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'dates must be YYYY-MM-DD');
+
+const usageSchema = z.object({
+  groupBy: z.enum(['day', 'user', 'tier']).default('day'),
+  from: day.optional(),
+  to: day.optional(),
+});
+
+const resolveSchema = z.object({
+  role: z.enum(BENCHMARK_ROLES),
+  tier: z.enum(BENCHMARK_TIERS),
+  patch: z.string().regex(/^\d+\.\d+$/).optional(),
+});
+
+// GET /admin/benchmarks - List stored overrides
+app.get('/benchmarks', async (c) => {
+  try {
+    const overrides = await listBenchmarkOverrides(c.env);
+    return c.json<ApiResponse<BenchmarkOverride[]>>({ success: true, data: overrides });
+  } catch (error) {
+    console.error('Failed to list benchmarks:', error);
+    return c.json<ApiResponse>({ success: false, error: 'Failed to list benchmarks' }, 500);
+  }
+});
+
+// GET /admin/benchmarks/resolved?role=MID&tier=GOLD_PLATINUM&patch=14.20 - Values the analyses will use
+app.get('/benchmarks/resolved', zValidator('query', resolveSchema), async (c) => {
+  const { role, tier, patch } = c.req.valid('query');
+  const overrides = await loadBenchmarkOverrides(c.env);
+
+  return c.json<ApiResponse<Benchmarks>>({
+    success: true,
+    data: resolveBenchmarks(overrides, role, tier, patch),
+  });
+});
+
+// PUT /admin/benchmarks - Create or replace the override for a role/tier/patch
+app.put('/benchmarks', zValidator('json', overrideSchema), async (c) => {
+  const override: BenchmarkOverride = c.req.valid('json');
+
+  try {
+    await saveBenchmarkOverride(c.env, override);
+    return c.json<ApiResponse<BenchmarkOverride>>({ success: true, data: override });
+  } catch (error) {
+    console.error('Failed to save benchmark:', error);
+    return c.json<ApiResponse>({ success: false, error: 'Failed to save benchmark' }, 500);
+  }
+});
+
+// DELETE /admin/benchmarks?role=MID&tier=*&patch=14.20 - Remove an override (defaults apply again)
+app.delete('/benchmarks', zValidator('query', keySchema), async (c) => {
+  const { role, tier, patch } = c.req.valid('query');
+
+  try {
+    const deleted = await deleteBenchmarkOverride(c.env, role, tier, patch);
+    if (!deleted) {
+      return c.json<ApiResponse>({ success: false, error: 'Benchmark override not found' }, 404);
+    }
+    return c.json<ApiResponse>({ success: true });
+  } catch (error) {
+    console.error('Failed to delete benchmark:', error);
+    return c.json<ApiResponse>({ success: false, error: 'Failed to delete benchmark' }, 500);
+  }
+});
+
+// POST /admin/metrics/aggregate - Rebuild the comparedToRank distributions now instead of waiting for the cron
+app.post('/metrics/aggregate', async (c) => {
+  try {
+    const samples = await aggregateMetricDistributions(c.env);
+    return c.json<ApiResponse<{ samples: number }>>({ success: true, data: { samples } });
+  } catch (error) {
+    console.error('Failed to aggregate metrics:', error);
+    return c.json<ApiResponse>({ success: false, error: 'Failed to aggregate metrics' }, 500);
+  }
+});
+
+// GET /admin/usage?groupBy=day|user|tier&from=2025-01-01&to=2025-01-31 - LLM tokens and cost (last 30 days by default)
+app.get('/usage', zValidator('query', usageSchema), async (c) => {
+  const { groupBy, from, to } = c.req.valid('query');
+  const today = new Date().toISOString().slice(0, 10);
+  const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  try {
+    const totals = await getLlmUsageTotals(c.env, groupBy, from || monthAgo, to || today);
+    return c.json<ApiResponse<UsageTotals[]>>({ success: true, data: totals });
+  } catch (error) {
+    console.error('Failed to load LLM usage:', error);
+    return c.json<ApiResponse>({ success: false, error: 'Failed to load LLM usage' }, 500);
+  }
+});
+
+// GET /admin/analyses/:id/stages - Stage history of an analysis job (retries, resumed stages, failures)
+app.get('/analyses/:id/stages', async (c) => {
+  try {
+    const history = await getStageHistory(c.env, c.req.param('id'));
+    return c.json<ApiResponse<StageHistory>>({ success: true, data: history });
+  } catch (error) {
+    console.error('Failed to load stage history:', error);
+    return c.json<ApiResponse>({ success: false, error: 'Failed to load stage history' }, 500);
+  }
+});
+
+export default app;
@@ -1,10 +1,12 @@
 import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
-import { Env, Analysis, ApiResponse } from '../types';
+import { Env, Analysis, AnalysisStats, ApiResponse } from '../types';
 import { generateId } from '../utils/helpers';
 import { fetchMatchData } from '../utils/riot-api';
+import { getGameModeProfile } from '../lib/analysis/profiles';
 import { rateLimit, requireAuth, extractUserId } from '../middleware/auth';
+import { clearCheckpoints, deleteStageHistory } from '../services/analysis-checkpoints';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -59,6 +61,15 @@ const matchDataSchema = z.object({
   enemies: z.array(z.any()).optional(),
 }).optional();
 
+// Reject game modes without an analysis profile (URF, Arena...) before any credit is spent
+function unsupportedGameMode(queueId?: number, gameMode?: string): ApiResponse | null {
+  if (getGameModeProfile(queueId, gameMode)) return null;
+  return {
+    success: false,
+    error: `Game mode not supported: ${gameMode || `queue ${queueId}`}. Only Summoner's Rift and ARAM games can be analyzed.`,
+  };
+}
+
 // Schema for creating analysis
 const createAnalysisSchema = z.object({
   matchId: z.string().min(1),
@@ -71,18 +82,26 @@ const createAnalysisSchema = z.object({
 const SUPPORTED_LANGUAGES = ['en', 'fr', 'es', 'de', 'pt'] as const;
 type AnalysisLanguage = typeof SUPPORTED_LANGUAGES[number];
 
+// Analysis pipelines: rules (timeline engine, no AI cost), ai (Claude), hybrid (both)
+const ANALYSIS_MODES = ['rules', 'ai', 'hybrid'] as const;
+
+// Riot rank tiers, used to pick the benchmark bracket
+const RANK_TIERS = ['IRON', 'BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'EMERALD', 'DIAMOND', 'MASTER', 'GRANDMASTER', 'CHALLENGER'] as const;
+
 // Schema for analyze endpoint
 const analyzeSchema = z.object({
   matchId: z.string().min(1),
   puuid: z.string().min(1),
   region: z.string().min(1),
   language: z.enum(SUPPORTED_LANGUAGES).optional().default('en'),
+  mode: z.enum(ANALYSIS_MODES).optional().default('ai'),
+  tier: z.enum(RANK_TIERS).optional(), // Player's rank, benchmarks default to Gold-Platinum
   save: z.boolean().optional().default(true), // Whether to save to DB
 });
 
 // POST /analysis/analyze - Async analysis: returns 202 immediately, processes in background
 app.post('/analyze', requireAuth, analysisRateLimit, zValidator('json', analyzeSchema), async (c) => {
-  const { matchId, puuid, region, language, save } = c.req.valid('json');
+  const { matchId, puuid, region, language, mode, tier, save } = c.req.valid('json');
 
   try {
     // Check if analysis already exists
@@ -117,6 +136,59 @@ app.post('/analyze', requireAuth, analysisRateLimit, zValidator('json', analyzeS
         }, 202);
       }
 
+      // Completed in another pipeline (e.g. a cached rules result when AI is requested): re-run in the requested mode
+      const stats = a.stats ? JSON.parse(a.stats as string) as AnalysisStats : null;
+      if (status === 'completed' && (stats?.analysisMode || 'ai') !== mode) {
+        console.log(`Re-running analysis ${a.id} in ${mode} mode (cached: ${stats?.analysisMode || 'ai'})`);
+
+        await c.env.DB.prepare(`
+          UPDATE analyses SET
+            status = 'processing',
+            progress = 10,
+            progress_message = 'Fetching game data...',
+            stats = NULL,
+            errors = NULL,
+            tips = NULL,
+            clips = NULL,
+            teamfights = NULL,
+            error_message = NULL,
+            completed_at = NULL,
+            updated_at = datetime('now')
+          WHERE id = ?
+        `).bind(a.id).run();
+        await clearCheckpoints(c.env, a.id as string);
+
+        await c.env.ANALYSIS_QUEUE.send({
+          analysisId: a.id as string,
+          matchId,
+          puuid,
+          region,
+          language,
+          mode,
+          tier,
+        });
+
+        return c.json<ApiResponse>({
+          success: true,
+          data: {
+            id: a.id,
+            matchId: a.match_id,
+            puuid: a.puuid,
+            status: 'processing',
+            progress: 10,
+            progressMessage: 'Fetching game data...',
+            champion: a.champion,
+            result: a.result,
+            duration: a.duration,
+            gameMode: a.game_mode,
+            kills: a.kills,
+            deaths: a.deaths,
+            assists: a.assists,
+            role: a.role,
+          },
+        }, 202);
+      }
+
       // If completed or failed, return full result
       const analysis = {
         id: a.id,
@@ -137,7 +209,7 @@ app.post('/analyze', requireAuth, analysisRateLimit, zValidator('json', analyzeS
         deaths: a.deaths,
         assists: a.assists,
         role: a.role,
-        stats: a.stats ? JSON.parse(a.stats as string) : null,
+        stats,
         errors: a.errors ? JSON.parse(a.errors as string) : null,
         tips: a.tips ? JSON.parse(a.tips as string) : null,
       };
@@ -148,7 +220,7 @@ app.post('/analyze', requireAuth, analysisRateLimit, zValidator('json', analyzeS
       });
     }
 
-    console.log(`Starting async AI analysis for match ${matchId}, puuid ${puuid}`);
+    console.log(`Starting async ${mode} analysis for match ${matchId}, puuid ${puuid}`);
 
     // Quick fetch: match summary for basic info (~1s)
     const riotMatchData = await fetchMatchData(matchId, region, c.env.RIOT_API_KEY);
@@ -162,6 +234,11 @@ app.post('/analyze', requireAuth, analysisRateLimit, zValidator('json', analyzeS
       }, 400);
     }
 
+    const unsupported = unsupportedGameMode(matchInfo.queueId, matchInfo.gameMode);
+    if (unsupported) {
+      return c.json<ApiResponse>(unsupported, 422);
+    }
+
     // Normalize role
     const roleMap: Record<string, string> = {
       'TOP': 'TOP', 'JUNGLE': 'JUNGLE', 'MIDDLE': 'MID', 'MID': 'MID',
@@ -215,6 +292,8 @@ app.post('/analyze', requireAuth, analysisRateLimit, zValidator('json', analyzeS
       puuid,
       region,
       language,
+      mode,
+      tier,
     });
 
     return c.json<ApiResponse>({
@@ -273,6 +352,7 @@ app.get('/', readRateLimit, async (c) => {
       errors: a.errors ? JSON.parse(a.errors as string) : null,
       tips: a.tips ? JSON.parse(a.tips as string) : null,
       clips: a.clips ? JSON.parse(a.clips as string) : null,
+      teamfights: a.teamfights ? JSON.parse(a.teamfights as string) : null,
     }));
 
     return c.json<ApiResponse<Analysis[]>>({
@@ -324,6 +404,7 @@ app.get('/:id', readRateLimit, async (c) => {
       errors: a.errors ? JSON.parse(a.errors as string) : null,
       tips: a.tips ? JSON.parse(a.tips as string) : null,
       clips: a.clips ? JSON.parse(a.clips as string) : null,
+      teamfights: a.teamfights ? JSON.parse(a.teamfights as string) : null,
     };
 
     return c.json<ApiResponse>({
@@ -373,6 +454,7 @@ app.get('/match/:matchId', readRateLimit, async (c) => {
       errors: a.errors ? JSON.parse(a.errors as string) : null,
       tips: a.tips ? JSON.parse(a.tips as string) : null,
       clips: a.clips ? JSON.parse(a.clips as string) : null,
+      teamfights: a.teamfights ? JSON.parse(a.teamfights as string) : null,
     };
 
     return c.json<ApiResponse<Analysis>>({
@@ -402,6 +484,13 @@ app.post('/', analysisRateLimit, zValidator('json', createAnalysisSchema), async
       });
     }
 
+    if (matchData) {
+      const unsupported = unsupportedGameMode(matchData.queueId, matchData.gameMode);
+      if (unsupported) {
+        return c.json<ApiResponse>(unsupported, 422);
+      }
+    }
+
     // Check if recording exists
     const recording = await c.env.DB.prepare(`
       SELECT id, video_key FROM recordings WHERE match_id = ?
@@ -508,6 +597,13 @@ app.post('/:id/start', requireAuth, analysisRateLimit, async (c) => {
       } catch { /* ignore */ }
     }
 
+    if (matchData) {
+      const unsupported = unsupportedGameMode(matchData.queueId, matchData.gameMode);
+      if (unsupported) {
+        return c.json<ApiResponse>(unsupported, 422);
+      }
+    }
+
     // Queue the analysis job
     await c.env.ANALYSIS_QUEUE.send({
       analysisId: analysis.id,
@@ -566,12 +662,16 @@ app.post('/:id/reanalyze', requireAuth, analysisRateLimit, async (c) => {
         errors = NULL,
         tips = NULL,
         clips = NULL,
+        teamfights = NULL,
         error_message = NULL,
         completed_at = NULL,
         updated_at = datetime('now')
       WHERE id = ?
     `).bind(id).run();
 
+    // Start from scratch: the stage outputs of an earlier run must not be resumed
+    await clearCheckpoints(c.env, id);
+
     // Queue the analysis job again
     await c.env.ANALYSIS_QUEUE.send({
       analysisId: existing.id,
@@ -608,6 +708,7 @@ app.delete('/:id', requireAuth, analysisRateLimit, async (c) => {
     await c.env.DB.prepare(`
       DELETE FROM analyses WHERE id = ?
     `).bind(id).run();
+    await deleteStageHistory(c.env, id);
 
     return c.json<ApiResponse>({ success: true });
   } catch (error) {
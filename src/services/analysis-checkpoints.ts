@@ -0,0 +1,107 @@
+// Analysis checkpoints - Output of each stage of a job kept in D1, keyed by analysis id
+// A queue retry resumes from the last completed stage instead of paying for the model calls again
+
+import { Env } from '../types';
+
+export type AnalysisStage = 'match-data' | 'coaching' | `clip-vision:${number}`;
+
+export type StageStatus = 'started' | 'completed' | 'resumed' | 'failed';
+
+export interface StageEvent {
+  stage: string;
+  status: StageStatus;
+  message: string | null;
+  createdAt: string;
+}
+
+export interface StageHistory {
+  checkpoints: Array<{ stage: string; updatedAt: string }>; // Pending until the analysis is saved
+  events: StageEvent[];
+}
+
+async function recordStageEvent(
+  env: Env,
+  analysisId: string,
+  stage: AnalysisStage,
+  status: StageStatus,
+  message: string | null = null
+): Promise<void> {
+  await env.DB.prepare(`
+    INSERT INTO analysis_stage_events (analysis_id, stage, status, message) VALUES (?, ?, ?, ?)
+  `).bind(analysisId, stage, status, message).run();
+}
+
+/**
+ * Output of a stage completed by an earlier attempt, wrapped so a stored null stays distinguishable
+ * from a missing checkpoint.
+ */
+export async function loadCheckpoint<T>(env: Env, analysisId: string, stage: AnalysisStage): Promise<{ data: T } | null> {
+  const row = await env.DB.prepare(`
+    SELECT payload FROM analysis_checkpoints WHERE analysis_id = ? AND stage = ?
+  `).bind(analysisId, stage).first<{ payload: string }>();
+  if (!row) return null;
+
+  await recordStageEvent(env, analysisId, stage, 'resumed');
+  return { data: JSON.parse(row.payload) as T };
+}
+
+/**
+ * Run a stage and checkpoint its output. Failures are recorded in the history and rethrown.
+ */
+export async function runStage<T>(
+  env: Env,
+  analysisId: string,
+  stage: AnalysisStage,
+  run: () => Promise<T>
+): Promise<T> {
+  await recordStageEvent(env, analysisId, stage, 'started');
+
+  let data: T;
+  try {
+    data = await run();
+  } catch (error) {
+    await recordStageEvent(env, analysisId, stage, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    throw error;
+  }
+
+  await env.DB.batch([
+    env.DB.prepare(`
+      INSERT INTO analysis_checkpoints (analysis_id, stage, payload, updated_at)
+      VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT (analysis_id, stage) DO UPDATE SET
+        payload = excluded.payload,
+        updated_at = excluded.updated_at
+    `).bind(analysisId, stage, JSON.stringify(data ?? null)),
+    env.DB.prepare(`
+      INSERT INTO analysis_stage_events (analysis_id, stage, status) VALUES (?, ?, 'completed')
+    `).bind(analysisId, stage),
+  ]);
+  return data;
+}
+
+// Once the results are saved (or a fresh run is requested) the checkpoints are no longer needed; the history stays
+export async function clearCheckpoints(env: Env, analysisId: string): Promise<void> {
+  await env.DB.prepare(`
+    DELETE FROM analysis_checkpoints WHERE analysis_id = ?
+  `).bind(analysisId).run();
+}
+
+export async function deleteStageHistory(env: Env, analysisId: string): Promise<void> {
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM analysis_checkpoints WHERE analysis_id = ?').bind(analysisId),
+    env.DB.prepare('DELETE FROM analysis_stage_events WHERE analysis_id = ?').bind(analysisId),
+  ]);
+}
+
+export async function getStageHistory(env: Env, analysisId: string): Promise<StageHistory> {
+  const [checkpoints, events] = await Promise.all([
+    env.DB.prepare(`
+      SELECT stage, updated_at AS updatedAt FROM analysis_checkpoints WHERE analysis_id = ? ORDER BY updated_at, stage
+    `).bind(analysisId).all<{ stage: string; updatedAt: string }>(),
+    env.DB.prepare(`
+      SELECT stage, status, message, created_at AS createdAt FROM analysis_stage_events WHERE analysis_id = ? ORDER BY id
+    `).bind(analysisId).all<StageEvent>(),
+  ]);
+
+  return { checkpoints: checkpoints.results, events: events.results };
+}
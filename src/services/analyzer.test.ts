@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Env } from '../types';
+import { processAnalysisJob } from './analyzer';
+import { createReplayClient } from './llm-replay';
+import { PRACTICE_CLIPS, PRACTICE_JOB, PRACTICE_RECORDINGS } from './fixtures/practice-game';
+
+interface Query {
+  sql: string;
+  params: unknown[];
+}
+
+// D1, KV and R2 doubles: no user, no spend, no checkpoint, one recording with its clip frames
+function createEnv(): { env: Env; queries: Query[] } {
+  const queries: Query[] = [];
+
+  const prepare = (sql: string) => {
+    const query: Query = { sql, params: [] };
+    const statement = {
+      bind(...params: unknown[]) {
+        query.params = params;
+        return statement;
+      },
+      async first() {
+        queries.push(query);
+        if (sql.includes('FROM recordings')) return { clips: JSON.stringify(PRACTICE_CLIPS) };
+        if (sql.includes('FROM llm_usage')) return { total: 0, user: 0 };
+        return null;
+      },
+      async all() {
+        queries.push(query);
+        return { results: [] };
+      },
+      async run() {
+        queries.push(query);
+        return { success: true, meta: { changes: 1 } };
+      },
+    };
+    return statement;
+  };
+
+  const env = {
+    DB: {
+      prepare,
+      async batch(statements: Array<{ run(): Promise<unknown> }>) {
+        return Promise.all(statements.map(statement => statement.run()));
+      },
+    },
+    CACHE: {
+      get: async () => null,
+      put: async () => undefined,
+    },
+    VIDEOS: {
+      get: async () => ({ arrayBuffer: async () => new Uint8Array([0xff, 0xd8, 0xff, 0xd9]).buffer }),
+    },
+  } as unknown as Env;
+
+  return { env, queries };
+}
+
+describe('processAnalysisJob', () => {
+  it('runs vision and coaching on a practice game through the replay client', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { env, queries } = createEnv();
+    const llm = createReplayClient(PRACTICE_RECORDINGS);
+
+    const job = processAnalysisJob(PRACTICE_JOB, env, llm);
+    await vi.runAllTimersAsync();
+    await job;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+
+    expect(llm.requests.map(r => r.tool_choice)).toEqual([
+      { type: 'tool', name: 'report_clip_analysis' },
+      { type: 'tool', name: 'report_analysis' },
+    ]);
+    expect(llm.requests[0].model).toBe('claude-3-5-haiku-20241022');
+    expect(JSON.stringify(llm.requests[1].messages)).toContain('caught by the enemy jungler');
+
+    const usage = queries.filter(q => q.sql.includes('INSERT INTO llm_usage'));
+    expect(usage.map(q => q.params[3])).toEqual(['clip-vision', 'coaching']);
+
+    const saved = queries.find(q => q.sql.includes(`status = 'completed'`));
+    expect(JSON.parse(saved?.params[0] as string)).toMatchObject({ overallScore: 62, analysisMode: 'ai' });
+    expect(JSON.parse(saved?.params[3] as string)).toEqual([
+      expect.objectContaining({ type: 'death', timestamp: 425, description: expect.stringContaining('river') }),
+    ]);
+  });
+});
@@ -1,6 +1,21 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { Env, AnalysisJob, AnalysisStats, GameError, CoachingTip, VideoClip, RiotMatchData } from '../types';
+import { Env, AnalysisJob, AnalysisStats, GameError, CoachingTip, VideoClip, RiotMatchData, LaneDifferentials, RoleInference } from '../types';
+import { DetectedError, MapZone, resolveLanguage } from '../lib/analysis';
+import { getMapZone } from '../lib/analysis/map';
+import { GameModeProfile, getGameModeProfile, GAME_MODE_PROFILES } from '../lib/analysis/profiles';
+import { inferRoleFromSpells } from '../lib/analysis/role-inference';
+import { rankErrorsByImpact } from '../lib/analysis/generators/win-probability';
+import { Benchmarks, BenchmarkMetric, BenchmarkRange, BenchmarkRole, BenchmarkTier, rateValue, resolveBenchmarksByTier, toBenchmarkRole, toBenchmarkTier, toPatch } from '../lib/analysis/benchmarks';
+import { computePlayerMetrics, PlayerMetrics } from '../lib/analysis/percentiles';
 import { generateId } from '../utils/helpers';
+import { analyzeWithRules, fetchTimelineBundle, detectTeamfights, detectLaneDifferentials, detectRole, detectPlayerMetrics, applyWinProbability, StoredAnalysis, TimelineBundle } from './rules-analyzer';
+import { buildGroundTruth, toObjectiveKind, validateErrors, GroundTruth } from './error-validator';
+import { loadBenchmarkOverrides } from './benchmark-store';
+import { LlmClient, LlmSettings, createAnthropicClient, getLlmSettings } from './llm-client';
+import { UsageAccount, createUsageTrackingClient, loadUsageAccount, recordLlmUsage } from './llm-usage';
+import { BudgetStatus, checkLlmBudget, createBudgetGuardClient, describeBudget, secondsUntilBudgetReset } from './llm-budget';
+import { requestStructuredOutput, coachingResponseSchema, clipAnalysisSchema } from './llm-output';
+import { computeRankComparison, recordPlayerMetrics } from './metric-distributions';
+import { clearCheckpoints, loadCheckpoint, runStage } from './analysis-checkpoints';
 
 interface DeathDetail {
   deathNumber: number;
@@ -22,6 +37,8 @@ interface MatchData {
   result: 'win' | 'loss';
   duration: number;
   gameMode: string;
+  gameVersion?: string; // e.g. "14.20.628.1234", selects patch-specific benchmarks
+  profile: GameModeProfile | null; // null = game mode not supported by the coach
   kills: number;
   deaths: number;
   assists: number;
@@ -30,6 +47,7 @@ interface MatchData {
   goldEarned: number;
   damageDealt: number;
   role: string;
+  roleInference?: RoleInference; // set when the role was not given by Riot
   lane: string;
   timeline?: MatchTimeline;
   teamGold?: number;
@@ -79,16 +97,14 @@ interface MatchTimeline {
   }>;
 }
 
-interface PerformanceSummary {
-  overallAssessment: string;
-  strengths: string[];
-  weaknesses: string[];
-  improvementPlan: {
-    immediate: string[];
-    shortTerm: string[];
-    longTerm: string[];
-  };
-}
+// Riot teamPosition to the role names used in prompts
+const ROLE_FROM_POSITION: Record<string, string> = {
+  TOP: 'TOP',
+  JUNGLE: 'JUNGLE',
+  MIDDLE: 'MID',
+  BOTTOM: 'ADC',
+  UTILITY: 'SUPPORT',
+};
 
 // Get readable game mode from queueId
 function getGameModeFromQueue(queueId?: number, gameMode?: string): string {
@@ -97,6 +113,12 @@ function getGameModeFromQueue(queueId?: number, gameMode?: string): string {
     440: 'Ranked Flex',
     400: 'Normal Draft',
     430: 'Normal Blind',
+    480: 'Swiftplay',
+    490: 'Quickplay',
+    700: 'Clash',
+    870: 'Co-op vs AI',
+    880: 'Co-op vs AI',
+    890: 'Co-op vs AI',
     450: 'ARAM',
     900: 'URF',
     1020: 'One for All',
@@ -152,6 +174,11 @@ function convertRiotMatchData(riotData: RiotMatchData): MatchData {
                roleMap[riotData.teamPosition?.toUpperCase() || ''] ||
                'UNKNOWN';
 
+  // No position from Riot (practice/custom games): guess from summoner spells
+  const roleInference = role === 'UNKNOWN'
+    ? inferRoleFromSpells(riotData.summoner1Id, riotData.summoner2Id) || undefined
+    : undefined;
+
   // Get proper game mode from queueId
   const gameMode = getGameModeFromQueue(riotData.queueId, riotData.gameMode);
 
@@ -160,6 +187,8 @@ function convertRiotMatchData(riotData: RiotMatchData): MatchData {
     result: riotData.win ? 'win' : 'loss',
     duration: riotData.duration || 0,
     gameMode,
+    gameVersion: riotData.gameVersion,
+    profile: getGameModeProfile(riotData.queueId, riotData.gameMode),
     kills: riotData.kills || 0,
     deaths: riotData.deaths || 0,
     assists: riotData.assists || 0,
@@ -167,7 +196,8 @@ function convertRiotMatchData(riotData: RiotMatchData): MatchData {
     visionScore: riotData.visionScore || 0,
     goldEarned: riotData.goldEarned || 0,
     damageDealt: riotData.totalDamageDealtToChampions || 0,
-    role,
+    role: roleInference ? ROLE_FROM_POSITION[roleInference.position] : role,
+    roleInference,
     lane: riotData.lane || 'UNKNOWN',
     teamGold,
     enemyTeamGold,
@@ -212,55 +242,95 @@ interface StoredClip {
   frameCount: number;
 }
 
-// Analyze video clips with Claude Vision
-async function analyzeClipsWithVision(
-  clips: StoredClip[],
-  matchData: MatchData,
-  env: Env
-): Promise<Array<{
+const CLIP_ANALYSIS_TOOL = {
+  name: 'report_clip_analysis',
+  description: 'Report the coaching analysis of the video frames of one clip',
+  schema: clipAnalysisSchema,
+};
+
+const COACHING_TOOL = {
+  name: 'report_analysis',
+  description: 'Report the complete coaching analysis of the match',
+  schema: coachingResponseSchema,
+};
+
+interface ClipVisionResult {
   clipIndex: number;
   type: string;
   timestamp: number;
   visualAnalysis: string;
   detectedErrors: string[];
   suggestions: string[];
-}>> {
-  const anthropic = new Anthropic({
-    apiKey: env.ANTHROPIC_API_KEY,
-  });
+}
 
-  const clipAnalyses = [];
+// Analyze video clips with Claude Vision, one checkpoint per clip (clips analyzed by an earlier attempt are reused)
+async function analyzeClipsWithVision(
+  clips: StoredClip[],
+  matchData: MatchData,
+  env: Env,
+  llm: LlmClient,
+  job: AnalysisJob,
+  budgetExceeded: boolean
+): Promise<ClipVisionResult[]> {
+  const settings = getLlmSettings('clip-vision', job.subscriptionTier);
+  const clipAnalyses: ClipVisionResult[] = [];
 
   for (const clip of clips) {
+    const stage = `clip-vision:${clip.index}` as const;
     try {
-      // Load frames from R2
-      const frameImages: Array<{ type: 'image'; source: { type: 'base64'; media_type: 'image/jpeg'; data: string } }> = [];
-
-      for (const frameKey of clip.frameKeys.slice(0, 5)) { // Max 5 frames per clip
-        const frame = await env.VIDEOS.get(frameKey);
-        if (frame) {
-          const arrayBuffer = await frame.arrayBuffer();
-          const base64 = btoa(String.fromCharCode(...new Uint8Array(arrayBuffer)));
-          frameImages.push({
-            type: 'image',
-            source: {
-              type: 'base64',
-              media_type: 'image/jpeg',
-              data: base64,
-            },
-          });
-        }
+      const checkpoint = await loadCheckpoint<ClipVisionResult | null>(env, job.analysisId, stage);
+      if (!checkpoint && budgetExceeded) continue;
+
+      const result = checkpoint
+        ? checkpoint.data
+        : await runStage(env, job.analysisId, stage, () => analyzeClip(clip, matchData, env, llm, settings));
+      if (result) {
+        clipAnalyses.push(result);
       }
+    } catch (err) {
+      console.error(`Vision analysis failed for clip ${clip.index}:`, err);
+    }
+  }
 
-      if (frameImages.length === 0) {
-        console.log(`No frames found for clip ${clip.index}, skipping vision analysis`);
-        continue;
-      }
+  return clipAnalyses;
+}
 
-      console.log(`Analyzing clip ${clip.index} with ${frameImages.length} frames...`);
+// Null when the clip has no frames stored
+async function analyzeClip(
+  clip: StoredClip,
+  matchData: MatchData,
+  env: Env,
+  llm: LlmClient,
+  settings: LlmSettings
+): Promise<ClipVisionResult | null> {
+  // Load frames from R2
+  const frameImages: Array<{ type: 'image'; source: { type: 'base64'; media_type: 'image/jpeg'; data: string } }> = [];
+
+  for (const frameKey of clip.frameKeys.slice(0, 5)) { // Max 5 frames per clip
+    const frame = await env.VIDEOS.get(frameKey);
+    if (frame) {
+      const arrayBuffer = await frame.arrayBuffer();
+      const base64 = btoa(String.fromCharCode(...new Uint8Array(arrayBuffer)));
+      frameImages.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: 'image/jpeg',
+          data: base64,
+        },
+      });
+    }
+  }
 
-      // Create vision prompt
-      const visionPrompt = `Tu es un coach professionnel de League of Legends qui analyse une séquence vidéo d'un joueur.
+  if (frameImages.length === 0) {
+    console.log(`No frames found for clip ${clip.index}, skipping vision analysis`);
+    return null;
+  }
+
+  console.log(`Analyzing clip ${clip.index} with ${frameImages.length} frames...`);
+
+  // Create vision prompt
+  const visionPrompt = `Tu es un coach professionnel de League of Legends qui analyse une séquence vidéo d'un joueur.
 
 CONTEXTE:
 - Champion joué: ${matchData.champion} (${matchData.role})
@@ -277,58 +347,34 @@ Ces ${frameImages.length} images sont extraites d'un moment clé de la partie. A
 4. **Erreurs visibles** - Qu'est-ce qui a mal tourné?
 5. **Ce qu'il aurait dû faire** - Quelle était la bonne décision?
 
-RÉPONDS EN JSON:
-{
-  "situationDescription": "Description de ce qui se passe dans les images",
-  "playerPosition": "Bonne/Mauvaise - explication",
-  "detectedErrors": ["Erreur 1", "Erreur 2"],
-  "whatShouldHaveDone": "Ce que le joueur aurait dû faire",
-  "coachingTip": "Conseil spécifique pour ${matchData.champion} ${matchData.role}"
-}`;
-
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1000,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              ...frameImages,
-              { type: 'text', text: visionPrompt },
-            ],
-          },
-        ],
-      });
+RÉPONDS avec l'outil ${CLIP_ANALYSIS_TOOL.name}:
+- situationDescription: Description de ce qui se passe dans les images
+- playerPosition: Bonne/Mauvaise - explication
+- detectedErrors: ["Erreur 1", "Erreur 2"]
+- whatShouldHaveDone: Ce que le joueur aurait dû faire
+- coachingTip: Conseil spécifique pour ${matchData.champion} ${matchData.role}`;
 
-      const content = response.content[0];
-      if (content.type === 'text') {
-        try {
-          const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const analysis = JSON.parse(jsonMatch[0]);
-            clipAnalyses.push({
-              clipIndex: clip.index,
-              type: clip.type,
-              timestamp: clip.startTime,
-              visualAnalysis: analysis.situationDescription || '',
-              detectedErrors: analysis.detectedErrors || [],
-              suggestions: [analysis.whatShouldHaveDone, analysis.coachingTip].filter(Boolean),
-            });
-          }
-        } catch (parseErr) {
-          console.error(`Failed to parse vision response for clip ${clip.index}`);
-        }
-      }
-
-      // Add small delay between clips to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 500));
+  const analysis = await requestStructuredOutput(llm, settings, [
+    {
+      role: 'user',
+      content: [
+        ...frameImages,
+        { type: 'text', text: visionPrompt },
+      ],
+    },
+  ], CLIP_ANALYSIS_TOOL);
 
-    } catch (err) {
-      console.error(`Vision analysis failed for clip ${clip.index}:`, err);
-    }
-  }
+  // Add small delay between clips to avoid rate limiting
+  await new Promise(resolve => setTimeout(resolve, 500));
 
-  return clipAnalyses;
+  return {
+    clipIndex: clip.index,
+    type: clip.type,
+    timestamp: clip.startTime,
+    visualAnalysis: analysis.situationDescription,
+    detectedErrors: analysis.detectedErrors,
+    suggestions: [analysis.whatShouldHaveDone, analysis.coachingTip].filter(Boolean),
+  };
 }
 
 // Helper to update analysis progress
@@ -339,34 +385,165 @@ async function updateProgress(env: Env, analysisId: string, progress: number, me
   console.log(`[${analysisId}] Progress: ${progress}% - ${message}`);
 }
 
-// Process analysis job from queue
-export async function processAnalysisJob(job: AnalysisJob, env: Env): Promise<void> {
+// Helper to store completed analysis results
+async function saveAnalysisResults(env: Env, analysisId: string, analysis: StoredAnalysis): Promise<void> {
+  await env.DB.prepare(`
+    UPDATE analyses SET
+      status = 'completed',
+      progress = 100,
+      progress_message = 'Analysis complete',
+      stats = ?,
+      errors = ?,
+      tips = ?,
+      clips = ?,
+      teamfights = ?,
+      completed_at = datetime('now'),
+      updated_at = datetime('now')
+    WHERE id = ?
+  `).bind(
+    JSON.stringify(analysis.stats),
+    JSON.stringify(analysis.errors),
+    JSON.stringify(analysis.tips),
+    JSON.stringify(analysis.clips),
+    analysis.teamfights ? JSON.stringify(analysis.teamfights) : null,
+    analysisId
+  ).run();
+}
+
+interface MetricSample {
+  role: BenchmarkRole;
+  metrics: PlayerMetrics;
+}
+
+// Summoner's Rift only: ARAM has no roles to compare against
+function toMetricSample(matchData: MatchData): MetricSample | null {
+  if (!matchData.profile?.usesRoles) return null;
+  return { role: toBenchmarkRole(matchData.role), metrics: computePlayerMetrics(matchData) };
+}
+
+// comparedToRank is computed from real distributions, never estimated by the model
+async function addRankComparison(
+  env: Env,
+  job: AnalysisJob,
+  analysis: StoredAnalysis,
+  sample: MetricSample | null,
+  gameVersion?: string
+): Promise<void> {
+  analysis.stats.comparedToRank = sample
+    ? await computeRankComparison(env, sample.role, job.tier, sample.metrics, gameVersion)
+    : [];
+}
+
+// Completed analyses feed the distributions; losing a sample must not fail the analysis
+async function saveMetricSample(env: Env, job: AnalysisJob, sample: MetricSample | null): Promise<void> {
+  if (!sample || sample.role === 'UNKNOWN') return;
+
+  try {
+    await recordPlayerMetrics(env, {
+      matchId: job.matchId,
+      puuid: job.puuid,
+      analysisId: job.analysisId,
+      role: sample.role,
+      tier: job.tier,
+      metrics: sample.metrics,
+    });
+  } catch (error) {
+    console.error(`Could not record metrics for ${job.analysisId}:`, error);
+  }
+}
+
+// Null for practice/custom games, and real matches the Riot API could not return: video-only analysis
+async function loadMatchData(job: AnalysisJob, env: Env): Promise<MatchData | null> {
+  // 1. First, try to use match data sent by nexra-vision (preferred)
+  if (job.matchData && job.matchData.champion) {
+    console.log('Using match data from nexra-vision');
+    const matchData = convertRiotMatchData(job.matchData);
+    console.log(`Match data: ${matchData.champion} ${matchData.role} (${matchData.kills}/${matchData.deaths}/${matchData.assists})`);
+    return matchData;
+  }
+
+  // 2. Fallback: Fetch from Riot API if not provided and it's a real match
+  if (job.matchId.startsWith('NEXRA_')) {
+    console.log('Practice/Custom game detected, using video-only analysis');
+    return null;
+  }
+  try {
+    console.log('Fetching match data from Riot API...');
+    const matchData = await fetchMatchData(job.matchId, job.puuid, job.region, env);
+    console.log(`Got match data from Riot API: ${matchData.champion} ${matchData.role}`);
+    return matchData;
+  } catch (err) {
+    console.log('Could not fetch from Riot API, using video-only analysis');
+    return null;
+  }
+}
+
+// Cloudflare Queues cap delivery delays at 12 hours
+const MAX_QUEUE_DELAY = 12 * 60 * 60;
+
+// Practice/custom games have no timeline to fall back on: requeue them until the budget resets
+async function pauseForBudget(env: Env, job: AnalysisJob, budget: BudgetStatus): Promise<void> {
+  const delaySeconds = Math.min(MAX_QUEUE_DELAY, secondsUntilBudgetReset() + 60);
+  await updateProgress(
+    env,
+    job.analysisId,
+    55,
+    `Paused: ${describeBudget(budget).toLowerCase()}, resuming in about ${Math.ceil(delaySeconds / 3600)}h`
+  );
+  await env.ANALYSIS_QUEUE.send(job, { delaySeconds });
+  console.warn(`Analysis ${job.analysisId} paused for ${delaySeconds}s: ${describeBudget(budget)}`);
+}
+
+// Process analysis job from queue (tests pass a replay LlmClient to run without network)
+export async function processAnalysisJob(
+  job: AnalysisJob,
+  env: Env,
+  llm: LlmClient = createAnthropicClient(env.ANTHROPIC_API_KEY)
+): Promise<void> {
   console.log(`Processing analysis job: ${job.analysisId}`);
+  const mode = job.mode || 'ai';
 
   try {
     // Start progress tracking
     await updateProgress(env, job.analysisId, 5, 'Initializing...');
 
-    let matchData: MatchData | null = null;
+    // Every model call is billed to the player's account, with the settings of its plan
+    const account = await loadUsageAccount(env, job);
+    job = { ...job, subscriptionTier: account.subscriptionTier };
+    llm = createBudgetGuardClient(createUsageTrackingClient(llm, usage => recordLlmUsage(env, account, usage)), env, account);
 
-    // 1. First, try to use match data sent by nexra-vision (preferred)
-    await updateProgress(env, job.analysisId, 10, 'Loading match data...');
-    if (job.matchData && job.matchData.champion) {
-      console.log('Using match data from nexra-vision');
-      matchData = convertRiotMatchData(job.matchData);
-      console.log(`Match data: ${matchData.champion} ${matchData.role} (${matchData.kills}/${matchData.deaths}/${matchData.assists})`);
+    // Rules mode: deterministic timeline engine only, no LLM calls
+    if (mode === 'rules') {
+      await updateProgress(env, job.analysisId, 20, 'Fetching match timeline...');
+      const { analysis, result, bundle } = await analyzeWithRules(job, env);
+      const sample = detectPlayerMetrics(bundle, job.puuid, result.stats.role);
+      await addRankComparison(env, job, analysis, sample, bundle.match.gameVersion);
+
+      await env.DB.prepare(`
+        UPDATE analyses SET
+          champion = ?,
+          result = ?,
+          duration = ?,
+          updated_at = datetime('now')
+        WHERE id = ?
+      `).bind(result.champion, result.result, result.duration, job.analysisId).run();
+
+      await updateProgress(env, job.analysisId, 90, 'Saving results...');
+      await saveAnalysisResults(env, job.analysisId, analysis);
+      await saveMetricSample(env, job, sample);
+
+      console.log(`Rules analysis completed: ${job.analysisId}`);
+      return;
     }
-    // 2. Fallback: Fetch from Riot API if not provided and it's a real match
-    else if (!job.matchId.startsWith('NEXRA_')) {
-      try {
-        console.log('Fetching match data from Riot API...');
-        matchData = await fetchMatchData(job.matchId, job.puuid, job.region, env);
-        console.log(`Got match data from Riot API: ${matchData.champion} ${matchData.role}`);
-      } catch (err) {
-        console.log('Could not fetch from Riot API, using video-only analysis');
-      }
-    } else {
-      console.log('Practice/Custom game detected, using video-only analysis');
+
+    // 1-2. Match data from nexra-vision or the Riot API, unless an earlier attempt already loaded it
+    await updateProgress(env, job.analysisId, 10, 'Loading match data...');
+    const loaded = await loadCheckpoint<MatchData | null>(env, job.analysisId, 'match-data');
+    let matchData = loaded
+      ? loaded.data
+      : await runStage(env, job.analysisId, 'match-data', () => loadMatchData(job, env));
+    if (loaded && matchData?.profile) {
+      matchData.profile = GAME_MODE_PROFILES[matchData.profile.id];
     }
 
     // 3. If we have match data, update the analysis record
@@ -401,6 +578,7 @@ export async function processAnalysisJob(job: AnalysisJob, env: Env): Promise<vo
         result: 'win',
         duration: 600,
         gameMode: 'Practice Tool',
+        profile: GAME_MODE_PROFILES['summoners-rift'],
         kills: 0,
         deaths: 0,
         assists: 0,
@@ -420,7 +598,13 @@ export async function processAnalysisJob(job: AnalysisJob, env: Env): Promise<vo
       `).bind(job.analysisId).run();
     }
 
-    // 3. Check for video clips and analyze with Vision
+    // Modes without a profile (URF, Arena...) would only get Summoner's Rift advice
+    if (!matchData.profile) {
+      throw new Error(`Unsupported game mode: ${matchData.gameMode}`);
+    }
+
+    // 3. Check for video clips and analyze with Vision (only clips already analyzed once the daily AI budget is spent)
+    let budget = await checkLlmBudget(env, account);
     await updateProgress(env, job.analysisId, 25, 'Searching for video clips...');
     let visionAnalysis: Awaited<ReturnType<typeof analyzeClipsWithVision>> = [];
 
@@ -434,7 +618,7 @@ export async function processAnalysisJob(job: AnalysisJob, env: Env): Promise<vo
       if (storedClips.length > 0) {
         await updateProgress(env, job.analysisId, 30, `Analyzing ${storedClips.length} video clips...`);
         console.log(`Found ${storedClips.length} video clips, analyzing with Vision...`);
-        visionAnalysis = await analyzeClipsWithVision(storedClips, matchData, env);
+        visionAnalysis = await analyzeClipsWithVision(storedClips, matchData, env, llm, job, budget.exceeded);
         console.log(`Vision analysis complete: ${visionAnalysis.length} clips analyzed`);
         await updateProgress(env, job.analysisId, 55, 'Clips analyzed successfully');
       }
@@ -442,31 +626,119 @@ export async function processAnalysisJob(job: AnalysisJob, env: Env): Promise<vo
       await updateProgress(env, job.analysisId, 40, 'Processing game events...');
     }
 
-    // 4. Analyze with Claude AI (including vision analysis results)
+    // 4. Match timeline, fetched once: hybrid detectors, error validation and the rules fallback share it
+    let timelineBundle: TimelineBundle | null = null;
+    if (!job.matchId.startsWith('NEXRA_')) {
+      try {
+        timelineBundle = await fetchTimelineBundle(job, env);
+      } catch (err) {
+        console.error('Could not load match timeline:', err);
+      }
+    }
+
+    // Hybrid mode: run timeline detectors first so the AI gets verified facts
+    let rulesRun: Awaited<ReturnType<typeof analyzeWithRules>> | null = null;
+    if (mode === 'hybrid' && timelineBundle) {
+      await updateProgress(env, job.analysisId, 58, 'Detecting mistakes from match timeline...');
+      try {
+        rulesRun = await analyzeWithRules(job, env, timelineBundle);
+        console.log(`Timeline engine found ${rulesRun.result.errors.length} verified facts`);
+      } catch (err) {
+        console.error('Timeline detectors failed, continuing with AI only:', err);
+      }
+    }
+
+    // Real deaths/objectives used to validate the AI errors
+    let groundTruth: GroundTruth | null = timelineBundle ? buildGroundTruth(timelineBundle, job.puuid) : null;
+    if (!groundTruth && matchData.deathDetails && matchData.deathDetails.length > 0) {
+      groundTruth = {
+        duration: matchData.duration,
+        deaths: matchData.deathDetails.map(d => ({ timestamp: d.timestamp, killer: d.killer })),
+        objectives: [],
+      };
+    }
+    const laning = rulesRun?.result.stats.laning ||
+      (timelineBundle ? detectLaneDifferentials(timelineBundle, job.puuid) : null);
+
+    // Riot's teamPosition can be missing or swapped: prompt with the role seen on the timeline
+    const roleInference = rulesRun?.result.stats.role ||
+      (timelineBundle ? detectRole(timelineBundle, job.puuid) : null) ||
+      matchData.roleInference;
+    if (roleInference?.source === 'inferred') {
+      matchData.role = ROLE_FROM_POSITION[roleInference.position] || matchData.role;
+      await env.DB.prepare(`
+        UPDATE analyses SET role = ?, updated_at = datetime('now') WHERE id = ?
+      `).bind(matchData.role, job.analysisId).run();
+    }
+
+    // 5. Analyze with Claude AI (including vision analysis results), reusing the coaching of an earlier attempt
+    const coached = await loadCheckpoint<StoredAnalysis>(env, job.analysisId, 'coaching');
+    budget = await checkLlmBudget(env, account);
+    const overBudget = budget.exceeded && !coached;
+    if (overBudget && job.matchId.startsWith('NEXRA_')) {
+      await pauseForBudget(env, job, budget);
+      return;
+    }
     await updateProgress(env, job.analysisId, 60, 'AI coaching in progress...');
-    const analysis = await analyzeWithClaude(matchData, job, env, visionAnalysis, job.language || 'en');
+    let analysis: StoredAnalysis;
+    try {
+      if (overBudget) {
+        throw new Error(describeBudget(budget));
+      }
+      analysis = coached ? coached.data : await runStage(env, job.analysisId, 'coaching', () => analyzeWithClaude(
+        matchData,
+        job,
+        env,
+        llm,
+        visionAnalysis,
+        job.language || 'en',
+        rulesRun?.result.errors || [],
+        groundTruth,
+        laning
+      ));
+      analysis.stats.analysisMode = mode;
+      if (roleInference) {
+        analysis.stats.role = roleInference;
+      }
+      if (laning) {
+        analysis.stats.laning = laning;
+      }
+      if (rulesRun) {
+        analysis.stats.skillOrder = rulesRun.result.stats.skillOrder;
+        analysis.stats.jungle = rulesRun.result.stats.jungle;
+        analysis.stats.highlights = rulesRun.result.stats.highlights;
+        analysis.stats.objectiveEvents = rulesRun.result.stats.objectiveEvents;
+        analysis.stats.aram = rulesRun.result.stats.aram;
+        analysis.stats.itemization = rulesRun.result.stats.itemization;
+      }
+      if (timelineBundle) {
+        analysis.teamfights = rulesRun?.result.teamfights || detectTeamfights(timelineBundle, job.puuid);
+        analysis = applyWinProbability(analysis, timelineBundle, job.puuid, resolveLanguage(job.language));
+      }
+    } catch (err) {
+      // Practice/custom games have no Riot timeline to fall back on
+      if (job.matchId.startsWith('NEXRA_')) {
+        throw err;
+      }
+      console.error('AI analysis failed, falling back to rules engine:', err);
+      await updateProgress(
+        env,
+        job.analysisId,
+        75,
+        overBudget ? `${describeBudget(budget)}, running timeline analysis...` : 'AI unavailable, running timeline analysis...'
+      );
+      analysis = (rulesRun || await analyzeWithRules(job, env, timelineBundle || undefined)).analysis;
+    }
+
+    // 6. Percentiles against Nexra players of the role and bracket (practice games have no real stats)
+    const sample = job.matchId.startsWith('NEXRA_') ? null : toMetricSample(matchData);
+    await addRankComparison(env, job, analysis, sample, matchData.gameVersion);
     await updateProgress(env, job.analysisId, 90, 'Saving results...');
 
-    // 5. Store results
-    await env.DB.prepare(`
-      UPDATE analyses SET
-        status = 'completed',
-        progress = 100,
-        progress_message = 'Analysis complete',
-        stats = ?,
-        errors = ?,
-        tips = ?,
-        clips = ?,
-        completed_at = datetime('now'),
-        updated_at = datetime('now')
-      WHERE id = ?
-    `).bind(
-      JSON.stringify(analysis.stats),
-      JSON.stringify(analysis.errors),
-      JSON.stringify(analysis.tips),
-      JSON.stringify(analysis.clips),
-      job.analysisId
-    ).run();
+    // 7. Store results (the checkpoints are only needed until then)
+    await saveAnalysisResults(env, job.analysisId, analysis);
+    await clearCheckpoints(env, job.analysisId);
+    await saveMetricSample(env, job, sample);
 
     console.log(`Analysis completed: ${job.analysisId}`);
   } catch (error) {
@@ -488,38 +760,25 @@ export async function processAnalysisJob(job: AnalysisJob, env: Env): Promise<vo
   }
 }
 
-// Get map zone from coordinates
-function getZoneName(x: number, y: number, playerTeamId: number): string {
-  const isBlueTeam = playerTeamId === 100;
-
-  // River zones
-  if ((x > 4000 && x < 11000 && y > 4000 && y < 11000) && Math.abs(x - (15000 - y)) < 3000) {
-    if (x < 6000 && y < 6000) return 'Dragon pit';
-    if (x > 9000 && y > 9000) return 'Baron pit';
-    if (y < 7500) return 'River (bot side)';
-    return 'River (top side)';
-  }
-
-  // Blue side jungle
-  if (x < 7000 && y < 7000 && !(x < 3000 && y < 3000)) {
-    return isBlueTeam ? 'Allied jungle (blue side)' : 'Enemy jungle (blue side)';
-  }
-
-  // Red side jungle
-  if (x > 8000 && y > 8000 && !(x > 12000 && y > 12000)) {
-    return isBlueTeam ? 'Enemy jungle (red side)' : 'Allied jungle (red side)';
-  }
-
-  // Lanes
-  if (Math.abs(x - y) < 2000) return 'Mid lane';
-  if (y > x + 2000) return 'Top lane';
-  if (x > y + 2000) return 'Bot lane';
-
-  // Bases
-  if (x < 3000 && y < 3000) return isBlueTeam ? 'Allied base' : 'Enemy base';
-  if (x > 12000 && y > 12000) return isBlueTeam ? 'Enemy base' : 'Allied base';
+const ZONE_NAMES: Record<MapZone, [string, string]> = {
+  blue_base: ['Allied base', 'Enemy base'],
+  red_base: ['Allied base', 'Enemy base'],
+  blue_jungle: ['Allied jungle (blue side)', 'Enemy jungle (blue side)'],
+  red_jungle: ['Allied jungle (red side)', 'Enemy jungle (red side)'],
+  river_top: ['River (top side)', 'River (top side)'],
+  river_bot: ['River (bot side)', 'River (bot side)'],
+  dragon_pit: ['Dragon pit', 'Dragon pit'],
+  baron_pit: ['Baron pit', 'Baron pit'],
+  top_lane: ['Top lane', 'Top lane'],
+  mid_lane: ['Mid lane', 'Mid lane'],
+  bot_lane: ['Bot lane', 'Bot lane'],
+};
 
-  return 'Unknown area';
+// Get map zone name (from the player's team point of view) for the prompt
+function getZoneName(x: number, y: number, playerTeamId: number): string {
+  const { zone } = getMapZone({ x, y }, playerTeamId);
+  const ownSide = playerTeamId === 100 ? 'blue' : 'red';
+  return ZONE_NAMES[zone][zone.startsWith(ownSide) ? 0 : 1];
 }
 
 function getGamePhaseFromTimestamp(timestampMs: number): 'early' | 'mid' | 'late' {
@@ -558,6 +817,7 @@ async function fetchMatchData(matchId: string, puuid: string, region: string, en
       gameDuration: number;
       gameMode: string;
       queueId: number;
+      gameVersion?: string;
       participants: Array<{
         puuid: string;
         participantId: number;
@@ -716,6 +976,8 @@ async function fetchMatchData(matchId: string, puuid: string, region: string, en
     result: participant.win ? 'win' : 'loss',
     duration: data.info.gameDuration,
     gameMode: getGameModeFromQueue(data.info.queueId, data.info.gameMode),
+    gameVersion: data.info.gameVersion,
+    profile: getGameModeProfile(data.info.queueId, data.info.gameMode),
     kills: participant.kills,
     deaths: participant.deaths,
     assists: participant.assists,
@@ -747,8 +1009,61 @@ async function fetchMatchData(matchId: string, puuid: string, region: string, en
   };
 }
 
+interface BenchmarkRow {
+  label: string;
+  metric: BenchmarkMetric;
+  value?: number; // Player value rated against their own bracket
+  display?: string; // Shown as-is instead of a rated value
+  unit?: string;
+  poor?: string; // Alert shown when the value is poor for the bracket
+  good?: string; // Praise shown when the value is good for the bracket
+}
+
+const TIER_LABELS: Record<BenchmarkTier, string> = {
+  BRONZE_SILVER: 'Bronze-Silver',
+  GOLD_PLATINUM: 'Gold-Plat',
+  DIAMOND_PLUS: 'Diamond+',
+};
+
+// Markdown benchmark table: bracket averages side by side, player flagged against their own bracket
+function benchmarkTable(byTier: Record<BenchmarkTier, Benchmarks>, tier: BenchmarkTier, rows: BenchmarkRow[]): string {
+  const tiers = Object.keys(TIER_LABELS) as BenchmarkTier[];
+  const lines = [
+    `| Métrique | ${tiers.map(t => TIER_LABELS[t]).join(' | ')} | TES STATS |`,
+    `|----------|${tiers.map(() => '---------------').join('|')}|-----------|`,
+  ];
+
+  for (const row of rows) {
+    const averages = tiers.map(t => `${byTier[t][row.metric].average}${row.unit || ''}`);
+    let stats = row.display || '';
+    if (stats === '' && row.value !== undefined) {
+      const rating = rateValue(byTier[tier][row.metric], row.value, row.metric === 'deaths');
+      const flag = rating === 'poor' && row.poor ? `⚠️ ${row.poor}`
+        : rating === 'good' && row.good ? `✅ ${row.good}`
+        : '➡️ OK';
+      stats = `${row.value} ${flag}`;
+    }
+    lines.push(`| ${row.label} | ${averages.join(' | ')} | ${stats} |`);
+  }
+
+  lines.push(`\n_Alertes calculées pour le palier ${TIER_LABELS[tier]}._`);
+  return lines.join('\n');
+}
+
+// csScore / visionScore guideline: the bracket average scores 50, good 80+, below poor under 40
+function scoreGuideline(label: string, range: BenchmarkRange, value: string | number, unit: string): string {
+  return `- ${label} benchmark: ${range.average}${unit} = 50 points, ${range.good}+ = 80+
+- Player has ${value}${unit} → Calculate proportionally
+- Below ${range.poor} = under 40 points`;
+}
+
 // Role-specific coaching context with detailed benchmarks and priorities
-function getRoleContext(role: string, matchData: MatchData): string {
+function getRoleContext(
+  role: string,
+  matchData: MatchData,
+  benchmarks: Record<BenchmarkTier, Benchmarks>,
+  tier: BenchmarkTier
+): string {
   const gameDurationMinutes = Math.floor(matchData.duration / 60);
   const csPerMin = matchData.duration > 0 ? (matchData.cs / (matchData.duration / 60)).toFixed(1) : '0';
   const dpm = matchData.duration > 0 ? Math.round(matchData.damageDealt / (matchData.duration / 60)) : 0;
@@ -757,12 +1072,12 @@ function getRoleContext(role: string, matchData: MatchData): string {
     'TOP': `## ANALYSE SPÉCIFIQUE TOPLANER
 
 ### BENCHMARKS TOPLANER (comparés à tes stats)
-| Métrique | Bronze-Silver | Gold-Plat | Diamond+ | TES STATS |
-|----------|---------------|-----------|----------|-----------|
-| CS/min | 5.5-6.5 | 7.0-7.5 | 8.0+ | ${csPerMin} ${parseFloat(csPerMin) < 6.5 ? '⚠️ INSUFFISANT' : parseFloat(csPerMin) >= 8 ? '✅ EXCELLENT' : '➡️ Correct'} |
-| Vision Score | 15-20 | 25-35 | 40+ | ${matchData.visionScore} ${matchData.visionScore < 20 ? '⚠️ TROP BAS' : '➡️ OK'} |
-| Deaths | 5-7 | 3-5 | 2-4 | ${matchData.deaths} ${matchData.deaths > 5 ? '⚠️ TROP DE MORTS' : '➡️ OK'} |
-| DPM | 400-500 | 500-600 | 600+ | ${dpm} |
+${benchmarkTable(benchmarks, tier, [
+  { label: 'CS/min', metric: 'csPerMin', value: parseFloat(csPerMin), poor: 'INSUFFISANT', good: 'EXCELLENT' },
+  { label: 'Vision Score', metric: 'visionScore', value: matchData.visionScore, poor: 'TROP BAS' },
+  { label: 'Deaths', metric: 'deaths', value: matchData.deaths, poor: 'TROP DE MORTS' },
+  { label: 'DPM', metric: 'dpm', value: dpm, display: String(dpm) },
+])}
 
 ### ERREURS TYPIQUES TOPLANER À DÉTECTER
 1. **Mort en 1v1 évitable** - Trade forcé sans avantage ou sous le niveau de puissance
@@ -789,12 +1104,12 @@ function getRoleContext(role: string, matchData: MatchData): string {
     'JUNGLE': `## ANALYSE SPÉCIFIQUE JUNGLER
 
 ### BENCHMARKS JUNGLER (comparés à tes stats)
-| Métrique | Bronze-Silver | Gold-Plat | Diamond+ | TES STATS |
-|----------|---------------|-----------|----------|-----------|
-| CS/min (camps) | 4.5-5.0 | 5.5-6.0 | 6.5+ | ${csPerMin} ${parseFloat(csPerMin) < 5 ? '⚠️ FARM LENTE' : parseFloat(csPerMin) >= 6 ? '✅ BON FARM' : '➡️ Correct'} |
-| Vision Score | 25-35 | 40-50 | 55+ | ${matchData.visionScore} ${matchData.visionScore < 30 ? '⚠️ VISION INSUFFISANTE' : '✅ OK'} |
-| Deaths | 4-6 | 3-5 | 2-4 | ${matchData.deaths} ${matchData.deaths > 5 ? '⚠️ TROP DE MORTS' : '➡️ OK'} |
-| Kill Participation | 40-50% | 55-65% | 70%+ | À estimer |
+${benchmarkTable(benchmarks, tier, [
+  { label: 'CS/min (camps)', metric: 'csPerMin', value: parseFloat(csPerMin), poor: 'FARM LENTE', good: 'BON FARM' },
+  { label: 'Vision Score', metric: 'visionScore', value: matchData.visionScore, poor: 'VISION INSUFFISANTE' },
+  { label: 'Deaths', metric: 'deaths', value: matchData.deaths, poor: 'TROP DE MORTS' },
+  { label: 'Kill Participation', metric: 'killParticipation', unit: '%', display: 'À estimer' },
+])}
 
 ### ERREURS TYPIQUES JUNGLER À DÉTECTER
 1. **Objectif perdu sans contest** - Dragon/Herald donné gratuitement
@@ -821,12 +1136,12 @@ function getRoleContext(role: string, matchData: MatchData): string {
     'MID': `## ANALYSE SPÉCIFIQUE MIDLANER
 
 ### BENCHMARKS MIDLANER (comparés à tes stats)
-| Métrique | Bronze-Silver | Gold-Plat | Diamond+ | TES STATS |
-|----------|---------------|-----------|----------|-----------|
-| CS/min | 6.0-7.0 | 7.5-8.5 | 9.0+ | ${csPerMin} ${parseFloat(csPerMin) < 7 ? '⚠️ CS À AMÉLIORER' : parseFloat(csPerMin) >= 8.5 ? '✅ EXCELLENT' : '➡️ Correct'} |
-| Vision Score | 20-25 | 30-40 | 45+ | ${matchData.visionScore} ${matchData.visionScore < 25 ? '⚠️ PLUS DE WARDS' : '➡️ OK'} |
-| Deaths | 4-6 | 3-5 | 2-4 | ${matchData.deaths} ${matchData.deaths > 5 ? '⚠️ TROP DE MORTS' : '➡️ OK'} |
-| DPM | 450-550 | 550-700 | 750+ | ${dpm} ${dpm < 500 ? '⚠️ DPM BAS' : dpm >= 700 ? '✅ BON DPM' : '➡️ OK'} |
+${benchmarkTable(benchmarks, tier, [
+  { label: 'CS/min', metric: 'csPerMin', value: parseFloat(csPerMin), poor: 'CS À AMÉLIORER', good: 'EXCELLENT' },
+  { label: 'Vision Score', metric: 'visionScore', value: matchData.visionScore, poor: 'PLUS DE WARDS' },
+  { label: 'Deaths', metric: 'deaths', value: matchData.deaths, poor: 'TROP DE MORTS' },
+  { label: 'DPM', metric: 'dpm', value: dpm, poor: 'DPM BAS', good: 'BON DPM' },
+])}
 
 ### ERREURS TYPIQUES MIDLANER À DÉTECTER
 1. **Roam raté** - Roam sans push préalable = perte CS + raté
@@ -853,12 +1168,12 @@ function getRoleContext(role: string, matchData: MatchData): string {
     'ADC': `## ANALYSE SPÉCIFIQUE ADC
 
 ### BENCHMARKS ADC (comparés à tes stats)
-| Métrique | Bronze-Silver | Gold-Plat | Diamond+ | TES STATS |
-|----------|---------------|-----------|----------|-----------|
-| CS/min | 6.5-7.5 | 8.0-9.0 | 9.5+ | ${csPerMin} ${parseFloat(csPerMin) < 7.5 ? '⚠️ CS CRITIQUE' : parseFloat(csPerMin) >= 9 ? '✅ EXCELLENT' : '➡️ Correct'} |
-| Deaths | 4-6 | 3-5 | 2-4 | ${matchData.deaths} ${matchData.deaths > 5 ? '⚠️ SURVIE CRITIQUE' : matchData.deaths <= 3 ? '✅ BONNE SURVIE' : '➡️ OK'} |
-| DPM | 500-600 | 650-800 | 850+ | ${dpm} ${dpm < 550 ? '⚠️ DPM TRÈS BAS' : dpm >= 750 ? '✅ BON DPM' : '➡️ OK'} |
-| Vision Score | 15-20 | 20-30 | 30+ | ${matchData.visionScore} |
+${benchmarkTable(benchmarks, tier, [
+  { label: 'CS/min', metric: 'csPerMin', value: parseFloat(csPerMin), poor: 'CS CRITIQUE', good: 'EXCELLENT' },
+  { label: 'Deaths', metric: 'deaths', value: matchData.deaths, poor: 'SURVIE CRITIQUE', good: 'BONNE SURVIE' },
+  { label: 'DPM', metric: 'dpm', value: dpm, poor: 'DPM TRÈS BAS', good: 'BON DPM' },
+  { label: 'Vision Score', metric: 'visionScore', value: matchData.visionScore, display: String(matchData.visionScore) },
+])}
 
 ### ERREURS TYPIQUES ADC À DÉTECTER
 1. **Mort en teamfight par mauvais positionnement** - Trop avancé, pas derrière le frontline
@@ -885,12 +1200,12 @@ function getRoleContext(role: string, matchData: MatchData): string {
     'SUPPORT': `## ANALYSE SPÉCIFIQUE SUPPORT
 
 ### BENCHMARKS SUPPORT (comparés à tes stats)
-| Métrique | Bronze-Silver | Gold-Plat | Diamond+ | TES STATS |
-|----------|---------------|-----------|----------|-----------|
-| Vision Score | 35-45 | 50-65 | 75+ | ${matchData.visionScore} ${matchData.visionScore < 40 ? '⚠️ VISION CRITIQUE' : matchData.visionScore >= 60 ? '✅ EXCELLENT' : '➡️ Correct'} |
-| Wards/min | 0.8-1.0 | 1.2-1.5 | 1.8+ | ${matchData.wardsPlaced ? (matchData.wardsPlaced / gameDurationMinutes).toFixed(1) : 'N/A'} |
-| Deaths | 4-6 | 3-5 | 2-4 | ${matchData.deaths} ${matchData.deaths > 5 ? '⚠️ TROP DE MORTS' : '➡️ OK'} |
-| Kill Participation | 50-60% | 65-75% | 80%+ | À estimer |
+${benchmarkTable(benchmarks, tier, [
+  { label: 'Vision Score', metric: 'visionScore', value: matchData.visionScore, poor: 'VISION CRITIQUE', good: 'EXCELLENT' },
+  { label: 'Wards/min', metric: 'wardsPerMin', display: matchData.wardsPlaced ? (matchData.wardsPlaced / gameDurationMinutes).toFixed(1) : 'N/A' },
+  { label: 'Deaths', metric: 'deaths', value: matchData.deaths, poor: 'TROP DE MORTS' },
+  { label: 'Kill Participation', metric: 'killParticipation', unit: '%', display: 'À estimer' },
+])}
 
 ### ERREURS TYPIQUES SUPPORT À DÉTECTER
 1. **Vision insuffisante** - Pas de wards avant objectifs, pink non utilisées
@@ -920,6 +1235,30 @@ function getRoleContext(role: string, matchData: MatchData): string {
   return contexts[role] || contexts['UNKNOWN'];
 }
 
+// ARAM coaching context: no lanes, roles, vision or objectives on the Howling Abyss
+function getAramContext(matchData: MatchData, dpmBenchmark: BenchmarkRange): string {
+  const minutes = Math.max(1, matchData.duration / 60);
+  const deathsPer10 = (matchData.deaths / minutes * 10).toFixed(1);
+  const dpm = Math.round(matchData.damageDealt / minutes);
+  const benchmarks = matchData.profile?.aram;
+
+  return `## ANALYSE SPÉCIFIQUE ARAM (HOWLING ABYSS)
+
+### BENCHMARKS ARAM (comparés à tes stats)
+| Métrique | Attendu | TES STATS |
+|----------|---------|-----------|
+| Part des dégâts de l'équipe | ${benchmarks ? Math.round(benchmarks.minDamageShare * 100) : 15}%+ | À estimer |
+| Morts / 10 min | ${benchmarks?.maxDeathsPer10 ?? 5} max | ${deathsPer10} ${parseFloat(deathsPer10) > (benchmarks?.maxDeathsPer10 ?? 5) ? '⚠️ TROP DE MORTS' : '➡️ OK'} |
+| Poke subi hors fights | ≤ ${benchmarks?.maxPokeRatio ?? 1.5}x la moyenne de l'équipe | À estimer |
+| DPM | ${dpmBenchmark.average}+ | ${dpm} ${rateValue(dpmBenchmark, dpm) === 'poor' ? '⚠️ DPM BAS' : '➡️ OK'} |
+
+### RÈGLES ARAM
+- Il n'y a PAS de rôles, de lanes, de jungle, de vision ni d'objectifs neutres: ne donne AUCUN conseil de CS, de wards, de Dragon/Baron ou de roaming
+- Tout se joue en teamfight sur une seule lane: positionnement, poke, engages et utilisation des cooldowns
+- Pas de retour en base: la vie perdue par le poke avant un fight est un désavantage direct
+- Juge le joueur sur sa part de dégâts, sa fréquence de morts et le poke qu'il subit`;
+}
+
 // Vision analysis result type
 interface VisionAnalysisResult {
   clipIndex: number;
@@ -939,29 +1278,115 @@ const LANGUAGE_INSTRUCTIONS: Record<string, string> = {
   pt: 'Portuguese',
 };
 
+// Format a detector error as a verified fact for the coaching prompt
+function formatVerifiedFact(error: DetectedError): string {
+  const minutes = Math.floor(error.timestamp / 60);
+  const seconds = error.timestamp % 60;
+  const timeStr = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const { goldState, levelState, mapState, csState, visionState, gamePhase } = error.context;
+
+  const lines = [
+    `**[${error.id}]** at ${timeStr} (${gamePhase} game) - ${error.type} / ${error.severity}: ${error.title}`,
+    `  - ${error.description}`,
+  ];
+  if (error.impact !== undefined) {
+    lines.push(`  - Win probability impact: ${error.impact >= 0 ? '+' : ''}${error.impact}%`);
+  }
+  if (goldState) {
+    lines.push(`  - Gold: you ${goldState.player} vs ${goldState.opponent} (${goldState.differential >= 0 ? '+' : ''}${goldState.differential})`);
+  }
+  if (levelState) {
+    lines.push(`  - Level: you ${levelState.player} vs ${levelState.opponent}`);
+  }
+  if (mapState) {
+    const ally = mapState.nearestAlly ? `, nearest ally ${mapState.nearestAlly.champion} at ${mapState.nearestAlly.distance} units` : '';
+    const enemy = mapState.nearestEnemy ? `, enemy ${mapState.nearestEnemy.champion}` : '';
+    lines.push(`  - Map: ${mapState.zone} zone${ally}${enemy}`);
+  }
+  if (csState) {
+    lines.push(`  - CS: you ${csState.player} vs ${csState.opponent} (${csState.differential >= 0 ? '+' : ''}${csState.differential})`);
+  }
+  if (visionState) {
+    lines.push(`  - Vision: ${visionState.playerWardsActive} wards placed, area ${visionState.areaWarded ? 'warded' : 'not warded'}`);
+  }
+  return lines.join('\n');
+}
+
+// Build the verified facts section from timeline detector results (hybrid mode)
+function buildVerifiedFactsSection(detectedErrors: DetectedError[]): string {
+  if (detectedErrors.length === 0) return '';
+
+  return `
+
+## VERIFIED FACTS (FROM RIOT TIMELINE DATA - GROUND TRUTH)
+Our timeline engine detected ${detectedErrors.length} mistakes directly from the game events. Timestamps, gold, levels and positions are EXACT:
+
+${rankErrorsByImpact(detectedErrors).map(formatVerifiedFact).join('\n\n')}
+
+IMPORTANT: Build your errors primarily from these facts (listed from most to least costly in win probability). Explain WHY each one happened and rank them by impact on the game.
+- When an error explains a verified fact, set "factId" to the fact id (e.g. "${detectedErrors[0].id}") and keep its exact timestamp
+- Do NOT invent timestamps. Only add an error without factId if it is clearly supported by the match data
+`;
+}
+
+// Build the laning differentials section (GD/XPD/CSD @10/@15/@20)
+function buildLaningSection(laning: LaneDifferentials | null): string {
+  if (!laning) return '';
+
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value}`;
+  const rows = ([10, 15, 20] as const)
+    .map(minute => ({ minute, snapshot: laning[`at${minute}`] }))
+    .filter(row => row.snapshot)
+    .map(({ minute, snapshot }) =>
+      `| @${minute} | ${signed(snapshot!.goldDiff)} | ${signed(snapshot!.xpDiff)} | ${signed(snapshot!.csDiff)} | ${signed(snapshot!.levelDiff)} |`
+    );
+  if (rows.length === 0) return '';
+
+  return `
+
+## LANING DIFFERENTIALS VS ${laning.opponent.toUpperCase()} (FROM RIOT TIMELINE - EXACT)
+| Time | Gold diff | XP diff | CS diff | Level diff |
+|------|-----------|---------|---------|------------|
+${rows.join('\n')}
+
+Use these numbers to judge the laning phase. Do not contradict them.
+`;
+}
+
 // Analyze match with Claude AI - Professional Coach Analysis
 async function analyzeWithClaude(
   matchData: MatchData,
   job: AnalysisJob,
   env: Env,
+  llm: LlmClient,
   visionAnalysis: VisionAnalysisResult[] = [],
-  language: string = 'en'
+  language: string = 'en',
+  detectedErrors: DetectedError[] = [],
+  groundTruth: GroundTruth | null = null,
+  laning: LaneDifferentials | null = null
 ): Promise<{
   stats: AnalysisStats;
   errors: GameError[];
   tips: CoachingTip[];
   clips: VideoClip[];
 }> {
-  const anthropic = new Anthropic({
-    apiKey: env.ANTHROPIC_API_KEY,
-  });
-
   const gameDurationMinutes = Math.floor(matchData.duration / 60);
   const csPerMin = matchData.duration > 0 ? (matchData.cs / (matchData.duration / 60)).toFixed(1) : '0';
   const kda = ((matchData.kills + matchData.assists) / Math.max(1, matchData.deaths)).toFixed(2);
   const dpm = matchData.duration > 0 ? Math.round(matchData.damageDealt / (matchData.duration / 60)) : 0;
 
-  const roleContext = getRoleContext(matchData.role, matchData);
+  // Benchmarks for every bracket (shown side by side), the player's own bracket drives alerts
+  const benchmarksByTier = resolveBenchmarksByTier(
+    await loadBenchmarkOverrides(env),
+    toBenchmarkRole(matchData.role),
+    toPatch(matchData.gameVersion)
+  );
+  const tier = toBenchmarkTier(job.tier);
+  const benchmarks = benchmarksByTier[tier];
+
+  const roleContext = matchData.profile?.usesRoles === false
+    ? getAramContext(matchData, benchmarks.dpm)
+    : getRoleContext(matchData.role, matchData, benchmarksByTier, tier);
   const outputLanguage = LANGUAGE_INSTRUCTIONS[language] || 'English';
 
   // Build vision analysis section if available
@@ -983,6 +1408,10 @@ IMPORTANT: Integrate these visual observations into your errors and tips. Video
 `;
   }
 
+  // Verified detector findings (hybrid mode)
+  const factsSection = buildVerifiedFactsSection(detectedErrors);
+  const laningSection = buildLaningSection(laning);
+
   // Professional Coach Prompt - Actionable feedback for ranking up
   const prompt = `You are an elite League of Legends coach who has trained professional players and helped thousands climb from Iron to Challenger. Your analysis style is:
 
@@ -993,7 +1422,7 @@ IMPORTANT: Integrate these visual observations into your errors and tips. Video
 
 **CRITICAL: ALL YOUR TEXT OUTPUT IN THE JSON RESPONSE MUST BE WRITTEN IN ${outputLanguage.toUpperCase()}.**
 This includes all titles, descriptions, assessments, tips, coaching notes, and any other text content.
-${visionSection}
+${visionSection}${factsSection}${laningSection}
 
 ## YOUR COACHING PHILOSOPHY
 - Players don't improve by hearing "nice try" - they improve by understanding exactly what went wrong
@@ -1016,10 +1445,10 @@ ${roleContext}
 - Result: ${matchData.result === 'win' ? 'VICTORY' : 'DEFEAT'}
 - Duration: ${gameDurationMinutes} minutes (${matchData.duration} seconds)
 - KDA: ${matchData.kills}/${matchData.deaths}/${matchData.assists} (Ratio: ${kda})
-- CS: ${matchData.cs} total (${csPerMin}/min) - ${matchData.role === 'JUNGLE' ? 'acceptable for jungler' : parseFloat(csPerMin) < 6 ? 'INSUFFICIENT, losing a lot of gold' : parseFloat(csPerMin) >= 8 ? 'excellent' : 'average'}
+- CS: ${matchData.cs} total (${csPerMin}/min) - ${matchData.role === 'JUNGLE' ? 'acceptable for jungler' : { poor: 'INSUFFICIENT, losing a lot of gold', average: 'average', good: 'excellent' }[rateValue(benchmarks.csPerMin, parseFloat(csPerMin))]}
 - Vision Score: ${matchData.visionScore}
 - Total gold: ${matchData.goldEarned} (${Math.round(matchData.goldEarned / gameDurationMinutes)} gold/min)
-- Damage: ${matchData.damageDealt} (${dpm} DPM) - ${matchData.role === 'SUPPORT' ? 'normal for support' : dpm < 400 ? 'VERY LOW, not present in fights' : dpm > 700 ? 'good damage output' : 'average'}
+- Damage: ${matchData.damageDealt} (${dpm} DPM) - ${matchData.role === 'SUPPORT' ? 'normal for support' : { poor: 'VERY LOW, not present in fights', average: 'average', good: 'good damage output' }[rateValue(benchmarks.dpm, dpm)]}
 ${matchData.damageDealtToObjectives ? `- Objective damage: ${matchData.damageDealtToObjectives}` : ''}
 ${matchData.objectives ? `- Team objectives: ${matchData.objectives.dragonKills} Dragons, ${matchData.objectives.baronKills} Barons, ${matchData.objectives.heraldKills} Heralds` : ''}
 ${matchData.teamGold && matchData.enemyTeamGold ? `- Game state: ${matchData.teamGold > matchData.enemyTeamGold ? 'your team was ahead by ' + (matchData.teamGold - matchData.enemyTeamGold) + ' gold' : 'your team was behind by ' + (matchData.enemyTeamGold - matchData.teamGold) + ' gold'}` : ''}
@@ -1142,17 +1571,10 @@ Calculate scores based on ACTUAL stats. Different performances MUST result in di
 
 ### CS SCORE (csScore) - Role specific:
 ${matchData.role === 'SUPPORT' ? `- Support: CS doesn't matter, base score = 70
-- Adjust based on roaming effectiveness and pressure created` : matchData.role === 'JUNGLE' ? `- Jungle benchmark: 5.5 CS/min = 50 points, 6.5+ = 80+, 7.5+ = 95+
-- Player has ${csPerMin} CS/min → Calculate proportionally
-- Below 4.5 = under 40 points` : `- Lane benchmark: 7.0 CS/min = 50 points, 8.5+ = 80+, 9.5+ = 95+
-- Player has ${csPerMin} CS/min → Calculate proportionally
-- Below 5.5 = under 40 points, Below 6.5 = under 50 points`}
+- Adjust based on roaming effectiveness and pressure created` : scoreGuideline(`${matchData.role} (${TIER_LABELS[tier]})`, benchmarks.csPerMin, csPerMin, ' CS/min')}
 
 ### VISION SCORE (visionScore):
-${matchData.role === 'SUPPORT' ? `- Support benchmark: 50 vision = 50 points, 70+ = 80+, 90+ = 95+
-- Player has ${matchData.visionScore} → Calculate proportionally` : matchData.role === 'JUNGLE' ? `- Jungle benchmark: 35 vision = 50 points, 50+ = 75+, 65+ = 90+
-- Player has ${matchData.visionScore} → Calculate proportionally` : `- Laner benchmark: 25 vision = 50 points, 35+ = 70+, 45+ = 85+
-- Player has ${matchData.visionScore} → Calculate proportionally`}
+${scoreGuideline(`${matchData.role} (${TIER_LABELS[tier]})`, benchmarks.visionScore, matchData.visionScore, ' vision')}
 
 ### POSITIONING SCORE (positioningScore):
 - Base: Start at 70
@@ -1194,7 +1616,7 @@ DEATH PENALTY: ${matchData.deaths} deaths
 
 **IMPORTANT: The final overallScore MUST reflect the actual performance. A player with ${csPerMin} CS/min, ${matchData.deaths} deaths, ${kda} KDA cannot have the same score as someone with very different stats!**
 
-## RESPONSE FORMAT (JSON) - MANDATORY PERSONALIZATION
+## RESPONSE FORMAT (${COACHING_TOOL.name} tool) - MANDATORY PERSONALIZATION
 {
   "stats": {
     "overallScore": <0-100 - CALCULATED using formulas above, not arbitrary>,
@@ -1204,18 +1626,12 @@ DEATH PENALTY: ${matchData.deaths} deaths
     "objectiveScore": <0-100 - from objective calculation>,
     "macroScore": <0-100 - from macro calculation>,
     "deathsAnalyzed": ${matchData.deaths},
-    "errorsFound": <number>,
-    "comparedToRank": [
-      {"metric": "CS/min", "yours": ${csPerMin}, "average": ${matchData.role === 'SUPPORT' ? '1.5' : matchData.role === 'JUNGLE' ? '5.5' : '7.0'}, "percentile": <0-100>},
-      {"metric": "Vision Score", "yours": ${matchData.visionScore}, "average": ${matchData.role === 'SUPPORT' ? '50' : matchData.role === 'JUNGLE' ? '35' : '25'}, "percentile": <0-100>},
-      {"metric": "KDA", "yours": ${kda}, "average": 2.5, "percentile": <0-100>},
-      {"metric": "DPM", "yours": ${dpm}, "average": ${matchData.role === 'SUPPORT' ? '300' : matchData.role === 'ADC' ? '600' : '500'}, "percentile": <0-100>}
-    ]
+    "errorsFound": <number>
   },
   "errors": [
     {
       "id": "error-1",
-      "type": "<objective|death-timing|power-spike|macro-positioning|vision|teamfight|back-timing|wave-management|split-push|timing-exploitation>",
+      "type": "<death|objective|death-timing|power-spike|macro-positioning|vision|teamfight|back-timing|wave-management|split-push|timing-exploitation>",
       "severity": "<critical|high|medium|low>",
       "priority": <1-4>,
       "title": "<5 words max - impactful>",
@@ -1226,7 +1642,8 @@ DEATH PENALTY: ${matchData.deaths} deaths
       "clipEnd": <seconds or null - same rule as clipStart>,
       "coachingNote": "<PERSONALIZED! What a Challenger player would have done differently>",
       "roleSpecific": true,
-      "hasVideoMoment": <true if error corresponds to a SPECIFIC MOMENT visible in video (death, fight, objective), false if it's a global stat (vision score, CS, etc.)>
+      "hasVideoMoment": <true if error corresponds to a SPECIFIC MOMENT visible in video (death, fight, objective), false if it's a global stat (vision score, CS, etc.)>${detectedErrors.length > 0 ? `,
+      "factId": "<id of the VERIFIED FACT this error explains, or null if it is your own observation>"` : ''}
     }
   ],
   "tips": [
@@ -1308,7 +1725,7 @@ IMPORTANT:
 ## VIDEO CLIP RULES (clipStart/clipEnd)
 CRITICAL: Only set clipStart and clipEnd for errors that have a SPECIFIC MOMENT visible in video:
 ✅ INCLUDE clips for:
-- Deaths (death-timing) - you can see the player die
+- Deaths (death, death-timing) - you can see the player die
 - Poorly played teamfights - you can see positioning
 - Failed objectives - you can see the fight around Dragon/Baron
 - Bad positioning - you can see where the player was
@@ -1324,69 +1741,41 @@ If the error does NOT have a specific visible moment, set clipStart: null and cl
 
 REMINDER: Write ALL text content in ${outputLanguage.toUpperCase()}.`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8000, // Increased for detailed deaths analysis
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
-
-  // Extract JSON from response
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
-  // Parse JSON from response
-  const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Failed to parse Claude response as JSON');
-  }
-
-  // Death analysis type
-  interface DeathAnalysisEntry {
-    deathNumber: number;
-    timestamp: number;
-    gamePhase: 'early' | 'mid' | 'late';
-    situationContext: string;
-    fightAnalysis: {
-      wasWinnable: boolean;
-      reason: string;
-      goldState: string;
-      levelState: string;
-      cooldownsAvailable: string;
+  const analysis = await requestStructuredOutput(llm, getLlmSettings('coaching', job.subscriptionTier), [
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ], COACHING_TOOL);
+
+  // Add IDs to errors and tips if missing, and record where each error comes from
+  const factsById = new Map(detectedErrors.map(d => [d.id, d]));
+  let errors: Array<GameError & { hasVideoMoment?: boolean }> = analysis.errors.map((e, i) => {
+    const fact = e.factId ? factsById.get(e.factId) : undefined;
+    return {
+      ...e,
+      id: e.id || `error-${generateId()}-${i}`,
+      clipStart: e.clipStart ?? undefined,
+      clipEnd: e.clipEnd ?? undefined,
+      // Detector facts keep their real timestamp
+      timestamp: fact ? fact.timestamp : e.timestamp,
+      source: fact ? 'detector' as const : 'ai' as const,
     };
-    whatWentWrong: string;
-    whatShouldHaveDone: string;
-    deathCost: string;
-    coachVerdict: 'critical' | 'avoidable' | 'unlucky' | 'acceptable';
-  }
+  });
 
-  const analysis = JSON.parse(jsonMatch[0]) as {
-    stats: AnalysisStats;
-    errors: Array<GameError & { clipStart?: number; clipEnd?: number; coachingNote?: string; priority?: number; roleSpecific?: boolean }>;
-    tips: Array<CoachingTip & { exercice?: string; relatedErrors?: string[] }>;
-    performanceSummary?: PerformanceSummary & { keyMistake?: string };
-    deathsAnalysis?: DeathAnalysisEntry[];
-  };
+  // Reject hallucinated moments and snap the rest onto real timeline events
+  errors = validateErrors(errors, groundTruth, visionAnalysis.map(v => v.timestamp));
 
-  // Add IDs to errors and tips if missing
-  analysis.errors = analysis.errors.map((e, i) => ({
-    ...e,
-    id: e.id || `error-${generateId()}-${i}`,
-  }));
+  // comparedToRank is filled from real distributions once the analysis completes
+  const stats: AnalysisStats = { ...analysis.stats, errorsFound: errors.length, comparedToRank: [] };
 
-  analysis.tips = analysis.tips.map((t, i) => ({
+  const tips: CoachingTip[] = analysis.tips.map((t, i) => ({
     ...t,
     id: t.id || `tip-${generateId()}-${i}`,
   }));
 
   // Sort errors by priority (critical first)
-  analysis.errors.sort((a, b) => {
+  errors.sort((a, b) => {
     const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
     return (severityOrder[a.severity] || 3) - (severityOrder[b.severity] || 3);
   });
@@ -1396,6 +1785,7 @@ REMINDER: Write ALL text content in ${outputLanguage.toUpperCase()}.`;
 
   // Error types that deserve a video clip (have a specific in-game moment)
   const clippableErrorTypes = new Set([
+    'death',             // Mort évitable
     'death-timing',      // Mort avant objectif
     'objective',         // Mauvaise gestion d'objectif (fight visible)
     'teamfight',         // Erreur en teamfight
@@ -1445,7 +1835,7 @@ REMINDER: Write ALL text content in ${outputLanguage.toUpperCase()}.`;
   if (visionAnalysis.length > 0) {
     clips = visionAnalysis.map((va, i) => {
       // Find matching error if any
-      const matchingError = analysis.errors.find(e =>
+      const matchingError = errors.find(e =>
         Math.abs(e.timestamp - va.timestamp) < 30 // Within 30 seconds
       );
 
@@ -1476,14 +1866,14 @@ REMINDER: Write ALL text content in ${outputLanguage.toUpperCase()}.`;
   } else {
     // Fallback to AI-estimated clips based on errors
     // ONLY include clips for errors that make sense to show in video
-    clips = analysis.errors
+    clips = errors
       .filter(e => e.clipStart !== undefined && e.clipStart !== null && e.clipEnd !== undefined && e.clipEnd !== null)
-      .filter(e => (e as { hasVideoMoment?: boolean }).hasVideoMoment !== false) // Respect AI's hasVideoMoment flag
+      .filter(e => e.hasVideoMoment !== false) // Respect AI's hasVideoMoment flag
       .filter(e => isClippableError(e)) // Double-check with our rules
       .slice(0, 5) // Limit to 5 most important clips
       .map((error, i) => {
         // Check if this is a death-related error
-        const isDeath = error.type === 'death-timing' ||
+        const isDeath = error.type === 'death' || error.type === 'death-timing' ||
                         error.title.toLowerCase().includes('mort') ||
                         error.description.toLowerCase().includes('mort');
 
@@ -1516,16 +1906,16 @@ REMINDER: Write ALL text content in ${outputLanguage.toUpperCase()}.`;
 
   // Store performance summary and deaths analysis in stats if available
   if (analysis.performanceSummary) {
-    (analysis.stats as AnalysisStats & { performanceSummary?: PerformanceSummary }).performanceSummary = analysis.performanceSummary;
+    stats.performanceSummary = analysis.performanceSummary;
   }
   if (analysis.deathsAnalysis) {
-    (analysis.stats as AnalysisStats & { deathsAnalysis?: typeof analysis.deathsAnalysis }).deathsAnalysis = analysis.deathsAnalysis;
+    stats.deathsAnalysis = analysis.deathsAnalysis;
   }
 
   return {
-    stats: analysis.stats,
-    errors: analysis.errors,
-    tips: analysis.tips,
+    stats,
+    errors,
+    tips,
     clips,
   };
 }
@@ -1538,6 +1928,7 @@ export interface SimpleMatchData {
   result: 'win' | 'loss';
   duration: number;
   gameMode: string;
+  queueId?: number;
   kills: number;
   deaths: number;
   assists: number;
@@ -1592,19 +1983,26 @@ const LANGUAGE_NAMES: Record<AnalysisLanguage, string> = {
 export async function analyzeMatchWithAI(
   matchData: SimpleMatchData,
   env: Env,
-  language: AnalysisLanguage = 'en'
+  language: AnalysisLanguage = 'en',
+  llm: LlmClient = createAnthropicClient(env.ANTHROPIC_API_KEY)
 ): Promise<{
   stats: AnalysisStats;
   errors: GameError[];
   tips: CoachingTip[];
   clips: VideoClip[];
 }> {
+  const profile = getGameModeProfile(matchData.queueId, matchData.gameMode);
+  if (!profile) {
+    throw new Error(`Unsupported game mode: ${matchData.gameMode}`);
+  }
+
   // Convert to internal MatchData format
   const internalMatchData: MatchData = {
     champion: matchData.champion,
     result: matchData.result,
     duration: matchData.duration,
     gameMode: matchData.gameMode,
+    profile,
     kills: matchData.kills,
     deaths: matchData.deaths,
     assists: matchData.assists,
@@ -1638,6 +2036,25 @@ export async function analyzeMatchWithAI(
     videoKey: '',
   };
 
+  // API analyses have no Nexra account: usage is billed anonymously on the free plan, within the global budget
+  const account: UsageAccount = { analysisId: minimalJob.analysisId, userId: null, subscriptionTier: 'free' };
+  llm = createBudgetGuardClient(createUsageTrackingClient(llm, usage => recordLlmUsage(env, account, usage)), env, account);
+
+  // Validate AI errors against the enriched timeline data when available
+  let groundTruth: GroundTruth | null = null;
+  if (matchData.deathDetails) {
+    groundTruth = {
+      duration: matchData.duration,
+      deaths: matchData.deathDetails.map(d => ({ timestamp: d.timestamp, killer: d.killer })),
+      objectives: (matchData.objectiveTimeline || []).flatMap(o => {
+        const type = toObjectiveKind(o.type);
+        return type ? [{ type, timestamp: o.timestamp, wasPlayerTeam: o.wasPlayerTeam }] : [];
+      }),
+    };
+  }
+
   // Call the AI analysis function without vision analysis
-  return analyzeWithClaude(internalMatchData, minimalJob, env, [], language);
+  const analysis = await analyzeWithClaude(internalMatchData, minimalJob, env, llm, [], language, [], groundTruth);
+  await addRankComparison(env, minimalJob, analysis, toMetricSample(internalMatchData));
+  return analysis;
 }
@@ -0,0 +1,79 @@
+// Benchmark store - Benchmark overrides kept in D1 and cached in KV
+// Analyses read them on every job, admins edit them through /admin/benchmarks
+
+import { Env } from '../types';
+import { BenchmarkOverride, BenchmarkRole, BenchmarkTier, BenchmarkValues } from '../lib/analysis/benchmarks';
+
+const CACHE_KEY = 'benchmarks:overrides';
+const CACHE_TTL = 60 * 60; // 1 hour, updates clear the cache immediately
+
+interface BenchmarkRow {
+  role: string;
+  tier: string;
+  patch: string;
+  benchmark_values: string;
+  updated_at: string;
+}
+
+function toOverride(row: BenchmarkRow): BenchmarkOverride {
+  return {
+    role: row.role as BenchmarkRole | '*',
+    tier: row.tier as BenchmarkTier | '*',
+    patch: row.patch,
+    values: JSON.parse(row.benchmark_values) as BenchmarkValues,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function listBenchmarkOverrides(env: Env): Promise<BenchmarkOverride[]> {
+  const { results } = await env.DB.prepare(`
+    SELECT role, tier, patch, benchmark_values, updated_at FROM benchmarks ORDER BY patch, role, tier
+  `).all<BenchmarkRow>();
+
+  return results.map(toOverride);
+}
+
+/**
+ * Overrides for the analysis engine. Never throws: without the store, code defaults apply.
+ */
+export async function loadBenchmarkOverrides(env: Env): Promise<BenchmarkOverride[]> {
+  try {
+    const cached = await env.CACHE.get(CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached) as BenchmarkOverride[];
+    }
+
+    const overrides = await listBenchmarkOverrides(env);
+    await env.CACHE.put(CACHE_KEY, JSON.stringify(overrides), { expirationTtl: CACHE_TTL });
+    return overrides;
+  } catch (error) {
+    console.error('Could not load benchmark overrides, using defaults:', error);
+    return [];
+  }
+}
+
+export async function saveBenchmarkOverride(env: Env, override: BenchmarkOverride): Promise<void> {
+  await env.DB.prepare(`
+    INSERT INTO benchmarks (role, tier, patch, benchmark_values, updated_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+    ON CONFLICT (role, tier, patch) DO UPDATE SET
+      benchmark_values = excluded.benchmark_values,
+      updated_at = excluded.updated_at
+  `).bind(override.role, override.tier, override.patch, JSON.stringify(override.values)).run();
+
+  await env.CACHE.delete(CACHE_KEY);
+}
+
+export async function deleteBenchmarkOverride(
+  env: Env,
+  role: string,
+  tier: string,
+  patch: string
+): Promise<boolean> {
+  const result = await env.DB.prepare(`
+    DELETE FROM benchmarks WHERE role = ? AND tier = ? AND patch = ?
+  `).bind(role, tier, patch).run();
+
+  await env.CACHE.delete(CACHE_KEY);
+  return (result.meta.changes || 0) > 0;
+}
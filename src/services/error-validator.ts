@@ -0,0 +1,174 @@
+// Error Validator - Cross-checks AI errors against the real match timeline
+// Rejects hallucinated deaths/objectives and snaps timestamps onto real events
+
+import { GameError, ErrorType, ErrorVerification } from '../types';
+import { TimelineBundle } from './rules-analyzer';
+
+type ObjectiveKind = 'DRAGON' | 'ELDER_DRAGON' | 'BARON_NASHOR' | 'RIFTHERALD' | 'HORDE';
+
+// Real events from the game, timestamps in seconds
+export interface GroundTruth {
+  duration: number;
+  deaths: Array<{ timestamp: number; killer?: string }>;
+  objectives: Array<{ type: ObjectiveKind; timestamp: number; wasPlayerTeam: boolean }>;
+}
+
+// Max distance (seconds) between an AI timestamp and the real event it refers to
+const DEATH_MATCH_WINDOW = 90;
+const OBJECTIVE_MATCH_WINDOW = 120;
+const VIDEO_MATCH_WINDOW = 30;
+
+// Error types the coach uses for the player's own deaths
+const DEATH_TYPES: ErrorType[] = ['death', 'death-timing'];
+
+// AI text is written in the user's language (en/fr/es/de/pt)
+const OBJECTIVE_PATTERNS: Array<{ kinds: ObjectiveKind[]; pattern: RegExp }> = [
+  { kinds: ['ELDER_DRAGON'], pattern: /elder|ancestral|ancien|ältest/i },
+  { kinds: ['DRAGON', 'ELDER_DRAGON'], pattern: /dragon|drake|drache|dragão|soul|âme|alma|seele/i },
+  { kinds: ['BARON_NASHOR'], pattern: /baron|barão|nashor/i },
+  { kinds: ['RIFTHERALD'], pattern: /herald|héraut|heraldo|herold|arauto/i },
+  { kinds: ['HORDE'], pattern: /grub|larve|larva|larven|vastlarv/i },
+];
+
+const OBJECTIVE_KINDS: ObjectiveKind[] = ['DRAGON', 'ELDER_DRAGON', 'BARON_NASHOR', 'RIFTHERALD', 'HORDE'];
+
+// Build ground truth from the Riot match + timeline
+export function buildGroundTruth(bundle: TimelineBundle, puuid: string): GroundTruth | null {
+  const player = bundle.match.participants.find(p => p.puuid === puuid);
+  if (!player) return null;
+
+  const truth: GroundTruth = {
+    duration: bundle.match.gameDuration,
+    deaths: [],
+    objectives: [],
+  };
+
+  for (const frame of bundle.timeline.frames) {
+    for (const event of frame.events) {
+      if (event.type === 'CHAMPION_KILL' && event.victimId === player.participantId) {
+        const killer = bundle.match.participants.find(p => p.participantId === event.killerId);
+        truth.deaths.push({
+          timestamp: Math.floor(event.timestamp / 1000),
+          killer: killer?.championName,
+        });
+      }
+
+      if (event.type === 'ELITE_MONSTER_KILL' && event.monsterType) {
+        truth.objectives.push({
+          type: event.monsterType,
+          timestamp: Math.floor(event.timestamp / 1000),
+          wasPlayerTeam: event.killerTeamId === player.teamId,
+        });
+      }
+    }
+  }
+
+  return truth;
+}
+
+// Normalize objective type strings coming from stored/enriched match data
+export function toObjectiveKind(type: string): ObjectiveKind | null {
+  const normalized = type.toUpperCase();
+  return OBJECTIVE_KINDS.find(kind => kind === normalized) || null;
+}
+
+function getObjectiveKinds(error: GameError): ObjectiveKind[] {
+  const text = `${error.title} ${error.description}`;
+  const kinds = new Set<ObjectiveKind>();
+  for (const { kinds: matched, pattern } of OBJECTIVE_PATTERNS) {
+    if (pattern.test(text)) matched.forEach(k => kinds.add(k));
+  }
+  return [...kinds];
+}
+
+function findNearest<T extends { timestamp: number }>(events: T[], timestamp: number, window: number): T | null {
+  let nearest: T | null = null;
+  for (const event of events) {
+    const distance = Math.abs(event.timestamp - timestamp);
+    if (distance > window) continue;
+    if (!nearest || distance < Math.abs(nearest.timestamp - timestamp)) {
+      nearest = event;
+    }
+  }
+  return nearest;
+}
+
+// Move an error (and its clip window) onto a real event timestamp
+function snapTo<T extends GameError>(error: T, timestamp: number): T {
+  const delta = timestamp - error.timestamp;
+  return {
+    ...error,
+    timestamp,
+    clipStart: error.clipStart != null ? Math.max(0, error.clipStart + delta) : error.clipStart,
+    clipEnd: error.clipEnd != null ? error.clipEnd + delta : error.clipEnd,
+  };
+}
+
+/**
+ * Validates AI errors against the timeline.
+ * - Death errors (by type) are snapped onto the nearest real death
+ * - Objective errors are snapped onto the matching objective, preferring ones lost to the enemy
+ * - Errors placed after the end of the game are dropped
+ * Each remaining error gets a `verification` status.
+ */
+export function validateErrors<T extends GameError>(
+  errors: T[],
+  truth: GroundTruth | null,
+  videoMoments: number[] = []
+): T[] {
+  const validated: T[] = [];
+
+  for (const error of errors) {
+    const isVideoMoment = videoMoments.some(t => Math.abs(t - error.timestamp) <= VIDEO_MATCH_WINDOW);
+    const fallback: ErrorVerification = isVideoMoment ? 'video-confirmed' : 'unverified';
+
+    if (!truth) {
+      validated.push({ ...error, verification: fallback });
+      continue;
+    }
+
+    if (truth.duration > 0 && error.timestamp > truth.duration + 60) {
+      console.log(`Dropping error "${error.title}": timestamp ${error.timestamp}s is after game end`);
+      continue;
+    }
+
+    // Detector errors come straight from the timeline
+    if (error.source === 'detector') {
+      validated.push({ ...error, verification: 'timeline-confirmed' });
+      continue;
+    }
+
+    if (DEATH_TYPES.includes(error.type)) {
+      const death = findNearest(truth.deaths, error.timestamp, DEATH_MATCH_WINDOW);
+      if (death) {
+        validated.push({ ...snapTo(error, death.timestamp), verification: 'timeline-confirmed' });
+      } else {
+        console.log(`Flagging error "${error.title}": no death near ${error.timestamp}s`);
+        validated.push({ ...error, verification: fallback });
+      }
+      continue;
+    }
+
+    const kinds = getObjectiveKinds(error);
+    if (error.type === 'objective' || kinds.length > 0) {
+      const candidates = truth.objectives.filter(o => kinds.length === 0 || kinds.includes(o.type));
+      const lost = findNearest(candidates.filter(o => !o.wasPlayerTeam), error.timestamp, OBJECTIVE_MATCH_WINDOW);
+      const taken = findNearest(candidates.filter(o => o.wasPlayerTeam), error.timestamp, OBJECTIVE_MATCH_WINDOW);
+
+      if (lost) {
+        validated.push({ ...snapTo(error, lost.timestamp), verification: 'timeline-confirmed' });
+      } else {
+        // Objective was actually taken by the player's team (or never happened)
+        if (taken) {
+          console.log(`Flagging error "${error.title}": objective at ${taken.timestamp}s was taken by the player's team`);
+        }
+        validated.push({ ...error, verification: fallback });
+      }
+      continue;
+    }
+
+    validated.push({ ...error, verification: fallback });
+  }
+
+  return validated;
+}
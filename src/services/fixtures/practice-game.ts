@@ -0,0 +1,86 @@
+// Replay fixture - A practice game recorded by nexra-vision with one death clip, and the model answers to it
+// Practice games (NEXRA_ match ids) never call the Riot API, so the whole job runs offline
+
+import { AnalysisJob } from '../../types';
+import { LlmRecording, toolUseRecording } from '../llm-replay';
+
+export const PRACTICE_JOB: AnalysisJob = {
+  analysisId: 'analysis-practice',
+  matchId: 'NEXRA_practice',
+  puuid: 'puuid-practice',
+  region: 'euw1',
+  language: 'en',
+  mode: 'ai',
+  tier: 'GOLD',
+  matchData: {
+    champion: 'Ahri',
+    kills: 4,
+    deaths: 3,
+    assists: 6,
+    win: true,
+    duration: 1500,
+    gameMode: 'PRACTICETOOL',
+    gameVersion: '14.20.628.1234',
+    teamPosition: 'MIDDLE',
+    totalMinionsKilled: 160,
+    neutralMinionsKilled: 8,
+    goldEarned: 10200,
+    visionScore: 18,
+    totalDamageDealtToChampions: 17500,
+  },
+};
+
+export const PRACTICE_CLIPS = [
+  {
+    id: 'clip-1',
+    index: 0,
+    type: 'death',
+    description: 'Death in river',
+    startTime: 425,
+    endTime: 450,
+    severity: 'high',
+    frameKeys: ['frames/practice/0-0.jpg', 'frames/practice/0-1.jpg'],
+    frameCount: 2,
+  },
+];
+
+export const PRACTICE_RECORDINGS: LlmRecording[] = [
+  toolUseRecording('report_clip_analysis', {
+    situationDescription: 'Ahri walks into the river without vision and is caught by the enemy jungler',
+    playerPosition: 'Bad - alone in an unwarded river',
+    detectedErrors: ['Walked into fog without a ward'],
+    whatShouldHaveDone: 'Ward the river bush before moving up',
+    coachingTip: 'Keep charm for self-peel when you push without vision',
+  }),
+  toolUseRecording('report_analysis', {
+    stats: {
+      overallScore: 62,
+      csScore: 58,
+      visionScore: 40,
+      positioningScore: 55,
+      objectiveScore: 60,
+      deathsAnalyzed: 3,
+      errorsFound: 1,
+    },
+    errors: [
+      {
+        type: 'positioning',
+        severity: 'high',
+        title: 'Caught in the river',
+        description: 'Moved into an unwarded river and died to the jungler',
+        timestamp: 430,
+        suggestion: 'Ward before moving up',
+        clipStart: 420,
+        clipEnd: 445,
+      },
+    ],
+    tips: [
+      {
+        category: 'vision',
+        title: 'Ward before roaming',
+        description: 'Place a ward in the river before leaving lane',
+        priority: 1,
+      },
+    ],
+  }),
+];
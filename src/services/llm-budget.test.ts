@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisJob, Env } from '../types';
+import { checkLlmBudget } from './llm-budget';
+import { loadUsageAccount } from './llm-usage';
+
+const JOB: AnalysisJob = {
+  analysisId: 'analysis-1',
+  matchId: 'EUW1_1',
+  puuid: 'puuid-smurf',
+  region: 'euw1',
+};
+
+const USERS = [
+  { id: 'user-puuid', subscription_tier: 'unlimited', riot_puuid: 'puuid-smurf' },
+  { id: 'user-owner', subscription_tier: 'free', riot_puuid: 'puuid-main' },
+];
+
+// D1 double: the analysis belongs to user-owner while the PUUID is linked to user-puuid
+function createEnv(owner: string | null, spendByUser: Record<string, number>): Env {
+  const prepare = (sql: string) => {
+    let params: unknown[] = [];
+    const statement = {
+      bind(...values: unknown[]) {
+        params = values;
+        return statement;
+      },
+      async first() {
+        if (sql.includes('JOIN analyses')) {
+          return USERS.find(u => u.id === owner && params[0] === JOB.analysisId) || null;
+        }
+        if (sql.includes('FROM users')) {
+          return USERS.find(u => u.riot_puuid === params[0]) || null;
+        }
+        if (sql.includes('FROM llm_usage')) {
+          return { total: 0, user: spendByUser[params[0] as string] || 0 };
+        }
+        return null;
+      },
+    };
+    return statement;
+  };
+
+  return {
+    DB: { prepare },
+    CACHE: { get: async () => null, put: async () => undefined },
+    LLM_DAILY_BUDGET_USD: '50',
+    LLM_USER_DAILY_BUDGET_USD: '2',
+  } as unknown as Env;
+}
+
+describe('loadUsageAccount', () => {
+  it('bills the analysis owner, not the user linked to the PUUID', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const env = createEnv('user-owner', { 'user-owner': 3 });
+    const account = await loadUsageAccount(env, JOB);
+
+    expect(account).toEqual({ analysisId: 'analysis-1', userId: 'user-owner', subscriptionTier: 'free' });
+    expect(await checkLlmBudget(env, account)).toMatchObject({ exceeded: true, scope: 'user', spentUsd: 3 });
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the user linked to the PUUID when the analysis has no owner', async () => {
+    const env = createEnv(null, { 'user-owner': 3 });
+    const account = await loadUsageAccount(env, JOB);
+
+    expect(account).toEqual({ analysisId: 'analysis-1', userId: 'user-puuid', subscriptionTier: 'unlimited' });
+    expect(await checkLlmBudget(env, account)).toMatchObject({ exceeded: false });
+  });
+});
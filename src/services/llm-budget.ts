@@ -0,0 +1,116 @@
+// LLM budget - Daily spend caps (global and per user) over the costs recorded in llm_usage
+// Once a cap is hit the breaker stays open in KV until the next UTC day and admins get one alert
+
+import { Env } from '../types';
+import { LlmClient } from './llm-client';
+import { UsageAccount } from './llm-usage';
+import { sendEmail } from './email';
+
+const DEFAULT_DAILY_BUDGET_USD = 50;
+const DEFAULT_USER_DAILY_BUDGET_USD = 2;
+const BREAKER_TTL = 60 * 60 * 26; // Outlives the day it was tripped on
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  scope: 'global' | 'user' | null; // Budget that was hit
+  spentUsd: number;
+  limitUsd: number;
+}
+
+function readBudget(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Budgets reset at midnight UTC
+export function secondsUntilBudgetReset(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+async function alertAdmins(env: Env, status: BudgetStatus, account: UsageAccount): Promise<void> {
+  const subject = status.scope === 'global'
+    ? `[Nexra] Daily LLM budget reached ($${status.spentUsd.toFixed(2)} / $${status.limitUsd})`
+    : `[Nexra] User ${account.userId} reached the daily LLM budget ($${status.spentUsd.toFixed(2)} / $${status.limitUsd})`;
+  console.error(subject);
+
+  if (!env.ADMIN_ALERT_EMAIL) return;
+  await sendEmail(env.RESEND_API_KEY, {
+    to: env.ADMIN_ALERT_EMAIL,
+    subject,
+    html: `<p>${subject}</p><p>AI analyses fall back to the timeline engine until midnight UTC. Details: <code>GET /admin/usage?groupBy=user</code></p>`,
+    text: `${subject}\nAI analyses fall back to the timeline engine until midnight UTC. Details: GET /admin/usage?groupBy=user`,
+  });
+}
+
+/**
+ * Today's spend against the global budget and the account's own budget.
+ * Anonymous analyses (no Nexra account) only count toward the global budget.
+ */
+export async function checkLlmBudget(env: Env, account: UsageAccount): Promise<BudgetStatus> {
+  const day = today();
+  const globalKey = `llm-budget:${day}:global`;
+  const userKey = account.userId ? `llm-budget:${day}:user:${account.userId}` : null;
+
+  // Open breakers answer without touching D1
+  const [globalTripped, userTripped] = await Promise.all([
+    env.CACHE.get(globalKey),
+    userKey ? env.CACHE.get(userKey) : Promise.resolve(null),
+  ]);
+  const tripped = globalTripped || userTripped;
+  if (tripped) {
+    return JSON.parse(tripped) as BudgetStatus;
+  }
+
+  const globalLimit = readBudget(env.LLM_DAILY_BUDGET_USD, DEFAULT_DAILY_BUDGET_USD);
+  const userLimit = readBudget(env.LLM_USER_DAILY_BUDGET_USD, DEFAULT_USER_DAILY_BUDGET_USD);
+
+  const spend = await env.DB.prepare(`
+    SELECT
+      COALESCE(SUM(cost_usd), 0) AS total,
+      COALESCE(SUM(CASE WHEN user_id = ? THEN cost_usd ELSE 0 END), 0) AS user
+    FROM llm_usage
+    WHERE created_at >= ?
+  `).bind(account.userId, day).first<{ total: number; user: number }>();
+
+  const total = spend?.total || 0;
+  const user = spend?.user || 0;
+
+  let status: BudgetStatus = { exceeded: false, scope: null, spentUsd: total, limitUsd: globalLimit };
+  let key: string | null = null;
+  if (total >= globalLimit) {
+    status = { exceeded: true, scope: 'global', spentUsd: total, limitUsd: globalLimit };
+    key = globalKey;
+  } else if (userKey && user >= userLimit) {
+    status = { exceeded: true, scope: 'user', spentUsd: user, limitUsd: userLimit };
+    key = userKey;
+  }
+
+  if (key) {
+    await env.CACHE.put(key, JSON.stringify(status), { expirationTtl: BREAKER_TTL });
+    await alertAdmins(env, status, account);
+  }
+  return status;
+}
+
+export function describeBudget(status: BudgetStatus): string {
+  return `${status.scope === 'global' ? 'Daily' : 'Your daily'} AI budget reached`;
+}
+
+// Refuse every model call once a budget is exceeded, including calls made mid-job
+export function createBudgetGuardClient(client: LlmClient, env: Env, account: UsageAccount): LlmClient {
+  return {
+    async createMessage(request) {
+      const status = await checkLlmBudget(env, account);
+      if (status.exceeded) {
+        throw new Error(`${describeBudget(status)} ($${status.spentUsd.toFixed(2)} / $${status.limitUsd})`);
+      }
+      return client.createMessage(request);
+    },
+  };
+}
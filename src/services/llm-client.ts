@@ -0,0 +1,65 @@
+// LLM client - Provider-agnostic entry point for every model call
+// Requests and responses use the Anthropic Messages format; other providers translate to it
+
+import Anthropic from '@anthropic-ai/sdk';
+import { SubscriptionTier } from '../types';
+
+export interface LlmRequest {
+  callSite?: LlmCallSite; // For usage accounting, not sent to the provider
+  model: string;
+  max_tokens: number;
+  temperature?: number;
+  messages: Anthropic.MessageParam[];
+  tools?: Anthropic.Tool[];
+  tool_choice?: Anthropic.ToolChoice;
+}
+
+export interface LlmClient {
+  createMessage(request: LlmRequest): Promise<Anthropic.Message>;
+}
+
+// Every place that calls a model, each with its own settings
+export type LlmCallSite = 'coaching' | 'clip-vision';
+
+export interface LlmSettings {
+  callSite: LlmCallSite;
+  model: string;
+  maxTokens: number;
+  temperature?: number; // Provider default when omitted
+}
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+const LIGHT_MODEL = 'claude-3-5-haiku-20241022';
+
+const LLM_SETTINGS: Record<LlmCallSite, Omit<LlmSettings, 'callSite'>> = {
+  coaching: { model: DEFAULT_MODEL, maxTokens: 8000 }, // Detailed deaths analysis needs room
+  'clip-vision': { model: DEFAULT_MODEL, maxTokens: 1000 },
+};
+
+// Per-tier changes merged over LLM_SETTINGS: a lighter vision model for free analyses, more room for paid ones
+const TIER_LLM_SETTINGS: Record<SubscriptionTier, Partial<Record<LlmCallSite, Partial<Omit<LlmSettings, 'callSite'>>>>> = {
+  free: { 'clip-vision': { model: LIGHT_MODEL } }, // Clip descriptions only feed the coaching prompt
+  pro: { 'clip-vision': { maxTokens: 1500 } },
+  unlimited: { coaching: { maxTokens: 12000 }, 'clip-vision': { maxTokens: 1500 } },
+};
+
+export function getLlmSettings(callSite: LlmCallSite, tier: SubscriptionTier = 'free'): LlmSettings {
+  return { callSite, ...LLM_SETTINGS[callSite], ...TIER_LLM_SETTINGS[tier]?.[callSite] };
+}
+
+export function toLlmRequest(settings: LlmSettings, messages: Anthropic.MessageParam[]): LlmRequest {
+  return {
+    callSite: settings.callSite,
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+    messages,
+  };
+}
+
+export function createAnthropicClient(apiKey: string): LlmClient {
+  const anthropic = new Anthropic({ apiKey });
+  return {
+    createMessage: ({ callSite, ...params }) => anthropic.messages.create(params),
+  };
+}
@@ -0,0 +1,208 @@
+// LLM output - zod schemas of the coaching responses, requested through forced tool use
+// A response that fails validation (or is truncated) gets one targeted repair request
+
+import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { ErrorSeverity, ErrorType } from '../types';
+import { LlmClient, LlmSettings, toLlmRequest } from './llm-client';
+
+const ERROR_TYPES = [
+  'positioning', 'timing', 'cs-missing', 'vision', 'objective', 'map-awareness', 'itemization',
+  'cooldown-tracking', 'trading', 'wave-management', 'roaming', 'teamfight', 'death', 'death-timing',
+  'power-spike', 'macro-positioning', 'back-timing', 'skill-order', 'jungle-pathing', 'split-push',
+  'timing-exploitation',
+] as const satisfies readonly ErrorType[];
+
+const ERROR_SEVERITIES = ['critical', 'high', 'medium', 'low'] as const satisfies readonly ErrorSeverity[];
+
+const score = z.number().min(0).max(100);
+const seconds = z.number().min(0);
+const text = z.string().min(1);
+
+const coachingStatsSchema = z.object({
+  overallScore: score,
+  csScore: score,
+  visionScore: score,
+  positioningScore: score,
+  objectiveScore: score,
+  macroScore: score.optional(),
+  deathsAnalyzed: z.number().int().min(0),
+  errorsFound: z.number().int().min(0),
+});
+
+const coachingErrorSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(ERROR_TYPES),
+  severity: z.enum(ERROR_SEVERITIES),
+  priority: z.number().int().min(1).max(4).optional(),
+  title: text,
+  description: text,
+  timestamp: seconds,
+  suggestion: text,
+  clipStart: seconds.nullable().optional(),
+  clipEnd: seconds.nullable().optional(),
+  coachingNote: z.string().optional(),
+  roleSpecific: z.boolean().optional(),
+  hasVideoMoment: z.boolean().optional(),
+  factId: z.string().nullable().optional(),
+});
+
+const coachingTipSchema = z.object({
+  id: z.string().optional(),
+  category: text,
+  title: text,
+  description: text,
+  priority: z.number().int().min(1),
+  exercice: z.string().optional(),
+  relatedErrors: z.array(z.string()).optional(),
+});
+
+const performanceSummarySchema = z.object({
+  overallAssessment: text,
+  keyMistake: z.string().optional(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  improvementPlan: z.object({
+    immediate: z.array(z.string()),
+    shortTerm: z.array(z.string()),
+    longTerm: z.array(z.string()),
+  }),
+  estimatedRank: z.string().optional(),
+  rankUpTip: z.string().optional(),
+});
+
+const deathAnalysisSchema = z.object({
+  deathNumber: z.number().int().min(1),
+  timestamp: seconds,
+  gamePhase: z.enum(['early', 'mid', 'late']),
+  situationContext: text,
+  fightAnalysis: z.object({
+    wasWinnable: z.boolean(),
+    reason: text,
+    goldState: z.string(),
+    levelState: z.string(),
+    cooldownsAvailable: z.string(),
+  }),
+  whatWentWrong: text,
+  whatShouldHaveDone: text,
+  deathCost: z.string(),
+  coachVerdict: z.enum(['critical', 'avoidable', 'unlucky', 'acceptable']),
+});
+
+export const coachingResponseSchema = z.object({
+  stats: coachingStatsSchema,
+  errors: z.array(coachingErrorSchema),
+  tips: z.array(coachingTipSchema),
+  performanceSummary: performanceSummarySchema.optional(),
+  deathsAnalysis: z.array(deathAnalysisSchema).optional(),
+});
+
+export const clipAnalysisSchema = z.object({
+  situationDescription: text,
+  playerPosition: z.string(),
+  detectedErrors: z.array(z.string()),
+  whatShouldHaveDone: z.string(),
+  coachingTip: z.string(),
+});
+
+export type CoachingResponse = z.infer<typeof coachingResponseSchema>;
+export type ClipAnalysisResponse = z.infer<typeof clipAnalysisSchema>;
+
+export interface StructuredTool<T extends z.ZodType> {
+  name: string;
+  description: string;
+  schema: T;
+}
+
+interface ValidationFailure {
+  success: false;
+  problem: string;
+  toolUseId?: string;
+  truncated?: boolean;
+}
+
+type Validation<T> = { success: true; data: T } | ValidationFailure;
+
+function toInputSchema(schema: z.ZodType): Anthropic.Tool['input_schema'] {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>;
+  return jsonSchema as Anthropic.Tool['input_schema'];
+}
+
+function validate<T extends z.ZodType>(response: Anthropic.Message, tool: StructuredTool<T>): Validation<z.infer<T>> {
+  const call = response.content.find(
+    (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === tool.name
+  );
+  if (!call) {
+    return { success: false, problem: `no ${tool.name} call in the response` };
+  }
+  if (response.stop_reason === 'max_tokens') {
+    return { success: false, problem: 'the response was cut off at the token limit', toolUseId: call.id, truncated: true };
+  }
+
+  const parsed = tool.schema.safeParse(call.input);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  const issues = parsed.error.issues
+    .slice(0, 15)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  return { success: false, problem: issues.join('; '), toolUseId: call.id };
+}
+
+function repairMessage(tool: StructuredTool<z.ZodType>, failure: ValidationFailure): Anthropic.MessageParam {
+  const instruction = failure.truncated
+    ? `Your previous answer was cut off at the token limit. Call ${tool.name} again with the complete answer, keeping every text field shorter.`
+    : `Your previous answer did not match the ${tool.name} schema: ${failure.problem}. Call ${tool.name} again with the same analysis, fixing only these fields.`;
+
+  if (!failure.toolUseId) {
+    return { role: 'user', content: instruction };
+  }
+  return {
+    role: 'user',
+    content: [{ type: 'tool_result', tool_use_id: failure.toolUseId, is_error: true, content: instruction }],
+  };
+}
+
+/**
+ * Ask Claude for a tool call matching `tool.schema` and return the validated input.
+ * An invalid or truncated answer is sent back once with the validation errors; a second failure throws.
+ */
+export async function requestStructuredOutput<T extends z.ZodType>(
+  llm: LlmClient,
+  settings: LlmSettings,
+  messages: Anthropic.MessageParam[],
+  tool: StructuredTool<T>
+): Promise<z.infer<T>> {
+  const request = toLlmRequest(settings, messages);
+  const tools: Anthropic.Tool[] = [{
+    name: tool.name,
+    description: tool.description,
+    input_schema: toInputSchema(tool.schema),
+  }];
+  const toolChoice: Anthropic.ToolChoice = { type: 'tool', name: tool.name };
+
+  const response = await llm.createMessage({ ...request, tools, tool_choice: toolChoice });
+  const first = validate(response, tool);
+  if (first.success) {
+    return first.data;
+  }
+
+  console.warn(`Invalid ${tool.name} response, requesting a repair: ${first.problem}`);
+  const repaired = await llm.createMessage({
+    ...request,
+    tools,
+    tool_choice: toolChoice,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: response.content },
+      repairMessage(tool, first),
+    ],
+  });
+
+  const second = validate(repaired, tool);
+  if (second.success) {
+    return second.data;
+  }
+  throw new Error(`Invalid ${tool.name} response after repair: ${second.problem}`);
+}
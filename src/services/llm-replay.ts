@@ -0,0 +1,81 @@
+// LLM replay - Deterministic LlmClient serving recorded responses (tests and offline runs, no network)
+
+import Anthropic from '@anthropic-ai/sdk';
+import { LlmClient, LlmRequest } from './llm-client';
+
+export interface LlmRecording {
+  tool: string | null; // Tool forced by the request (tool_choice.name), null for free text
+  response: Anthropic.Message;
+}
+
+function requestedTool(request: LlmRequest): string | null {
+  return request.tool_choice?.type === 'tool' ? request.tool_choice.name : null;
+}
+
+/**
+ * Replays recordings in order, per forced tool: the n-th report_analysis request gets the
+ * n-th recorded report_analysis response. Throws when a request has no recording left.
+ * Every request received is kept in `requests` for assertions.
+ */
+export function createReplayClient(recordings: LlmRecording[]): LlmClient & { requests: LlmRequest[] } {
+  const queues = new Map<string | null, Anthropic.Message[]>();
+  for (const recording of recordings) {
+    const queue = queues.get(recording.tool) || [];
+    queue.push(recording.response);
+    queues.set(recording.tool, queue);
+  }
+
+  const requests: LlmRequest[] = [];
+  return {
+    requests,
+    async createMessage(request) {
+      requests.push(request);
+      const tool = requestedTool(request);
+      const response = queues.get(tool)?.shift();
+      if (!response) {
+        throw new Error(`No recorded LLM response left for ${tool || 'text'} request`);
+      }
+      return structuredClone(response);
+    },
+  };
+}
+
+// Wrap a real client and keep every exchange, to capture replay fixtures
+export function createRecordingClient(client: LlmClient, recordings: LlmRecording[]): LlmClient {
+  return {
+    async createMessage(request) {
+      const response = await client.createMessage(request);
+      recordings.push({ tool: requestedTool(request), response: structuredClone(response) });
+      return response;
+    },
+  };
+}
+
+// Recorded tool call, for hand-written fixtures
+export function toolUseRecording(
+  tool: string,
+  input: unknown,
+  stopReason: Anthropic.StopReason = 'tool_use'
+): LlmRecording {
+  return {
+    tool,
+    response: {
+      id: `msg_replay_${tool}`,
+      type: 'message',
+      role: 'assistant',
+      model: 'replay',
+      content: [{ type: 'tool_use', id: `toolu_replay_${tool}`, name: tool, input }],
+      stop_reason: stopReason,
+      stop_sequence: null,
+      usage: {
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_creation: null,
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null,
+        server_tool_use: null,
+        service_tier: null,
+      },
+    },
+  };
+}
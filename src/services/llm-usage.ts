@@ -0,0 +1,235 @@
+// LLM usage - Token counts and estimated cost of every model call, summed per analysis
+// Read back through /admin/usage to price credits and spot abusive accounts
+
+import Anthropic from '@anthropic-ai/sdk';
+import { Env, AnalysisJob, SubscriptionTier } from '../types';
+import { LlmCallSite, LlmClient, LlmRequest } from './llm-client';
+
+export interface LlmUsage {
+  callSite: LlmCallSite | 'unknown';
+  model: string;
+  inputTokens: number; // Includes image and cached tokens
+  outputTokens: number;
+  imageTokens: number; // Estimated share of inputTokens spent on images
+  costUsd: number;
+}
+
+// Who the calls of an analysis are billed to
+export interface UsageAccount {
+  analysisId: string;
+  userId: string | null;
+  subscriptionTier: SubscriptionTier;
+}
+
+export type UsageGrouping = 'day' | 'user' | 'tier';
+
+export interface UsageTotals {
+  key: string; // Day (YYYY-MM-DD), user id or subscription tier
+  email?: string | null;
+  calls: number;
+  analyses: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageTokens: number;
+  costUsd: number;
+}
+
+// USD per million tokens
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+// Unknown models are billed like Sonnet rather than free
+const FALLBACK_PRICE = MODEL_PRICES['claude-sonnet-4-20250514'];
+
+// Anthropic downscales images to a 1568px long edge and ~1.15 megapixels, then bills width * height / 750
+const MAX_IMAGE_EDGE = 1568;
+const MAX_IMAGE_PIXELS = 1_150_000;
+const MAX_IMAGE_TOKENS = 1600;
+
+// Width and height from the SOF segment of a base64 JPEG
+function jpegSize(base64: string): { width: number; height: number } | null {
+  try {
+    const data = atob(base64);
+    let offset = 2; // Skip SOI
+    while (offset + 9 < data.length && data.charCodeAt(offset) === 0xff) {
+      const marker = data.charCodeAt(offset + 1);
+      const length = (data.charCodeAt(offset + 2) << 8) | data.charCodeAt(offset + 3);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          height: (data.charCodeAt(offset + 5) << 8) | data.charCodeAt(offset + 6),
+          width: (data.charCodeAt(offset + 7) << 8) | data.charCodeAt(offset + 8),
+        };
+      }
+      offset += 2 + length;
+    }
+  } catch {
+    // Not valid base64, fall through
+  }
+  return null;
+}
+
+function imageTokens(source: Anthropic.ImageBlockParam['source']): number {
+  const size = source.type === 'base64' && source.media_type === 'image/jpeg' ? jpegSize(source.data) : null;
+  if (!size || size.width === 0 || size.height === 0) {
+    return MAX_IMAGE_TOKENS;
+  }
+
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_EDGE / Math.max(size.width, size.height),
+    Math.sqrt(MAX_IMAGE_PIXELS / (size.width * size.height))
+  );
+  return Math.min(MAX_IMAGE_TOKENS, Math.ceil((size.width * scale) * (size.height * scale) / 750));
+}
+
+function estimateImageTokens(request: LlmRequest): number {
+  let tokens = 0;
+  for (const message of request.messages) {
+    if (typeof message.content === 'string') continue;
+    for (const block of message.content) {
+      if (block.type === 'image') {
+        tokens += imageTokens(block.source);
+      }
+    }
+  }
+  return tokens;
+}
+
+export function toLlmUsage(request: LlmRequest, response: Anthropic.Message): LlmUsage {
+  const price = MODEL_PRICES[request.model] || FALLBACK_PRICE;
+  const usage = response.usage;
+  const cacheWrite = usage.cache_creation_input_tokens || 0;
+  const cacheRead = usage.cache_read_input_tokens || 0;
+  const inputTokens = usage.input_tokens + cacheWrite + cacheRead;
+
+  const cost = (
+    usage.input_tokens * price.input +
+    cacheWrite * price.cacheWrite +
+    cacheRead * price.cacheRead +
+    usage.output_tokens * price.output
+  ) / 1_000_000;
+
+  return {
+    callSite: request.callSite || 'unknown',
+    model: request.model,
+    inputTokens,
+    outputTokens: usage.output_tokens,
+    imageTokens: Math.min(inputTokens, estimateImageTokens(request)),
+    costUsd: Math.round(cost * 1_000_000) / 1_000_000,
+  };
+}
+
+/**
+ * Wrap a client so every response reports its usage. Accounting failures are logged,
+ * they never fail the model call.
+ */
+export function createUsageTrackingClient(
+  client: LlmClient,
+  onUsage: (usage: LlmUsage) => Promise<void>
+): LlmClient {
+  return {
+    async createMessage(request) {
+      const response = await client.createMessage(request);
+      try {
+        await onUsage(toLlmUsage(request, response));
+      } catch (error) {
+        console.error('Could not record LLM usage:', error);
+      }
+      return response;
+    },
+  };
+}
+
+// Account of the analysis: its linked user, or the user owning the Riot account when nobody owns it
+export async function loadUsageAccount(env: Env, job: AnalysisJob): Promise<UsageAccount> {
+  const owner = await env.DB.prepare(`
+    SELECT u.id, u.subscription_tier FROM users u
+    JOIN analyses a ON a.user_id = u.id
+    WHERE a.id = ?
+  `).bind(job.analysisId).first<{ id: string; subscription_tier: string | null }>();
+  const user = owner || await env.DB.prepare(`
+    SELECT id, subscription_tier FROM users WHERE riot_puuid = ? LIMIT 1
+  `).bind(job.puuid).first<{ id: string; subscription_tier: string | null }>();
+
+  return {
+    analysisId: job.analysisId,
+    userId: user?.id || null,
+    subscriptionTier: job.subscriptionTier || (user?.subscription_tier as SubscriptionTier | null) || 'free',
+  };
+}
+
+export async function recordLlmUsage(env: Env, account: UsageAccount, usage: LlmUsage): Promise<void> {
+  await env.DB.batch([
+    env.DB.prepare(`
+      INSERT INTO llm_usage (
+        analysis_id, user_id, subscription_tier, call_site, model,
+        input_tokens, output_tokens, image_tokens, cost_usd
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      account.analysisId,
+      account.userId,
+      account.subscriptionTier,
+      usage.callSite,
+      usage.model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.imageTokens,
+      usage.costUsd
+    ),
+    env.DB.prepare(`
+      UPDATE analyses SET
+        llm_input_tokens = llm_input_tokens + ?,
+        llm_output_tokens = llm_output_tokens + ?,
+        llm_image_tokens = llm_image_tokens + ?,
+        llm_cost_usd = llm_cost_usd + ?
+      WHERE id = ?
+    `).bind(usage.inputTokens, usage.outputTokens, usage.imageTokens, usage.costUsd, account.analysisId),
+  ]);
+}
+
+const GROUP_COLUMNS: Record<UsageGrouping, string> = {
+  day: 'date(l.created_at)',
+  user: `COALESCE(l.user_id, 'anonymous')`,
+  tier: 'l.subscription_tier',
+};
+
+/**
+ * Usage totals between two days (inclusive), most expensive first for users and tiers.
+ */
+export async function getLlmUsageTotals(
+  env: Env,
+  groupBy: UsageGrouping,
+  from: string, // YYYY-MM-DD
+  to: string
+): Promise<UsageTotals[]> {
+  const key = GROUP_COLUMNS[groupBy];
+  const { results } = await env.DB.prepare(`
+    SELECT
+      ${key} AS "key",
+      ${groupBy === 'user' ? 'MAX(u.email) AS email,' : ''}
+      COUNT(*) AS calls,
+      COUNT(DISTINCT l.analysis_id) AS analyses,
+      SUM(l.input_tokens) AS inputTokens,
+      SUM(l.output_tokens) AS outputTokens,
+      SUM(l.image_tokens) AS imageTokens,
+      ROUND(SUM(l.cost_usd), 4) AS costUsd
+    FROM llm_usage l
+    ${groupBy === 'user' ? 'LEFT JOIN users u ON u.id = l.user_id' : ''}
+    WHERE date(l.created_at) BETWEEN ? AND ?
+    GROUP BY ${key}
+    ORDER BY ${groupBy === 'day' ? '"key"' : 'costUsd DESC'}
+    LIMIT 500
+  `).bind(from, to).all<UsageTotals>();
+
+  return results;
+}
@@ -0,0 +1,192 @@
+// Metric distributions - Per-game metrics of completed analyses, aggregated per role and bracket
+// Samples are written as analyses complete; the daily cron (or /admin/metrics/aggregate) rebuilds the quantiles
+
+import { Env } from '../types';
+import { BenchmarkRole, BenchmarkTier, resolveBenchmarks, toBenchmarkTier, toPatch } from '../lib/analysis/benchmarks';
+import {
+  RANK_METRICS,
+  RankMetric,
+  PlayerMetrics,
+  MetricDistribution,
+  RankComparison,
+  MIN_DISTRIBUTION_SAMPLES,
+  buildDistribution,
+  buildRankComparison,
+} from '../lib/analysis/percentiles';
+import { loadBenchmarkOverrides } from './benchmark-store';
+
+const CACHE_KEY = 'metrics:distributions';
+const CACHE_TTL = 60 * 60 * 24; // Rebuilt daily, aggregation clears the cache
+const SAMPLE_WINDOW_DAYS = 90; // Older games reflect an outdated meta
+
+const COLUMNS: Record<RankMetric, string> = {
+  csPerMin: 'cs_per_min',
+  visionScore: 'vision_score',
+  kda: 'kda',
+  dpm: 'dpm',
+  deathsPerMin: 'deaths_per_min',
+};
+
+// "ROLE:TIER" (tier '*' for the whole role) to its distribution of each metric
+type DistributionMap = Record<string, Partial<Record<RankMetric, MetricDistribution>>>;
+
+interface DistributionRow {
+  role: string;
+  tier: string;
+  metric: string;
+  sample_size: number;
+  mean: number;
+  quantiles: string;
+}
+
+type SampleRow = { role: string; tier: string | null } & Record<string, number | string | null>;
+
+export async function recordPlayerMetrics(
+  env: Env,
+  sample: {
+    matchId: string;
+    puuid: string;
+    analysisId: string;
+    role: BenchmarkRole;
+    tier?: string; // Riot tier ("GOLD"), omitted when unknown
+    metrics: PlayerMetrics;
+  }
+): Promise<void> {
+  await env.DB.prepare(`
+    INSERT OR REPLACE INTO analysis_metrics
+      (match_id, puuid, analysis_id, role, tier, cs_per_min, vision_score, kda, dpm, deaths_per_min, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    sample.matchId,
+    sample.puuid,
+    sample.analysisId,
+    sample.role,
+    sample.tier ? toBenchmarkTier(sample.tier) : null,
+    sample.metrics.csPerMin,
+    sample.metrics.visionScore,
+    sample.metrics.kda,
+    sample.metrics.dpm,
+    sample.metrics.deathsPerMin
+  ).run();
+}
+
+/**
+ * Rebuild every role/bracket distribution from the samples of the last 90 days; groups left without
+ * samples in the window are deleted so percentiles fall back to benchmarks instead of stale data.
+ * Returns the number of samples aggregated.
+ */
+export async function aggregateMetricDistributions(env: Env): Promise<number> {
+  // Same timestamp on every rebuilt row: anything older was not rebuilt by this run
+  const startedAt = new Date().toISOString().replace('T', ' ').slice(0, 19);
+  const { results } = await env.DB.prepare(`
+    SELECT role, tier, ${Object.values(COLUMNS).join(', ')}
+    FROM analysis_metrics
+    WHERE created_at >= datetime('now', ?)
+  `).bind(`-${SAMPLE_WINDOW_DAYS} days`).all<SampleRow>();
+
+  // Each sample counts for its bracket and for the role as a whole
+  const groups = new Map<string, SampleRow[]>();
+  for (const row of results) {
+    const keys = row.tier ? [`${row.role}:${row.tier}`, `${row.role}:*`] : [`${row.role}:*`];
+    for (const key of keys) {
+      const group = groups.get(key) || [];
+      group.push(row);
+      groups.set(key, group);
+    }
+  }
+
+  const statements = [];
+  for (const [key, rows] of groups) {
+    const [role, tier] = key.split(':');
+    for (const metric of RANK_METRICS) {
+      const distribution = buildDistribution(rows.map(row => Number(row[COLUMNS[metric]])));
+      statements.push(env.DB.prepare(`
+        INSERT INTO metric_distributions (role, tier, metric, sample_size, mean, quantiles, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (role, tier, metric) DO UPDATE SET
+          sample_size = excluded.sample_size,
+          mean = excluded.mean,
+          quantiles = excluded.quantiles,
+          updated_at = excluded.updated_at
+      `).bind(role, tier, metric, distribution.sampleSize, distribution.mean, JSON.stringify(distribution.quantiles), startedAt));
+    }
+  }
+
+  statements.push(env.DB.prepare(`
+    DELETE FROM metric_distributions WHERE updated_at < ?
+  `).bind(startedAt));
+  await env.DB.batch(statements);
+  await env.CACHE.delete(CACHE_KEY);
+
+  console.log(`Aggregated ${results.length} metric samples into ${groups.size} distributions`);
+  return results.length;
+}
+
+async function loadMetricDistributions(env: Env): Promise<DistributionMap> {
+  try {
+    const cached = await env.CACHE.get(CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached) as DistributionMap;
+    }
+
+    const { results } = await env.DB.prepare(`
+      SELECT role, tier, metric, sample_size, mean, quantiles FROM metric_distributions
+    `).all<DistributionRow>();
+
+    const distributions: DistributionMap = {};
+    for (const row of results) {
+      const key = `${row.role}:${row.tier}`;
+      distributions[key] = distributions[key] || {};
+      distributions[key][row.metric as RankMetric] = {
+        sampleSize: row.sample_size,
+        mean: row.mean,
+        quantiles: JSON.parse(row.quantiles) as number[],
+      };
+    }
+
+    await env.CACHE.put(CACHE_KEY, JSON.stringify(distributions), { expirationTtl: CACHE_TTL });
+    return distributions;
+  } catch (error) {
+    console.error('Could not load metric distributions, using benchmarks:', error);
+    return {};
+  }
+}
+
+// Bracket distribution when it has enough samples, else the whole role
+function pickDistributions(
+  distributions: DistributionMap,
+  role: BenchmarkRole,
+  tier: BenchmarkTier
+): Partial<Record<RankMetric, MetricDistribution>> {
+  const bracket = distributions[`${role}:${tier}`] || {};
+  const pooled = distributions[`${role}:*`] || {};
+
+  const picked: Partial<Record<RankMetric, MetricDistribution>> = {};
+  for (const metric of RANK_METRICS) {
+    picked[metric] = (bracket[metric]?.sampleSize || 0) >= MIN_DISTRIBUTION_SAMPLES ? bracket[metric] : pooled[metric];
+  }
+  return picked;
+}
+
+/**
+ * comparedToRank for a player: percentiles among Nexra players of the same role and bracket.
+ */
+export async function computeRankComparison(
+  env: Env,
+  role: BenchmarkRole,
+  tier: string | undefined,
+  metrics: PlayerMetrics,
+  gameVersion?: string
+): Promise<RankComparison[]> {
+  const bracket = toBenchmarkTier(tier);
+  const [distributions, overrides] = await Promise.all([
+    loadMetricDistributions(env),
+    loadBenchmarkOverrides(env),
+  ]);
+
+  return buildRankComparison(
+    metrics,
+    pickDistributions(distributions, role, bracket),
+    resolveBenchmarks(overrides, role, bracket, toPatch(gameVersion))
+  );
+}
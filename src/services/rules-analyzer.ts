@@ -0,0 +1,206 @@
+// Rules-based analysis - runs the deterministic timeline engine (no LLM calls)
+
+import { Env, AnalysisJob, AnalysisStats, GameError, CoachingTip, VideoClip, ErrorType, Teamfight, LaneDifferentials, RoleInference } from '../types';
+import { analyzeMatch, AnalysisResult, MatchData as EngineMatchData, MatchParticipant, TimelineData, Language, resolveLanguage } from '../lib/analysis';
+import { analyzeTeamfights, analyzeLanePhase } from '../lib/analysis/detectors';
+import { getGameModeProfile } from '../lib/analysis/profiles';
+import { BenchmarkRole, toBenchmarkRole } from '../lib/analysis/benchmarks';
+import { computePlayerMetrics, PlayerMetrics } from '../lib/analysis/percentiles';
+import { inferRoles, applyInferredRoles } from '../lib/analysis/role-inference';
+import { buildWinProbabilityModel, attachImpact, findSwingMoments, rankErrorsByImpact } from '../lib/analysis/generators/win-probability';
+import { fetchMatchData, fetchMatchTimeline, transformMatchData, transformTimelineData } from '../utils/riot-api';
+import { loadBenchmarkOverrides } from './benchmark-store';
+
+// Match + timeline in the format expected by the analysis engine
+export interface TimelineBundle {
+  match: EngineMatchData;
+  timeline: TimelineData;
+}
+
+// Same columns as the AI pipeline stores in `analyses`
+export interface StoredAnalysis {
+  stats: AnalysisStats;
+  errors: GameError[];
+  tips: CoachingTip[];
+  clips: VideoClip[];
+  teamfights?: Teamfight[];
+}
+
+// Fetch match and timeline from Riot API in parallel
+export async function fetchTimelineBundle(job: AnalysisJob, env: Env): Promise<TimelineBundle> {
+  if (job.matchId.startsWith('NEXRA_')) {
+    throw new Error('Timeline analysis is not available for practice/custom games');
+  }
+
+  const [riotMatch, riotTimeline] = await Promise.all([
+    fetchMatchData(job.matchId, job.region, env.RIOT_API_KEY),
+    fetchMatchTimeline(job.matchId, job.region, env.RIOT_API_KEY),
+  ]);
+
+  return {
+    match: transformMatchData(riotMatch),
+    timeline: transformTimelineData(riotTimeline),
+  };
+}
+
+// Convert the engine result to the shape stored in the analyses table
+export function toStoredAnalysis(result: AnalysisResult): StoredAnalysis {
+  const errors: GameError[] = result.errors.map((error, index) => ({
+    id: error.id || `error-${index}-${error.timestamp}`,
+    type: error.type as ErrorType,
+    severity: error.severity,
+    title: error.title,
+    description: error.description,
+    timestamp: error.timestamp,
+    suggestion: error.suggestion,
+    coachingNote: error.coachingNote,
+    source: 'detector',
+    impact: error.impact,
+  }));
+
+  const tips: CoachingTip[] = result.tips.map(tip => ({
+    id: tip.id,
+    category: tip.category,
+    title: tip.title,
+    description: tip.description,
+    priority: tip.priority,
+    relatedErrors: tip.relatedErrors,
+  }));
+
+  const stats: AnalysisStats = {
+    overallScore: result.stats.overallScore,
+    csScore: result.stats.csScore,
+    visionScore: result.stats.visionScore,
+    positioningScore: result.stats.positioningScore,
+    objectiveScore: result.stats.objectiveScore,
+    tradingScore: result.stats.tradingScore,
+    deathsAnalyzed: result.stats.deathsAnalyzed,
+    errorsFound: result.stats.errorsFound,
+    comparedToRank: [],
+    analysisMode: 'rules',
+    skillOrder: result.stats.skillOrder,
+    jungle: result.stats.jungle,
+    highlights: result.stats.highlights,
+    laning: result.stats.laning,
+    winProbability: result.stats.winProbability,
+    swingMoments: result.stats.swingMoments,
+    objectiveEvents: result.stats.objectiveEvents,
+    aram: result.stats.aram,
+    itemization: result.stats.itemization,
+    role: result.stats.role,
+  };
+
+  return { stats, errors, tips, clips: [], teamfights: result.teamfights };
+}
+
+/**
+ * Analyze a match with the deterministic timeline engine only, in the job's language
+ * and against the benchmarks of the player's rank bracket.
+ * Costs no Anthropic tokens and always produces the same output for the same match and benchmarks.
+ */
+export async function analyzeWithRules(
+  job: AnalysisJob,
+  env: Env,
+  bundle?: TimelineBundle
+): Promise<{ analysis: StoredAnalysis; result: AnalysisResult; bundle: TimelineBundle }> {
+  const data = bundle || await fetchTimelineBundle(job, env);
+  const overrides = await loadBenchmarkOverrides(env);
+  const result = await analyzeMatch(data.match, data.timeline, job.puuid, resolveLanguage(job.language), {
+    overrides,
+    tier: job.tier,
+  });
+
+  return {
+    analysis: toStoredAnalysis(result),
+    result,
+    bundle: data,
+  };
+}
+
+// Participants with the roles seen on the timeline, as analyzeMatch resolves them (modes without roles are left as is)
+function resolveParticipants(bundle: TimelineBundle): MatchParticipant[] {
+  const profile = getGameModeProfile(bundle.match.queueId, bundle.match.gameMode);
+  if (!profile?.usesRoles) return bundle.match.participants;
+
+  const roles = inferRoles(bundle.timeline.frames, bundle.match.participants);
+  return applyInferredRoles(bundle.match.participants, roles);
+}
+
+// Teamfights only, for pipelines that don't run the full engine (AI mode)
+export function detectTeamfights(bundle: TimelineBundle, puuid: string): Teamfight[] {
+  return analyzeTeamfights(bundle.timeline.frames, resolveParticipants(bundle), puuid).teamfights;
+}
+
+// Player role resolved from the timeline (Riot's teamPosition can be missing or swapped)
+export function detectRole(bundle: TimelineBundle, puuid: string): RoleInference | null {
+  const profile = getGameModeProfile(bundle.match.queueId, bundle.match.gameMode);
+  if (!profile?.usesRoles) return null;
+
+  const player = bundle.match.participants.find(p => p.puuid === puuid);
+  if (!player) return null;
+
+  const roles = inferRoles(bundle.timeline.frames, bundle.match.participants);
+  const role = roles.get(player.participantId);
+  if (!role) return null;
+
+  const opponent = applyInferredRoles(bundle.match.participants, roles).find(
+    p => p.teamId !== player.teamId && p.teamPosition === role.position
+  );
+  return { ...role, laneOpponent: opponent?.championName };
+}
+
+// Lane differentials only (@10/@15/@20), for the AI prompt
+export function detectLaneDifferentials(bundle: TimelineBundle, puuid: string): LaneDifferentials | null {
+  const profile = getGameModeProfile(bundle.match.queueId, bundle.match.gameMode);
+  if (!profile?.usesRoles) return null;
+
+  return analyzeLanePhase(bundle.timeline.frames, resolveParticipants(bundle), puuid).laning;
+}
+
+// Add win probability, swing moments and per-error impact to an AI analysis (errors reordered by impact)
+export function applyWinProbability(
+  analysis: StoredAnalysis,
+  bundle: TimelineBundle,
+  puuid: string,
+  language: Language = 'en'
+): StoredAnalysis {
+  const player = bundle.match.participants.find(p => p.puuid === puuid);
+  if (!player) return analysis;
+
+  const model = buildWinProbabilityModel(bundle.timeline.frames, bundle.match.participants, player.teamId, language);
+  return {
+    ...analysis,
+    errors: rankErrorsByImpact(attachImpact(analysis.errors, model)),
+    stats: {
+      ...analysis.stats,
+      winProbability: model.timeline,
+      swingMoments: findSwingMoments(model.timeline, 5, language),
+    },
+  };
+}
+
+// Player's per-game metrics and role, for comparedToRank (Summoner's Rift only)
+export function detectPlayerMetrics(
+  bundle: TimelineBundle,
+  puuid: string,
+  roleInference?: RoleInference | null
+): { role: BenchmarkRole; metrics: PlayerMetrics } | null {
+  const profile = getGameModeProfile(bundle.match.queueId, bundle.match.gameMode);
+  if (!profile?.usesRoles) return null;
+
+  const player = bundle.match.participants.find(p => p.puuid === puuid);
+  if (!player) return null;
+
+  return {
+    role: toBenchmarkRole(roleInference?.position || player.teamPosition),
+    metrics: computePlayerMetrics({
+      kills: player.kills,
+      deaths: player.deaths,
+      assists: player.assists,
+      cs: player.totalMinionsKilled + player.neutralMinionsKilled,
+      visionScore: player.visionScore,
+      damageDealt: player.totalDamageDealtToChampions || 0,
+      duration: bundle.match.gameDuration,
+    }),
+  };
+}
@@ -8,6 +8,10 @@ export interface Env {
   RIOT_API_KEY: string;
   RESEND_API_KEY: string;
   AUTH_SECRET: string;
+  ADMIN_API_KEY?: string;
+  ADMIN_ALERT_EMAIL?: string; // Receives budget alerts
+  LLM_DAILY_BUDGET_USD?: string; // Global daily LLM spend cap
+  LLM_USER_DAILY_BUDGET_USD?: string; // Daily LLM spend cap per user
   FRONTEND_URL: string;
   ENVIRONMENT: string;
 }
@@ -23,6 +27,7 @@ export interface RiotMatchData {
   duration?: number;
   gameMode?: string;
   queueId?: number;
+  gameVersion?: string;
 
   // Role/Position
   role?: string;
@@ -82,6 +87,15 @@ export interface RiotMatchData {
   }>;
 }
 
+// Analysis pipeline mode
+// - rules: deterministic timeline engine only (no LLM calls)
+// - ai: Claude coaching (falls back to rules engine if the AI call fails)
+// - hybrid: timeline engine + Claude coaching
+export type AnalysisMode = 'rules' | 'ai' | 'hybrid';
+
+// User plan (users.subscription_tier), selects the LLM settings (model, max tokens) of each call site
+export type SubscriptionTier = 'free' | 'pro' | 'unlimited';
+
 // Queue job for async analysis
 export interface AnalysisJob {
   analysisId: string;
@@ -90,6 +104,9 @@ export interface AnalysisJob {
   region: string;
   videoKey?: string;
   language?: string;
+  mode?: AnalysisMode; // Defaults to 'ai'
+  tier?: string; // Player's rank tier (e.g. "GOLD"), selects the benchmark bracket
+  subscriptionTier?: SubscriptionTier; // Defaults to the tier of the player's account
   matchData?: RiotMatchData; // Full match data from Riot API
 }
 
@@ -108,15 +125,24 @@ export type ErrorType =
   | 'roaming'
   | 'teamfight'
   // Extended types from AI analysis
+  | 'death' // Avoidable death, validated against the real deaths of the timeline
   | 'death-timing'
   | 'power-spike'
   | 'macro-positioning'
   | 'back-timing'
+  | 'skill-order'
+  | 'jungle-pathing'
   | 'split-push'
   | 'timing-exploitation';
 
 export type ErrorSeverity = 'critical' | 'high' | 'medium' | 'low';
 
+// Where an error comes from: timeline detectors (lib/analysis) or the AI coach
+export type ErrorSource = 'detector' | 'ai';
+
+// Whether an error was matched against real game data
+export type ErrorVerification = 'timeline-confirmed' | 'video-confirmed' | 'unverified';
+
 export interface GameError {
   id: string;
   type: ErrorType;
@@ -130,6 +156,11 @@ export interface GameError {
   clipEnd?: number;
   // Extended coaching note
   coachingNote?: string;
+  // Origin of the error (detector errors are grounded in timeline data)
+  source?: ErrorSource;
+  verification?: ErrorVerification;
+  // Win probability delta (percentage points) around the error, negative = cost
+  impact?: number;
   videoClip?: {
     start: number;
     end: number;
@@ -186,22 +217,173 @@ export interface PerformanceSummary {
   rankUpTip?: string;
 }
 
+// Death-by-death breakdown from AI analysis
+export interface DeathAnalysis {
+  deathNumber: number;
+  timestamp: number; // seconds
+  gamePhase: 'early' | 'mid' | 'late';
+  situationContext: string;
+  fightAnalysis: {
+    wasWinnable: boolean;
+    reason: string;
+    goldState: string;
+    levelState: string;
+    cooldownsAvailable: string;
+  };
+  whatWentWrong: string;
+  whatShouldHaveDone: string;
+  deathCost: string;
+  coachVerdict: 'critical' | 'avoidable' | 'unlucky' | 'acceptable';
+}
+
+// Lane state vs the lane opponent at a given minute
+export interface LaneSnapshot {
+  gold: number;
+  xp: number;
+  cs: number;
+  level: number;
+  goldDiff: number;
+  xpDiff: number;
+  csDiff: number;
+  levelDiff: number;
+}
+
+// GD/XPD/CSD/level diff @10/@15/@20 from the match timeline
+export interface LaneDifferentials {
+  opponent: string;
+  at10?: LaneSnapshot;
+  at15?: LaneSnapshot;
+  at20?: LaneSnapshot;
+}
+
+// Role of a participant, from Riot's teamPosition or inferred from the timeline
+export interface RoleInference {
+  position: string; // TOP, JUNGLE, MIDDLE, BOTTOM, UTILITY
+  confidence: number; // 0-1
+  source: 'riot' | 'inferred';
+  riotPosition?: string; // teamPosition reported by Riot, if any
+  laneOpponent?: string; // champion played by the resolved lane opponent
+}
+
+// Item timings measured for the player (seconds), with the lane opponent's completions to compare
+export interface ItemizationSummary {
+  legendaryItems: Array<{ itemId: number; completedAt: number }>;
+  opponentLegendaryItems?: Array<{ itemId: number; completedAt: number }>; // No lane opponent: omitted
+  controlWardsBought: number;
+  longestControlWardGap: number; // minutes without buying a control ward after laning phase
+}
+
+// ARAM benchmarks measured for the player (Howling Abyss profile)
+export interface AramSummary {
+  damageShare: number; // % of the team's champion damage
+  deathsPer10: number;
+  pokeTakenPerMin: number; // damage taken outside fights
+  teamPokeTakenPerMin: number;
+}
+
+// Objective taken by either team, with the player's distance and alive state
+export interface ObjectiveEvent {
+  type: 'dragon' | 'elder' | 'baron' | 'herald' | 'grubs' | 'plate' | 'tower' | 'inhibitor' | 'soul';
+  timestamp: number;
+  takenByPlayerTeam: boolean;
+  lane?: string;
+  playerDistance: number;
+  playerAlive: boolean;
+}
+
+// Win probability of the player's team over the game
+export interface WinProbabilityPoint {
+  timestamp: number;
+  probability: number;
+  event?: string;
+}
+
+export interface SwingMoment {
+  timestamp: number;
+  before: number;
+  after: number;
+  delta: number;
+  cause: string;
+}
+
+// Positive moment detected from the match timeline
+export interface Highlight {
+  type: string;
+  timestamp: number;
+  title: string;
+  description: string;
+}
+
+// Jungle pathing summary from the match timeline (JUNGLE players only)
+export interface JungleSummary {
+  clearPath: Array<{
+    timestamp: number;
+    area: string;
+    position: { x: number; y: number };
+    jungleCS: number;
+  }>;
+  firstClearEndsAt: number;
+  ganks: Array<{
+    timestamp: number;
+    lane: 'top' | 'mid' | 'bot';
+    kills: number;
+    deaths: number;
+    success: boolean;
+    outcome: 'kill' | 'death' | 'trade' | 'nothing';
+  }>;
+  counterJungleMinutes: number;
+  objectiveSpawns: number;
+  objectiveSpawnsPresent: number;
+}
+
 export interface AnalysisStats {
   overallScore: number;
   csScore: number;
   visionScore: number;
   positioningScore: number;
   objectiveScore: number;
+  tradingScore?: number; // Timeline engine only
   deathsAnalyzed: number;
   errorsFound: number;
   comparedToRank: {
     metric: string;
     yours: number;
     average: number;
-    percentile: number;
+    percentile: number; // Share of Nexra players of the role and bracket doing worse
+    sampleSize?: number; // Analyses behind the percentile, 0 when estimated from benchmarks
   }[];
   // Performance summary from AI coach
   performanceSummary?: PerformanceSummary;
+  deathsAnalysis?: DeathAnalysis[];
+  // Pipeline that produced these results
+  analysisMode?: AnalysisMode;
+  // Ability ranked at each level (from the match timeline)
+  skillOrder?: string[];
+  jungle?: JungleSummary;
+  highlights?: Highlight[];
+  laning?: LaneDifferentials;
+  winProbability?: WinProbabilityPoint[];
+  swingMoments?: SwingMoment[];
+  objectiveEvents?: ObjectiveEvent[];
+  aram?: AramSummary;
+  itemization?: ItemizationSummary;
+  role?: RoleInference;
+}
+
+// Teamfight reconstructed from the match timeline
+export interface Teamfight {
+  start: number; // seconds
+  end: number; // seconds
+  position: { x: number; y: number };
+  allies: string[];
+  enemies: string[];
+  kills: { ally: number; enemy: number };
+  outcome: 'won' | 'lost' | 'even';
+  playerAlive: boolean;
+  playerInvolved: boolean;
+  playerPosition?: { x: number; y: number };
+  playerDistance: number;
+  playerDiedFirst: boolean;
 }
 
 export interface Analysis {
@@ -228,6 +410,7 @@ export interface Analysis {
   errors?: GameError[];
   tips?: CoachingTip[];
   clips?: VideoClip[];
+  teamfights?: Teamfight[];
 
   // Error info
   errorMessage?: string;
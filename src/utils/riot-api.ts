@@ -10,6 +10,8 @@ export interface RiotMatchData {
   info: {
     gameDuration: number;
     gameMode: string;
+    queueId?: number;
+    gameVersion?: string;
     participants: Array<{
       participantId: number;
       puuid: string;
@@ -26,6 +28,9 @@ export interface RiotMatchData {
       visionScore: number;
       totalMinionsKilled: number;
       neutralMinionsKilled: number;
+      totalDamageDealtToChampions?: number;
+      summoner1Id?: number;
+      summoner2Id?: number;
     }>;
   };
 }
@@ -50,6 +55,10 @@ export interface RiotTimelineData {
           minionsKilled: number;
           jungleMinionsKilled: number;
           timeEnemySpentControlled: number;
+          damageStats?: {
+            totalDamageDoneToChampions: number;
+            totalDamageTaken: number;
+          };
         };
       };
       events: Array<{
@@ -59,6 +68,16 @@ export interface RiotTimelineData {
         killerId?: number;
         victimId?: number;
         assistingParticipantIds?: number[];
+        victimDamageReceived?: Array<{
+          participantId: number;
+          basic: boolean;
+          magicDamage: number;
+          physicalDamage: number;
+          trueDamage: number;
+          spellName: string;
+          spellSlot: number;
+          type: string;
+        }>;
         position?: { x: number; y: number };
         monsterType?: string;
         monsterSubType?: string;
@@ -70,7 +89,11 @@ export interface RiotTimelineData {
         laneType?: string;
         teamId?: number;
         itemId?: number;
+        afterId?: number;
+        beforeId?: number;
+        goldGain?: number;
         skillSlot?: number;
+        levelUpType?: string;
       }>;
     }>;
   };
@@ -153,12 +176,16 @@ export function transformMatchData(riotMatch: RiotMatchData): {
   matchId: string;
   gameDuration: number;
   gameMode: string;
+  queueId?: number;
+  gameVersion?: string;
   participants: MatchParticipant[];
 } {
   return {
     matchId: riotMatch.metadata.matchId,
     gameDuration: riotMatch.info.gameDuration,
     gameMode: riotMatch.info.gameMode,
+    queueId: riotMatch.info.queueId,
+    gameVersion: riotMatch.info.gameVersion,
     participants: riotMatch.info.participants.map(p => ({
       participantId: p.participantId,
       puuid: p.puuid,
@@ -174,6 +201,9 @@ export function transformMatchData(riotMatch: RiotMatchData): {
       visionScore: p.visionScore,
       totalMinionsKilled: p.totalMinionsKilled,
       neutralMinionsKilled: p.neutralMinionsKilled,
+      totalDamageDealtToChampions: p.totalDamageDealtToChampions,
+      summoner1Id: p.summoner1Id,
+      summoner2Id: p.summoner2Id,
     })),
   };
 }
@@ -192,6 +222,7 @@ export function transformTimelineData(riotTimeline: RiotTimelineData): {
         killerId: event.killerId,
         victimId: event.victimId,
         assistingParticipantIds: event.assistingParticipantIds,
+        victimDamageReceived: event.victimDamageReceived,
         position: event.position,
         monsterType: event.monsterType as TimelineEvent['monsterType'],
         monsterSubType: event.monsterSubType as TimelineEvent['monsterSubType'],
@@ -203,7 +234,11 @@ export function transformTimelineData(riotTimeline: RiotTimelineData): {
         laneType: event.laneType as TimelineEvent['laneType'],
         teamId: event.teamId,
         itemId: event.itemId,
+        afterId: event.afterId,
+        beforeId: event.beforeId,
+        goldGain: event.goldGain,
         skillSlot: event.skillSlot,
+        levelUpType: event.levelUpType as TimelineEvent['levelUpType'],
       })),
     })),
   };